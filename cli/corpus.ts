@@ -0,0 +1,11 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { validateCorpus, type Corpus } from '../services/regression';
+
+// Corpus directory: manifest.json plus the report files it names
+export const loadCorpus = async (dir: string): Promise<{ corpus: Corpus, readReport: (file: string) => Promise<string> }> => {
+  const manifest = path.join(dir, 'manifest.json');
+  const { corpus, errors } = validateCorpus(JSON.parse(await readFile(manifest, 'utf8')));
+  if (!corpus) throw new Error(`${manifest}: ${errors.slice(0, 5).join('; ')}`);
+  return { corpus, readReport: file => readFile(path.join(dir, file), 'utf8') };
+};
@@ -0,0 +1,15 @@
+import { readdir } from 'fs/promises';
+import path from 'path';
+
+// Recursive walk, keeping only files some importer claims by extension; sorted for reproducible output
+export const collectFiles = async (dir: string, extensions: Set<string>): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .map(async entry => {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) return collectFiles(full, extensions);
+      return entry.isFile() && extensions.has(path.extname(entry.name).toLowerCase()) ? [full] : [];
+    }));
+  return nested.flat();
+};
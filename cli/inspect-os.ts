@@ -0,0 +1,428 @@
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { FeatureMap, MeasurementNoise, MLResponse } from '../types';
+import { importReport, listImporters, type CsvColumnMapping } from '../services/importers';
+import { LABELS, SEVERITIES, validateRuleSet, type RuleSet } from '../services/ruleEngine';
+import { validateModel } from '../services/statModel';
+import { parseFeatureMap } from '../services/featureMap';
+import { indexShots, parseShotLog } from '../services/shotLog';
+import { validateNoise } from '../services/gageRR';
+import { createInspectionContext, exitCodeFor, inspectText, EXIT_CODES, type InspectionContext, type InspectionOutcome } from '../services/pipeline';
+import { DEFAULT_SERVICE_PORT } from '../services/lineFeed';
+import { collectFiles } from './files';
+import { DEFAULT_UI_ORIGINS, startService } from './server';
+import { loadCorpus } from './corpus';
+import { diffSnapshots, expectedSnapshot, formatChangeReport, runCorpus, type RegressionSnapshot } from '../services/regression';
+import { DEFAULT_NOISE_MM, DEFAULT_TEMPLATE, generateReport, generateSet, templateFromFeatures, type PartTemplate } from '../services/synthetic';
+
+/**
+ * INSPECT-OS COMMAND LINE
+ * Classifies CMM reports without the station UI, for post-measurement hooks on the CMM PC and MES scripts.
+ *
+ *   inspect-os classify report.txt --format json
+ *   inspect-os classify ./shift-2/            (recursive; every file an importer claims by extension)
+ *   cat report.txt | inspect-os classify -    (stdin; --name gives the importer a file name to go on)
+ *   inspect-os serve --watch //cmm-share/reports   (local REST/WebSocket service, see server.ts)
+ *   inspect-os regress tests/corpus --against v5.snapshot.json   (verdict changes between engine versions)
+ *   inspect-os generate --label all --severity all --count 20 --out ./synthetic   (seeded test reports, see synthetic.ts)
+ *
+ * Exit code: 0 all accepted, 1 any reject, 2 unreadable input or usage error, 3 any report needing review.
+ */
+
+const USAGE = `Usage: inspect-os classify [options] <report|directory|->...
+       inspect-os serve [options]
+       inspect-os regress [options] <corpus directory>
+       inspect-os generate [options]
+
+Classify options:
+  --format <text|json>     Output format (default: text). JSON is one object per report, an array for several.
+  --name <file name>       File name for the report read from stdin.
+
+Serve options:
+  --watch <directory>      Drop folder to classify new reports from (polled, recursive).
+  --port <n>               HTTP and WebSocket port (default: ${DEFAULT_SERVICE_PORT}).
+  --host <address>         Interface to bind (default: 127.0.0.1).
+  --data <directory>       Where results are stored (default: ./inspect-os-data).
+  --poll <ms>              Watch interval (default: 2000).
+  --skip-existing          Do not back-fill reports already in the folder at start-up.
+  --allow-origin <origin>  Browser origin of the station UI (default: http://localhost:3000). Repeatable.
+
+Regress options:
+  --against <snapshot>     Compare with a snapshot from another engine version instead of the corpus expectations.
+  --out <snapshot>         Write this run's snapshot, to compare a later engine version against.
+
+Generate options:
+  --label <label|all>      Defect morphology: ${LABELS.join(', ')} (default: Good). Partial names like gas or coldshut work.
+  --severity <level|all>   ${SEVERITIES.join(', ')} (default: Moderate).
+  --mix <label,...>        Further defects superimposed at a lighter severity.
+  --seed <n>               First seed (default: 1). The same seed always gives the same report.
+  --count <n>              Reports per label and severity (default: 1).
+  --noise <mm>             Measurement noise standard deviation (default: ${DEFAULT_NOISE_MM}).
+  --template <report>      Take part number, features and tolerances from a measured report instead of the built-in A3188.
+  --out <directory>        Write the reports and a labels.csv there; without it a single report goes to stdout.
+
+Shared options:
+  --importer <id>          Skip format detection and use this importer (${listImporters().map(i => i.id).join(', ')}).
+  --rules <file>           Rule set JSON (one rule set or an array), as exported from the Rules view.
+  --model <file>           Trained model JSON, as exported from the Model Lab.
+  --feature-map <file>     Part feature map, <partId>.features.csv or JSON. Repeatable.
+  --mappings <file>        Saved CSV column mappings (JSON array) for generic CSV exports.
+  --shots <file>           Shot-monitoring log (CSV) to join process parameters from.
+  --gage <file>            Measurement noise JSON from a Gage R&R study, as exported from the Gage R&R view. Repeatable.
+  -h, --help               Show this help.
+
+Exit codes: 0 accept, 1 reject, 2 unreadable report or usage error, 3 needs review.
+regress exits 1 when any case changed verdict.`;
+
+class UsageError extends Error {}
+
+type Label = MLResponse['Label'];
+type Severity = MLResponse['Severity'];
+
+// --- Arguments ---
+
+interface CliOptions {
+  format: 'text' | 'json';
+  importerId?: string;
+  rules?: string;
+  model?: string;
+  featureMaps: string[];
+  gage: string[];
+  mappings?: string;
+  shots?: string;
+  name?: string;
+  inputs: string[];
+  watch?: string;
+  port: number;
+  host: string;
+  data: string;
+  poll: number;
+  skipExisting: boolean;
+  allowOrigins: string[];
+  against?: string;
+  out?: string;
+  labels: Label[];
+  severities: Severity[];
+  mix: Label[];
+  seed: number;
+  count: number;
+  noise?: number;
+  template?: string;
+}
+
+// Labels by any unambiguous part of their name: gas, coldshut, offset
+const labelNamed = (name: string): Label => {
+  const key = name.toLowerCase().replace(/[^a-z]/g, '');
+  const exact = LABELS.find(l => l.toLowerCase().replace(/[^a-z]/g, '') === key);
+  const partial = LABELS.filter(l => key && l.toLowerCase().replace(/[^a-z]/g, '').includes(key));
+  if (exact) return exact;
+  if (partial.length === 1) return partial[0];
+  throw new UsageError(partial.length ? `Ambiguous label '${name}': ${partial.join(', ')}` : `Unknown label '${name}'`);
+};
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    format: 'text', featureMaps: [], gage: [], inputs: [],
+    port: DEFAULT_SERVICE_PORT, host: '127.0.0.1', data: 'inspect-os-data', poll: 2000, skipExisting: false, allowOrigins: [],
+    labels: ['Good'], severities: ['Moderate'], mix: [], seed: 1, count: 1
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const v = args[++i];
+      if (v === undefined) throw new UsageError(`${arg} needs a value`);
+      return v;
+    };
+    const count = (min: number) => {
+      const v = Number(value());
+      if (!Number.isInteger(v) || v < min) throw new UsageError(`${arg} needs a whole number of at least ${min}`);
+      return v;
+    };
+    switch (arg) {
+      case '--format': {
+        const format = value();
+        if (format !== 'text' && format !== 'json') throw new UsageError(`Unknown format '${format}'`);
+        options.format = format;
+        break;
+      }
+      case '--importer': options.importerId = value(); break;
+      case '--rules': options.rules = value(); break;
+      case '--model': options.model = value(); break;
+      case '--feature-map': options.featureMaps.push(value()); break;
+      case '--mappings': options.mappings = value(); break;
+      case '--shots': options.shots = value(); break;
+      case '--gage': options.gage.push(value()); break;
+      case '--name': options.name = value(); break;
+      case '--watch': options.watch = value(); break;
+      case '--port': options.port = count(0); break;
+      case '--host': options.host = value(); break;
+      case '--data': options.data = value(); break;
+      case '--poll': options.poll = count(100); break;
+      case '--skip-existing': options.skipExisting = true; break;
+      case '--allow-origin': options.allowOrigins.push(value()); break;
+      case '--against': options.against = value(); break;
+      case '--out': options.out = value(); break;
+      case '--label': {
+        const v = value();
+        options.labels = v === 'all' ? LABELS : [labelNamed(v)];
+        break;
+      }
+      case '--severity': {
+        const v = value();
+        const severity = SEVERITIES.find(s => s.toLowerCase() === v.toLowerCase());
+        if (v !== 'all' && !severity) throw new UsageError(`Unknown severity '${v}'`);
+        options.severities = severity ? [severity] : SEVERITIES;
+        break;
+      }
+      case '--mix': options.mix = value().split(',').map(labelNamed); break;
+      case '--seed': options.seed = count(0); break;
+      case '--count': options.count = count(1); break;
+      case '--noise': {
+        const v = Number(value());
+        if (!Number.isFinite(v) || v < 0) throw new UsageError(`${arg} needs a non-negative number of millimetres`);
+        options.noise = v;
+        break;
+      }
+      case '--template': options.template = value(); break;
+      default:
+        if (arg.startsWith('--')) throw new UsageError(`Unknown option '${arg}'`);
+        options.inputs.push(arg);
+    }
+  }
+  if (options.importerId && !listImporters().some(i => i.id === options.importerId)) {
+    throw new UsageError(`Unknown importer '${options.importerId}'`);
+  }
+  return options;
+};
+
+// --- Station Configuration ---
+
+// A missing or unreadable configuration file is a usage error (exit 2), not a crash
+const readText = async (file: string) => {
+  try {
+    return await readFile(file, 'utf8');
+  } catch (err) {
+    throw new UsageError(`${file}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+const readJson = async (file: string): Promise<unknown> => {
+  const text = await readText(file);
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new UsageError(`${file}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+const invalid = (file: string, errors: string[]) => new UsageError(`${file}: ${errors.slice(0, 5).join('; ')}`);
+
+const loadContext = async (options: CliOptions): Promise<InspectionContext> => {
+  const ruleSets: RuleSet[] = [];
+  if (options.rules) {
+    const input = await readJson(options.rules);
+    for (const candidate of Array.isArray(input) ? input : [input]) {
+      const { ruleSet, errors } = validateRuleSet(candidate);
+      if (!ruleSet) throw invalid(options.rules, errors);
+      ruleSets.push(ruleSet);
+    }
+  }
+
+  let model = null;
+  if (options.model) {
+    const validated = validateModel(await readJson(options.model));
+    if (!validated.model) throw invalid(options.model, validated.errors);
+    model = validated.model;
+  }
+
+  const featureMaps: FeatureMap[] = [];
+  for (const file of options.featureMaps) {
+    // The part number comes from the file name, as when exported from the Feature Map editor
+    const partId = path.basename(file).replace(/\.features\.(csv|json)$/i, '').replace(/\.[^.]+$/, '');
+    const { featureMap, errors } = parseFeatureMap(await readText(file), partId);
+    if (!featureMap) throw invalid(file, errors);
+    featureMaps.push(featureMap);
+  }
+
+  let mappings: CsvColumnMapping[] = [];
+  if (options.mappings) {
+    const input = await readJson(options.mappings);
+    const list = Array.isArray(input) ? input : [input];
+    if (!list.every(m => m && typeof m.signature === 'string' && typeof m.columns === 'object')) {
+      throw invalid(options.mappings, ['expected saved column mappings with signature and columns']);
+    }
+    mappings = list as CsvColumnMapping[];
+  }
+
+  let shots = indexShots([]);
+  if (options.shots) {
+    const parsed = parseShotLog(await readText(options.shots), path.basename(options.shots));
+    if (parsed.shots.length === 0) throw invalid(options.shots, parsed.errors);
+    shots = indexShots(parsed.shots);
+  }
+
+  const noise: MeasurementNoise[] = [];
+  for (const file of options.gage) {
+    const validated = validateNoise(await readJson(file));
+    if (!validated.noise) throw invalid(file, validated.errors);
+    noise.push(validated.noise);
+  }
+
+  return createInspectionContext({ ruleSets, model, featureMaps, mappings, noise, shots });
+};
+
+// --- Inputs ---
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const unreadable = (source: string, error: string): InspectionOutcome => ({ source, disposition: 'error', features: [], diagnostics: [], error });
+
+const classify = async (options: CliOptions): Promise<InspectionOutcome[]> => {
+  const ctx = await loadContext(options);
+  const inputs = options.inputs.length ? options.inputs : process.stdin.isTTY ? [] : ['-'];
+  if (inputs.length === 0) throw new UsageError('No report given');
+  const extensions = new Set(listImporters(ctx.mappings).flatMap(i => i.extensions));
+
+  const outcomes: InspectionOutcome[] = [];
+  for (const input of inputs) {
+    if (input === '-') {
+      outcomes.push(inspectText(await readStdin(), ctx, { source: options.name ?? 'stdin', importerId: options.importerId }));
+      continue;
+    }
+    let files: string[];
+    try {
+      files = (await stat(input)).isDirectory() ? await collectFiles(input, extensions) : [input];
+    } catch (err) {
+      outcomes.push(unreadable(input, err instanceof Error ? err.message : String(err)));
+      continue;
+    }
+    if (files.length === 0) outcomes.push(unreadable(input, 'No report files in directory'));
+    // A file that cannot be read is reported like a bad directory; the others are still inspected
+    for (const file of files) {
+      let text: string;
+      try {
+        text = await readFile(file, 'utf8');
+      } catch (err) {
+        outcomes.push(unreadable(file, err instanceof Error ? err.message : String(err)));
+        continue;
+      }
+      outcomes.push(inspectText(text, ctx, { source: file, importerId: options.importerId }));
+    }
+  }
+  return outcomes;
+};
+
+// --- Regression ---
+
+const regress = async (options: CliOptions) => {
+  if (options.inputs.length !== 1) throw new UsageError('regress takes one corpus directory');
+  const { corpus, readReport } = await loadCorpus(options.inputs[0]);
+  const current = await runCorpus(corpus, readReport, await loadContext(options));
+  const previous = options.against ? await readJson(options.against) as RegressionSnapshot : expectedSnapshot(corpus);
+  if (!Array.isArray(previous?.runs)) throw new UsageError(`${options.against}: not a regression snapshot`);
+  const changes = diffSnapshots(previous, current);
+  if (options.out) await writeFile(options.out, JSON.stringify(current, null, 2) + '\n');
+  console.log(options.format === 'json'
+    ? JSON.stringify({ before: previous.engine, after: current.engine, cases: current.runs.length, changes }, null, 2)
+    : formatChangeReport(previous, current, changes));
+  process.exitCode = changes.length ? 1 : 0;
+};
+
+// --- Synthetic Reports ---
+
+const loadTemplate = async (file: string): Promise<PartTemplate> => {
+  let report;
+  try {
+    report = importReport(await readFile(file, 'utf8'), { fileName: path.basename(file) });
+  } catch (err) {
+    throw new UsageError(`${file}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (report.features.length === 0) throw new UsageError(`${file}: no features to use as a template`);
+  return templateFromFeatures(report.header.partId, report.features);
+};
+
+const generate = async (options: CliOptions) => {
+  if (options.inputs.length) throw new UsageError('generate takes no report arguments; use --template');
+  const template = options.template ? await loadTemplate(options.template) : DEFAULT_TEMPLATE;
+  const mix = options.mix.filter((l): l is Exclude<Label, 'Good'> => l !== 'Good');
+
+  if (!options.out) {
+    if (options.labels.length > 1 || options.severities.length > 1 || options.count > 1) {
+      throw new UsageError('Several reports need --out <directory>');
+    }
+    const report = generateReport(template, { label: options.labels[0], severity: options.severities[0], seed: options.seed, mix, noise: options.noise });
+    console.log(report.text);
+    return;
+  }
+
+  const reports = generateSet(template, { labels: options.labels, severities: options.severities, count: options.count, seed: options.seed, mix, noise: options.noise });
+  await mkdir(options.out, { recursive: true });
+  for (const report of reports) await writeFile(path.join(options.out, report.fileName), report.text + '\n');
+  // Ground truth for training and for scoring the engine against
+  const labels = ['file,label,severity,seed,mix', ...reports.map(r => [r.fileName, r.label, r.severity, r.seed, r.mix.join('+')].join(','))];
+  await writeFile(path.join(options.out, 'labels.csv'), labels.join('\n') + '\n');
+  console.log(`${reports.length} report${reports.length === 1 ? '' : 's'} of ${template.partId} written to ${options.out}`);
+};
+
+// --- Output ---
+
+const formatText = (o: InspectionOutcome) => {
+  const head = `${o.disposition.toUpperCase().padEnd(6)}  ${o.source}`;
+  if (!o.result) return `${head}  ${o.error}`;
+  const r = o.result;
+  const lines = [`${head}  ${r.Part_ID}  ${r.Label} (${r.Severity}, ${Math.round(r.Confidence)}%)${r.Rule_Set ? `  rules ${r.Rule_Set}` : ''}`];
+  if (r.Label !== 'Good') lines.push(`        ${r.Recommended_Action}`);
+  const failing = (r.Gdt || []).filter(g => g.status === 'fail');
+  if (failing.length) lines.push(`        GD&T out: ${failing.map(g => `${g.id} ${g.value.toFixed(3)} > ${+(g.tolerance + g.bonus).toFixed(3)}`).join(', ')}`);
+  return lines.join('\n');
+};
+
+const main = async () => {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  try {
+    if (!['classify', 'serve', 'regress', 'generate'].includes(command)) throw new UsageError(`Unknown command '${command}'`);
+    const options = parseArgs(args);
+    if (command === 'serve') {
+      if (options.inputs.length) throw new UsageError(`serve takes no report arguments; use --watch or POST /inspections`);
+      const service = await startService(await loadContext(options), {
+        host: options.host, port: options.port, dataDir: options.data, watch: options.watch,
+        pollMs: options.poll, skipExisting: options.skipExisting, importerId: options.importerId,
+        allowedOrigins: options.allowOrigins.length ? options.allowOrigins : DEFAULT_UI_ORIGINS
+      });
+      const stop = () => { service.close().then(() => process.exit(0)); };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+      return;
+    }
+    if (command === 'regress') {
+      await regress(options);
+      return;
+    }
+    if (command === 'generate') {
+      await generate(options);
+      return;
+    }
+    const outcomes = await classify(options);
+    console.log(options.format === 'json'
+      ? JSON.stringify(outcomes.length === 1 ? outcomes[0] : outcomes, null, 2)
+      : outcomes.map(formatText).join('\n'));
+    process.exitCode = exitCodeFor(outcomes);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`inspect-os: ${err.message}\n\n${USAGE}`);
+    process.exitCode = EXIT_CODES.error;
+  }
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.stack : err);
+  process.exitCode = EXIT_CODES.error;
+});
@@ -0,0 +1,61 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import { globToRegExp } from '../services/ruleEngine';
+import type { ServiceRecord } from '../services/lineFeed';
+
+/**
+ * SERVICE RESULT STORE
+ * Append-only JSON Lines file under the service's data directory: one inspection per line, readable with any
+ * tool and safe against a crash mid-write (a torn last line is skipped on load).
+ */
+
+export interface InspectionQuery {
+  // Exact part number or a glob such as "A3188-*"
+  part?: string;
+  // Report timestamp lower bound (ms since epoch)
+  since?: number;
+  limit?: number;
+}
+
+export const createResultStore = async (dataDir: string) => {
+  await mkdir(dataDir, { recursive: true });
+  const file = path.join(dataDir, 'inspections.jsonl');
+  const records: ServiceRecord[] = [];
+  try {
+    (await readFile(file, 'utf8')).split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try { records.push(JSON.parse(line)); } catch { /* torn write */ }
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+  let nextId = Math.max(0, ...records.map(r => r.id)) + 1;
+
+  return {
+    file,
+    count: () => records.length,
+
+    // Watched files already inspected at their current modification time
+    seenFiles: () => new Set(records.filter(r => r.file).map(r => `${r.file!.path}|${r.file!.modified}`)),
+
+    add: async (record: Omit<ServiceRecord, 'id'>): Promise<ServiceRecord> => {
+      const stored = { ...record, id: nextId++ } as ServiceRecord;
+      await appendFile(file, JSON.stringify(stored) + '\n');
+      records.push(stored);
+      return stored;
+    },
+
+    get: (id: number) => records.find(r => r.id === id),
+
+    // Newest first
+    query: ({ part, since, limit = 100 }: InspectionQuery): ServiceRecord[] => {
+      const pattern = part ? globToRegExp(part.trim()) : undefined;
+      return records
+        .filter(r => (!pattern || pattern.test(r.partId)) && (since === undefined || r.timestamp >= since))
+        .sort((a, b) => b.timestamp - a.timestamp || b.id - a.id)
+        .slice(0, limit);
+    }
+  };
+};
+
+export type ResultStore = Awaited<ReturnType<typeof createResultStore>>;
@@ -0,0 +1,281 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { listImporters } from '../services/importers';
+import { inspectText, reportTimestamp, type InspectionContext, type InspectionOutcome } from '../services/pipeline';
+import type { LiveMessage, ServiceRecord } from '../services/lineFeed';
+import { createResultStore } from './resultStore';
+import { createLiveHub } from './websocket';
+import { collectFiles } from './files';
+
+/**
+ * LOCAL INSPECTION SERVICE
+ * Watches the CMM drop folder, classifies every report that lands there and keeps the results.
+ *
+ *   POST /inspections            report text as the body (?name=&importer=), or JSON { text, name?, importer? }
+ *   GET  /inspections?part=&since=&limit=   newest first; part takes a glob such as A3188-*
+ *   GET  /inspections/:id
+ *   GET  /health
+ *   WS   /live                   every new inspection (and unreadable report) as it is classified
+ *
+ * Browsers may only call it from the allowed origins (the station UI): any page a shop-floor browser opens
+ * could otherwise post forged inspections, since a text/plain upload needs no preflight. Requests without an
+ * Origin header (scripts, curl, the CMM's own uploads) are not browser requests and always pass. Bind to
+ * localhost unless the line network is trusted.
+ */
+
+export interface ServiceOptions {
+  host: string;
+  port: number;
+  dataDir: string;
+  watch?: string;
+  pollMs: number;
+  // Files already in the watched folder at start-up are not back-filled
+  skipExisting: boolean;
+  importerId?: string;
+  // Browser origins allowed to call the API and subscribe to the live feed
+  allowedOrigins: string[];
+}
+
+// The station UI's dev server (`npm run dev`)
+export const DEFAULT_UI_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- HTTP Helpers ---
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    // Stop reading but keep the socket: the handler still has to send the 413, then closes the connection
+    if (size > MAX_BODY_BYTES) {
+      req.pause();
+      reject(new HttpError(413, `Report larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const optionalNumber = (value: string | null, name: string) => {
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new HttpError(400, `'${name}' must be a number`);
+  return n;
+};
+
+// --- Service ---
+
+export const startService = async (ctx: InspectionContext, options: ServiceOptions, log: (msg: string) => void = console.log) => {
+  const store = await createResultStore(options.dataDir);
+  const hub = createLiveHub();
+  const extensions = new Set(listImporters(ctx.mappings).flatMap(i => i.extensions));
+  const originAllowed = (req: IncomingMessage) => req.headers.origin === undefined || options.allowedOrigins.includes(req.headers.origin);
+
+  // Classifies one report, persists it and pushes it to every subscribed station
+  const ingest = async (text: string, source: string, importerId: string | undefined, file?: ServiceRecord['file']) => {
+    const outcome: InspectionOutcome = inspectText(text, ctx, { source, importerId: importerId ?? options.importerId });
+    const { header, metrics, result } = outcome;
+    if (!header || !metrics || !result) {
+      log(`ERROR   ${source}  ${outcome.error}`);
+      hub.broadcast({ type: 'error', source, error: outcome.error ?? 'Unreadable report', timestamp: Date.now() } satisfies LiveMessage);
+      return { outcome, record: undefined };
+    }
+    const record = await store.add({
+      partId: header.partId,
+      timestamp: reportTimestamp(header, file?.modified ?? Date.now()),
+      source,
+      header,
+      result,
+      metrics,
+      features: outcome.features,
+      disposition: outcome.disposition,
+      format: outcome.format ?? '',
+      diagnostics: outcome.diagnostics,
+      file
+    });
+    log(`${outcome.disposition.toUpperCase().padEnd(6)}  ${source}  ${result.Part_ID}  ${result.Label} (${result.Severity}, ${result.Confidence}%)`);
+    hub.broadcast({ type: 'inspection', record } satisfies LiveMessage);
+    return { outcome, record };
+  };
+
+  // --- Watched Folder ---
+
+  let polling: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  let startWatching = () => {};
+
+  if (options.watch) {
+    const root = path.resolve(options.watch);
+    const seen = store.seenFiles();
+    // Size and modification time from the previous poll: a report is read only once it has stopped growing,
+    // so a CMM still writing to the share is never caught half-way
+    const settling = new Map<string, string>();
+    // Last error per file: a report that fails to read or store is retried every poll and logged once per error
+    const failing = new Map<string, string>();
+    let lastError = '';
+
+    const scanFile = async (file: string, initial: boolean) => {
+      const info = await stat(file);
+      const modified = Math.round(info.mtimeMs);
+      const key = `${file}|${modified}`;
+      if (seen.has(key)) return;
+      if (initial && options.skipExisting) { seen.add(key); return; }
+      const signature = `${info.size}|${modified}`;
+      if (settling.get(file) !== signature) { settling.set(file, signature); return; }
+      settling.delete(file);
+      await ingest(await readFile(file, 'utf8'), path.relative(root, file), undefined, { path: file, modified });
+      seen.add(key);
+    };
+
+    const scan = async (initial: boolean) => {
+      try {
+        for (const file of await collectFiles(root, extensions)) {
+          try {
+            await scanFile(file, initial);
+            failing.delete(file);
+          } catch (err) {
+            const msg = err instanceof Error ? err.message : String(err);
+            if (failing.get(file) !== msg) log(`ERROR   ${path.relative(root, file)}  ${msg}`);
+            failing.set(file, msg);
+          }
+        }
+        lastError = '';
+      } catch (err) {
+        // A share that drops off the network is retried every poll; the message is logged once per outage
+        const msg = err instanceof Error ? err.message : String(err);
+        if (msg !== lastError) log(`Watch error: ${msg}`);
+        lastError = msg;
+      }
+    };
+
+    const loop = async (initial: boolean) => {
+      await scan(initial);
+      if (!stopped) polling = setTimeout(() => loop(false), options.pollMs);
+    };
+    startWatching = () => { loop(true); };
+  }
+
+  // --- Routes ---
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = url.pathname.replace(/\/+$/, '') || '/';
+
+    if (!originAllowed(req)) throw new HttpError(403, `Origin ${req.headers.origin} is not allowed; start the service with --allow-origin ${req.headers.origin}`);
+    if (req.headers.origin) {
+      res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+      res.setHeader('Vary', 'Origin');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+      });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && route === '/health') {
+      sendJson(res, 200, { status: 'ok', inspections: store.count(), watching: options.watch ?? null, clients: hub.clients() });
+      return;
+    }
+
+    if (req.method === 'GET' && route === '/inspections') {
+      const part = url.searchParams.get('part') ?? undefined;
+      // Epoch milliseconds or an ISO date
+      const sinceParam = url.searchParams.get('since');
+      const since = sinceParam ? (/^\d+$/.test(sinceParam) ? Number(sinceParam) : Date.parse(sinceParam)) : undefined;
+      if (since !== undefined && isNaN(since)) throw new HttpError(400, `'since' is not a date`);
+      const limit = optionalNumber(url.searchParams.get('limit'), 'limit');
+      sendJson(res, 200, store.query({ part, since, limit: limit === undefined ? undefined : Math.max(1, Math.min(limit, 5000)) }));
+      return;
+    }
+
+    const byId = route.match(/^\/inspections\/(\d+)$/);
+    if (req.method === 'GET' && byId) {
+      const record = store.get(Number(byId[1]));
+      if (!record) throw new HttpError(404, `No inspection ${byId[1]}`);
+      sendJson(res, 200, record);
+      return;
+    }
+
+    if (req.method === 'POST' && route === '/inspections') {
+      const body = await readBody(req);
+      let text = body;
+      let name = url.searchParams.get('name') ?? undefined;
+      let importerId = url.searchParams.get('importer') ?? undefined;
+      if (req.headers['content-type']?.includes('application/json')) {
+        let parsed: { text?: unknown, name?: unknown, importer?: unknown };
+        try { parsed = JSON.parse(body); } catch { throw new HttpError(400, 'Body is not valid JSON'); }
+        if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) throw new HttpError(400, 'JSON body must be an object');
+        if (typeof parsed.text !== 'string') throw new HttpError(400, `JSON body needs a 'text' field with the report`);
+        text = parsed.text;
+        if (typeof parsed.name === 'string') name = parsed.name;
+        if (typeof parsed.importer === 'string') importerId = parsed.importer;
+      }
+      if (!text.trim()) throw new HttpError(400, 'Empty report');
+      const { outcome, record } = await ingest(text, name ?? 'http-upload', importerId);
+      // Unreadable reports come back with the importer's error and diagnostics rather than a bare status
+      sendJson(res, record ? 201 : 422, record ?? outcome);
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(err => {
+      const status = err instanceof HttpError ? err.status : 500;
+      if (status === 500) log(`Request error: ${err instanceof Error ? err.stack : err}`);
+      // The rest of an oversize body is never read, so the connection cannot be reused
+      if (status === 413) {
+        res.setHeader('Connection', 'close');
+        res.on('finish', () => req.destroy());
+      }
+      if (!res.headersSent) sendJson(res, status, { error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const route = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const greeting: LiveMessage = { type: 'hello', inspections: store.count(), watching: options.watch };
+    if (route !== '/live' || !originAllowed(req) || !hub.accept(req, socket, greeting)) socket.destroy();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, resolve);
+  });
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  log(`Inspection service on http://${options.host}:${port} · ${store.count()} stored inspections in ${store.file}${options.watch ? ` · watching ${path.resolve(options.watch)}` : ''}`);
+  // Back-filling a full share can take a while; the API answers meanwhile
+  startWatching();
+
+  return {
+    port,
+    close: () => new Promise<void>(resolve => {
+      stopped = true;
+      clearTimeout(polling);
+      hub.close();
+      server.close(() => resolve());
+    })
+  };
+};
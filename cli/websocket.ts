@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+
+/**
+ * LIVE CHANNEL
+ * Just enough of RFC 6455 for server-to-browser push: the opening handshake, unfragmented text frames out,
+ * and ping/close handling in. Clients never send data, so incoming payloads are otherwise ignored.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Clients only send control frames (at most 125 bytes); anything far larger is refused with 1009 (message too big)
+const MAX_FRAME_BYTES = 64 * 1024;
+const CLOSE_TOO_BIG = 1009;
+
+const frame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const head = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  head[0] = 0x80 | opcode;
+  if (length < 126) head[1] = length;
+  else if (length < 65536) { head[1] = 126; head.writeUInt16BE(length, 2); }
+  else { head[1] = 127; head.writeBigUInt64BE(BigInt(length), 2); }
+  return Buffer.concat([head, payload]);
+};
+
+// Client frames are always masked. Returns the unparsed rest, or null once a frame announces more than the cap
+const readFrames = (buffer: Buffer, onFrame: (opcode: number, payload: Buffer) => void): Buffer | null => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let head = 2;
+    if (length === 126) { if (buffer.length - offset < 4) break; length = buffer.readUInt16BE(offset + 2); head = 4; }
+    else if (length === 127) { if (buffer.length - offset < 10) break; length = Number(buffer.readBigUInt64BE(offset + 2)); head = 10; }
+    if (length > MAX_FRAME_BYTES) return null;
+    if (buffer.length - offset < head + 4 + length) break;
+    const mask = buffer.subarray(offset + head, offset + head + 4);
+    const payload = Buffer.from(buffer.subarray(offset + head + 4, offset + head + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(opcode, payload);
+    offset += head + 4 + length;
+  }
+  return buffer.subarray(offset);
+};
+
+export interface LiveHub {
+  // Completes the upgrade; false when the request is not a WebSocket handshake
+  accept: (req: IncomingMessage, socket: Duplex, greeting?: unknown) => boolean;
+  broadcast: (message: unknown) => void;
+  clients: () => number;
+  close: () => void;
+}
+
+export const createLiveHub = (): LiveHub => {
+  const sockets = new Set<Duplex>();
+
+  const send = (socket: Duplex, message: unknown) => socket.write(frame(0x1, Buffer.from(JSON.stringify(message))));
+
+  const accept: LiveHub['accept'] = (req, socket, greeting) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') return false;
+    const acceptKey = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${acceptKey}`,
+      '', ''
+    ].join('\r\n'));
+    sockets.add(socket);
+
+    let pending: Buffer | null = Buffer.alloc(0);
+    const tooBig = () => {
+      const status = Buffer.alloc(2);
+      status.writeUInt16BE(CLOSE_TOO_BIG);
+      socket.end(frame(0x8, status));
+      sockets.delete(socket);
+    };
+    socket.on('data', (chunk: Buffer) => {
+      if (pending === null) return;
+      pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x8) { socket.end(frame(0x8, Buffer.alloc(0))); sockets.delete(socket); }
+        else if (opcode === 0x9) socket.write(frame(0xa, payload));
+      });
+      // A frame header plus its mask is at most 14 bytes
+      if (pending === null || pending.length > MAX_FRAME_BYTES + 14) {
+        pending = null;
+        tooBig();
+      }
+    });
+    const drop = () => sockets.delete(socket);
+    socket.on('close', drop);
+    socket.on('error', drop);
+    if (greeting !== undefined) send(socket, greeting);
+    return true;
+  };
+
+  return {
+    accept,
+    broadcast: message => sockets.forEach(socket => send(socket, message)),
+    clients: () => sockets.size,
+    close: () => {
+      sockets.forEach(socket => socket.end(frame(0x8, Buffer.alloc(0))));
+      sockets.clear();
+    }
+  };
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Move3d, Eye, EyeOff } from 'lucide-react';
+import type { AlignmentFit } from '../services/alignment';
+
+// --- Best-Fit Alignment ---
+
+const TOP_RESIDUALS = 8;
+
+const signed = (v: number, digits = 3) => `${v >= 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+export const AlignmentPanel = ({ fit, ootMeasured, ootAligned, showAligned, onToggle }: {
+  fit: AlignmentFit | null,
+  ootMeasured: number,
+  ootAligned: number,
+  showAligned: boolean,
+  onToggle: () => void
+}) => {
+  if (!fit) {
+    return (
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl px-6 py-4 shadow-xl text-[10px] font-mono text-slate-500">
+        <Move3d className="w-3.5 h-3.5 inline mr-2 -mt-0.5 text-slate-600" />
+        Too few point or circle positions to best-fit (3 features, 2 rows per fitted axis). Offset is judged by sign agreement only.
+      </div>
+    );
+  }
+
+  const rigid = fit.explained >= 0.8;
+  const top = [...fit.residuals].sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation)).slice(0, TOP_RESIDUALS);
+  const scale = Math.max(...top.map(r => Math.abs(r.deviation)), 1e-6);
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Move3d className="w-4 h-4 text-emerald-500" /> Best-Fit Alignment
+          <span className="font-mono normal-case tracking-normal text-slate-600">
+            {fit.mode} · {fit.points} features · {fit.rows} rows
+          </span>
+        </h3>
+        <button onClick={onToggle} title="Show the deviation profile after alignment" className={`flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest transition-colors ${showAligned ? 'text-emerald-400' : 'text-slate-500'} hover:text-white`}>
+          {showAligned ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />} Profile {showAligned ? 'aligned' : 'as measured'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Datum Shift</div>
+          <div className="text-2xl font-black font-mono text-slate-200">{fit.shift.toFixed(3)}<span className="text-xs text-slate-600">mm</span></div>
+          <div className="text-[9px] font-mono text-slate-600">X {signed(fit.translation.x)} · Y {signed(fit.translation.y)} · Z {signed(fit.translation.z)}</div>
+        </div>
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Rotation</div>
+          <div className="text-2xl font-black font-mono text-slate-200">{fit.rotationDeg.toFixed(3)}<span className="text-xs text-slate-600">°</span></div>
+          <div className="text-[9px] font-mono text-slate-600">{fit.mode === 'translation' ? 'not fitted' : `X ${signed(fit.rotation.x)} · Y ${signed(fit.rotation.y)} · Z ${signed(fit.rotation.z)}`}</div>
+        </div>
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Explained</div>
+          <div className={`text-2xl font-black font-mono ${rigid ? 'text-amber-400' : 'text-slate-200'}`}>{(fit.explained * 100).toFixed(0)}%</div>
+          <div className="text-[9px] font-mono text-slate-600">shift / tol {(fit.shift / fit.tolerance).toFixed(2)}</div>
+        </div>
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">OOT After Fit</div>
+          <div className="text-2xl font-black font-mono text-slate-200">{ootAligned}<span className="text-xs text-slate-600">/{ootMeasured} measured</span></div>
+        </div>
+      </div>
+
+      <div className="text-[10px] leading-relaxed text-slate-400">
+        {rigid
+          ? 'A rigid motion accounts for most of the positional error: the part sits displaced in the fixture or datum frame rather than deformed.'
+          : 'A rigid motion leaves most of the positional error unexplained: the deviation is form error of the casting, not a datum shift.'}
+      </div>
+
+      <div className="space-y-1.5">
+        {top.map(r => (
+          <div key={`${r.featureId}|${r.axis}`} className="flex items-center gap-3 text-[10px] font-mono">
+            <span className="w-40 truncate text-slate-400" title={`${r.featureId} [${r.axis}]`}>{r.featureId}.{r.axis}</span>
+            <div className="flex-1 h-2 bg-slate-900 rounded relative overflow-hidden">
+              <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-700" />
+              <div className="absolute top-0 h-1 bg-slate-600" style={r.deviation >= 0 ? { left: '50%', width: `${Math.abs(r.deviation) / scale * 50}%` } : { right: '50%', width: `${Math.abs(r.deviation) / scale * 50}%` }} />
+              <div className="absolute bottom-0 h-1 bg-emerald-500" style={r.residual >= 0 ? { left: '50%', width: `${Math.min(Math.abs(r.residual) / scale, 1) * 50}%` } : { right: '50%', width: `${Math.min(Math.abs(r.residual) / scale, 1) * 50}%` }} />
+            </div>
+            <span className="w-16 text-right text-slate-600">{signed(r.deviation)}</span>
+            <span className="w-16 text-right text-emerald-400">{signed(r.residual)}</span>
+          </div>
+        ))}
+        <div className="flex gap-4 justify-end text-[8px] font-black uppercase text-slate-600">
+          <span className="flex items-center gap-1"><span className="w-2 h-1 bg-slate-600" /> Measured</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-1 bg-emerald-500" /> Residual</span>
+        </div>
+      </div>
+    </div>
+  );
+};
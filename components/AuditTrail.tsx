@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileSearch } from 'lucide-react';
+import type { MLResponse, RuleTrace } from '../types';
+import { LABELS } from '../services/ruleEngine';
+
+// --- Decision Audit Trail ---
+
+const STATUS_STYLE: Record<RuleTrace['status'], string> = {
+  fired: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10',
+  not_met: 'text-slate-500 border-slate-700 bg-slate-900',
+  skipped: 'text-slate-700 border-slate-800 bg-transparent'
+};
+
+const signed = (n: number) => `${n >= 0 ? '+' : ''}${n}`;
+
+const RuleRow = ({ rule }: { rule: RuleTrace }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="border-b border-slate-800/50 last:border-0">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-slate-800/20 transition-colors" style={{ paddingLeft: `${16 + rule.depth * 20}px` }}>
+        {open ? <ChevronDown className="w-3 h-3 text-slate-600 shrink-0" /> : <ChevronRight className="w-3 h-3 text-slate-600 shrink-0" />}
+        <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-widest w-16 text-center shrink-0 ${STATUS_STYLE[rule.status]}`}>{rule.status.replace('_', ' ')}</span>
+        <span className="text-[10px] font-mono text-slate-300 w-40 truncate shrink-0">{rule.ruleId}</span>
+        <span className="flex-1 text-[10px] text-slate-500 truncate">{rule.description}</span>
+        <span className="text-[10px] font-mono shrink-0">
+          {rule.effects.map((e, i) => (
+            <span key={i} className={`ml-3 ${e.mode === 'set' || e.points >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+              {e.label} {e.mode === 'set' ? `= ${e.points}` : signed(e.points)}
+            </span>
+          ))}
+        </span>
+      </button>
+      {open && (
+        <div className="pb-3 space-y-2 text-[10px] font-mono" style={{ paddingLeft: `${44 + rule.depth * 20}px` }}>
+          <div className="text-slate-500">when <span className="text-slate-300">{rule.expression}</span></div>
+          {rule.conditions.length === 0 ? (
+            <div className="text-slate-700 italic">Not evaluated: parent rule did not fire.</div>
+          ) : (
+            <table className="text-left">
+              <tbody>
+                {rule.conditions.map((c, i) => (
+                  <tr key={i}>
+                    <td className={`pr-3 ${c.met ? 'text-emerald-500' : 'text-red-400'}`}>{c.met ? '✓' : '✗'}</td>
+                    <td className="pr-3 text-slate-400">{c.abs ? `|${c.metric}|` : c.metric}</td>
+                    <td className="pr-3 text-slate-200">{c.observed.toFixed(3)}</td>
+                    <td className="pr-3 text-slate-600">{c.op}</td>
+                    <td className="pr-3 text-slate-400">{typeof c.threshold === 'number' ? c.threshold : `${c.threshold} (${c.compared.toFixed(3)})`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {rule.effects.length > 0 && (
+            <div className="space-y-0.5">
+              {rule.effects.map((e, i) => (
+                <div key={i} className="text-slate-500">{e.label}: {e.before} → <span className="text-slate-200">{e.after}</span></div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AuditTrail = ({ result }: { result: MLResponse }) => {
+  const [expanded, setExpanded] = useState(false);
+  const trace = result.Trace;
+  if (!trace) return null;
+  const fired = trace.rules.filter(r => r.status === 'fired').length;
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+      <button onClick={() => setExpanded(!expanded)} className="w-full p-4 border-b border-slate-800 bg-[#1e293b]/30 flex items-center gap-2 text-left">
+        <FileSearch className="w-4 h-4 text-blue-400" />
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Decision Audit Trail</h3>
+        <span className="text-[9px] font-mono text-slate-600">{fired}/{trace.rules.length} rules fired · {trace.ruleSet}</span>
+        {expanded ? <ChevronDown className="w-4 h-4 text-slate-500 ml-auto" /> : <ChevronRight className="w-4 h-4 text-slate-500 ml-auto" />}
+      </button>
+      {expanded && (
+        <div className="grid grid-cols-1 lg:grid-cols-3">
+          <div className="lg:col-span-2 border-r border-slate-800">
+            {trace.rules.map(rule => <React.Fragment key={rule.ruleId}><RuleRow rule={rule} /></React.Fragment>)}
+            <div className="px-4 py-3 border-t border-slate-800 text-[10px] font-mono text-slate-500">
+              Severity <span className="text-slate-200">{trace.severity.level}</span>
+              {trace.severity.gate ? <> via <span className="text-slate-400">{trace.severity.gate}</span></> : ' (default, no gate matched)'}
+            </div>
+          </div>
+          <div className="p-4">
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-slate-600 uppercase">
+                <tr>
+                  <th className="text-left pb-2">Class</th>
+                  <th className="text-right pb-2">Base</th>
+                  <th className="text-right pb-2">Final</th>
+                  <th className="text-right pb-2">P</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {LABELS.map(l => (
+                  <tr key={l} className={l === result.Label ? 'text-slate-100 font-bold' : 'text-slate-500'}>
+                    <td className="py-1.5">{l.replace('_', ' ')}</td>
+                    <td className="py-1.5 text-right">{trace.baseScores[l]}</td>
+                    <td className="py-1.5 text-right">{trace.scores[l]}</td>
+                    <td className="py-1.5 text-right">{result.Probabilities ? `${(result.Probabilities[l] * 100).toFixed(1)}%` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.Decision_Source && result.Decision_Source !== 'rules' && (
+              <p className="mt-3 text-[9px] font-mono text-slate-600">
+                Final probabilities come from the {result.Decision_Source} policy; scores are the rule engine's vote.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
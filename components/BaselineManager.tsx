@@ -0,0 +1,206 @@
+import React, { useState, useRef } from 'react';
+import { Crosshair, Upload, Plus, Trash2, CheckCircle2, AlertTriangle, X } from 'lucide-react';
+import type { GoldenBaseline, ParsedReport } from '../types';
+import { addGoldenSamples, baselineId, emptyBaseline, goldenSample, removeGoldenSample } from '../services/baseline';
+import { BaselineStore } from '../services/baselineStore';
+
+// --- Golden Baseline Manager ---
+
+export const BaselineManager = ({ baselines, importText, onSaved }: {
+  baselines: GoldenBaseline[],
+  // Parses a report with the station's importers, column mappings and feature maps
+  importText: (text: string, fileName: string) => ParsedReport,
+  onSaved: () => void
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(baselines[0]?.id ?? null);
+  // A baseline created in this session exists only here until its first golden report is added
+  const [draft, setDraft] = useState<GoldenBaseline | null>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const uploadRef = useRef<HTMLInputElement>(null);
+
+  const listed = draft && !baselines.some(b => b.id === draft.id) ? [...baselines, draft] : baselines;
+  const selected = listed.find(b => b.id === selectedId) ?? null;
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setErrors(null);
+    setStatus(null);
+  };
+
+  const save = async (baseline: GoldenBaseline, message: string) => {
+    try {
+      await BaselineStore.save(baseline);
+      setStatus(message);
+      onSaved();
+    } catch (err) {
+      setErrors([`Save failed: ${String(err)}`]);
+    }
+  };
+
+  const handleNew = () => {
+    const partId = window.prompt("Part number (e.g. A3188-337-00)")?.trim();
+    if (!partId) return;
+    const cavity = window.prompt("Cavity (leave empty for a baseline covering every cavity)")?.trim() ?? '';
+    const id = baselineId(partId, cavity);
+    if (!baselines.some(b => b.id === id)) setDraft(emptyBaseline(partId, cavity));
+    select(id);
+  };
+
+  const handleUpload = async (files: File[]) => {
+    if (!selected || files.length === 0) return;
+    const problems: string[] = [];
+    const samples = [];
+    let withOot = 0;
+    for (const file of files) {
+      try {
+        const report = importText(await file.text(), file.name);
+        const { partId, cavity } = report.header;
+        if (partId.toUpperCase() !== selected.partId.toUpperCase()) { problems.push(`${file.name}: part ${partId}, not ${selected.partId}`); continue; }
+        if (selected.cavity && cavity && cavity.toUpperCase() !== selected.cavity.toUpperCase()) { problems.push(`${file.name}: cavity ${cavity}, not ${selected.cavity}`); continue; }
+        if (report.features.length === 0) { problems.push(`${file.name}: no measurement rows`); continue; }
+        if (report.features.some(f => f.outTol === 1)) withOot++;
+        samples.push(goldenSample(file.name, report.features));
+      } catch (err) {
+        problems.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setErrors(problems.length ? problems : null);
+    if (samples.length === 0) return;
+    const updated = addGoldenSamples(selected, samples);
+    await save(updated, `Added ${samples.length} golden report${samples.length === 1 ? '' : 's'}${withOot ? ` (${withOot} with out-of-tolerance features — golden parts should be approved parts)` : ''}.`);
+    setDraft(null);
+  };
+
+  const handleRemoveSample = (source: string) => {
+    if (!selected) return;
+    save(removeGoldenSample(selected, source), `Removed ${source}.`);
+  };
+
+  const handleBand = (value: number) => {
+    if (!selected || !(value > 0) || value === selected.bandFraction) return;
+    if (selected.samples.length === 0) setDraft({ ...selected, bandFraction: value });
+    else save({ ...selected, bandFraction: value }, `Band set to ${(value * 100).toFixed(0)}% of each feature's tolerance width.`);
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!window.confirm(`Delete the golden baseline for ${selected.partId}${selected.cavity ? ` cavity ${selected.cavity}` : ''}?`)) return;
+    if (baselines.some(b => b.id === selected.id)) await BaselineStore.remove(selected.id);
+    setDraft(null);
+    setSelectedId(null);
+    onSaved();
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="xl:col-span-3 space-y-6">
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+          <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
+            <h2 className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2 tracking-widest">
+              <Crosshair className="w-4 h-4 text-emerald-500" /> Golden Baselines
+            </h2>
+            <button onClick={handleNew} title="New baseline" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Plus className="w-4 h-4" /></button>
+          </div>
+          <div className="divide-y divide-slate-800/50">
+            {listed.length === 0 && <div className="px-5 py-4 text-[10px] font-mono text-slate-600">No baselines yet.</div>}
+            {listed.map(b => (
+              <button
+                key={b.id}
+                onClick={() => select(b.id)}
+                className={`w-full text-left px-5 py-3 transition-colors ${b.id === selectedId ? 'bg-slate-800/40' : 'hover:bg-slate-800/20'}`}
+              >
+                <div className="flex justify-between items-baseline">
+                  <span className="text-xs font-bold font-mono text-slate-200">{b.partId}</span>
+                  <span className="text-[9px] font-mono text-emerald-500">{b.samples.length} golden</span>
+                </div>
+                <div className="text-[9px] font-mono text-slate-600">{b.cavity ? `cavity ${b.cavity}` : 'all cavities'}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="xl:col-span-9 bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-2xl flex flex-col h-[760px]">
+        {!selected ? (
+          <div className="flex-1 flex items-center justify-center text-[10px] font-mono text-slate-600 uppercase tracking-widest">Select or create a baseline</div>
+        ) : (
+          <>
+            <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center gap-4">
+              <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                {selected.partId} <span className="text-slate-600">· {selected.cavity ? `cavity ${selected.cavity}` : 'all cavities'}</span>
+              </h3>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-500">
+                  Band
+                  <input
+                    key={`${selected.id}:${selected.bandFraction}`}
+                    type="number"
+                    step="0.05"
+                    min="0.05"
+                    defaultValue={selected.bandFraction}
+                    onBlur={(e) => handleBand(Number(e.target.value))}
+                    className="w-16 bg-[#05080d] border border-slate-800 rounded px-2 py-1 text-xs font-mono text-emerald-400 outline-none"
+                  />
+                  <span className="normal-case tracking-normal font-mono text-slate-600">× tol width</span>
+                </label>
+                <button onClick={() => uploadRef.current?.click()} title="Add golden reports" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Upload className="w-4 h-4" /></button>
+                <input type="file" multiple ref={uploadRef} onChange={(e) => { handleUpload(Array.from(e.target.files || [])); e.target.value = ""; }} className="hidden" />
+                <button onClick={handleDelete} title="Delete baseline" className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar grid grid-cols-1 lg:grid-cols-3">
+              <div className="border-r border-slate-800 p-4 space-y-2">
+                <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Golden Reports</div>
+                {selected.samples.length === 0 && <div className="text-[10px] font-mono text-slate-600">Upload approved reports of this part{selected.cavity ? ' and cavity' : ''}.</div>}
+                {selected.samples.map(s => (
+                  <div key={s.source} className="flex items-center justify-between gap-2 text-[10px] font-mono text-slate-400">
+                    <span className="truncate" title={s.source}>{s.source}</span>
+                    <button onClick={() => handleRemoveSample(s.source)} className="text-slate-600 hover:text-red-400"><X className="w-3 h-3" /></button>
+                  </div>
+                ))}
+              </div>
+              <div className="lg:col-span-2">
+                <table className="w-full text-left">
+                  <thead className="sticky top-0 bg-[#0f172a] text-[9px] font-black uppercase tracking-widest text-slate-500">
+                    <tr>
+                      <th className="px-4 py-2">Feature</th>
+                      <th className="px-4 py-2">Axis</th>
+                      <th className="px-4 py-2 text-right">Mean Dev</th>
+                      <th className="px-4 py-2 text-right">σ</th>
+                      <th className="px-4 py-2 text-right">n</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/50 text-[10px] font-mono">
+                    {selected.features.map(f => (
+                      <tr key={`${f.featureId}|${f.axis}`}>
+                        <td className="px-4 py-1.5 text-slate-300">{f.featureId}</td>
+                        <td className="px-4 py-1.5 text-slate-500">{f.axis}</td>
+                        <td className={`px-4 py-1.5 text-right ${Math.abs(f.mean) >= 0.05 ? 'text-amber-400' : 'text-slate-400'}`}>{f.mean >= 0 ? '+' : ''}{f.mean.toFixed(3)}</td>
+                        <td className="px-4 py-1.5 text-right text-slate-500">{f.std.toFixed(3)}</td>
+                        <td className="px-4 py-1.5 text-right text-slate-600">{f.n}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="p-4 border-t border-slate-800 space-y-2">
+              {errors && errors.length > 0 && (
+                <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+                  {errors.map((e, i) => (
+                    <div key={i} className="flex items-start gap-2 text-[10px] font-mono text-red-400"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {e}</div>
+                  ))}
+                </div>
+              )}
+              {status && <div className="flex items-center gap-2 text-[10px] font-mono text-emerald-400"><CheckCircle2 className="w-3 h-3" /> {status}</div>}
+              {!errors && !status && <div className="text-[10px] font-mono text-slate-600">Mean deviations of ±0.05 mm or more are highlighted: that is the die's own offset, which new parts are measured against.</div>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Crosshair, AlertTriangle, CheckCircle2, Star } from 'lucide-react';
+import type { BaselineComparison } from '../types';
+
+// --- Golden Baseline Comparison ---
+
+const PATTERNS: Record<BaselineComparison['pattern'], { title: string, note: string, color: string }> = {
+  within_band: {
+    title: 'Within Baseline Band',
+    note: 'Deviations match the approved parts of this die; any offset from nominal is the die\'s usual signature.',
+    color: 'text-emerald-400'
+  },
+  drift: {
+    title: 'Uniform Drift',
+    note: 'Most features moved the same way versus the golden parts: consistent with tool wear, die temperature or fixturing rather than a casting defect.',
+    color: 'text-amber-400'
+  },
+  localized: {
+    title: 'Localized Change',
+    note: 'A subset of features moved on their own versus the golden parts: points at the casting itself rather than the die.',
+    color: 'text-red-400'
+  }
+};
+
+const TOP_DELTAS = 8;
+
+export const BaselinePanel = ({ comparison, partId, cavity, onRegister }: {
+  comparison?: BaselineComparison,
+  partId: string,
+  cavity?: string,
+  onRegister: () => void
+}) => {
+  const target = `${partId}${cavity ? ` / cavity ${cavity}` : ''}`;
+
+  if (!comparison) {
+    return (
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl px-6 py-4 shadow-xl flex items-center justify-between gap-4">
+        <div className="text-[10px] font-mono text-slate-500">
+          <Crosshair className="w-3.5 h-3.5 inline mr-2 -mt-0.5 text-slate-600" />
+          No golden baseline for {target}. Deviations are judged against nominal only.
+        </div>
+        <button onClick={onRegister} className="shrink-0 flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-400 transition-colors">
+          <Star className="w-3.5 h-3.5" /> Register as Golden
+        </button>
+      </div>
+    );
+  }
+
+  const pattern = PATTERNS[comparison.pattern];
+  const top = [...comparison.deltas]
+    .sort((a, b) => Math.abs(b.delta) / b.band - Math.abs(a.delta) / a.band)
+    .slice(0, TOP_DELTAS);
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-emerald-500" /> Golden Baseline
+          <span className="font-mono normal-case tracking-normal text-slate-600">
+            {comparison.cavity ? `cavity ${comparison.cavity}` : 'all cavities'} · {comparison.samples} golden part{comparison.samples === 1 ? '' : 's'}
+          </span>
+        </h3>
+        <button onClick={onRegister} title={`Add this report to the golden set of ${target}`} className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-amber-400 transition-colors">
+          <Star className="w-3.5 h-3.5" /> Add as Golden
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Drift Score</div>
+          <div className={`text-2xl font-black font-mono ${comparison.driftScore >= 1 ? 'text-red-400' : comparison.driftScore >= 0.5 ? 'text-amber-400' : 'text-emerald-400'}`}>
+            {comparison.driftScore.toFixed(2)}
+          </div>
+        </div>
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Outside Band</div>
+          <div className="text-2xl font-black font-mono text-slate-200">{comparison.exceeded}<span className="text-xs text-slate-600">/{comparison.matched}</span></div>
+        </div>
+        <div>
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Coherence</div>
+          <div className="text-2xl font-black font-mono text-slate-200">{(comparison.coherence * 100).toFixed(0)}%</div>
+        </div>
+      </div>
+
+      <div className={`flex items-start gap-2 text-[10px] leading-relaxed ${pattern.color}`}>
+        {comparison.pattern === 'within_band' ? <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 shrink-0" /> : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+        <div><span className="font-black uppercase tracking-widest">{pattern.title}.</span> <span className="text-slate-400">{pattern.note}</span></div>
+      </div>
+
+      {comparison.matched === 0 ? (
+        <div className="text-[10px] font-mono text-amber-500">None of this report's features appear in the golden set.</div>
+      ) : (
+        <div className="space-y-1.5">
+          {top.map(d => {
+            const ratio = Math.min(Math.abs(d.delta) / d.band, 2);
+            return (
+              <div key={`${d.featureId}|${d.axis}`} className="flex items-center gap-3 text-[10px] font-mono">
+                <span className="w-40 truncate text-slate-400" title={`${d.featureId} [${d.axis}]`}>{d.featureId}.{d.axis}</span>
+                <div className="flex-1 h-2 bg-slate-900 rounded relative overflow-hidden">
+                  <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-700" />
+                  {/* Band edges sit at a quarter of the track on either side of centre */}
+                  <div className="absolute top-0 bottom-0 left-1/4 right-1/4 border-x border-dashed border-slate-600" />
+                  <div
+                    className={`absolute top-0 bottom-0 ${d.exceeds ? 'bg-red-500' : 'bg-emerald-500'}`}
+                    style={d.delta >= 0 ? { left: '50%', width: `${ratio * 25}%` } : { right: '50%', width: `${ratio * 25}%` }}
+                  />
+                </div>
+                <span className={`w-20 text-right ${d.exceeds ? 'text-red-400' : 'text-slate-500'}`}>{d.delta >= 0 ? '+' : ''}{d.delta.toFixed(3)}</span>
+                <span className="w-16 text-right text-slate-600">±{d.band.toFixed(3)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
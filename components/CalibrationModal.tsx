@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, FlaskConical, Trash2, CheckCircle2 } from 'lucide-react';
+import type { CMMFeature, EngineeredMetrics, FeedbackRecord, MLResponse } from '../types';
+import { DEFAULT_RULE_SET, LABELS, activeRuleSets, nextVersion, ruleSetRef, selectRuleSet, type Label, type RuleSet } from '../services/ruleEngine';
+import { calibrateThresholds, type CalibrationResult } from '../services/calibration';
+import { FeedbackStore, feedbackSamples } from '../services/feedbackStore';
+import { RuleSetStore } from '../services/ruleSetStore';
+import { ConfusionMatrixView } from './ConfusionMatrixView';
+
+const EVIDENCE: FeedbackRecord['evidence'][] = ['Sectioning', 'X-Ray', 'CT Scan', 'Visual', 'Other'];
+const MIN_SAMPLES = 5;
+
+// --- Calibration Modal ---
+
+export const CalibrationModal = ({ current, ruleSets, onApplied, onClose }: {
+  current: { features: CMMFeature[], metrics: EngineeredMetrics, result: MLResponse } | null,
+  ruleSets: RuleSet[],
+  onApplied: (message: string) => void,
+  onClose: () => void
+}) => {
+  const [tab, setTab] = useState<'report' | 'calibrate'>(current ? 'report' : 'calibrate');
+  const [corrected, setCorrected] = useState<Label>(current?.result.Label === 'Good' ? 'Shrinkage_Porosity' : 'Good');
+  const [evidence, setEvidence] = useState<FeedbackRecord['evidence']>('Sectioning');
+  const [notes, setNotes] = useState("");
+  const [dataset, setDataset] = useState<FeedbackRecord[]>([]);
+  const [targetId, setTargetId] = useState(current ? selectRuleSet(ruleSets, current.result.Part_ID).id : DEFAULT_RULE_SET.id);
+  const [run, setRun] = useState<CalibrationResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const active = useMemo(() => activeRuleSets([DEFAULT_RULE_SET, ...ruleSets]), [ruleSets]);
+  const target = active.find(rs => rs.id === targetId) || DEFAULT_RULE_SET;
+  const samples = dataset.filter(d => selectRuleSet(ruleSets, d.partId).id === target.id);
+
+  const loadDataset = () => { FeedbackStore.listAll().then(setDataset).catch(err => setStatus(String(err))); };
+  useEffect(loadDataset, []);
+  useEffect(() => setRun(null), [targetId, dataset]);
+
+  const handleSubmit = async () => {
+    if (!current) return;
+    await FeedbackStore.add({
+      partId: current.result.Part_ID,
+      features: current.features,
+      metrics: current.metrics,
+      predicted: current.result.Label,
+      corrected,
+      evidence,
+      notes: notes.trim(),
+      ruleSet: current.result.Rule_Set
+    });
+    setNotes("");
+    setStatus(`Recorded ${current.result.Part_ID}: ${current.result.Label} → ${corrected} (${evidence}).`);
+    loadDataset();
+    setTab('calibrate');
+  };
+
+  const handleRun = () => {
+    setRun(calibrateThresholds(target, feedbackSamples(samples)));
+  };
+
+  const handleApply = async () => {
+    if (!run) return;
+    const version = nextVersion(ruleSets, run.ruleSet.id);
+    await RuleSetStore.save({ ...run.ruleSet, version, description: `${target.description} Calibrated on ${samples.length} labeled parts.` });
+    onApplied(`Calibration: ${run.ruleSet.id} v${version} (${(run.before.accuracy * 100).toFixed(0)}% → ${(run.after.accuracy * 100).toFixed(0)}%)`);
+  };
+
+  const handleDelete = async (id: number | undefined) => {
+    if (id === undefined) return;
+    await FeedbackStore.remove(id);
+    loadDataset();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4">
+      <div className="bg-[#0f172a] border border-slate-700 rounded-2xl w-full max-w-3xl max-h-[92vh] flex flex-col overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-slate-800 bg-[#1e293b]/50 flex justify-between items-center">
+          <h3 className="font-black uppercase tracking-widest text-amber-500">Logic Calibration Core</h3>
+          <div className="flex items-center gap-4">
+            <div className="flex bg-slate-900 border border-slate-800 rounded p-0.5">
+              {(['report', 'calibrate'] as const).map(t => (
+                <button key={t} onClick={() => setTab(t)} className={`px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${tab === t ? 'bg-amber-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+                  {t === 'report' ? 'Report Mismatch' : `Calibrate (${dataset.length})`}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose}><X className="w-5 h-5 text-slate-500" /></button>
+          </div>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto custom-scrollbar">
+          {status && <div className="flex items-center gap-2 text-[10px] font-mono text-emerald-400"><CheckCircle2 className="w-3 h-3" /> {status}</div>}
+
+          {tab === 'report' && (current ? (
+            <>
+              <p className="text-xs text-slate-400 leading-relaxed font-medium">
+                Record the verified defect for the part on screen. The feature vector and engineered metrics are stored with your label as ground truth for threshold calibration.
+              </p>
+              <div className="grid grid-cols-3 gap-4 text-[10px] font-black uppercase text-slate-500">
+                <div className="space-y-2">
+                  <div>Engine Predicted</div>
+                  <div className="px-3 py-2 bg-[#05080d] border border-slate-800 rounded font-mono text-red-400 normal-case">{current.result.Label}</div>
+                </div>
+                <label className="space-y-2 block">
+                  <div>Verified Label</div>
+                  <select value={corrected} onChange={(e) => setCorrected(e.target.value as Label)} className="w-full bg-[#05080d] border border-slate-800 rounded px-3 py-2 font-mono text-amber-500 normal-case outline-none">
+                    {LABELS.map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-2 block">
+                  <div>Evidence</div>
+                  <select value={evidence} onChange={(e) => setEvidence(e.target.value as FeedbackRecord['evidence'])} className="w-full bg-[#05080d] border border-slate-800 rounded px-3 py-2 font-mono text-amber-500 normal-case outline-none">
+                    {EVIDENCE.map(ev => <option key={ev} value={ev}>{ev}</option>)}
+                  </select>
+                </label>
+              </div>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full h-28 bg-[#05080d] border border-slate-800 rounded-lg p-4 text-xs font-mono text-amber-500 focus:ring-1 focus:ring-amber-500/50 outline-none placeholder:text-slate-800"
+                placeholder="e.g. Cold Shut incorrectly labeled as Offset despite high Angular Deviation. Confirmed by sectioning at ANGLE6..."
+              />
+              <div className="flex justify-end gap-3 pt-2">
+                <button onClick={onClose} className="px-5 py-2 rounded font-bold text-slate-500 hover:text-white text-xs uppercase transition-colors">Abort</button>
+                <button onClick={handleSubmit} className="px-6 py-2.5 bg-amber-600 hover:bg-amber-500 rounded font-black text-xs uppercase tracking-widest transition-all">Record Ground Truth</button>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-slate-500 font-mono italic">Run an analysis first; feedback is captured against the part currently on screen.</p>
+          ))}
+
+          {tab === 'calibrate' && (
+            <>
+              <div className="flex items-end justify-between gap-4">
+                <label className="space-y-2 block text-[10px] font-black uppercase text-slate-500">
+                  <div>Rule Set</div>
+                  <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="bg-[#05080d] border border-slate-800 rounded px-3 py-2 font-mono text-amber-500 normal-case outline-none">
+                    {active.map(rs => <option key={rs.id} value={rs.id}>{rs.family} ({ruleSetRef(rs)})</option>)}
+                  </select>
+                </label>
+                <button
+                  onClick={handleRun}
+                  disabled={samples.length < MIN_SAMPLES}
+                  className="px-6 py-2.5 bg-amber-600 hover:bg-amber-500 disabled:bg-slate-800 disabled:text-slate-600 rounded font-black text-xs uppercase tracking-widest transition-all flex items-center gap-2"
+                >
+                  <FlaskConical className="w-4 h-4" /> Run Calibration
+                </button>
+              </div>
+              {samples.length < MIN_SAMPLES && (
+                <p className="text-[10px] font-mono text-slate-600">{samples.length} labeled parts for this rule set; at least {MIN_SAMPLES} are needed to search thresholds.</p>
+              )}
+
+              <div className="max-h-40 overflow-y-auto custom-scrollbar border border-slate-800 rounded">
+                <table className="w-full text-[10px] font-mono">
+                  <tbody className="divide-y divide-slate-800/50">
+                    {samples.map(d => (
+                      <tr key={d.id}>
+                        <td className="px-3 py-1.5 text-slate-500">{new Date(d.timestamp).toLocaleDateString()}</td>
+                        <td className="px-3 py-1.5 text-slate-400">{d.partId}</td>
+                        <td className="px-3 py-1.5 text-red-400">{d.predicted}</td>
+                        <td className="px-3 py-1.5 text-emerald-400">→ {d.corrected}</td>
+                        <td className="px-3 py-1.5 text-slate-600">{d.evidence}</td>
+                        <td className="px-3 py-1.5 text-right"><button onClick={() => handleDelete(d.id)} className="text-slate-600 hover:text-red-400"><Trash2 className="w-3 h-3" /></button></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {run && (
+                <div className="space-y-5">
+                  <div className="grid grid-cols-2 gap-6">
+                    <ConfusionMatrixView title={`Before (v${target.version})`} matrix={run.before.matrix} accuracy={run.before.accuracy} />
+                    <ConfusionMatrixView title="After (proposed)" matrix={run.after.matrix} accuracy={run.after.accuracy} />
+                  </div>
+                  {run.temperature.from !== run.temperature.to && (
+                    <div className="text-[10px] font-mono text-slate-400">
+                      <span className="text-slate-600">probability temperature</span> <span className="text-red-400">{run.temperature.from}</span> → <span className="text-emerald-400">{run.temperature.to}</span>
+                    </div>
+                  )}
+                  {run.changes.length === 0 ? (
+                    <p className="text-[10px] font-mono text-slate-500">No threshold change improves accuracy on this dataset.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-500">Threshold Shifts</div>
+                      {run.changes.map((c, i) => (
+                        <div key={i} className="text-[10px] font-mono text-slate-400">
+                          <span className="text-slate-600">{c.ruleId}</span> {c.metric} {c.op} <span className="text-red-400">{c.from}</span> → <span className="text-emerald-400">{c.to}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleApply}
+                      disabled={run.changes.length === 0 && run.temperature.from === run.temperature.to}
+                      className="px-6 py-2.5 bg-amber-600 hover:bg-amber-500 disabled:bg-slate-800 disabled:text-slate-600 rounded font-black text-xs uppercase tracking-widest transition-all flex items-center gap-2"
+                    >
+                      <Save className="w-4 h-4" /> Apply as v{nextVersion(ruleSets, target.id)}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Stamp, Printer, FileSpreadsheet, FileBadge, PenLine, Eraser } from 'lucide-react';
+import type { CMMFeature, EngineeredMetrics, MLResponse, ReportHeader } from '../types';
+import {
+  buildCertificate, certificateFileName, certificateToCsv, certificateToHtml, certificateToJson, needsJustification, signOffErrors, suggestDisposition,
+  CERTIFICATE_DISPOSITIONS, type CertificateDisposition, type SignOff
+} from '../services/certificate';
+import { downloadText, printHtml } from '../utils/download';
+
+// Last name signed with, shared with the NCR board
+export const INSPECTOR_KEY = 'inspect-os.inspector';
+
+const DISPOSITION_TONE: Record<CertificateDisposition, string> = {
+  accept: 'text-emerald-400 border-emerald-500/40 bg-emerald-500/10',
+  reject: 'text-red-400 border-red-500/40 bg-red-500/10',
+  mrb: 'text-amber-400 border-amber-500/40 bg-amber-500/10'
+};
+
+// --- Inspection Certificate ---
+
+// Disposition and sign-off for the result on screen; they reset when another result is shown
+export const CertificatePanel = ({ inspection }: {
+  inspection: { source: string, format?: string, header: ReportHeader, features: CMMFeature[], metrics: EngineeredMetrics, result: MLResponse }
+}) => {
+  const suggested = suggestDisposition(inspection.result);
+  const [disposition, setDisposition] = useState<CertificateDisposition>(suggested);
+  const [inspector, setInspector] = useState(() => localStorage.getItem(INSPECTOR_KEY) ?? '');
+  const [comment, setComment] = useState('');
+  const [signOff, setSignOff] = useState<SignOff | null>(null);
+
+  useEffect(() => {
+    setDisposition(suggestDisposition(inspection.result));
+    setComment('');
+    setSignOff(null);
+  }, [inspection.result]);
+
+  const draft = { disposition, suggestedDisposition: suggested };
+  const errors = signOffErrors(draft, { inspector, comment });
+
+  // Any change after signing voids the signature
+  const edit = (apply: () => void) => {
+    apply();
+    setSignOff(null);
+  };
+
+  const sign = () => {
+    if (errors.length) return;
+    localStorage.setItem(INSPECTOR_KEY, inspector.trim());
+    setSignOff({ inspector: inspector.trim(), signedAt: new Date().toISOString(), ...(comment.trim() ? { comment: comment.trim() } : {}) });
+  };
+
+  const certificate = () => buildCertificate(inspection, { disposition, signOff: signOff ?? undefined });
+
+  const inputClass = "w-full bg-[#05080d] border border-slate-800 rounded px-2 py-1.5 text-xs font-mono text-emerald-400 outline-none placeholder:text-slate-700";
+  const exportClass = "flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700 flex items-center justify-center gap-2";
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 space-y-4 shadow-xl">
+      <div className="flex items-center gap-2 text-slate-500">
+        <Stamp className="w-4 h-4 text-emerald-500" />
+        <span className="text-[10px] font-black uppercase tracking-[0.2em]">Inspection Certificate</span>
+        <span className={`ml-auto text-[9px] font-black uppercase tracking-widest ${signOff ? 'text-emerald-400' : 'text-slate-600'}`}>
+          {signOff ? `Signed ${signOff.inspector} · ${new Date(signOff.signedAt).toLocaleString()}` : 'Draft — not signed'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1 text-[9px] font-black uppercase tracking-widest text-slate-500">
+          <div>Disposition <span className="normal-case tracking-normal font-mono text-slate-600">(engine: {CERTIFICATE_DISPOSITIONS.find(d => d.id === suggested)!.label})</span></div>
+          <div className="flex gap-1">
+            {CERTIFICATE_DISPOSITIONS.map(d => (
+              <button
+                key={d.id}
+                onClick={() => edit(() => setDisposition(d.id))}
+                className={`flex-1 py-1.5 rounded border text-[9px] font-black uppercase tracking-widest transition-all ${disposition === d.id ? DISPOSITION_TONE[d.id] : 'border-slate-800 text-slate-500 hover:text-white'}`}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+          <div>Inspector</div>
+          <input value={inspector} placeholder="Name or badge" onChange={(e) => edit(() => setInspector(e.target.value))} className={inputClass} />
+        </label>
+        <label className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+          <div>Comment{needsJustification(draft) && <span className="text-amber-400"> — required for override</span>}</div>
+          <input value={comment} placeholder="—" onChange={(e) => edit(() => setComment(e.target.value))} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        {signOff ? (
+          <button onClick={() => setSignOff(null)} className={exportClass}>
+            <Eraser className="w-3.5 h-3.5" /> Withdraw signature
+          </button>
+        ) : (
+          <button onClick={sign} disabled={errors.length > 0} title={errors.join('\n')} className={`${exportClass} disabled:opacity-40 disabled:hover:bg-slate-800`}>
+            <PenLine className="w-3.5 h-3.5" /> Sign off
+          </button>
+        )}
+        <button onClick={() => { const c = certificate(); printHtml(certificateFileName(c, 'html'), certificateToHtml(c)); }} className={exportClass}>
+          <Printer className="w-3.5 h-3.5" /> Print / PDF
+        </button>
+        <button onClick={() => { const c = certificate(); downloadText(certificateFileName(c, 'csv'), certificateToCsv(c)); }} className={exportClass}>
+          <FileSpreadsheet className="w-3.5 h-3.5" /> CSV
+        </button>
+        <button onClick={() => { const c = certificate(); downloadText(certificateFileName(c, 'json'), certificateToJson(c), 'application/json'); }} className={exportClass}>
+          <FileBadge className="w-3.5 h-3.5" /> JSON
+        </button>
+      </div>
+      {!signOff && errors.length > 0 && inspector.trim() && (
+        <div className="text-[9px] font-mono text-amber-400">{errors.join(' · ')}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState, useMemo } from 'react';
+import { X, Save, Columns3, AlertTriangle } from 'lucide-react';
+import { CSV_FIELDS, isMappingComplete, parseWithMapping, type CsvColumnMapping, type CsvField, type CsvLayout } from '../services/importers';
+
+// --- CSV Column Mapping Wizard ---
+
+export const ColumnMappingWizard = ({ text, fileName, layout, suggestion, onSave, onCancel }: {
+  text: string,
+  fileName?: string,
+  layout: CsvLayout,
+  suggestion: CsvColumnMapping,
+  onSave: (mapping: CsvColumnMapping) => void,
+  onCancel: () => void
+}) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ ...suggestion, name: fileName ? `Layout of ${fileName}` : suggestion.name });
+
+  const setColumn = (field: CsvField, value: string) => {
+    const columns = { ...mapping.columns };
+    if (value === '') delete columns[field];
+    else columns[field] = Number(value);
+    setMapping({ ...mapping, columns });
+  };
+
+  const complete = isMappingComplete(mapping);
+  const preview = useMemo(() => complete ? parseWithMapping(text, mapping).features.slice(0, 5) : [], [text, mapping, complete]);
+  const fieldOf = (col: number) => CSV_FIELDS.find(f => mapping.columns[f.key] === col);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4">
+      <div className="bg-[#0f172a] border border-slate-700 rounded-2xl w-full max-w-4xl max-h-[92vh] flex flex-col overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-slate-800 bg-[#1e293b]/50 flex justify-between items-center">
+          <h3 className="font-black uppercase tracking-widest text-emerald-500 flex items-center gap-2"><Columns3 className="w-5 h-5" /> Map CSV Columns</h3>
+          <button onClick={onCancel}><X className="w-5 h-5 text-slate-500" /></button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto custom-scrollbar">
+          <p className="text-xs text-slate-400 leading-relaxed font-medium">
+            {fileName ? <span className="font-mono text-slate-300">{fileName}</span> : 'This report'} uses a column layout the importer has not seen before.
+            Assign the columns once; files with the same header row are imported automatically from now on.
+          </p>
+
+          <div className="overflow-x-auto custom-scrollbar border border-slate-800 rounded">
+            <table className="w-full text-[10px] font-mono">
+              <thead>
+                <tr className="bg-slate-950/50">
+                  {layout.headers.map((h, i) => (
+                    <th key={i} className={`px-3 py-2 text-left whitespace-nowrap ${fieldOf(i) ? 'text-emerald-400' : 'text-slate-500'}`}>
+                      {h}
+                      {fieldOf(i) && <div className="text-[8px] font-black uppercase tracking-widest text-emerald-600">→ {fieldOf(i)!.label}</div>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {layout.sample.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => <td key={c} className={`px-3 py-1.5 whitespace-nowrap ${fieldOf(c) ? 'text-slate-200' : 'text-slate-600'}`}>{cell}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {CSV_FIELDS.map(f => (
+              <label key={f.key} className="space-y-1 block text-[10px] font-black uppercase text-slate-500">
+                <div>{f.label}{f.required && <span className="text-red-400"> *</span>}</div>
+                <select
+                  value={mapping.columns[f.key] ?? ''}
+                  onChange={(e) => setColumn(f.key, e.target.value)}
+                  className="w-full bg-[#05080d] border border-slate-800 rounded px-2 py-1.5 font-mono text-emerald-400 normal-case outline-none"
+                >
+                  <option value="">— none —</option>
+                  {layout.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6 text-[10px] font-black uppercase text-slate-500">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={mapping.loTolMagnitude} onChange={(e) => setMapping({ ...mapping, loTolMagnitude: e.target.checked })} />
+              Lower tolerance written as a positive amount
+            </label>
+            <label className="flex items-center gap-2 flex-1">
+              Name
+              <input
+                value={mapping.name}
+                onChange={(e) => setMapping({ ...mapping, name: e.target.value })}
+                className="flex-1 bg-[#05080d] border border-slate-800 rounded px-3 py-1.5 font-mono text-emerald-400 normal-case outline-none"
+              />
+            </label>
+          </div>
+
+          {!complete ? (
+            <div className="flex items-center gap-2 text-[10px] font-mono text-amber-500">
+              <AlertTriangle className="w-3 h-3" /> Feature ID, Nominal, both tolerances and either Actual or Deviation are required.
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-500">Parsed Preview</div>
+              {preview.length === 0 && <div className="text-[10px] font-mono text-red-400">No rows parse with this mapping.</div>}
+              {preview.map((f, i) => (
+                <div key={i} className="text-[10px] font-mono text-slate-400">
+                  {f.featureId} [{f.axis}] nom {f.nominal} act {f.actual.toFixed(3)} dev <span className={f.outTol ? 'text-red-400' : 'text-emerald-400'}>{f.deviation.toFixed(3)}</span> tol {f.loTol}/{f.upTol}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button onClick={onCancel} className="px-5 py-2 rounded font-bold text-slate-500 hover:text-white text-xs uppercase transition-colors">Cancel</button>
+            <button
+              onClick={() => onSave(mapping)}
+              disabled={!complete || preview.length === 0}
+              className="px-6 py-2.5 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-600 rounded font-black text-xs uppercase tracking-widest transition-all flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" /> Save Mapping & Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
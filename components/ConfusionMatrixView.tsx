@@ -0,0 +1,38 @@
+import React from 'react';
+import { LABELS, type Label } from '../services/ruleEngine';
+import type { ConfusionMatrix } from '../services/calibration';
+
+// --- Confusion Matrix ---
+
+const short = (l: Label) => l.split('_').map(w => w[0]).join('');
+
+export const ConfusionMatrixView = ({ title, matrix, accuracy }: { title: string, matrix: ConfusionMatrix, accuracy: number }) => {
+  // Only labels that occur as truth or prediction, so a small dataset isn't drowned in zeros
+  const used = LABELS.filter(a => LABELS.some(b => matrix[a][b] > 0 || matrix[b][a] > 0));
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-baseline">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{title}</span>
+        <span className="text-sm font-mono text-emerald-400">{(accuracy * 100).toFixed(1)}%</span>
+      </div>
+      <table className="w-full text-[10px] font-mono text-center border border-slate-800">
+        <thead>
+          <tr className="text-slate-600">
+            <th className="p-1 text-left">truth \ pred</th>
+            {used.map(l => <th key={l} className="p-1" title={l}>{short(l)}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {used.map(t => (
+            <tr key={t} className="border-t border-slate-800/50">
+              <td className="p-1 text-left text-slate-500" title={t}>{short(t)}</td>
+              {used.map(p => (
+                <td key={p} className={`p-1 ${matrix[t][p] === 0 ? 'text-slate-800' : t === p ? 'text-emerald-400 font-bold' : 'text-red-400 font-bold'}`}>{matrix[t][p]}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,342 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Map as MapIcon, Save, Upload, Download, CheckCircle2, AlertTriangle, Plus, Trash2, ListPlus, FileJson } from 'lucide-react';
+import type { CMMFeature, Criticality, FeatureMap, FeatureMapEntry, GdtCharacteristic } from '../types';
+import {
+  CRITICALITIES,
+  DEFAULT_FEATURE_MAPS,
+  DEFAULT_WALL_BANDS,
+  SECTION_TYPES,
+  featureMapToCsv,
+  parseFeatureMap,
+  selectFeatureMap,
+  unmappedFeatures,
+  validateFeatureMap
+} from '../services/featureMap';
+import { FeatureMapStore } from '../services/featureMapStore';
+import { GDT_TYPES } from '../services/gdt';
+import { downloadText } from '../utils/download';
+
+// --- Part Feature Map Editor ---
+
+const emptyMap = (partId: string): FeatureMap => ({ partId, entries: [] });
+
+export const FeatureMapEditor = ({ featureMaps, current, onSaved }: {
+  featureMaps: FeatureMap[],
+  // The on-screen inspection, for adding the features its map does not cover yet
+  current: { partId: string, features: CMMFeature[] } | null,
+  onSaved: () => void
+}) => {
+  // Built-in maps are listed until a stored map for the same part replaces them
+  const parts = useMemo(() => {
+    const stored = new Set(featureMaps.map(m => m.partId.toUpperCase()));
+    return [...featureMaps, ...DEFAULT_FEATURE_MAPS.filter(m => !stored.has(m.partId.toUpperCase()))]
+      .sort((a, b) => a.partId.localeCompare(b.partId));
+  }, [featureMaps]);
+  const [selectedId, setSelectedId] = useState(current?.partId ?? DEFAULT_FEATURE_MAPS[0].partId);
+  const [draft, setDraft] = useState<FeatureMap>(emptyMap(selectedId));
+  const [errors, setErrors] = useState<string[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  // An imported file for another part number waits here until that part is selected
+  const pendingImport = useRef<FeatureMap | null>(null);
+
+  const isStored = featureMaps.some(m => m.partId.toUpperCase() === selectedId.toUpperCase());
+
+  useEffect(() => {
+    const imported = pendingImport.current;
+    pendingImport.current = null;
+    setDraft(imported ?? structuredClone(selectFeatureMap(featureMaps, selectedId) ?? emptyMap(selectedId)));
+  }, [selectedId, featureMaps]);
+
+  const selectPart = (partId: string) => {
+    setSelectedId(partId);
+    setErrors(null);
+    setStatus(null);
+  };
+
+  const setEntry = (index: number, patch: Partial<FeatureMapEntry>) => {
+    setDraft(d => ({
+      ...d,
+      entries: d.entries.map((e, i) => {
+        if (i !== index) return e;
+        const next: FeatureMapEntry = { ...e, ...patch };
+        // Empty cells mean "not assigned", so they are dropped rather than saved as blanks
+        (Object.keys(next) as (keyof FeatureMapEntry)[]).forEach(k => { if (next[k] === undefined || next[k] === '') delete next[k]; });
+        return next;
+      })
+    }));
+    setStatus(null);
+  };
+
+  const setCharacteristic = (index: number, patch: Partial<GdtCharacteristic>) => {
+    setDraft(d => ({
+      ...d,
+      characteristics: (d.characteristics ?? []).map((c, i) => {
+        if (i !== index) return c;
+        const next: GdtCharacteristic = { ...c, ...patch };
+        // Modifiers of another type would fail validation after a type change
+        if (next.type !== 'position') { delete next.mmc; delete next.size; }
+        if (next.type !== 'flatness' && next.type !== 'parallelism') delete next.direction;
+        (['mmc', 'size', 'direction', 'datum'] as const).forEach(k => { if (!next[k]) delete next[k]; });
+        return next;
+      })
+    }));
+    setStatus(null);
+  };
+
+  const removeCharacteristic = (index: number) => setDraft(d => ({ ...d, characteristics: (d.characteristics ?? []).filter((_, i) => i !== index) }));
+
+  const addCharacteristic = () => setDraft(d => ({
+    ...d,
+    characteristics: [...(d.characteristics ?? []), { id: `GDT-${(d.characteristics?.length ?? 0) + 1}`, type: 'position', features: '', tolerance: 0.2 }]
+  }));
+
+  const removeEntry = (index: number) => setDraft(d => ({ ...d, entries: d.entries.filter((_, i) => i !== index) }));
+
+  const addEntry = () => setDraft(d => ({ ...d, entries: [...d.entries, { featureId: '', sectionType: 'structural' }] }));
+
+  const currentMatches = current && current.partId.toUpperCase() === selectedId.toUpperCase();
+  const unmapped = currentMatches ? unmappedFeatures(current.features, draft) : [];
+
+  const addUnmapped = () => {
+    setDraft(d => ({
+      ...d,
+      entries: [...d.entries, ...unmapped.map(f => ({ featureId: f.featureId, axis: f.axis, sectionType: f.sectionType }))]
+    }));
+    setStatus(`Added ${unmapped.length} features from the current report with their naming-convention section types.`);
+  };
+
+  const handleNew = () => {
+    const partId = window.prompt("Part number (e.g. A3188-337-00)")?.trim();
+    if (!partId) return;
+    selectPart(partId);
+  };
+
+  const handleSave = async () => {
+    const { featureMap, errors } = validateFeatureMap(draft);
+    setErrors(errors);
+    if (!featureMap) return;
+    try {
+      await FeatureMapStore.save(featureMap);
+      setStatus(`Saved the feature map for ${featureMap.partId}. New analyses of this part use it.`);
+      onSaved();
+    } catch (err) {
+      setErrors([`Save failed: ${String(err)}`]);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!isStored) return;
+    if (!window.confirm(`Delete the stored feature map for ${selectedId}?`)) return;
+    await FeatureMapStore.remove(draft.partId);
+    setStatus(null);
+    onSaved();
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      const { featureMap, errors } = parseFeatureMap(text, selectedId);
+      setErrors(errors);
+      if (!featureMap) return;
+      // A CSV carries section entries only, so it keeps the GD&T characteristics already on the map
+      if (featureMap.partId === selectedId) setDraft(d => ({ ...featureMap, characteristics: featureMap.characteristics ?? d.characteristics }));
+      else {
+        pendingImport.current = featureMap;
+        setSelectedId(featureMap.partId);
+      }
+      setStatus(`Loaded ${featureMap.entries.length} entries from ${file.name}. Review and save to activate.`);
+    });
+  };
+
+  const bands = draft.wallBands ?? DEFAULT_WALL_BANDS;
+  const cellClass = "w-full bg-transparent border border-transparent hover:border-slate-800 focus:border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-emerald-400 outline-none";
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="xl:col-span-3 space-y-6">
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+          <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
+            <h2 className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2 tracking-widest">
+              <MapIcon className="w-4 h-4 text-emerald-500" /> Part Feature Maps
+            </h2>
+            <button onClick={handleNew} title="New part number" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Plus className="w-4 h-4" /></button>
+          </div>
+          <div className="divide-y divide-slate-800/50">
+            {[...parts, ...(parts.some(m => m.partId.toUpperCase() === selectedId.toUpperCase()) ? [] : [emptyMap(selectedId)])].map(m => (
+              <button
+                key={m.partId}
+                onClick={() => selectPart(m.partId)}
+                className={`w-full text-left px-5 py-3 transition-colors ${m.partId.toUpperCase() === selectedId.toUpperCase() ? 'bg-slate-800/40' : 'hover:bg-slate-800/20'}`}
+              >
+                <div className="flex justify-between items-baseline">
+                  <span className="text-xs font-bold font-mono text-slate-200">{m.partId}</span>
+                  <span className="text-[9px] font-mono text-emerald-500">{m.entries.length} entries{m.characteristics?.length ? ` · ${m.characteristics.length} GD&T` : ''}</span>
+                </div>
+                <div className="text-[9px] font-mono text-slate-600 truncate">
+                  {m.updatedAt ? new Date(m.updatedAt).toLocaleString() : DEFAULT_FEATURE_MAPS.includes(m) ? 'built-in' : 'unsaved'}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Wall Bands (mm)</div>
+          <p className="text-[10px] text-slate-500 leading-relaxed">Entries with a wall thickness but no section type are thin at or below the first value and heavy at or above the second.</p>
+          <div className="grid grid-cols-2 gap-3">
+            {(['thin', 'thick'] as const).map(k => (
+              <label key={k} className="text-[9px] font-black uppercase text-slate-600 space-y-1 block">
+                <div>{k}</div>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={bands[k]}
+                  onChange={(e) => setDraft(d => ({ ...d, wallBands: { ...bands, [k]: Number(e.target.value) } }))}
+                  className="w-full bg-[#05080d] border border-slate-800 rounded px-3 py-1.5 text-xs font-mono text-emerald-400 outline-none"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="xl:col-span-9 bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-2xl flex flex-col h-[760px]">
+        <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {draft.partId} <span className="text-slate-600 normal-case tracking-normal font-mono">— exact ids or * patterns; an entry without an axis covers every axis</span>
+          </h3>
+          <div className="flex gap-2">
+            {unmapped.length > 0 && (
+              <button onClick={addUnmapped} title="Add unmapped features from the current report" className="flex items-center gap-1 px-2 text-[9px] font-black uppercase text-amber-400 hover:text-amber-300 transition-colors">
+                <ListPlus className="w-4 h-4" /> {unmapped.length} unmapped
+              </button>
+            )}
+            <button onClick={() => importRef.current?.click()} title="Import CSV or JSON" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Upload className="w-4 h-4" /></button>
+            <input type="file" accept=".csv,.json,text/csv,application/json" ref={importRef} onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ""; }} className="hidden" />
+            <button onClick={() => downloadText(`${draft.partId}.features.csv`, featureMapToCsv(draft))} title="Export CSV" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Download className="w-4 h-4" /></button>
+            <button onClick={() => downloadText(`${draft.partId}.features.json`, JSON.stringify(draft, null, 2), 'application/json')} title="Export JSON (with GD&T characteristics)" className="p-1.5 text-slate-500 hover:text-white transition-colors"><FileJson className="w-4 h-4" /></button>
+            <button onClick={handleDelete} disabled={!isStored} title="Delete stored map" className="p-1.5 text-slate-500 hover:text-red-400 disabled:text-slate-800 transition-colors"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-[#0f172a] text-[9px] font-black uppercase tracking-widest text-slate-500">
+              <tr>
+                <th className="px-4 py-2">Feature ID</th>
+                <th className="px-4 py-2 w-20">Axis</th>
+                <th className="px-4 py-2 w-32">Section</th>
+                <th className="px-4 py-2 w-24">Wall mm</th>
+                <th className="px-4 py-2 w-24">Class</th>
+                <th className="px-4 py-2 w-32">Die Zone</th>
+                <th className="px-4 py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {draft.entries.map((e, i) => (
+                <tr key={i}>
+                  <td className="px-2 py-1"><input value={e.featureId} onChange={(ev) => setEntry(i, { featureId: ev.target.value })} placeholder="CIRCLE9_*" className={cellClass} /></td>
+                  <td className="px-2 py-1"><input value={e.axis ?? ''} onChange={(ev) => setEntry(i, { axis: ev.target.value.toUpperCase() || undefined })} placeholder="all" className={cellClass} /></td>
+                  <td className="px-2 py-1">
+                    <select value={e.sectionType ?? ''} onChange={(ev) => setEntry(i, { sectionType: (ev.target.value || undefined) as FeatureMapEntry['sectionType'] })} className={`${cellClass} bg-[#0f172a]`}>
+                      <option value="">from wall</option>
+                      {SECTION_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <input type="number" step="0.1" value={e.wallThickness ?? ''} onChange={(ev) => setEntry(i, { wallThickness: ev.target.value === '' ? undefined : Number(ev.target.value) })} className={cellClass} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <select value={e.criticality ?? ''} onChange={(ev) => setEntry(i, { criticality: (ev.target.value || undefined) as Criticality | undefined })} className={`${cellClass} bg-[#0f172a]`}>
+                      <option value="">—</option>
+                      {CRITICALITIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1"><input value={e.dieZone ?? ''} onChange={(ev) => setEntry(i, { dieZone: ev.target.value || undefined })} placeholder="—" className={cellClass} /></td>
+                  <td className="px-2 py-1 text-center">
+                    <button onClick={() => removeEntry(i)} className="p-1 text-slate-600 hover:text-red-400 transition-colors"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={addEntry} className="m-4 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors">
+            <Plus className="w-3.5 h-3.5" /> Add Entry
+          </button>
+
+          <div className="px-4 pt-4 pb-2 border-t border-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-500">
+            GD&T Characteristics <span className="text-slate-600 normal-case tracking-normal font-mono">— base ids (rows without the axis suffix) or * patterns; tolerance is the zone width, a diameter for position</span>
+          </div>
+          <table className="w-full text-left">
+            <thead className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+              <tr>
+                <th className="px-4 py-2 w-32">ID</th>
+                <th className="px-4 py-2 w-32">Type</th>
+                <th className="px-4 py-2">Features</th>
+                <th className="px-4 py-2 w-20">Tol mm</th>
+                <th className="px-4 py-2 w-28">Modifier</th>
+                <th className="px-4 py-2 w-24">Datum</th>
+                <th className="px-4 py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {(draft.characteristics ?? []).map((c, i) => (
+                <tr key={i}>
+                  <td className="px-2 py-1"><input value={c.id} onChange={(ev) => setCharacteristic(i, { id: ev.target.value })} className={cellClass} /></td>
+                  <td className="px-2 py-1">
+                    <select value={c.type} onChange={(ev) => setCharacteristic(i, { type: ev.target.value as GdtCharacteristic['type'] })} className={`${cellClass} bg-[#0f172a]`}>
+                      {GDT_TYPES.map(t => <option key={t.id} value={t.id}>{t.symbol} {t.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1"><input value={c.features} onChange={(ev) => setCharacteristic(i, { features: ev.target.value })} placeholder="CIRCLE9_THICK" className={cellClass} /></td>
+                  <td className="px-2 py-1">
+                    <input type="number" step="0.01" value={c.tolerance} onChange={(ev) => setCharacteristic(i, { tolerance: Number(ev.target.value) })} className={cellClass} />
+                  </td>
+                  <td className="px-2 py-1">
+                    {c.type === 'position' ? (
+                      <select value={c.mmc ? c.size ?? 'internal' : ''} onChange={(ev) => setCharacteristic(i, ev.target.value ? { mmc: true, size: ev.target.value === 'external' ? 'external' : undefined } : { mmc: undefined, size: undefined })} className={`${cellClass} bg-[#0f172a]`}>
+                        <option value="">RFS</option>
+                        <option value="internal">MMC hole</option>
+                        <option value="external">MMC pin</option>
+                      </select>
+                    ) : c.type === 'profile' ? (
+                      <span className="px-2 text-[10px] font-mono text-slate-600">—</span>
+                    ) : (
+                      <select value={c.direction ?? 'Z'} onChange={(ev) => setCharacteristic(i, { direction: ev.target.value === 'Z' ? undefined : ev.target.value as GdtCharacteristic['direction'] })} className={`${cellClass} bg-[#0f172a]`}>
+                        {['X', 'Y', 'Z'].map(a => <option key={a} value={a}>normal {a}</option>)}
+                      </select>
+                    )}
+                  </td>
+                  <td className="px-2 py-1"><input value={c.datum ?? ''} onChange={(ev) => setCharacteristic(i, { datum: ev.target.value || undefined })} placeholder="A|B|C" className={cellClass} /></td>
+                  <td className="px-2 py-1 text-center">
+                    <button onClick={() => removeCharacteristic(i)} className="p-1 text-slate-600 hover:text-red-400 transition-colors"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={addCharacteristic} className="m-4 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors">
+            <Plus className="w-3.5 h-3.5" /> Add Characteristic
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 space-y-3">
+          {errors && errors.length > 0 && (
+            <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+              {errors.map((e, i) => (
+                <div key={i} className="flex items-start gap-2 text-[10px] font-mono text-red-400"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {e}</div>
+              ))}
+            </div>
+          )}
+          {status && <div className="flex items-center gap-2 text-[10px] font-mono text-emerald-400"><CheckCircle2 className="w-3 h-3" /> {status}</div>}
+          <div className="flex justify-end">
+            <button onClick={handleSave} className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 rounded font-black text-xs uppercase tracking-widest transition-all flex items-center gap-2">
+              <Save className="w-4 h-4" /> Save Feature Map
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState, useRef } from 'react';
+import { Gauge, Upload, Trash2, CheckCircle2, AlertTriangle, ShieldCheck, Download } from 'lucide-react';
+import type { MeasurementNoise, ParsedReport } from '../types';
+import {
+  analyzeGageStudy, noiseFromStudy, observationFromReport,
+  APPRAISER_FIELDS, GRR_LIMITS, MIN_NDC, type AppraiserField, type GageObservation, type GageStudy as Study, type GageVerdict
+} from '../services/gageRR';
+import { NoiseStore } from '../services/noiseStore';
+import { downloadText } from '../utils/download';
+
+// --- Gage R&R Study ---
+
+const VERDICT_TONE: Record<GageVerdict, string> = {
+  acceptable: 'text-emerald-500',
+  marginal: 'text-amber-400',
+  unacceptable: 'text-red-400'
+};
+
+const mm = (v: number) => v.toFixed(4);
+const pct = (v: number) => Number.isFinite(v) ? `${v.toFixed(1)}%` : '—';
+
+export const GageStudy = ({ profiles, importText, onSaved }: {
+  profiles: MeasurementNoise[],
+  // Parses a report with the station's importers, column mappings and feature maps
+  importText: (text: string, fileName: string) => ParsedReport,
+  onSaved: () => void
+}) => {
+  const [appraiserField, setAppraiserField] = useState<AppraiserField>('operator');
+  const [reports, setReports] = useState<{ source: string, report: ParsedReport }[]>([]);
+  const [selectedFeature, setSelectedFeature] = useState<number | null>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const uploadRef = useRef<HTMLInputElement>(null);
+
+  // Re-run whenever the reports or the appraiser field change
+  const analysis = (() => {
+    if (!reports.length) return null;
+    const partIds = [...new Set(reports.map(r => r.report.header.partId.toUpperCase()))];
+    if (partIds.length > 1) return { study: null, errors: [`A study covers one part number; the reports are for ${partIds.join(', ')}`] };
+    const problems: string[] = [];
+    const observations: GageObservation[] = [];
+    reports.forEach(({ source, report }) => {
+      const { observation, error } = observationFromReport(report, source, appraiserField);
+      if (observation) observations.push(observation);
+      else problems.push(error!);
+    });
+    if (problems.length) return { study: null, errors: problems };
+    return analyzeGageStudy(reports[0].report.header.partId, observations, appraiserField);
+  })();
+  const study: Study | null = analysis?.study ?? null;
+  const stored = study && profiles.find(p => p.partId.toUpperCase() === study.partId.toUpperCase());
+
+  const handleUpload = async (files: File[]) => {
+    if (files.length === 0) return;
+    const problems: string[] = [];
+    const loaded: { source: string, report: ParsedReport }[] = [];
+    for (const file of files) {
+      try {
+        loaded.push({ source: file.name, report: importText(await file.text(), file.name) });
+      } catch (err) {
+        problems.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setErrors(problems.length ? problems : null);
+    setStatus(null);
+    setSelectedFeature(null);
+    setReports(prev => [...prev.filter(r => !loaded.some(l => l.source === r.source)), ...loaded]);
+  };
+
+  const handleApply = async () => {
+    if (!study) return;
+    try {
+      await NoiseStore.save(noiseFromStudy(study));
+      setStatus(`Saved the measurement noise of ${study.partId}. New analyses of this part take it out of the scatter metrics.`);
+      onSaved();
+    } catch (err) {
+      setErrors([`Save failed: ${String(err)}`]);
+    }
+  };
+
+  const handleRemove = async (partId: string) => {
+    if (!window.confirm(`Remove the measurement noise profile of ${partId}? Its scatter metrics go back to as measured.`)) return;
+    await NoiseStore.remove(partId);
+    onSaved();
+  };
+
+  const counts = study ? (['acceptable', 'marginal', 'unacceptable'] as GageVerdict[]).map(v => study.features.filter(f => f.verdict === v).length) : [];
+  const feature = study && selectedFeature !== null ? study.features[selectedFeature] : null;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="xl:col-span-3 space-y-6">
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-4">
+          <h2 className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2 tracking-widest">
+            <Gauge className="w-4 h-4 text-emerald-500" /> Gage R&R Study
+          </h2>
+          <p className="text-[10px] text-slate-500 leading-relaxed">
+            Load repeated reports of the same parts: every part (serial number) measured at least twice by every appraiser. Crossed ANOVA per feature, %GRR against the tolerance width.
+          </p>
+          <label className="block text-[9px] font-black uppercase text-slate-600 space-y-1">
+            <div>Appraiser from</div>
+            <select value={appraiserField} onChange={(e) => setAppraiserField(e.target.value as AppraiserField)} className="w-full bg-[#05080d] border border-slate-800 rounded px-3 py-1.5 text-xs font-mono text-emerald-400 outline-none">
+              {APPRAISER_FIELDS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button onClick={() => uploadRef.current?.click()} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700 flex items-center justify-center gap-2">
+              <Upload className="w-3.5 h-3.5" /> Add Reports
+            </button>
+            <button onClick={() => { setReports([]); setErrors(null); setStatus(null); setSelectedFeature(null); }} disabled={!reports.length} title="Clear the study" className="px-3 py-2 text-slate-500 hover:text-red-400 disabled:text-slate-800 transition-colors">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+            <input type="file" multiple ref={uploadRef} onChange={(e) => { handleUpload(Array.from(e.target.files || [])); e.target.value = ""; }} className="hidden" />
+          </div>
+          <div className="text-[10px] font-mono text-slate-500">{reports.length} report{reports.length === 1 ? '' : 's'} loaded</div>
+        </div>
+
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+          <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 text-[10px] font-black uppercase tracking-widest text-slate-400">Noise Profiles In Use</div>
+          <div className="divide-y divide-slate-800/50">
+            {profiles.length === 0 && <div className="px-5 py-4 text-[10px] font-mono text-slate-600">None. Scatter metrics are as measured.</div>}
+            {profiles.map(p => (
+              <div key={p.partId} className="px-5 py-3 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold font-mono text-slate-200">{p.partId}</div>
+                  <div className="text-[9px] font-mono text-slate-600">
+                    σ {mm(p.pooled)}mm · {p.study.parts}×{p.study.appraisers}×{p.study.trials} · {new Date(p.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <button onClick={() => downloadText(`${p.partId}.noise.json`, JSON.stringify(p, null, 2), 'application/json')} title="Export for the CLI (--gage)" className="p-1 text-slate-600 hover:text-white transition-colors"><Download className="w-3.5 h-3.5" /></button>
+                <button onClick={() => handleRemove(p.partId)} title="Remove" className="p-1 text-slate-600 hover:text-red-400 transition-colors"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="xl:col-span-9 space-y-6">
+        {[...(errors ?? []), ...(analysis?.errors ?? [])].length > 0 && (
+          <div className="bg-[#0f172a] border border-red-500/20 rounded-xl p-4 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+            {[...(errors ?? []), ...(analysis?.errors ?? [])].map((e, i) => (
+              <div key={i} className="flex items-start gap-2 text-[10px] font-mono text-red-400"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {e}</div>
+            ))}
+          </div>
+        )}
+
+        {!study && !analysis?.errors.length && (
+          <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-10 text-center text-[10px] font-mono text-slate-600">
+            No study loaded. A typical study is 10 parts × 3 appraisers × 3 trials.
+          </div>
+        )}
+
+        {study && (
+          <>
+            <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl flex items-center gap-8">
+              <div>
+                <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Study</div>
+                <div className="text-lg font-black font-mono text-slate-200">{study.partId}</div>
+                <div className="text-[9px] font-mono text-slate-600">{study.parts.length} parts × {study.appraisers.length} appraisers × {study.trials} trials</div>
+              </div>
+              {(['acceptable', 'marginal', 'unacceptable'] as GageVerdict[]).map((v, i) => (
+                <div key={v}>
+                  <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">{v}</div>
+                  <div className={`text-2xl font-black font-mono ${VERDICT_TONE[v]}`}>{counts[i]}</div>
+                </div>
+              ))}
+              <div className="ml-auto flex flex-col items-end gap-2">
+                <button onClick={handleApply} className="px-5 py-2 bg-emerald-600 hover:bg-emerald-500 rounded font-black text-[10px] uppercase tracking-widest transition-all flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4" /> {stored ? 'Replace' : 'Use as'} noise floor
+                </button>
+                {status && <div className="flex items-center gap-2 text-[10px] font-mono text-emerald-400"><CheckCircle2 className="w-3 h-3" /> {status}</div>}
+              </div>
+            </div>
+
+            <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+              <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 text-[9px] font-mono text-slate-500">
+                σ in mm · %GRR = 6σ<sub>GRR</sub> / tolerance: under {GRR_LIMITS.acceptable}% acceptable, up to {GRR_LIMITS.marginal}% marginal · ndc under {MIN_NDC} cannot separate parts
+                {study.skipped.length > 0 && <span className="text-amber-400"> · {study.skipped.length} feature(s) not in every report skipped</span>}
+              </div>
+              <div className="max-h-[520px] overflow-y-auto custom-scrollbar">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest text-[9px] sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3">Feature</th>
+                      <th className="px-4 py-3 text-right">Tol</th>
+                      <th className="px-4 py-3 text-right" title="Repeatability (equipment variation)">EV</th>
+                      <th className="px-4 py-3 text-right" title="Reproducibility (appraiser variation, with interaction)">AV</th>
+                      <th className="px-4 py-3 text-right">GRR</th>
+                      <th className="px-4 py-3 text-right" title="Part variation">PV</th>
+                      <th className="px-4 py-3 text-right">%GRR Tol</th>
+                      <th className="px-4 py-3 text-right">%Study Var</th>
+                      <th className="px-4 py-3 text-right">ndc</th>
+                      <th className="px-4 py-3">Verdict</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/50 font-mono">
+                    {study.features.map((f, i) => (
+                      <tr key={`${f.featureId}|${f.axis}`} onClick={() => setSelectedFeature(selectedFeature === i ? null : i)} className={`cursor-pointer ${selectedFeature === i ? 'bg-slate-800/40' : 'hover:bg-slate-800/20'}`}>
+                        <td className="px-4 py-2 text-slate-300">{f.featureId}.{f.axis}</td>
+                        <td className="px-4 py-2 text-right text-slate-500">{f.tolerance.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-right">{mm(f.repeatability)}</td>
+                        <td className="px-4 py-2 text-right">{mm(f.reproducibility)}</td>
+                        <td className="px-4 py-2 text-right text-slate-200">{mm(f.grr)}</td>
+                        <td className="px-4 py-2 text-right">{mm(f.partVariation)}</td>
+                        <td className={`px-4 py-2 text-right font-bold ${VERDICT_TONE[f.verdict]}`}>{pct(f.pctTolerance)}</td>
+                        <td className="px-4 py-2 text-right">{pct(f.pctStudyVariation)}</td>
+                        <td className={`px-4 py-2 text-right ${f.ndc < MIN_NDC ? 'text-amber-400' : ''}`}>{Number.isFinite(f.ndc) ? f.ndc : '∞'}</td>
+                        <td className={`px-4 py-2 font-black uppercase text-[9px] ${VERDICT_TONE[f.verdict]}`}>{f.verdict}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {feature && (
+              <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-3">
+                <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  ANOVA — {feature.featureId}.{feature.axis}
+                  {feature.interactionPooled && <span className="ml-2 font-mono normal-case tracking-normal text-slate-600">interaction not significant (p &gt; 0.25), pooled into repeatability</span>}
+                </h3>
+                <table className="w-full text-[10px] font-mono">
+                  <thead className="text-slate-600 uppercase">
+                    <tr><th className="text-left py-1">Source</th><th className="text-right">DF</th><th className="text-right">SS</th><th className="text-right">MS</th><th className="text-right">F</th><th className="text-right">P</th></tr>
+                  </thead>
+                  <tbody>
+                    {feature.anova.map(row => (
+                      <tr key={row.source} className="border-t border-slate-800/50">
+                        <td className="py-1 text-slate-300">{row.source}</td>
+                        <td className="text-right">{row.df}</td>
+                        <td className="text-right">{row.ss.toExponential(3)}</td>
+                        <td className="text-right">{row.ms.toExponential(3)}</td>
+                        <td className="text-right">{row.f === undefined ? '' : Number.isFinite(row.f) ? row.f.toFixed(2) : '∞'}</td>
+                        <td className="text-right">{row.p === undefined ? '' : row.p.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
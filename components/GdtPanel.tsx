@@ -0,0 +1,68 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import type { GdtResult } from '../types';
+import { GDT_TYPES, utilization } from '../services/gdt';
+
+// --- GD&T Characteristics ---
+
+const STATUS_TONE: Record<GdtResult['status'], string> = {
+  pass: 'text-emerald-500',
+  fail: 'text-red-400',
+  not_measured: 'text-slate-600'
+};
+
+export const GdtPanel = ({ results }: { results: GdtResult[] }) => {
+  const failing = results.filter(r => r.status === 'fail').length;
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+      <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex items-center gap-2">
+        <Ruler className="w-4 h-4 text-blue-400" />
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">GD&T Characteristics</h3>
+        <span className={`ml-auto text-[9px] font-black uppercase tracking-widest ${failing ? 'text-red-400' : 'text-emerald-500'}`}>
+          {failing ? `${failing} of ${results.length} failing` : 'All within tolerance'}
+        </span>
+      </div>
+      <table className="w-full text-left text-xs">
+        <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest text-[9px]">
+          <tr>
+            <th className="px-6 py-3 border-b border-slate-800">Characteristic</th>
+            <th className="px-6 py-3 border-b border-slate-800">Features</th>
+            <th className="px-6 py-3 border-b border-slate-800 text-right">Measured</th>
+            <th className="px-6 py-3 border-b border-slate-800 text-right">Tolerance</th>
+            <th className="px-6 py-3 border-b border-slate-800 w-48">Zone Used</th>
+            <th className="px-6 py-3 border-b border-slate-800">Status</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50">
+          {results.map((r, i) => {
+            const type = GDT_TYPES.find(t => t.id === r.type)!;
+            const used = utilization(r);
+            return (
+              <tr key={i}>
+                <td className="px-6 py-3 font-bold text-slate-300" title={type.label}>
+                  <span className="text-slate-500 mr-2">{type.symbol}</span>{r.id}
+                </td>
+                <td className="px-6 py-3 font-mono text-[10px] text-slate-500 truncate max-w-[220px]" title={r.features.join(', ')}>{r.features.join(' · ') || '—'}</td>
+                <td className="px-6 py-3 font-mono text-right">{r.status === 'not_measured' ? '—' : r.value.toFixed(3)}</td>
+                <td className="px-6 py-3 font-mono text-right text-slate-500">
+                  {r.type === 'position' ? '⌀' : ''}{r.tolerance}{r.bonus > 0 && <span className="text-blue-400" title="MMC bonus"> +{r.bonus.toFixed(3)}</span>}
+                </td>
+                <td className="px-6 py-3">
+                  {r.status !== 'not_measured' && (
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 bg-slate-900 h-1.5 rounded-full overflow-hidden">
+                        <div className={`h-full ${used > 1 ? 'bg-red-500' : used > 0.75 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(used, 1) * 100}%` }} />
+                      </div>
+                      <span className="w-10 text-right text-[10px] font-mono text-slate-400">{(used * 100).toFixed(0)}%</span>
+                    </div>
+                  )}
+                </td>
+                <td className={`px-6 py-3 font-black uppercase text-[9px] ${STATUS_TONE[r.status]}`}>{r.status.replace('_', ' ')}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import React, { useState, useEffect } from 'react';
+import { History, TrendingUp, Trash2, RefreshCw, Search, FilterX } from 'lucide-react';
+import type { InspectionRecord, MLResponse, ShotRecord } from '../types';
+import { InspectionHistory } from '../services/historyStore';
+import { EMPTY_TRACE_FILTER, PROCESS_PARAMETERS, formatProcess, isTraceFilterActive, matchesTraceFilter, traceValues, type TraceFilter } from '../services/traceability';
+import { SpcPanel } from './SpcPanel';
+import { ProcessCorrelation } from './ProcessCorrelation';
+import { selectRuleSet, benchmarkThreshold, type RuleSet } from '../services/ruleEngine';
+
+// --- Trend Visuals ---
+
+export const LABEL_COLORS: Record<MLResponse['Label'], string> = {
+  Good: '#10b981',
+  Shrinkage_Porosity: '#f97316',
+  Gas_Porosity: '#eab308',
+  Cold_Shut: '#3b82f6',
+  Feature_Offset: '#a855f7',
+  Other_Defect: '#64748b'
+};
+
+const TrendChart = ({ title, points, threshold, unit = '', digits = 3 }: {
+  title: string,
+  points: { t: number, v: number, label: MLResponse['Label'] }[],
+  threshold?: { value: number, caption: string },
+  unit?: string,
+  digits?: number
+}) => {
+  const W = 600, H = 160, PAD = 24;
+  const values = points.map(p => p.v).concat(threshold ? [threshold.value] : []);
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values, min + 1e-6);
+  const x = (i: number) => points.length === 1 ? W / 2 : PAD + (i / (points.length - 1)) * (W - PAD * 2);
+  const y = (v: number) => H - PAD - ((v - min) / (max - min)) * (H - PAD * 2);
+  const last = points[points.length - 1];
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">{title}</h4>
+        {last && <span className="text-sm font-mono text-slate-200">{last.v.toFixed(digits)}{unit}</span>}
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-40 bg-slate-950/40 rounded-lg border border-slate-800">
+        {threshold && (
+          <g>
+            <line x1={PAD} x2={W - PAD} y1={y(threshold.value)} y2={y(threshold.value)} stroke="#ef4444" strokeDasharray="6 4" strokeOpacity={0.6} />
+            <text x={W - PAD} y={y(threshold.value) - 4} textAnchor="end" fontSize="10" fill="#ef4444" fillOpacity={0.7} fontFamily="monospace">{threshold.caption}</text>
+          </g>
+        )}
+        <text x={4} y={PAD} fontSize="9" fill="#475569" fontFamily="monospace">{max.toFixed(digits)}</text>
+        <text x={4} y={H - PAD} fontSize="9" fill="#475569" fontFamily="monospace">{min.toFixed(digits)}</text>
+        <polyline
+          fill="none"
+          stroke="#10b981"
+          strokeWidth={1.5}
+          points={points.map((p, i) => `${x(i)},${y(p.v)}`).join(' ')}
+        />
+        {points.map((p, i) => (
+          <circle key={i} cx={x(i)} cy={y(p.v)} r={3} fill={LABEL_COLORS[p.label]}>
+            <title>{`${new Date(p.t).toLocaleString()} — ${p.v.toFixed(digits)}${unit} (${p.label})`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+// --- Traceability Filter ---
+
+const TraceFilterBar = ({ filter, records, onChange }: {
+  filter: TraceFilter,
+  records: InspectionRecord[],
+  onChange: (filter: TraceFilter) => void
+}) => {
+  const dies = traceValues(records, 'dieId');
+  const cavities = traceValues(records, 'cavity');
+  const bound = (text: string) => text.trim() === '' || !Number.isFinite(parseFloat(text)) ? undefined : parseFloat(text);
+  const fieldClass = "bg-[#05080d] border border-slate-800 rounded px-2 py-1.5 text-xs font-mono text-emerald-400 outline-none placeholder:text-slate-700";
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl px-5 py-3 shadow-xl flex flex-wrap items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+      <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+        <Search className="w-3.5 h-3.5" />
+        <input
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder="Serial, shot, die, operator, file…"
+          className={`flex-1 ${fieldClass}`}
+        />
+      </div>
+      <select value={filter.dieId} onChange={(e) => onChange({ ...filter, dieId: e.target.value })} className={fieldClass}>
+        <option value="">All dies</option>
+        {dies.map(d => <option key={d} value={d}>{d}</option>)}
+      </select>
+      <select value={filter.cavity} onChange={(e) => onChange({ ...filter, cavity: e.target.value })} className={fieldClass}>
+        <option value="">All cavities</option>
+        {cavities.map(c => <option key={c} value={c}>Cavity {c}</option>)}
+      </select>
+      <label className="flex items-center gap-1.5">
+        From <input type="date" value={filter.from} onChange={(e) => onChange({ ...filter, from: e.target.value })} className={fieldClass} />
+      </label>
+      <label className="flex items-center gap-1.5">
+        To <input type="date" value={filter.to} onChange={(e) => onChange({ ...filter, to: e.target.value })} className={fieldClass} />
+      </label>
+      <select
+        value={filter.parameter}
+        onChange={(e) => onChange({ ...filter, parameter: e.target.value as TraceFilter['parameter'], min: undefined, max: undefined })}
+        className={fieldClass}
+      >
+        <option value="">Any process</option>
+        {PROCESS_PARAMETERS.map(p => <option key={p.key} value={p.key}>{p.label} ({p.unit})</option>)}
+      </select>
+      {filter.parameter && (
+        <>
+          <input key={`min:${filter.parameter}`} type="number" placeholder="min" defaultValue={filter.min} onBlur={(e) => onChange({ ...filter, min: bound(e.target.value) })} className={`w-20 ${fieldClass}`} />
+          <input key={`max:${filter.parameter}`} type="number" placeholder="max" defaultValue={filter.max} onBlur={(e) => onChange({ ...filter, max: bound(e.target.value) })} className={`w-20 ${fieldClass}`} />
+        </>
+      )}
+      <button onClick={() => onChange(EMPTY_TRACE_FILTER)} disabled={!isTraceFilterActive(filter)} title="Clear filters" className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30 transition-colors">
+        <FilterX className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+// --- History Dashboard ---
+
+export const HistoryDashboard = ({ refreshKey, ruleSets, shots, onShotsChanged }: {
+  refreshKey: number,
+  ruleSets: RuleSet[],
+  shots: ShotRecord[],
+  onShotsChanged: () => void
+}) => {
+  const [parts, setParts] = useState<string[]>([]);
+  const [selectedPart, setSelectedPart] = useState<string>("");
+  const [stored, setStored] = useState<InspectionRecord[]>([]);
+  const [filter, setFilter] = useState<TraceFilter>(EMPTY_TRACE_FILTER);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'trends' | 'spc' | 'process'>('trends');
+
+  const loadParts = () => {
+    InspectionHistory.listParts()
+      .then(list => {
+        setParts(list);
+        setSelectedPart(prev => prev && list.includes(prev) ? prev : (list[0] || ""));
+      })
+      .catch(err => setError(String(err)));
+  };
+
+  useEffect(loadParts, [refreshKey]);
+
+  useEffect(() => {
+    if (!selectedPart) { setStored([]); return; }
+    InspectionHistory.listByPart(selectedPart)
+      .then(setStored)
+      .catch(err => setError(String(err)));
+  }, [selectedPart, refreshKey]);
+
+  // Trends, SPC and the table all follow the traceability filter
+  const records = stored.filter(r => matchesTraceFilter(r, filter));
+
+  const points = (pick: (r: InspectionRecord) => number) =>
+    records.map(r => ({ t: r.timestamp, v: pick(r), label: r.result.Label }));
+
+  const labelCounts = records.reduce((acc, r) => {
+    acc[r.result.Label] = (acc[r.result.Label] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<MLResponse['Label'], number>>);
+
+  const ruleSet = selectRuleSet(ruleSets, selectedPart);
+  const thresholdLine = (metric: 'std_dev' | 'thickness_ratio', caption: string) => {
+    const value = benchmarkThreshold(ruleSet, metric);
+    return value === undefined ? undefined : { value, caption: `${caption} ${value}` };
+  };
+
+  const handleClear = async () => {
+    if (!selectedPart || !window.confirm(`Delete all stored inspections for ${selectedPart}?`)) return;
+    await InspectionHistory.clearPart(selectedPart);
+    loadParts();
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-emerald-500" />
+          <div>
+            <h3 className="text-[11px] font-black uppercase tracking-widest text-slate-300">Inspection History</h3>
+            <p className="text-[9px] font-mono text-slate-600 uppercase">
+              {isTraceFilterActive(filter) ? `${records.length} of ${stored.length}` : stored.length} stored inspections
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-900 border border-slate-800 rounded p-0.5 mr-2">
+            {(['trends', 'spc', 'process'] as const).map(t => (
+              <button key={t} onClick={() => setTab(t)} className={`px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${tab === t ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+                {t === 'trends' ? 'Trends' : t === 'spc' ? 'SPC' : 'Process'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={selectedPart}
+            onChange={(e) => setSelectedPart(e.target.value)}
+            className="bg-[#05080d] border border-slate-800 rounded px-3 py-2 text-xs font-mono text-emerald-400 outline-none"
+          >
+            {parts.length === 0 && <option value="">No parts recorded</option>}
+            {parts.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <button onClick={loadParts} title="Refresh" className="p-2 text-slate-500 hover:text-white transition-colors"><RefreshCw className="w-4 h-4" /></button>
+          <button onClick={handleClear} disabled={!selectedPart} title="Clear part history" className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors"><Trash2 className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {stored.length > 0 && <TraceFilterBar filter={filter} records={stored} onChange={setFilter} />}
+
+      {error && <div className="p-4 border border-red-500/30 bg-red-500/5 rounded-lg text-xs font-mono text-red-400">History store unavailable: {error}</div>}
+
+      {records.length === 0 ? (
+        <div className="flex flex-col items-center justify-center text-center p-20 opacity-20">
+          <TrendingUp className="w-16 h-16 mb-4 text-slate-600" />
+          <p className="text-slate-700 font-bold uppercase text-[9px] tracking-widest">
+            {stored.length ? 'No inspections match the filter.' : 'Run inspections to build a trend history.'}
+          </p>
+        </div>
+      ) : tab === 'spc' ? (
+        <SpcPanel records={records} />
+      ) : tab === 'process' ? (
+        <ProcessCorrelation records={records} shots={shots} ruleSet={ruleSet} onShotsChanged={onShotsChanged} />
+      ) : (
+        <>
+          <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Defect Label Timeline</h4>
+            <div className="flex flex-wrap gap-1">
+              {records.map((r, i) => (
+                <div key={i} className="w-3 h-6 rounded-sm" style={{ background: LABEL_COLORS[r.result.Label] }} title={`${new Date(r.timestamp).toLocaleString()} — ${r.result.Label} (${r.source})`} />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4 text-[9px] font-black uppercase text-slate-600">
+              {(Object.keys(LABEL_COLORS) as MLResponse['Label'][]).map(l => (
+                <div key={l} className="flex items-center gap-1.5">
+                  <div className="w-2 h-2 rounded" style={{ background: LABEL_COLORS[l] }} /> {l.replace('_', ' ')} ({labelCounts[l] || 0})
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <TrendChart title="Global Scatter (StdDev)" points={points(r => r.metrics.std_dev)} threshold={thresholdLine('std_dev', 'GAS')} unit="mm" />
+            <TrendChart title="Thickness Deviation Ratio" points={points(r => r.metrics.thickness_ratio)} threshold={thresholdLine('thickness_ratio', 'SHRINK')} digits={2} />
+            <TrendChart title="OOT Ratio" points={points(r => r.metrics.oot_ratio * 100)} unit="%" digits={0} />
+          </div>
+
+          <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+            <div className="max-h-[360px] overflow-y-auto custom-scrollbar">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest sticky top-0">
+                  <tr>
+                    <th className="px-6 py-3 border-b border-slate-800">Timestamp</th>
+                    <th className="px-6 py-3 border-b border-slate-800">Source</th>
+                    <th className="px-6 py-3 border-b border-slate-800">Serial</th>
+                    <th className="px-6 py-3 border-b border-slate-800">Die / Cav</th>
+                    <th className="px-6 py-3 border-b border-slate-800">Shot</th>
+                    <th className="px-6 py-3 border-b border-slate-800">Label</th>
+                    <th className="px-6 py-3 border-b border-slate-800">Severity</th>
+                    <th className="px-6 py-3 border-b border-slate-800 text-right">StdDev</th>
+                    <th className="px-6 py-3 border-b border-slate-800 text-right">Ratio</th>
+                    <th className="px-6 py-3 border-b border-slate-800 text-right">OOT</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/50">
+                  {[...records].reverse().map(r => (
+                    <tr key={r.id}>
+                      <td className="px-6 py-3 font-mono text-slate-500">{new Date(r.timestamp).toLocaleString()}</td>
+                      <td className="px-6 py-3 font-mono text-slate-500 truncate max-w-[180px]" title={r.source}>{r.source}</td>
+                      <td className="px-6 py-3 font-mono text-slate-400">{r.header?.serial ?? '—'}</td>
+                      <td className="px-6 py-3 font-mono text-slate-500">{r.header?.dieId ?? '—'} / {r.header?.cavity ?? '—'}</td>
+                      <td className="px-6 py-3 font-mono text-slate-500" title={formatProcess(r.header?.process) || undefined}>{r.header?.shot ?? '—'}</td>
+                      <td className="px-6 py-3 font-bold uppercase text-[10px]" style={{ color: LABEL_COLORS[r.result.Label] }}>{r.result.Label.replace('_', ' ')}</td>
+                      <td className="px-6 py-3 font-bold uppercase text-[10px] text-slate-400">{r.result.Severity}</td>
+                      <td className="px-6 py-3 font-mono text-right">{r.metrics.std_dev.toFixed(3)}</td>
+                      <td className="px-6 py-3 font-mono text-right">{r.metrics.thickness_ratio.toFixed(2)}</td>
+                      <td className="px-6 py-3 font-mono text-right">{r.metrics.oot_count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import { AlertTriangle, Ban, FileText } from 'lucide-react';
+import type { CMMFeature, FeatureSource, ImportDiagnostic, ParsedReport } from '../types';
+import { expectedOutTol, verifyFeature } from '../services/importers';
+
+// --- Import Preview ---
+
+export interface PreviewRow {
+  feature: CMMFeature;
+  source: FeatureSource;
+  issues: string[];
+  excluded: boolean;
+}
+
+export const previewRows = (report: ParsedReport): PreviewRow[] =>
+  report.features.map((feature, i) => ({
+    feature,
+    source: report.sources[i] ?? { line: 0, raw: '' },
+    issues: report.diagnostics.filter(d => d.featureIndex === i).map(d => d.reason),
+    excluded: false
+  }));
+
+type EditableField = 'nominal' | 'actual' | 'deviation' | 'loTol' | 'upTol';
+
+const round = (v: number) => +v.toFixed(6);
+
+// Actual and deviation move together; OOT follows the band unless the band is unknown (both limits 0)
+const applyEdit = (f: CMMFeature, field: EditableField, value: number): CMMFeature => {
+  const next = { ...f, [field]: value };
+  if (field === 'nominal' || field === 'actual') next.deviation = round(next.actual - next.nominal);
+  if (field === 'deviation') next.actual = round(next.nominal + next.deviation);
+  if (next.loTol !== 0 || next.upTol !== 0) next.outTol = expectedOutTol(next);
+  return next;
+};
+
+const FIELDS: { key: EditableField, label: string }[] = [
+  { key: 'nominal', label: 'Nom' },
+  { key: 'actual', label: 'Act' },
+  { key: 'deviation', label: 'Dev' },
+  { key: 'loTol', label: 'Lo' },
+  { key: 'upTol', label: 'Up' }
+];
+
+export const ImportPreview = ({ format, rows, rejected, onChange, onClose }: {
+  format: string,
+  rows: PreviewRow[],
+  rejected: ImportDiagnostic[],
+  onChange: (rows: PreviewRow[]) => void,
+  onClose: () => void
+}) => {
+  const update = (index: number, patch: (row: PreviewRow) => PreviewRow) =>
+    onChange(rows.map((r, i) => i === index ? patch(r) : r));
+
+  const edit = (index: number, field: EditableField, text: string) => {
+    const value = parseFloat(text);
+    if (!Number.isFinite(value) || value === rows[index].feature[field]) return;
+    update(index, row => {
+      const { feature, issues } = verifyFeature(applyEdit(row.feature, field, value));
+      return { ...row, feature, issues };
+    });
+  };
+
+  const flagged = rows.filter(r => r.issues.length).length;
+  const excluded = rows.filter(r => r.excluded).length;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden border border-slate-800 rounded-lg bg-[#05080d]">
+      <div className="px-3 py-2 border-b border-slate-800 flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+        <span className="text-emerald-500">{format}</span>
+        <span>{rows.length - excluded}/{rows.length} rows</span>
+        {flagged > 0 && <span className="text-amber-400">{flagged} flagged</span>}
+        {rejected.length > 0 && <span className="text-red-400">{rejected.length} rejected</span>}
+        <div className="flex-1" />
+        {flagged > 0 && (
+          <button
+            onClick={() => onChange(rows.map(r => r.issues.length ? { ...r, excluded: true } : r))}
+            className="flex items-center gap-1 hover:text-white transition-colors"
+          >
+            <Ban className="w-3 h-3" /> Exclude flagged
+          </button>
+        )}
+        <button onClick={onClose} className="flex items-center gap-1 hover:text-white transition-colors">
+          <FileText className="w-3 h-3" /> Raw text
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar">
+        <table className="w-full text-[10px] font-mono">
+          <thead className="sticky top-0 bg-[#0f172a] text-slate-500 text-[8px] uppercase tracking-widest">
+            <tr>
+              <th className="px-2 py-1.5 text-left">Use</th>
+              <th className="px-2 py-1.5 text-right">Ln</th>
+              <th className="px-2 py-1.5 text-left">Feature</th>
+              <th className="px-2 py-1.5 text-left">Ax</th>
+              {FIELDS.map(f => <th key={f.key} className="px-1 py-1.5 text-right">{f.label}</th>)}
+              <th className="px-2 py-1.5 text-center">OOT</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {rows.map((row, i) => (
+              <tr key={i} title={[row.source.raw, ...row.issues].filter(Boolean).join('\n')} className={`${row.excluded ? 'opacity-30' : ''} ${row.issues.length ? 'bg-amber-500/5' : ''}`}>
+                <td className="px-2 py-1">
+                  <input type="checkbox" checked={!row.excluded} onChange={(e) => update(i, r => ({ ...r, excluded: !e.target.checked }))} />
+                </td>
+                <td className="px-2 py-1 text-right text-slate-600">{row.source.line || '-'}</td>
+                <td className="px-2 py-1 text-slate-300 truncate max-w-[110px]">
+                  {row.issues.length > 0 && <AlertTriangle className="w-3 h-3 text-amber-400 inline mr-1 -mt-0.5" />}
+                  {row.feature.featureId}
+                </td>
+                <td className="px-2 py-1 text-slate-500">{row.feature.axis}</td>
+                {FIELDS.map(f => (
+                  <td key={f.key} className="px-1 py-1">
+                    <input
+                      // Remounts when the value changes elsewhere (actual ↔ deviation), so the field shows it
+                      key={`${f.key}:${row.feature[f.key]}`}
+                      defaultValue={row.feature[f.key]}
+                      onBlur={(e) => edit(i, f.key, e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                      disabled={row.excluded}
+                      className="w-14 bg-transparent text-right text-emerald-400 outline-none focus:bg-slate-800 rounded px-1"
+                    />
+                  </td>
+                ))}
+                <td className={`px-2 py-1 text-center font-bold ${row.feature.outTol ? 'text-red-400' : 'text-slate-600'}`}>{row.feature.outTol}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {rows.some(r => r.issues.length) && (
+          <div className="p-3 space-y-1 border-t border-slate-800">
+            <div className="text-[9px] font-black uppercase tracking-widest text-amber-400">Warnings</div>
+            {rows.flatMap((row, i) => row.issues.map((issue, j) => (
+              <div key={`${i}-${j}`} className="text-[10px] font-mono text-slate-400">
+                <span className="text-slate-600">L{row.source.line || '-'} {row.feature.featureId}:</span> {issue}
+              </div>
+            )))}
+          </div>
+        )}
+
+        {rejected.length > 0 && (
+          <div className="p-3 space-y-1.5 border-t border-slate-800">
+            <div className="text-[9px] font-black uppercase tracking-widest text-red-400">Rejected Lines — fix in raw text</div>
+            {rejected.map((d, i) => (
+              <div key={i} className="text-[10px] font-mono">
+                <div className="text-slate-400"><span className="text-slate-600">L{d.line || '-'}:</span> {d.reason}</div>
+                <div className="text-slate-600 truncate" title={d.raw}>{d.raw}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
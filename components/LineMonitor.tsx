@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Radio, Power, PowerOff, AlertTriangle, Eye } from 'lucide-react';
+import type { FeedStatus, ServiceRecord } from '../services/lineFeed';
+import { LABEL_COLORS } from './HistoryDashboard';
+
+export interface LineError {
+  source: string;
+  error: string;
+  timestamp: number;
+}
+
+const STATUS_STYLE: Record<FeedStatus, string> = {
+  connecting: 'text-amber-400',
+  live: 'text-emerald-400',
+  retrying: 'text-amber-500',
+  closed: 'text-slate-500'
+};
+
+const DISPOSITION_STYLE: Record<ServiceRecord['disposition'], string> = {
+  accept: 'text-emerald-400',
+  reject: 'text-red-400',
+  review: 'text-amber-400',
+  error: 'text-slate-500'
+};
+
+// --- Line Monitor ---
+
+export const LineMonitor = ({ url, enabled, status, feed, errors, follow, onConnect, onDisconnect, onFollowChange, onOpen }: {
+  url: string,
+  enabled: boolean,
+  status: { status: FeedStatus, detail?: string },
+  feed: ServiceRecord[],
+  errors: LineError[],
+  follow: boolean,
+  onConnect: (url: string) => void,
+  onDisconnect: () => void,
+  onFollowChange: (follow: boolean) => void,
+  onOpen: (record: ServiceRecord) => void
+}) => {
+  const [draftUrl, setDraftUrl] = useState(url);
+  const accepted = feed.filter(r => r.disposition === 'accept').length;
+  const rejected = feed.filter(r => r.disposition === 'reject').length;
+  const review = feed.filter(r => r.disposition === 'review').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Radio className={`w-5 h-5 ${STATUS_STYLE[status.status]}`} />
+          <div>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-300">Inspection Service</h4>
+            <p className={`text-[9px] font-mono uppercase ${STATUS_STYLE[status.status]}`}>
+              {status.status}{status.detail ? ` · ${status.detail}` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={draftUrl}
+            onChange={e => setDraftUrl(e.target.value)}
+            disabled={enabled}
+            spellCheck={false}
+            className="w-72 bg-slate-950 border border-slate-800 rounded px-3 py-1.5 text-[11px] font-mono text-slate-300 disabled:text-slate-500 outline-none focus:border-emerald-600"
+          />
+          {enabled ? (
+            <button onClick={onDisconnect} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-black uppercase text-slate-400 hover:text-red-400 border border-slate-800 rounded transition-colors">
+              <PowerOff className="w-3.5 h-3.5" /> Disconnect
+            </button>
+          ) : (
+            <button onClick={() => onConnect(draftUrl.trim())} disabled={!draftUrl.trim()} className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-black uppercase text-white bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 rounded transition-colors">
+              <Power className="w-3.5 h-3.5" /> Connect
+            </button>
+          )}
+          <label className="flex items-center gap-1.5 ml-2 text-[10px] font-black uppercase text-slate-500 cursor-pointer" title="Show each new inspection in the Inspect view as it arrives">
+            <input type="checkbox" checked={follow} onChange={e => onFollowChange(e.target.checked)} className="accent-emerald-500" /> Follow
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Inspected', value: feed.length, style: 'text-white' },
+          { label: 'Accepted', value: accepted, style: 'text-emerald-400' },
+          { label: 'Rejected', value: rejected, style: 'text-red-400' },
+          { label: 'Review', value: review, style: 'text-amber-400' }
+        ].map(kpi => (
+          <div key={kpi.label} className="bg-[#0f172a] border border-slate-800 rounded-xl p-4 shadow-xl">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{kpi.label}</p>
+            <p className={`text-2xl font-black font-mono ${kpi.style}`}>{kpi.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-amber-500/5 border border-amber-500/20 rounded-xl p-4 space-y-1">
+          {errors.map((e, i) => (
+            <div key={i} className="flex items-start gap-2 text-[10px] font-mono text-amber-400">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {new Date(e.timestamp).toLocaleTimeString()} · {e.source}: {e.error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl shadow-xl overflow-hidden">
+        {feed.length === 0 ? (
+          <div className="p-10 text-center text-[10px] font-mono text-slate-600 uppercase tracking-widest">
+            {enabled ? 'Waiting for reports from the line…' : 'Start the service with `inspect-os serve --watch <folder>` and connect.'}
+          </div>
+        ) : (
+          <div className="max-h-[640px] overflow-y-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 border-b border-slate-800">Timestamp</th>
+                  <th className="px-6 py-3 border-b border-slate-800">Source</th>
+                  <th className="px-6 py-3 border-b border-slate-800">Part</th>
+                  <th className="px-6 py-3 border-b border-slate-800">Serial</th>
+                  <th className="px-6 py-3 border-b border-slate-800">Disposition</th>
+                  <th className="px-6 py-3 border-b border-slate-800">Label</th>
+                  <th className="px-6 py-3 border-b border-slate-800">Severity</th>
+                  <th className="px-6 py-3 border-b border-slate-800 text-right">Conf.</th>
+                  <th className="px-6 py-3 border-b border-slate-800"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {feed.map(r => (
+                  <tr key={r.id}>
+                    <td className="px-6 py-3 font-mono text-slate-500">{new Date(r.timestamp).toLocaleString()}</td>
+                    <td className="px-6 py-3 font-mono text-slate-500 truncate max-w-[200px]" title={r.source}>{r.source}</td>
+                    <td className="px-6 py-3 font-mono text-slate-300">{r.partId}</td>
+                    <td className="px-6 py-3 font-mono text-slate-400">{r.header?.serial ?? '—'}</td>
+                    <td className={`px-6 py-3 font-black uppercase text-[10px] ${DISPOSITION_STYLE[r.disposition]}`}>{r.disposition}</td>
+                    <td className="px-6 py-3 font-bold uppercase text-[10px]" style={{ color: LABEL_COLORS[r.result.Label] }}>{r.result.Label.replace('_', ' ')}</td>
+                    <td className="px-6 py-3 font-bold uppercase text-[10px] text-slate-400">{r.result.Severity}</td>
+                    <td className="px-6 py-3 font-mono text-right">{r.result.Confidence.toFixed(0)}%</td>
+                    <td className="px-6 py-3 text-right">
+                      <button onClick={() => onOpen(r)} title="Open in Inspect view" className="p-1 text-slate-500 hover:text-white transition-colors"><Eye className="w-3.5 h-3.5" /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BrainCircuit, Play, Upload, Download, Trash2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import type { FeedbackRecord } from '../types';
+import { resolveLabel, scoreDistribution, selectRuleSet, type RuleSet } from '../services/ruleEngine';
+import type { LabeledSample } from '../services/calibration';
+import {
+  DEFAULT_TRAINING,
+  crossValidate,
+  trainSoftmax,
+  validateModel,
+  type DecisionMode,
+  type ModelEvaluation,
+  type SoftmaxModel,
+  type TrainingOptions
+} from '../services/statModel';
+import { FeedbackStore, feedbackSamples } from '../services/feedbackStore';
+import { ModelStore } from '../services/modelStore';
+import { downloadText } from '../utils/download';
+import { ConfusionMatrixView } from './ConfusionMatrixView';
+
+const MIN_TRAINING_SAMPLES = 10;
+
+const pct = (v: number | null) => v === null ? '—' : `${(v * 100).toFixed(0)}%`;
+
+// --- Model Lab ---
+
+export const ModelLab = ({ ruleSets, model, onModelChanged }: {
+  ruleSets: RuleSet[],
+  model: SoftmaxModel | null,
+  onModelChanged: (message: string) => void
+}) => {
+  const [dataset, setDataset] = useState<FeedbackRecord[]>([]);
+  const [options, setOptions] = useState<TrainingOptions>(DEFAULT_TRAINING);
+  const [folds, setFolds] = useState(5);
+  const [mode, setMode] = useState<DecisionMode>(model?.ensemble.mode ?? 'ensemble');
+  const [weight, setWeight] = useState(model?.ensemble.weight ?? 0.5);
+  const [evaluation, setEvaluation] = useState<ModelEvaluation | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean, text: string } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { FeedbackStore.listAll().then(setDataset).catch(err => setMessage({ ok: false, text: String(err) })); }, []);
+  useEffect(() => {
+    if (!model) return;
+    setMode(model.ensemble.mode);
+    setWeight(model.ensemble.weight);
+  }, [model]);
+
+  const samples = feedbackSamples(dataset);
+
+  const rulePrediction = (s: LabeledSample) => {
+    const ruleSet = selectRuleSet(ruleSets, s.partId || '');
+    return scoreDistribution(ruleSet, resolveLabel(ruleSet, s.metrics).scores);
+  };
+
+  // Training is synchronous; yield a frame first so the busy state renders
+  const runBusy = (fn: () => void) => {
+    setBusy(true);
+    setTimeout(() => {
+      try { fn(); } catch (err) { setMessage({ ok: false, text: String(err) }); }
+      setBusy(false);
+    }, 30);
+  };
+
+  const handleEvaluate = () => runBusy(() => {
+    setEvaluation(crossValidate(samples, rulePrediction, options, weight, folds));
+    setMessage(null);
+  });
+
+  const handleTrain = () => runBusy(() => {
+    const trained = trainSoftmax(samples, options);
+    trained.ensemble = { mode, weight };
+    ModelStore.setActive(trained).then(() => onModelChanged(`Model trained on ${samples.length} labeled parts (${mode})`));
+    setMessage({ ok: true, text: `Model trained on ${samples.length} samples and activated.` });
+  });
+
+  const handlePolicy = async () => {
+    if (!model) return;
+    await ModelStore.setActive({ ...model, ensemble: { mode, weight } });
+    onModelChanged(`Decision policy: ${mode}${mode === 'ensemble' ? ` (model weight ${weight.toFixed(2)})` : ''}`);
+    setMessage({ ok: true, text: 'Decision policy saved.' });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { model: imported, errors } = validateModel(JSON.parse(await file.text()));
+      if (!imported) { setMessage({ ok: false, text: errors.join('; ') }); return; }
+      await ModelStore.setActive(imported);
+      onModelChanged(`Model imported: ${imported.name}`);
+      setMessage({ ok: true, text: `Imported ${file.name}.` });
+    } catch (err) {
+      setMessage({ ok: false, text: `Import failed: ${String(err)}` });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!model || !window.confirm('Remove the active model? Classification falls back to rules only.')) return;
+    await ModelStore.clearActive();
+    onModelChanged('Model removed; rules only');
+  };
+
+  const inputClass = "w-20 bg-[#05080d] border border-slate-800 rounded px-2 py-1 font-mono text-emerald-400 outline-none";
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="xl:col-span-4 space-y-6">
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+          <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
+            <h2 className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2 tracking-widest">
+              <BrainCircuit className="w-4 h-4 text-emerald-500" /> Active Model
+            </h2>
+            <div className="flex gap-2">
+              <button onClick={() => importRef.current?.click()} title="Import model JSON" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Upload className="w-4 h-4" /></button>
+              <input type="file" accept=".json,application/json" ref={importRef} onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ""; }} className="hidden" />
+              <button disabled={!model} onClick={() => model && downloadText(`${model.name}-${model.trainedAt}.model.json`, JSON.stringify(model, null, 2), 'application/json')} title="Export model JSON" className="p-1.5 text-slate-500 hover:text-white disabled:opacity-30 transition-colors"><Download className="w-4 h-4" /></button>
+              <button disabled={!model} onClick={handleRemove} title="Remove model" className="p-1.5 text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          </div>
+          <div className="p-5 space-y-2 text-[10px] font-mono">
+            {model ? (
+              <>
+                <div className="flex justify-between"><span className="text-slate-500">Name</span><span className="text-slate-200">{model.name}</span></div>
+                <div className="flex justify-between"><span className="text-slate-500">Trained</span><span className="text-slate-400">{new Date(model.trainedAt).toLocaleString()}</span></div>
+                <div className="flex justify-between"><span className="text-slate-500">Samples</span><span className="text-slate-400">{model.trainingSize}</span></div>
+                <div className="flex justify-between"><span className="text-slate-500">Classes</span><span className="text-slate-400 text-right">{model.labels.join(', ')}</span></div>
+              </>
+            ) : (
+              <div className="text-slate-600 italic">No model loaded. The engine runs on rules only.</div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-4">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Decision Policy</div>
+          <div className="flex bg-slate-900 border border-slate-800 rounded p-0.5">
+            {(['rules', 'model', 'ensemble'] as const).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={`flex-1 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${mode === m ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>{m}</button>
+            ))}
+          </div>
+          <label className="block space-y-1 text-[10px] font-mono text-slate-500">
+            <div className="flex justify-between"><span>Model weight in ensemble</span><span className="text-emerald-400">{weight.toFixed(2)}</span></div>
+            <input type="range" min={0} max={1} step={0.05} value={weight} disabled={mode !== 'ensemble'} onChange={(e) => setWeight(Number(e.target.value))} className="w-full accent-emerald-500" />
+          </label>
+          <button disabled={!model} onClick={handlePolicy} className="w-full py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700">
+            Save Policy to Active Model
+          </button>
+        </div>
+
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-4">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Training ({samples.length} labeled parts)</div>
+          <div className="grid grid-cols-2 gap-3 text-[10px] font-mono text-slate-500">
+            <label className="flex items-center justify-between gap-2">L2 <input type="number" step={0.001} min={0} value={options.l2} onChange={(e) => setOptions({ ...options, l2: Number(e.target.value) })} className={inputClass} /></label>
+            <label className="flex items-center justify-between gap-2">Epochs <input type="number" step={50} min={1} value={options.epochs} onChange={(e) => setOptions({ ...options, epochs: Math.max(1, Number(e.target.value)) })} className={inputClass} /></label>
+            <label className="flex items-center justify-between gap-2">Rate <input type="number" step={0.05} min={0.001} value={options.learningRate} onChange={(e) => setOptions({ ...options, learningRate: Number(e.target.value) })} className={inputClass} /></label>
+            <label className="flex items-center justify-between gap-2">CV folds <input type="number" min={2} max={10} value={folds} onChange={(e) => setFolds(Math.min(10, Math.max(2, Number(e.target.value))))} className={inputClass} /></label>
+          </div>
+          {samples.length < MIN_TRAINING_SAMPLES && (
+            <p className="text-[10px] font-mono text-slate-600">Record at least {MIN_TRAINING_SAMPLES} verified parts through “Log Logic Error” to train.</p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <button disabled={busy || samples.length < MIN_TRAINING_SAMPLES} onClick={handleEvaluate} className="py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700">
+              Cross-Validate
+            </button>
+            <button disabled={busy || samples.length < MIN_TRAINING_SAMPLES} onClick={handleTrain} className="py-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:opacity-30 rounded text-[9px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-1.5">
+              <Play className="w-3 h-3" /> Train & Activate
+            </button>
+          </div>
+          {message && (
+            <div className={`flex items-start gap-2 text-[10px] font-mono ${message.ok ? 'text-emerald-400' : 'text-red-400'}`}>
+              {message.ok ? <CheckCircle2 className="w-3 h-3 mt-0.5 shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />} {message.text}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="xl:col-span-8 space-y-6">
+        {!evaluation ? (
+          <div className="h-full flex flex-col items-center justify-center text-center p-20 opacity-20">
+            <BrainCircuit className="w-20 h-20 mb-6 text-slate-600" />
+            <h3 className="text-xl font-black text-slate-600 uppercase tracking-tighter italic">Model Comparison</h3>
+            <p className="max-w-xs mx-auto text-slate-700 mt-2 font-bold uppercase text-[9px] tracking-widest leading-relaxed">
+              Cross-validate to compare rules, model and ensemble on held-out parts.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              {(['rules', 'model', 'ensemble'] as const).map(k => (
+                <div key={k} className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl">
+                  <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{k} accuracy</div>
+                  <div className="text-3xl font-mono text-emerald-400">{pct(evaluation[k].accuracy)}</div>
+                  <div className="text-[9px] font-mono text-slate-600 mt-1 uppercase">{evaluation.folds}-fold CV</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest">
+                  <tr>
+                    <th className="px-6 py-3 border-b border-slate-800">Class</th>
+                    <th className="px-6 py-3 border-b border-slate-800 text-right">Support</th>
+                    {(['rules', 'model', 'ensemble'] as const).map(k => (
+                      <th key={k} className="px-6 py-3 border-b border-slate-800 text-right">{k} P / R</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/50">
+                  {evaluation.rules.perClass.filter(c => c.support > 0).map(c => (
+                    <tr key={c.label}>
+                      <td className="px-6 py-3 font-bold text-slate-400">{c.label.replace('_', ' ')}</td>
+                      <td className="px-6 py-3 font-mono text-right text-slate-500">{c.support}</td>
+                      {(['rules', 'model', 'ensemble'] as const).map(k => {
+                        const row = evaluation[k].perClass.find(r => r.label === c.label)!;
+                        return <td key={k} className="px-6 py-3 font-mono text-right">{pct(row.precision)} / {pct(row.recall)}</td>;
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {(['rules', 'model', 'ensemble'] as const).map(k => (
+                <div key={k}>
+                  <ConfusionMatrixView title={k} matrix={evaluation[k].matrix} accuracy={evaluation[k].accuracy} />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
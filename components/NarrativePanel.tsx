@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Loader2, Copy, Download, AlertTriangle, WifiOff } from 'lucide-react';
+import { draftNarrative, draftToText, listNarrativeProviders, type EightDDraft, type NarrativeInput } from '../services/narrative';
+import { downloadText } from '../utils/download';
+
+// --- 8D Narrative Draft ---
+
+const SECTIONS: { key: 'problem' | 'containment' | 'rootCause', title: string }[] = [
+  { key: 'problem', title: 'D2 Problem description' },
+  { key: 'containment', title: 'D3 Containment' },
+  { key: 'rootCause', title: 'D4 Probable root cause' }
+];
+
+export const NarrativePanel = ({ input }: { input: NarrativeInput }) => {
+  const providers = listNarrativeProviders();
+  const [providerId, setProviderId] = useState(providers[0].id);
+  const [draft, setDraft] = useState<EightDDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new inspection invalidates the draft
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+  }, [input.result]);
+
+  const handleDraft = async () => {
+    const provider = providers.find(p => p.id === providerId) ?? providers[0];
+    setBusy(true);
+    setError(null);
+    try {
+      setDraft(await draftNarrative(provider, input));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const edit = (patch: Partial<EightDDraft>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  return (
+    <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 space-y-4 shadow-xl">
+      <div className="flex items-center gap-3">
+        <FileText className="w-4 h-4 text-blue-400" />
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">8D Draft</span>
+        <span className="text-[9px] font-mono text-slate-600">Verdict stays with the engine; the assistant only writes prose.</span>
+        <div className="ml-auto flex items-center gap-2">
+          <select value={providerId} onChange={(e) => setProviderId(e.target.value)} className="bg-[#05080d] border border-slate-800 rounded px-2 py-1 text-[10px] font-mono text-slate-300 outline-none">
+            {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <button onClick={handleDraft} disabled={busy} className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 rounded text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2">
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileText className="w-3 h-3" />} {draft ? 'Redraft' : 'Draft'}
+          </button>
+          {draft && (
+            <>
+              <button onClick={() => navigator.clipboard.writeText(draftToText(draft, input.result.Part_ID))} title="Copy as text" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Copy className="w-3.5 h-3.5" /></button>
+              <button onClick={() => downloadText(`${input.result.Part_ID}-8D.txt`, draftToText(draft, input.result.Part_ID), 'text/plain')} title="Download as text" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Download className="w-3.5 h-3.5" /></button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-[10px] font-mono text-red-400">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>{error}{providers.find(p => p.id === providerId)?.offline ? '' : ' The offline template provider is always available.'}</span>
+        </div>
+      )}
+
+      {draft && (
+        <div className="space-y-3">
+          <div className="text-[9px] font-mono text-slate-600 flex items-center gap-2">
+            {providers.find(p => p.id === draft.provider)?.offline && <WifiOff className="w-3 h-3" />}
+            {draft.label.replace('_', ' ')} · {draft.severity} · drafted by {draft.provider} · edit before release
+          </div>
+          {SECTIONS.map(({ key, title }) => (
+            <label key={key} className="block space-y-1">
+              <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">{title}</div>
+              <textarea value={draft[key]} onChange={(e) => edit({ [key]: e.target.value })} rows={3} className="w-full bg-[#05080d] border border-slate-800 rounded p-3 text-xs text-slate-300 leading-relaxed outline-none focus:border-blue-500/50 resize-y" />
+            </label>
+          ))}
+          <label className="block space-y-1">
+            <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">D5 Corrective actions (one per line)</div>
+            <textarea value={draft.correctiveActions.join('\n')} onChange={(e) => edit({ correctiveActions: e.target.value.split('\n') })} rows={Math.max(3, draft.correctiveActions.length)} className="w-full bg-[#05080d] border border-slate-800 rounded p-3 text-xs text-slate-300 leading-relaxed outline-none focus:border-blue-500/50 resize-y" />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClipboardList, Download, Paperclip, MessageSquare, History, ChevronRight, AlertTriangle, UserCheck, FileSpreadsheet } from 'lucide-react';
+import type { MrbDisposition, NcrStatus, Nonconformance } from '../types';
+import {
+  advanceNcr, assignNcr, attachToNcr, commentNcr, dispositionLabel, isOpen, ncrAgeDays, ncrsToCsv, nextStatus, statusLabel, summarizeNcrs,
+  MRB_DISPOSITIONS, NCR_STATUSES
+} from '../services/ncr';
+import { NcrStore } from '../services/ncrStore';
+import { LABEL_COLORS } from './HistoryDashboard';
+import { INSPECTOR_KEY } from './CertificatePanel';
+import { downloadDataUrl, downloadText } from '../utils/download';
+
+// --- Nonconformance Board ---
+
+const STATUS_TONE: Record<NcrStatus, string> = {
+  open: 'text-red-400 border-red-500/40 bg-red-500/10',
+  containment: 'text-orange-400 border-orange-500/40 bg-orange-500/10',
+  mrb_review: 'text-amber-400 border-amber-500/40 bg-amber-500/10',
+  dispositioned: 'text-blue-400 border-blue-500/40 bg-blue-500/10',
+  closed: 'text-slate-500 border-slate-700 bg-slate-900'
+};
+
+const readDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const age = (ncr: Nonconformance) => {
+  const days = ncrAgeDays(ncr);
+  return days < 1 ? `${Math.floor(days * 24)}h` : `${Math.floor(days)}d`;
+};
+
+const StatusChip = ({ status }: { status: NcrStatus }) => (
+  <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-widest whitespace-nowrap ${STATUS_TONE[status]}`}>{statusLabel(status)}</span>
+);
+
+export const NcrBoard = ({ ncrs, selectedId, onSelect, onSaved }: {
+  ncrs: Nonconformance[],
+  selectedId: string | null,
+  onSelect: (id: string | null) => void,
+  onSaved: () => void
+}) => {
+  const [actor, setActor] = useState(() => localStorage.getItem(INSPECTOR_KEY) ?? '');
+  const [filter, setFilter] = useState<'active' | 'all' | NcrStatus>('active');
+  const [search, setSearch] = useState('');
+  const [owner, setOwner] = useState('');
+  const [note, setNote] = useState('');
+  const [disposition, setDisposition] = useState<MrbDisposition | ''>('');
+  const [comment, setComment] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const attachRef = useRef<HTMLInputElement>(null);
+
+  const summary = summarizeNcrs(ncrs);
+  const selected = ncrs.find(n => n.id === selectedId) ?? null;
+  const listed = ncrs
+    .filter(n => filter === 'all' || (filter === 'active' ? isOpen(n) : n.status === filter))
+    .filter(n => !search.trim() || `${n.id} ${n.partId} ${n.header.serial ?? ''} ${n.owner ?? ''}`.toUpperCase().includes(search.trim().toUpperCase()))
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const next = selected ? nextStatus(selected.status) : null;
+
+  // Form fields belong to the NCR on screen
+  useEffect(() => {
+    setOwner(selected?.owner ?? '');
+    setNote('');
+    setDisposition('');
+    setComment('');
+    setErrors([]);
+  }, [selectedId]);
+
+  const commit = async (outcome: { ncr: Nonconformance | null, errors: string[] }) => {
+    if (!outcome.ncr) {
+      setErrors(outcome.errors);
+      return false;
+    }
+    try {
+      await NcrStore.save(outcome.ncr);
+    } catch (err) {
+      setErrors([`Save failed: ${String(err)}`]);
+      return false;
+    }
+    localStorage.setItem(INSPECTOR_KEY, actor.trim());
+    setErrors([]);
+    onSaved();
+    return true;
+  };
+
+  const handleAdvance = async () => {
+    if (!selected) return;
+    if (await commit(advanceNcr(selected, { by: actor, disposition: disposition || undefined, note }))) {
+      setNote('');
+      setDisposition('');
+    }
+  };
+
+  const handleComment = async () => {
+    if (selected && await commit(commentNcr(selected, comment, actor))) setComment('');
+  };
+
+  const handleAttach = async (files: File[]) => {
+    let current = selected;
+    for (const file of files) {
+      if (!current) return;
+      const outcome = attachToNcr(current, { name: file.name, mimeType: file.type || 'application/octet-stream', kind: 'file', content: await readDataUrl(file), encoding: 'dataUrl' }, actor);
+      if (!await commit(outcome)) return;
+      current = outcome.ncr;
+    }
+  };
+
+  const inputClass = "w-full bg-[#05080d] border border-slate-800 rounded px-2 py-1.5 text-xs font-mono text-emerald-400 outline-none placeholder:text-slate-700";
+  const buttonClass = "px-4 py-1.5 bg-slate-800 hover:bg-slate-700 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700 flex items-center gap-2 shrink-0";
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      {/* Dashboard */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl space-y-3">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Open NCRs</div>
+          <div className={`text-3xl font-mono ${summary.open ? 'text-red-400' : 'text-emerald-400'}`}>{summary.open}<span className="text-base text-slate-600">/{ncrs.length}</span></div>
+          <div className="flex flex-wrap gap-1">
+            {summary.byStatus.filter(s => s.count > 0).map(s => (
+              <button key={s.status} onClick={() => setFilter(s.status)}><StatusChip status={s.status} /> <span className="text-[9px] font-mono text-slate-500">{s.count}</span></button>
+            ))}
+          </div>
+        </div>
+        <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl space-y-2">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Open By Age</div>
+          {summary.byAge.map((b, i) => (
+            <div key={b.label} className="flex items-center gap-2 text-[10px] font-mono">
+              <span className="w-20 text-slate-500">{b.label}</span>
+              <div className="flex-1 bg-slate-900 h-2 rounded overflow-hidden">
+                <div className={`h-full ${i >= 2 ? 'bg-red-500' : i === 1 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${summary.open ? b.count / summary.open * 100 : 0}%` }} />
+              </div>
+              <span className="w-6 text-right text-slate-300">{b.count}</span>
+            </div>
+          ))}
+        </div>
+        <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl space-y-2">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Open By Defect</div>
+          {summary.byLabel.length === 0 && <div className="text-[10px] font-mono text-slate-600">None</div>}
+          {summary.byLabel.map(l => (
+            <div key={l.key} className="flex items-center gap-2 text-[10px] font-mono">
+              <div className="w-2 h-2 rounded" style={{ backgroundColor: LABEL_COLORS[l.key] }} />
+              <span className="flex-1 uppercase text-slate-400">{l.key.replace('_', ' ')}</span>
+              <span className="text-slate-300">{l.count}</span>
+            </div>
+          ))}
+        </div>
+        <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl space-y-2">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Open By Part Number</div>
+          {summary.byPart.length === 0 && <div className="text-[10px] font-mono text-slate-600">None</div>}
+          {summary.byPart.slice(0, 5).map(p => (
+            <button key={p.key} onClick={() => { setSearch(p.key); setFilter('active'); }} className="w-full flex items-center gap-2 text-[10px] font-mono hover:text-white">
+              <span className="flex-1 text-left text-slate-400 truncate">{p.key}</span>
+              <span className="text-slate-600">oldest {Math.floor((Date.now() - p.oldest) / 86400000)}d</span>
+              <span className="w-6 text-right text-slate-300">{p.count}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-12 gap-6">
+        {/* List */}
+        <div className="xl:col-span-5 bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+          <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex items-center gap-2">
+            <ClipboardList className="w-4 h-4 text-red-400" />
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Nonconformances</h3>
+            <button onClick={() => downloadText(`ncr-register-${new Date().toISOString().slice(0, 10)}.csv`, ncrsToCsv(listed))} disabled={!listed.length} title="Export the listed NCRs for the quality system" className="ml-auto p-1 text-slate-500 hover:text-white disabled:text-slate-800 transition-colors">
+              <FileSpreadsheet className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="p-3 border-b border-slate-800 flex gap-2">
+            <select value={filter} onChange={(e) => setFilter(e.target.value as typeof filter)} className="bg-[#05080d] border border-slate-800 rounded px-2 py-1 text-[10px] font-mono text-slate-300 outline-none">
+              <option value="active">Not closed</option>
+              <option value="all">All</option>
+              {NCR_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+            <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="NCR, part, serial, owner" className={inputClass} />
+          </div>
+          <div className="max-h-[560px] overflow-y-auto custom-scrollbar divide-y divide-slate-800/50">
+            {listed.length === 0 && <div className="p-6 text-[10px] font-mono text-slate-600 text-center">No NCRs. Rejected parts are raised from the results view.</div>}
+            {listed.map(n => (
+              <button key={n.id} onClick={() => onSelect(n.id)} className={`w-full px-4 py-3 flex items-center gap-3 text-left transition-colors ${n.id === selectedId ? 'bg-slate-800/40' : 'hover:bg-slate-800/20'}`}>
+                <div className="w-1 self-stretch rounded" style={{ backgroundColor: LABEL_COLORS[n.label] }} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold font-mono text-slate-200">{n.id}</div>
+                  <div className="text-[9px] font-mono text-slate-500 truncate">
+                    {n.partId}{n.header.serial ? ` · S/N ${n.header.serial}` : ''} · {n.label.replace('_', ' ')} · {n.owner ?? 'unassigned'}
+                  </div>
+                </div>
+                <span className="text-[9px] font-mono text-slate-600">{age(n)}</span>
+                <StatusChip status={n.status} />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Detail */}
+        <div className="xl:col-span-7 space-y-6">
+          <label className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <UserCheck className="w-4 h-4 text-emerald-500" /> Acting as
+            <input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Name or badge" className={`${inputClass} max-w-xs`} />
+          </label>
+
+          {!selected && (
+            <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-10 text-center text-[10px] font-mono text-slate-600">Select an NCR.</div>
+          )}
+
+          {selected && (
+            <>
+              <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-4">
+                <div className="flex items-start gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3">
+                      <span className="text-lg font-black font-mono text-slate-100">{selected.id}</span>
+                      <StatusChip status={selected.status} />
+                      {selected.disposition && <span className="text-[9px] font-black uppercase tracking-widest text-blue-400">{dispositionLabel(selected.disposition)}</span>}
+                    </div>
+                    <div className="text-[10px] font-mono text-slate-500 mt-1">
+                      {[selected.partId, selected.header.serial && `S/N ${selected.header.serial}`, selected.header.dieId && `die ${selected.header.dieId}`, selected.header.cavity && `cavity ${selected.header.cavity}`, selected.header.shot && `shot ${selected.header.shot}`, selected.source].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <div className="text-right text-[9px] font-mono text-slate-500">
+                    <div>Raised {new Date(selected.createdAt).toLocaleString()}</div>
+                    {selected.closedAt && <div>Closed {new Date(selected.closedAt).toLocaleString()}</div>}
+                  </div>
+                </div>
+                <p className="text-sm text-slate-300 leading-relaxed">
+                  <span className="font-black uppercase text-[10px] mr-2" style={{ color: LABEL_COLORS[selected.label] }}>{selected.label.replace('_', ' ')} · {selected.severity}</span>
+                  {selected.description}
+                </p>
+
+                {/* Lifecycle */}
+                <div className="flex items-center gap-1">
+                  {NCR_STATUSES.map((s, i) => {
+                    const reached = NCR_STATUSES.findIndex(x => x.id === selected.status) >= i;
+                    return (
+                      <React.Fragment key={s.id}>
+                        {i > 0 && <ChevronRight className={`w-3 h-3 ${reached ? 'text-slate-400' : 'text-slate-800'}`} />}
+                        <span className={`flex-1 text-center py-1.5 rounded text-[9px] font-black uppercase tracking-widest ${s.id === selected.status ? STATUS_TONE[s.id] + ' border' : reached ? 'text-slate-400' : 'text-slate-700'}`}>{s.label}</span>
+                      </React.Fragment>
+                    );
+                  })}
+                </div>
+
+                {isOpen(selected) && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Owner</div>
+                      <div className="flex gap-2">
+                        <input value={owner} onChange={(e) => setOwner(e.target.value)} placeholder="Assign to" className={inputClass} />
+                        <button onClick={() => commit(assignNcr(selected, owner, actor))} className={buttonClass}>Assign</button>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Move to {statusLabel(next!)}</div>
+                      <div className="flex gap-2">
+                        {next === 'dispositioned' && (
+                          <select value={disposition} onChange={(e) => setDisposition(e.target.value as MrbDisposition | '')} className="bg-[#05080d] border border-slate-800 rounded px-2 py-1 text-[10px] font-mono text-slate-300 outline-none">
+                            <option value="">Disposition…</option>
+                            {MRB_DISPOSITIONS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                          </select>
+                        )}
+                        <input value={note} onChange={(e) => setNote(e.target.value)} placeholder={disposition === 'use_as_is' ? 'Justification (required)' : 'Note'} className={inputClass} />
+                        <button onClick={handleAdvance} className={buttonClass}>{statusLabel(next!)} <ChevronRight className="w-3 h-3" /></button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {errors.length > 0 && (
+                  <div className="space-y-1">
+                    {errors.map((e, i) => <div key={i} className="flex items-center gap-2 text-[10px] font-mono text-red-400"><AlertTriangle className="w-3 h-3" /> {e}</div>)}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Comments */}
+                <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+                  <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2"><MessageSquare className="w-3.5 h-3.5 text-blue-400" /> Comments</h3>
+                  <div className="space-y-2 max-h-60 overflow-y-auto custom-scrollbar">
+                    {selected.comments.length === 0 && <div className="text-[10px] font-mono text-slate-600">No comments.</div>}
+                    {selected.comments.map((c, i) => (
+                      <div key={i} className="p-2 bg-[#05080d] border border-slate-800 rounded">
+                        <div className="text-[9px] font-mono text-slate-600">{c.by} · {new Date(c.at).toLocaleString()}</div>
+                        <div className="text-xs text-slate-300 whitespace-pre-wrap">{c.text}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={2} placeholder="Add a comment" className={inputClass} />
+                  <button onClick={handleComment} disabled={!comment.trim()} className={`${buttonClass} disabled:opacity-40`}>Comment</button>
+                </div>
+
+                {/* Attachments */}
+                <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+                  <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2"><Paperclip className="w-3.5 h-3.5 text-blue-400" /> Attachments</h3>
+                  <div className="divide-y divide-slate-800/50">
+                    {selected.attachments.map((a, i) => (
+                      <div key={i} className="py-2 flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-[10px] font-mono text-slate-300 truncate">{a.name}</div>
+                          <div className="text-[9px] font-mono text-slate-600">{a.kind === 'engine' ? 'Engine output' : a.kind === 'report' ? 'CMM report' : 'File'} · {a.addedBy}</div>
+                        </div>
+                        <button onClick={() => a.encoding === 'dataUrl' ? downloadDataUrl(a.name, a.content) : downloadText(a.name, a.content, a.mimeType)} title="Download" className="p-1 text-slate-500 hover:text-white transition-colors"><Download className="w-3.5 h-3.5" /></button>
+                      </div>
+                    ))}
+                  </div>
+                  {isOpen(selected) && (
+                    <>
+                      <button onClick={() => attachRef.current?.click()} className={buttonClass}><Paperclip className="w-3 h-3" /> Attach files</button>
+                      <input type="file" multiple ref={attachRef} onChange={(e) => { handleAttach(Array.from(e.target.files || [])); e.target.value = ""; }} className="hidden" />
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Audit Log */}
+              <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+                <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2"><History className="w-3.5 h-3.5 text-emerald-500" /> Audit Log</h3>
+                <table className="w-full text-[10px] font-mono">
+                  <tbody className="divide-y divide-slate-800/50">
+                    {selected.events.map((e, i) => (
+                      <tr key={i}>
+                        <td className="py-1.5 pr-4 text-slate-600 whitespace-nowrap">{new Date(e.at).toLocaleString()}</td>
+                        <td className="py-1.5 pr-4 text-slate-400 whitespace-nowrap">{e.by}</td>
+                        <td className="py-1.5 pr-4 uppercase text-[9px] font-black text-slate-500">{e.action}</td>
+                        <td className="py-1.5 text-slate-300">
+                          {e.action === 'status' || e.action === 'created'
+                            ? [e.from, e.to].filter(Boolean).map(s => statusLabel(s as NcrStatus)).join(' → ')
+                            : e.from ? `${e.from} → ${e.to}` : e.to ?? ''}
+                          {e.note && <span className="text-slate-500"> — {e.note}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
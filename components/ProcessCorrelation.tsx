@@ -0,0 +1,199 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Gauge, Upload, Trash2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { InspectionRecord, MLResponse, ProcessParameters, ShotRecord } from '../types';
+import type { RuleSet } from '../services/ruleEngine';
+import { ShotLogStore } from '../services/shotLogStore';
+import { findShot, indexShots, parseShotLog, withShotData } from '../services/shotLog';
+import { PROCESS_PARAMETERS } from '../services/traceability';
+import { binnedRates, formatWindow, labelCorrelations, type ProcessObservation } from '../services/processCorrelation';
+import { LABEL_COLORS } from './HistoryDashboard';
+
+// --- Rate Scatter ---
+
+const RateScatter = ({ observations, label, parameter, window }: {
+  observations: ProcessObservation[],
+  label: MLResponse['Label'],
+  parameter: keyof ProcessParameters,
+  window?: { min?: number, max?: number }
+}) => {
+  const W = 600, H = 220, PAD = 32;
+  const values = observations.map(o => o.process[parameter]).filter((v): v is number => v !== undefined);
+  const bins = binnedRates(observations, label, parameter);
+  if (values.length === 0) return <div className="h-56 flex items-center justify-center text-[10px] font-mono text-slate-600">No inspections recorded this parameter.</div>;
+
+  const limits = [window?.min, window?.max].filter((v): v is number => v !== undefined);
+  const lo = Math.min(...values, ...limits);
+  const hi = Math.max(...values, ...limits, lo + 1e-6);
+  const x = (v: number) => PAD + ((v - lo) / (hi - lo)) * (W - PAD * 2);
+  const y = (rate: number) => H - PAD - rate * (H - PAD * 2 - 12);
+  const info = PROCESS_PARAMETERS.find(p => p.key === parameter)!;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-56 bg-slate-950/40 rounded-lg border border-slate-800">
+      {window && (
+        <rect
+          x={x(window.min ?? lo)} width={x(window.max ?? hi) - x(window.min ?? lo)}
+          y={PAD - 12} height={H - PAD * 2 + 12}
+          fill="#10b981" fillOpacity={0.06}
+        />
+      )}
+      {limits.map(v => <line key={v} x1={x(v)} x2={x(v)} y1={PAD - 12} y2={H - PAD} stroke="#10b981" strokeOpacity={0.4} strokeDasharray="4 3" />)}
+      <text x={4} y={y(1) + 3} fontSize="9" fill="#475569" fontFamily="monospace">100%</text>
+      <text x={4} y={y(0) + 3} fontSize="9" fill="#475569" fontFamily="monospace">0%</text>
+      <text x={PAD} y={H - 8} fontSize="9" fill="#475569" fontFamily="monospace">{lo.toFixed(1)} {info.unit}</text>
+      <text x={W - PAD} y={H - 8} textAnchor="end" fontSize="9" fill="#475569" fontFamily="monospace">{hi.toFixed(1)} {info.unit}</text>
+      {/* One tick per inspection along the axis, coloured by its label */}
+      {observations.map((o, i) => o.process[parameter] === undefined ? null : (
+        <line key={i} x1={x(o.process[parameter]!)} x2={x(o.process[parameter]!)} y1={H - PAD + 2} y2={H - PAD + 8} stroke={LABEL_COLORS[o.label]} strokeOpacity={0.7} />
+      ))}
+      <polyline fill="none" stroke={LABEL_COLORS[label]} strokeWidth={1.5} strokeOpacity={0.6} points={bins.map(b => `${x((b.lo + b.hi) / 2)},${y(b.rate)}`).join(' ')} />
+      {bins.map((b, i) => (
+        <circle key={i} cx={x((b.lo + b.hi) / 2)} cy={y(b.rate)} r={3 + Math.min(b.n, 20) / 3} fill={LABEL_COLORS[label]} fillOpacity={0.8}>
+          <title>{`${b.lo.toFixed(1)}–${b.hi.toFixed(1)} ${info.unit}: ${(b.rate * 100).toFixed(0)}% ${label.replace('_', ' ')} (${b.n} inspections)`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+// --- Process Correlation ---
+
+export const ProcessCorrelation = ({ records, shots, ruleSet, onShotsChanged }: {
+  records: InspectionRecord[],
+  shots: ShotRecord[],
+  ruleSet: RuleSet,
+  onShotsChanged: () => void
+}) => {
+  const [selected, setSelected] = useState<{ label: MLResponse['Label'], parameter: keyof ProcessParameters } | null>(null);
+  const [status, setStatus] = useState<{ ok: boolean, msg: string } | null>(null);
+  const uploadRef = useRef<HTMLInputElement>(null);
+
+  // Records saved before the log was imported are joined here rather than at inspection time
+  const { observations, joined } = useMemo(() => {
+    const index = indexShots(shots);
+    let joined = 0;
+    const observations = records.flatMap(r => {
+      const shot = findShot(r.header, index);
+      if (shot) joined++;
+      const process = r.header ? withShotData(r.header, shot).process : undefined;
+      return process && Object.keys(process).length ? [{ label: r.result.Label, process }] : [];
+    });
+    return { observations, joined };
+  }, [records, shots]);
+
+  const labels = (Object.keys(LABEL_COLORS) as MLResponse['Label'][]).filter(l => l !== 'Good' && observations.some(o => o.label === l));
+  const correlations = labelCorrelations(observations, labels);
+  const active = selected && labels.includes(selected.label) ? selected : (labels[0] ? { label: labels[0], parameter: PROCESS_PARAMETERS[0].key } : null);
+  const cell = (label: MLResponse['Label'], parameter: keyof ProcessParameters) => correlations.find(c => c.label === label && c.parameter === parameter)!;
+
+  const handleUpload = async (files: File[]) => {
+    const all: ShotRecord[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      const parsed = parseShotLog(await file.text(), file.name);
+      all.push(...parsed.shots);
+      errors.push(...parsed.errors.slice(0, 5).map(e => `${file.name}: ${e}`));
+    }
+    if (all.length === 0) { setStatus({ ok: false, msg: errors.join(' · ') || 'No shots found' }); return; }
+    try {
+      await ShotLogStore.saveAll(all);
+      setStatus({ ok: errors.length === 0, msg: `Imported ${all.length} shots${errors.length ? ` — skipped rows: ${errors.join(' · ')}` : ''}` });
+      onShotsChanged();
+    } catch (err) {
+      setStatus({ ok: false, msg: `Shot log store error: ${err}` });
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Delete all ${shots.length} stored shots?`)) return;
+    await ShotLogStore.clear();
+    setStatus(null);
+    onShotsChanged();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Gauge className="w-5 h-5 text-emerald-500" />
+          <div>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-300">Shot Data</h4>
+            <p className="text-[9px] font-mono text-slate-600 uppercase">
+              {shots.length} logged shots · {observations.length}/{records.length} inspections with process data · {joined} joined from the log
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => uploadRef.current?.click()} title="Import shot-monitoring log (CSV)" className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-black uppercase text-slate-400 hover:text-white border border-slate-800 rounded transition-colors">
+            <Upload className="w-3.5 h-3.5" /> Import Shot Log
+          </button>
+          <input type="file" multiple accept=".csv,.txt,.tsv" ref={uploadRef} onChange={(e) => { handleUpload(Array.from(e.target.files || [])); e.target.value = ""; }} className="hidden" />
+          <button onClick={handleClear} disabled={shots.length === 0} title="Clear shot log" className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors"><Trash2 className="w-4 h-4" /></button>
+        </div>
+        {status && (
+          <div className={`w-full flex items-start gap-2 text-[10px] font-mono ${status.ok ? 'text-emerald-400' : 'text-amber-400'}`}>
+            {status.ok ? <CheckCircle2 className="w-3 h-3 mt-0.5 shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />} {status.msg}
+          </div>
+        )}
+      </div>
+
+      {!active ? (
+        <div className="p-10 text-center text-[10px] font-mono text-slate-600 uppercase tracking-widest">
+          {observations.length ? 'No defects among inspections with process data.' : 'Import a shot log or enter process parameters to correlate defects with the machine.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Label × Parameter Correlation (r)</h4>
+            <table className="w-full text-[10px] font-mono">
+              <thead className="text-[8px] font-black uppercase tracking-widest text-slate-500">
+                <tr>
+                  <th className="px-2 py-1.5 text-left">Label</th>
+                  {PROCESS_PARAMETERS.map(p => <th key={p.key} className="px-2 py-1.5 text-right">{p.label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {labels.map(label => (
+                  <tr key={label}>
+                    <td className="px-2 py-1.5 font-black uppercase" style={{ color: LABEL_COLORS[label] }}>{label.replace('_', ' ')}</td>
+                    {PROCESS_PARAMETERS.map(p => {
+                      const c = cell(label, p.key);
+                      const isActive = active.label === label && active.parameter === p.key;
+                      return (
+                        <td key={p.key} className="px-1 py-1">
+                          <button
+                            onClick={() => setSelected({ label, parameter: p.key })}
+                            title={c.n ? `n=${c.n} · mean with ${c.meanWith.toFixed(1)} vs without ${c.meanWithout.toFixed(1)} ${p.unit}` : 'Not recorded'}
+                            className={`w-full text-right px-2 py-1 rounded ${isActive ? 'ring-1 ring-slate-400' : ''}`}
+                            style={{ background: c.r > 0 ? `rgba(239,68,68,${Math.abs(c.r) * 0.5})` : `rgba(59,130,246,${Math.abs(c.r) * 0.5})` }}
+                          >
+                            {c.n ? (c.r >= 0 ? '+' : '') + c.r.toFixed(2) : '—'}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-[9px] font-mono text-slate-600 leading-relaxed">
+              Positive r: the label is more frequent at higher values. Correlation over the filtered history; it points at a setting to check, it does not prove cause.
+            </p>
+          </div>
+
+          <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <span style={{ color: LABEL_COLORS[active.label] }}>{active.label.replace('_', ' ')}</span> rate vs {PROCESS_PARAMETERS.find(p => p.key === active.parameter)!.label}
+              </h4>
+              {ruleSet.processWindows?.[active.parameter] && (
+                <span className="text-[9px] font-mono text-emerald-500">window {formatWindow(active.parameter, ruleSet.processWindows[active.parameter]!)}</span>
+              )}
+            </div>
+            <RateScatter observations={observations} label={active.label} parameter={active.parameter} window={ruleSet.processWindows?.[active.parameter]} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
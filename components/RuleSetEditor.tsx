@@ -0,0 +1,190 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { SlidersHorizontal, Save, Upload, Download, CheckCircle2, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_RULE_SET,
+  activeRuleSets,
+  nextVersion,
+  ruleSetRef,
+  selectRuleSet,
+  validateRuleSet,
+  type RuleSet
+} from '../services/ruleEngine';
+import { RuleSetStore } from '../services/ruleSetStore';
+import { downloadText } from '../utils/download';
+
+// --- Rule Set Editor ---
+
+const toJson = (rs: RuleSet) => {
+  const { updatedAt: _updatedAt, ...definition } = rs;
+  return JSON.stringify(definition, null, 2);
+};
+
+export const RuleSetEditor = ({ ruleSets, onSaved }: { ruleSets: RuleSet[], onSaved: () => void }) => {
+  // The built-in default is always listed, even before anyone has saved an edited version of it
+  const active = useMemo(() => activeRuleSets([DEFAULT_RULE_SET, ...ruleSets]), [ruleSets]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_RULE_SET.id);
+  const [draft, setDraft] = useState(toJson(DEFAULT_RULE_SET));
+  const [errors, setErrors] = useState<string[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [probePart, setProbePart] = useState("");
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const versions = ruleSets.filter(rs => rs.id === selectedId).sort((a, b) => b.version - a.version);
+  const current = active.find(rs => rs.id === selectedId);
+
+  useEffect(() => {
+    if (current) setDraft(toJson(current));
+    setErrors(null);
+    setStatus(null);
+  }, [selectedId]);
+
+  const parseDraft = () => {
+    try {
+      return validateRuleSet(JSON.parse(draft));
+    } catch (err) {
+      return { ruleSet: null, errors: [`JSON syntax: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+  };
+
+  const handleValidate = () => {
+    const { errors } = parseDraft();
+    setErrors(errors);
+    setStatus(errors.length ? null : 'Rule set is valid.');
+  };
+
+  const handleSave = async () => {
+    const { ruleSet, errors } = parseDraft();
+    setErrors(errors);
+    if (!ruleSet) return;
+    // Versions are immutable: saving always appends the next version number for this id
+    const toSave = { ...ruleSet, version: Math.max(ruleSet.version, nextVersion(ruleSets, ruleSet.id)) };
+    try {
+      await RuleSetStore.save(toSave);
+      setSelectedId(toSave.id);
+      setDraft(toJson(toSave));
+      setStatus(`Saved ${toSave.id} v${toSave.version}. New analyses of matching parts use this version.`);
+      onSaved();
+    } catch (err) {
+      setErrors([`Save failed: ${String(err)}`]);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (selectedId === DEFAULT_RULE_SET.id && versions.length === 0) return;
+    if (!window.confirm(`Delete every stored version of ${selectedId}?`)) return;
+    await RuleSetStore.remove(selectedId);
+    setSelectedId(DEFAULT_RULE_SET.id);
+    setDraft(toJson(DEFAULT_RULE_SET));
+    onSaved();
+  };
+
+  const handleNew = () => {
+    const family = window.prompt("Part family name (e.g. 'Gearbox Housings')");
+    if (!family) return;
+    const id = family.toLowerCase().replace(/[^\w]+/g, '-').replace(/^-|-$/g, '');
+    setSelectedId(id);
+    setDraft(toJson({ ...DEFAULT_RULE_SET, id, family, version: 1, partPatterns: ['CHANGE-ME-*'], description: `Thresholds for ${family}.` }));
+    setErrors(null);
+    setStatus('Draft created from the default rules. Adjust part patterns and thresholds, then save.');
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => {
+      setDraft(text);
+      setStatus(`Loaded ${file.name}. Validate and save to activate.`);
+      setErrors(null);
+    });
+  };
+
+  const handleExport = () => downloadText(`${selectedId}.rules.json`, draft, 'application/json');
+
+  const probe = probePart ? selectRuleSet(ruleSets, probePart) : null;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-6 animate-in fade-in slide-in-from-right-4 duration-500">
+      <div className="xl:col-span-4 space-y-6">
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+          <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
+            <h2 className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2 tracking-widest">
+              <SlidersHorizontal className="w-4 h-4 text-emerald-500" /> Rule Sets
+            </h2>
+            <button onClick={handleNew} title="New part family" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Plus className="w-4 h-4" /></button>
+          </div>
+          <div className="divide-y divide-slate-800/50">
+            {active.map(rs => (
+              <button
+                key={rs.id}
+                onClick={() => setSelectedId(rs.id)}
+                className={`w-full text-left px-5 py-3 transition-colors ${rs.id === selectedId ? 'bg-slate-800/40' : 'hover:bg-slate-800/20'}`}
+              >
+                <div className="flex justify-between items-baseline">
+                  <span className="text-xs font-bold text-slate-200">{rs.family}</span>
+                  <span className="text-[9px] font-mono text-emerald-500">v{rs.version}</span>
+                </div>
+                <div className="text-[9px] font-mono text-slate-600 truncate">{rs.id} · {rs.partPatterns.join(', ')}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-3">
+          <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Resolve Part Number</div>
+          <input
+            value={probePart}
+            onChange={(e) => setProbePart(e.target.value)}
+            placeholder="e.g. A3188-337-00"
+            className="w-full bg-[#05080d] border border-slate-800 rounded px-3 py-2 text-xs font-mono text-emerald-400 outline-none"
+          />
+          {probe && <div className="text-[10px] font-mono text-slate-400">→ {probe.family} <span className="text-emerald-500">({ruleSetRef(probe)})</span></div>}
+        </div>
+
+        {versions.length > 0 && (
+          <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl space-y-2">
+            <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Version History</div>
+            {versions.map(v => (
+              <button key={v.version} onClick={() => setDraft(toJson(v))} className="w-full flex justify-between text-[10px] font-mono text-slate-400 hover:text-white">
+                <span>v{v.version}</span>
+                <span className="text-slate-600">{v.updatedAt ? new Date(v.updatedAt).toLocaleString() : 'built-in'}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="xl:col-span-8 bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-2xl flex flex-col h-[760px]">
+        <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Definition (JSON)</h3>
+          <div className="flex gap-2">
+            <button onClick={() => importRef.current?.click()} title="Import JSON" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Upload className="w-4 h-4" /></button>
+            <input type="file" accept=".json,application/json" ref={importRef} onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ""; }} className="hidden" />
+            <button onClick={handleExport} title="Export JSON" className="p-1.5 text-slate-500 hover:text-white transition-colors"><Download className="w-4 h-4" /></button>
+            <button onClick={handleDelete} title="Delete stored versions" className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        </div>
+        <textarea
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setStatus(null); }}
+          spellCheck={false}
+          className="flex-1 bg-[#05080d] p-4 text-xs font-mono text-emerald-400 outline-none custom-scrollbar leading-relaxed resize-none"
+        />
+        <div className="p-4 border-t border-slate-800 space-y-3">
+          {errors && errors.length > 0 && (
+            <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+              {errors.map((e, i) => (
+                <div key={i} className="flex items-start gap-2 text-[10px] font-mono text-red-400"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {e}</div>
+              ))}
+            </div>
+          )}
+          {status && <div className="flex items-center gap-2 text-[10px] font-mono text-emerald-400"><CheckCircle2 className="w-3 h-3" /> {status}</div>}
+          <div className="flex justify-end gap-3">
+            <button onClick={handleValidate} className="px-5 py-2 rounded font-bold text-slate-400 hover:text-white text-xs uppercase transition-colors border border-slate-700">Validate</button>
+            <button onClick={handleSave} className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 rounded font-black text-xs uppercase tracking-widest transition-all flex items-center gap-2">
+              <Save className="w-4 h-4" /> Save New Version
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useMemo } from 'react';
+import { Gauge, AlertTriangle } from 'lucide-react';
+import type { InspectionRecord } from '../types';
+import { analyzeSeries, SPC_RULES, MAX_SUBGROUP_SIZE, type SpcAnalysis } from '../services/spc';
+
+// --- Control Chart ---
+
+const ControlChart = ({ title, values, cl, ucl, lcl, sigma, flagged }: {
+  title: string,
+  values: number[],
+  cl: number,
+  ucl: number,
+  lcl: number,
+  sigma?: number,
+  flagged: Set<number>
+}) => {
+  const W = 700, H = 180, PAD = 28;
+  const finite = values.filter(v => !isNaN(v));
+  const min = Math.min(lcl, ...finite);
+  const max = Math.max(ucl, ...finite, min + 1e-6);
+  const x = (i: number) => values.length === 1 ? W / 2 : PAD + (i / (values.length - 1)) * (W - PAD * 2);
+  const y = (v: number) => H - PAD - ((v - min) / (max - min)) * (H - PAD * 2);
+  const hLine = (v: number, stroke: string, dash?: string, caption?: string) => (
+    <g>
+      <line x1={PAD} x2={W - PAD} y1={y(v)} y2={y(v)} stroke={stroke} strokeDasharray={dash} strokeOpacity={0.7} />
+      {caption && <text x={W - 2} y={y(v) + 3} textAnchor="end" fontSize="9" fill={stroke} fontFamily="monospace">{caption}</text>}
+    </g>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-[9px] font-black uppercase tracking-widest text-slate-500">{title}</h5>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-44 bg-slate-950/40 rounded-lg border border-slate-800">
+        {sigma !== undefined && sigma > 0 && [1, 2].map(k => (
+          <g key={k}>
+            {hLine(cl + k * sigma, '#334155', '2 4')}
+            {hLine(cl - k * sigma, '#334155', '2 4')}
+          </g>
+        ))}
+        {hLine(ucl, '#ef4444', '6 4', `UCL ${ucl.toFixed(3)}`)}
+        {hLine(cl, '#10b981', undefined, `CL ${cl.toFixed(3)}`)}
+        {hLine(lcl, '#ef4444', '6 4', `LCL ${lcl.toFixed(3)}`)}
+        <polyline
+          fill="none"
+          stroke="#94a3b8"
+          strokeWidth={1.2}
+          points={values.map((v, i) => isNaN(v) ? null : `${x(i)},${y(v)}`).filter(Boolean).join(' ')}
+        />
+        {values.map((v, i) => isNaN(v) ? null : (
+          <circle key={i} cx={x(i)} cy={y(v)} r={flagged.has(i) ? 4 : 2.5} fill={flagged.has(i) ? '#ef4444' : '#cbd5e1'}>
+            <title>{`#${i + 1}: ${v.toFixed(4)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+// --- SPC Panel ---
+
+const formatIndex = (v: number | null) => v === null ? '—' : v.toFixed(2);
+
+export const SpcPanel = ({ records }: { records: InspectionRecord[] }) => {
+  const [subgroupSize, setSubgroupSize] = useState(5);
+  const [cpkTarget, setCpkTarget] = useState(1.33);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const analyses = useMemo(() => analyzeSeries(records, subgroupSize)
+    .sort((a, b) => (a.Cpk ?? Infinity) - (b.Cpk ?? Infinity)), [records, subgroupSize]);
+
+  const selected: SpcAnalysis | undefined = analyses.find(a => a.characteristic.key === selectedKey) || analyses[0];
+  const capable = analyses.filter(a => a.Cpk !== null && a.Cpk >= cpkTarget).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-5 shadow-xl flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Gauge className="w-5 h-5 text-blue-400" />
+          <div>
+            <h3 className="text-[11px] font-black uppercase tracking-widest text-slate-300">Process Capability</h3>
+            <p className="text-[9px] font-mono text-slate-600 uppercase">{capable}/{analyses.length} characteristics at Cpk ≥ {cpkTarget.toFixed(2)}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4 text-[10px] font-black uppercase text-slate-500">
+          <label className="flex items-center gap-2">
+            Subgroup n
+            <select value={subgroupSize} onChange={(e) => setSubgroupSize(Number(e.target.value))} className="bg-[#05080d] border border-slate-800 rounded px-2 py-1 font-mono text-emerald-400 outline-none">
+              {Array.from({ length: MAX_SUBGROUP_SIZE }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n === 1 ? '1 (I-MR)' : n}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Cpk target
+            <input type="number" step={0.01} min={0} value={cpkTarget} onChange={(e) => setCpkTarget(Number(e.target.value) || 0)} className="w-16 bg-[#05080d] border border-slate-800 rounded px-2 py-1 font-mono text-emerald-400 outline-none" />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+        <div className="max-h-[320px] overflow-y-auto custom-scrollbar">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest sticky top-0">
+              <tr>
+                <th className="px-4 py-3 border-b border-slate-800">Characteristic</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">n</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">Mean</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">σ within</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">Cp</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">Cpk</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">Pp</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">Ppk</th>
+                <th className="px-4 py-3 border-b border-slate-800 text-right">Rule Alerts</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {analyses.map(a => {
+                const ok = a.Cpk !== null && a.Cpk >= cpkTarget;
+                return (
+                  <tr
+                    key={a.characteristic.key}
+                    onClick={() => setSelectedKey(a.characteristic.key)}
+                    className={`cursor-pointer hover:bg-slate-800/40 ${selected?.characteristic.key === a.characteristic.key ? 'bg-slate-800/30' : ''}`}
+                  >
+                    <td className="px-4 py-2 font-mono text-slate-300">{a.characteristic.featureId} <span className="text-slate-600">[{a.characteristic.axis}]</span></td>
+                    <td className="px-4 py-2 font-mono text-right text-slate-500">{a.characteristic.samples.length}</td>
+                    <td className="px-4 py-2 font-mono text-right">{a.mean.toFixed(3)}</td>
+                    <td className="px-4 py-2 font-mono text-right">{a.sigmaWithin.toFixed(4)}</td>
+                    <td className="px-4 py-2 font-mono text-right">{formatIndex(a.Cp)}</td>
+                    <td className={`px-4 py-2 font-mono text-right font-bold ${a.Cpk === null ? 'text-slate-600' : ok ? 'text-emerald-400' : 'text-red-400'}`}>{formatIndex(a.Cpk)}</td>
+                    <td className="px-4 py-2 font-mono text-right">{formatIndex(a.Pp)}</td>
+                    <td className="px-4 py-2 font-mono text-right">{formatIndex(a.Ppk)}</td>
+                    <td className={`px-4 py-2 font-mono text-right ${a.violations.length ? 'text-amber-400' : 'text-slate-600'}`}>{a.violations.length}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && selected.points.length > 0 && (
+        <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-5">
+          <div className="flex justify-between items-baseline">
+            <h4 className="text-xs font-black uppercase tracking-widest text-slate-200">
+              {selected.characteristic.featureId} [{selected.characteristic.axis}]
+            </h4>
+            <span className="text-[9px] font-mono text-slate-600 uppercase">
+              Spec {selected.characteristic.loTol} / +{selected.characteristic.upTol} · {selected.points.length} subgroups
+            </span>
+          </div>
+          <ControlChart
+            title={selected.subgroupSize === 1 ? 'Individuals (X)' : `X̄ Chart (n=${selected.subgroupSize})`}
+            values={selected.points.map(p => p.value)}
+            cl={selected.xbar.cl}
+            ucl={selected.xbar.ucl}
+            lcl={selected.xbar.lcl}
+            sigma={selected.xbar.sigma}
+            flagged={new Set(selected.violations.filter(v => v.chart === 'xbar').map(v => v.index))}
+          />
+          <ControlChart
+            title={selected.subgroupSize === 1 ? 'Moving Range (MR)' : 'Range (R) Chart'}
+            values={selected.points.map(p => p.range)}
+            cl={selected.range.cl}
+            ucl={selected.range.ucl}
+            lcl={selected.range.lcl}
+            flagged={new Set(selected.violations.filter(v => v.chart === 'range').map(v => v.index))}
+          />
+          {selected.violations.length > 0 && (
+            <div className="space-y-1">
+              {selected.violations.map((v, i) => (
+                <div key={i} className="flex items-center gap-2 text-[10px] font-mono text-amber-400">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  <span className="text-slate-500">{v.chart === 'xbar' ? 'X̄' : 'R'} #{v.index + 1}</span>
+                  <span className="font-bold">{v.rule}</span>
+                  <span className="text-slate-400">{SPC_RULES[v.rule]}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      {selected && selected.points.length === 0 && (
+        <div className="p-6 text-[10px] font-mono text-slate-600 italic">
+          Not enough inspections for a subgroup of {subgroupSize}. Reduce the subgroup size or record more reports.
+        </div>
+      )}
+    </div>
+  );
+};
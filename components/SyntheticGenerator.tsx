@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { FlaskConical, FileText, Dices } from 'lucide-react';
+import type { MLResponse } from '../types';
+import { LABELS, SEVERITIES } from '../services/ruleEngine';
+import { DEFAULT_NOISE_MM, DEFAULT_TEMPLATE, generateReport, type PartTemplate, type SyntheticReport } from '../services/synthetic';
+
+type Label = MLResponse['Label'];
+type DefectLabel = Exclude<Label, 'Good'>;
+
+const DEFECTS = LABELS.filter((l): l is DefectLabel => l !== 'Good');
+
+// --- Synthetic Report Generator ---
+
+// Fills the payload with a seeded report of known morphology; the seed moves on after each one so repeated
+// presses give a fresh part, and typing a seed back reproduces it exactly
+export const SyntheticGenerator = ({ current, onGenerate, onClose }: {
+  // Features of the report on screen, offered as the template instead of the built-in part
+  current: PartTemplate | null,
+  onGenerate: (report: SyntheticReport) => void,
+  onClose: () => void
+}) => {
+  const [label, setLabel] = useState<Label>('Shrinkage_Porosity');
+  const [severity, setSeverity] = useState<MLResponse['Severity']>('Moderate');
+  const [mix, setMix] = useState<DefectLabel[]>([]);
+  const [seed, setSeed] = useState(1);
+  const [noise, setNoise] = useState(DEFAULT_NOISE_MM);
+  const [useCurrent, setUseCurrent] = useState(false);
+  const [last, setLast] = useState<SyntheticReport | null>(null);
+
+  const template = useCurrent && current ? current : DEFAULT_TEMPLATE;
+
+  const generate = () => {
+    const report = generateReport(template, { label, severity, seed, noise, mix: label === 'Good' ? [] : mix });
+    setLast(report);
+    setSeed(seed + 1);
+    onGenerate(report);
+  };
+
+  const toggleMix = (l: DefectLabel) => setMix(mix.includes(l) ? mix.filter(m => m !== l) : [...mix, l]);
+
+  const inputClass = "w-full bg-[#05080d] border border-slate-800 rounded px-2 py-1.5 text-xs font-mono text-emerald-400 outline-none";
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden border border-slate-800 rounded-lg bg-[#05080d]">
+      <div className="px-3 py-2 border-b border-slate-800 flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+        <FlaskConical className="w-3 h-3 text-emerald-500" /> Synthetic Report
+        <div className="flex-1" />
+        <button onClick={onClose} className="flex items-center gap-1 hover:text-white transition-colors">
+          <FileText className="w-3 h-3" /> Raw text
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <div>Morphology</div>
+            <select value={label} onChange={(e) => setLabel(e.target.value as Label)} className={inputClass}>
+              {LABELS.map(l => <option key={l} value={l}>{l.replace('_', ' ')}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <div>Severity</div>
+            <select value={severity} disabled={label === 'Good'} onChange={(e) => setSeverity(e.target.value as MLResponse['Severity'])} className={`${inputClass} disabled:text-slate-700`}>
+              {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <div>Seed</div>
+            <input type="number" min={0} step={1} value={seed} onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))} className={inputClass} />
+          </label>
+          <label className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <div>Noise σ <span className="normal-case tracking-normal font-mono">mm</span></div>
+            <input type="number" min={0} step={0.001} value={noise} onChange={(e) => setNoise(Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Superimpose</div>
+          <div className="flex flex-wrap gap-1">
+            {DEFECTS.filter(l => l !== label).map(l => (
+              <button
+                key={l}
+                disabled={label === 'Good'}
+                onClick={() => toggleMix(l)}
+                className={`px-2 py-1 rounded text-[8px] font-bold uppercase transition-all disabled:opacity-30 ${mix.includes(l) ? 'bg-emerald-600/20 text-emerald-400 border border-emerald-500/40' : 'bg-slate-800 text-slate-400 border border-transparent hover:bg-slate-700'}`}
+              >
+                {l.replace('_', ' ')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className={`flex items-center gap-2 text-[9px] font-black uppercase tracking-widest ${current ? 'text-slate-500' : 'text-slate-700'}`}>
+          <input type="checkbox" disabled={!current} checked={useCurrent && !!current} onChange={(e) => setUseCurrent(e.target.checked)} className="accent-emerald-500" />
+          Use features of the current report
+        </label>
+        <div className="text-[9px] font-mono text-slate-600">
+          Template {template.partId} · {template.features.length} features
+        </div>
+
+        <button onClick={generate} className="w-full py-2 rounded bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all">
+          <Dices className="w-3.5 h-3.5" /> Generate seed {seed}
+        </button>
+
+        {last && (
+          <div className="text-[9px] font-mono text-slate-500 break-all">
+            Loaded {last.fileName} · {last.features.filter(f => f.outTol === 1).length} of {last.features.length} out of tolerance
+          </div>
+        )}
+
+        <p className="text-[9px] font-mono text-slate-600 leading-relaxed">
+          Severity scales the defect in multiples of each feature's tolerance half-width. The same template, settings and seed always produce the same report.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Tag, FileText, Eraser } from 'lucide-react';
+import type { ReportHeader } from '../types';
+import { PROCESS_PARAMETERS, TRACE_FIELDS, type TraceEntry } from '../services/traceability';
+
+// --- Traceability Entry ---
+
+// Placeholders show what the report header carries; anything typed here overrides it for this inspection
+export const TraceabilityForm = ({ parsed, entry, onChange, onClose }: {
+  parsed: ReportHeader | null,
+  entry: TraceEntry,
+  onChange: (entry: TraceEntry) => void,
+  onClose: () => void
+}) => {
+  const setProcess = (key: keyof NonNullable<TraceEntry['process']>, text: string) => {
+    const process = { ...entry.process };
+    const value = parseFloat(text);
+    if (text.trim() === '' || !Number.isFinite(value)) delete process[key];
+    else process[key] = value;
+    onChange({ ...entry, process });
+  };
+
+  const inputClass = "w-full bg-[#05080d] border border-slate-800 rounded px-2 py-1.5 text-xs font-mono text-emerald-400 outline-none placeholder:text-slate-700";
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden border border-slate-800 rounded-lg bg-[#05080d]">
+      <div className="px-3 py-2 border-b border-slate-800 flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+        <Tag className="w-3 h-3 text-emerald-500" /> Traceability
+        <div className="flex-1" />
+        <button onClick={() => onChange({})} className="flex items-center gap-1 hover:text-white transition-colors">
+          <Eraser className="w-3 h-3" /> Clear
+        </button>
+        <button onClick={onClose} className="flex items-center gap-1 hover:text-white transition-colors">
+          <FileText className="w-3 h-3" /> Raw text
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {TRACE_FIELDS.map(f => (
+            <label key={f.key} className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+              <div>{f.label}</div>
+              <input
+                value={entry[f.key] ?? ''}
+                placeholder={parsed?.[f.key] ?? '—'}
+                onChange={(e) => onChange({ ...entry, [f.key]: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <label className="col-span-2 space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <div>Cast / Measured</div>
+            <input
+              value={entry.date ?? ''}
+              placeholder={parsed?.date ?? 'yyyy-mm-dd hh:mm'}
+              onChange={(e) => onChange({ ...entry, date: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-500">Process Parameters</div>
+          <div className="grid grid-cols-2 gap-3">
+            {PROCESS_PARAMETERS.map(p => (
+              <label key={p.key} className="space-y-1 block text-[9px] font-black uppercase tracking-widest text-slate-600">
+                <div>{p.label} <span className="normal-case tracking-normal font-mono">{p.unit}</span></div>
+                <input
+                  type="number"
+                  value={entry.process?.[p.key] ?? ''}
+                  placeholder={parsed?.process?.[p.key]?.toString() ?? '—'}
+                  onChange={(e) => setProcess(p.key, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-[9px] font-mono text-slate-600 leading-relaxed">
+          Entries are saved with the inspection and override the report header. They are cleared when another report is loaded.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -24,274 +24,234 @@ import {
   CheckCircle2,
   Info,
   Scale,
-  Target
+  Target,
+  FolderOpen,
+  Download,
+  ArrowLeft,
+  History,
+  SlidersHorizontal,
+  BrainCircuit,
+  Map as MapIcon,
+  Eye,
+  TableProperties,
+  ListOrdered,
+  Star,
+  Tag,
+  Radio,
+  Gauge,
+  ClipboardList
 } from 'lucide-react';
+import type { CMMFeature, EngineeredMetrics, FeatureMap, GoldenBaseline, ImportDiagnostic, MeasurementNoise, MLResponse, Nonconformance, ParsedReport, ReportHeader, ShotRecord } from './types';
+import { DEFAULT_CALIBRATION, rankDistribution, findRuleSetVersion, evaluateBenchmark, ruleSetRef, type RuleSet } from './services/ruleEngine';
+import { RuleSetStore } from './services/ruleSetStore';
+import { RuleSetEditor } from './components/RuleSetEditor';
+import { CalibrationModal } from './components/CalibrationModal';
+import { ModelLab } from './components/ModelLab';
+import { AuditTrail } from './components/AuditTrail';
+import { ModelStore } from './services/modelStore';
+import { downloadText } from './utils/download';
+import type { SoftmaxModel } from './services/statModel';
+import { featureKey } from './services/featureIds';
+import { InspectionHistory } from './services/historyStore';
+import { MappingStore } from './services/mappingStore';
+import { FeatureMapStore } from './services/featureMapStore';
+import { FeatureMapEditor } from './components/FeatureMapEditor';
+import { BaselineStore } from './services/baselineStore';
+import { addGoldenSamples, baselineId, compareToBaseline, emptyBaseline, goldenSample } from './services/baseline';
+import { BaselinePanel } from './components/BaselinePanel';
+import { AlignmentPanel } from './components/AlignmentPanel';
+import { GdtPanel } from './components/GdtPanel';
+import { NarrativePanel } from './components/NarrativePanel';
+import { createGeminiProvider, narrativeInput, registerNarrativeProvider } from './services/narrative';
+import { BaselineManager } from './components/BaselineManager';
+import { GageStudy } from './components/GageStudy';
+import { NoiseStore } from './services/noiseStore';
+import { TraceabilityForm } from './components/TraceabilityForm';
+import { ShotLogStore } from './services/shotLogStore';
+import { indexShots } from './services/shotLog';
+import { PROCESS_PARAMETERS, applyTraceEntry, formatProcess, isTraceEntryEmpty, type TraceEntry } from './services/traceability';
+import { importReport, listImporters, MappingRequiredError, type CsvColumnMapping, type CsvLayout } from './services/importers';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { ImportPreview, previewRows, type PreviewRow } from './components/ImportPreview';
+import { HistoryDashboard, LABEL_COLORS } from './components/HistoryDashboard';
+import { ENGINE_VERSION } from './services/engine';
+import { alignFeatures, bestFit } from './services/alignment';
+import { SCENARIOS, type ScenarioId } from './services/scenarios';
+import { inspectReport, reportTimestamp, type InspectionContext } from './services/pipeline';
+import { connectLineFeed, fetchRecentInspections, toInspectionRecord, DEFAULT_SERVICE_URL, type FeedStatus, type ServiceRecord } from './services/lineFeed';
+import { LineMonitor, type LineError } from './components/LineMonitor';
+import { SyntheticGenerator } from './components/SyntheticGenerator';
+import { CertificatePanel, INSPECTOR_KEY } from './components/CertificatePanel';
+import { NcrBoard } from './components/NcrBoard';
+import { NcrStore } from './services/ncrStore';
+import { createNcr, findOpenNcr, isOpen, shouldRaiseNcr, statusLabel } from './services/ncr';
+import { csvCell } from './services/csv';
+import { templateFromFeatures, type SyntheticReport } from './services/synthetic';
 
-/**
- * NON-VISUAL MACHINE LEARNING (NVML) CLASSIFIER ENGINE v5.0
- * Logic-based deduction engine for Die-Casting Defect Detection.
- * 
- * CORE MORPHOLOGICAL SIGNATURES (REFINED):
- * - Shrinkage Porosity: Thickness Ratio > 1.8 + Systematic Negative Thick Dev. (Heavily penalizes Offset).
- * - Gas Porosity: High Scatter (StdDev > 0.15) + Low Directional Bias (< 0.75).
- * - Cold Shut: Significant Angular/Structural Devs + Ratio < 1.0 + 0 OOT (Tolerances are loose, but error is real).
- * - Feature Offset: High Directionality (> 0.9) + Ratio near 1.0 + OOT Count > 0.
- */
-
-// --- Domain-Specific Types ---
-
-interface CMMFeature {
-  featureId: string;
-  axis: string;
-  nominal: number;
-  actual: number;
-  deviation: number;
-  loTol: number;
-  upTol: number;
-  outTol: number;
-  sectionType: 'thick' | 'thin' | 'structural' | 'angular';
-}
+// Numbered after the engine generation (MORPHOLOGICAL_v6 is LocalML 6), so the header matches certificates
+const PRODUCT_LABEL = `LocalML ${ENGINE_VERSION.replace(/^.*_v/i, '')}`;
+
+// --- Batch Inspection ---
 
-interface EngineeredMetrics {
-  thickness_ratio: number;
-  std_dev: number;
-  oot_count: number;
-  oot_ratio: number;
-  mean_deviation: number;
-  directionality: number; 
-  thick_mean_dev: number;
-  thin_mean_dev: number;
-  angular_mean_abs_dev: number;
-  abs_mean_dev: number;
-  max_angular_dev: number;
-  thick_count: number;
-  thin_count: number;
+interface BatchEntry {
+  fileName: string;
+  timestamp: number;
+  partId: string;
+  format?: string;
+  header?: ReportHeader;
+  // Rejected and flagged rows; batch mode has no preview, so they are listed in the lot report
+  diagnostics?: ImportDiagnostic[];
+  features: CMMFeature[];
+  metrics: EngineeredMetrics | null;
+  result: MLResponse | null;
+  error?: string;
+  // Set when a CSV layout has no saved column mapping; the wizard resumes the file once it is mapped
+  unmapped?: { text: string, layout: CsvLayout, suggestion: CsvColumnMapping };
 }
 
-interface MLResponse {
-  Part_ID: string;
-  Label: 'Shrinkage_Porosity' | 'Gas_Porosity' | 'Cold_Shut' | 'Feature_Offset' | 'Other_Defect' | 'Good';
-  Confidence: number;
-  Severity: 'Minor' | 'Moderate' | 'Critical';
-  Root_Cause: string;
-  Recommended_Action: string;
+interface LotSummary {
+  total: number;
+  inspected: number;
+  unreadable: number;
+  good: number;
+  review: number;
+  yieldPct: number;
+  pareto: { label: MLResponse['Label'], count: number, cumulativePct: number }[];
+  severity: Record<MLResponse['Severity'], number>;
 }
 
-// --- Local ML Inference Logic ---
-
-const LocalInferenceEngine = {
-  classify: (partId: string, features: CMMFeature[], metrics: EngineeredMetrics): MLResponse => {
-    const scores = {
-      Shrinkage_Porosity: 0,
-      Gas_Porosity: 0,
-      Cold_Shut: 0,
-      Feature_Offset: 0,
-      Other_Defect: 0,
-      Good: 0
-    };
-
-    // 1. GOOD: Pass Check
-    if (metrics.oot_count === 0 && metrics.std_dev < 0.04 && Math.abs(metrics.mean_deviation) < 0.05) {
-      scores.Good = 100;
-    } else {
-      scores.Good = -1000; 
+const inspectReportFile = async (file: File, ctx: InspectionContext): Promise<BatchEntry> => {
+  const fileName = file.webkitRelativePath || file.name;
+  // The report's modification time stands in for the measurement time when the header has no date
+  const fallback = file.lastModified || Date.now();
+  let text = "";
+  try {
+    text = await file.text();
+    const report = importReport(text, { fileName, mappings: ctx.mappings, featureMaps: ctx.featureMaps });
+    const { header, features, diagnostics } = report;
+    const timestamp = reportTimestamp(header, fallback);
+    // An empty feature list would classify as a spurious Good; report it as unreadable instead
+    if (features.length === 0) {
+      return { fileName, timestamp, partId: header.partId, format: report.format, header, diagnostics, features, metrics: null, result: null, error: "No measurement rows found" };
     }
+    const inspected = inspectReport(report, ctx);
+    return { fileName, timestamp, partId: header.partId, format: report.format, header: inspected.header, diagnostics, features, metrics: inspected.metrics, result: inspected.result };
+  } catch (err) {
+    const unmapped = err instanceof MappingRequiredError ? { text, layout: err.layout, suggestion: err.suggestion } : undefined;
+    return { fileName, timestamp: fallback, partId: "-", features: [], metrics: null, result: null, error: err instanceof Error ? err.message : String(err), unmapped };
+  }
+};
 
-    // 2. SHRINKAGE POROSITY: Systematic contraction in heavy walls
-    if (metrics.thickness_ratio >= 1.6) {
-      scores.Shrinkage_Porosity += 80;
-      if (metrics.thick_mean_dev < -0.1) {
-        scores.Shrinkage_Porosity += 20;
-      }
-      // If it's localized shrinkage, it's NOT a global offset
-      scores.Feature_Offset -= 80;
+// Walks dropped items, descending into folders (one folder per shift is the usual drop)
+const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      return new Promise(resolve => (entry as FileSystemFileEntry).file(f => resolve([f]), () => resolve([])));
     }
-
-    // 3. FEATURE OFFSET: Uniform translation of the entire geometry
-    if (metrics.directionality > 0.88 && metrics.thickness_ratio < 1.4) {
-      // Must have OOT to be a typical offset, otherwise it might be Cold Shut or just a slightly off Good part
-      if (metrics.oot_count > 0) {
-        scores.Feature_Offset += 95;
-      } else if (metrics.std_dev > 0.05) {
-        scores.Feature_Offset += 40;
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      const children: FileSystemEntry[] = [];
+      // readEntries returns results in chunks until an empty array is returned
+      for (;;) {
+        const chunk = await new Promise<FileSystemEntry[]>(resolve => reader.readEntries(resolve, () => resolve([])));
+        if (chunk.length === 0) break;
+        children.push(...chunk);
       }
+      const nested = await Promise.all(children.map(readEntry));
+      return nested.flat();
     }
+    return [];
+  };
 
-    // 4. GAS POROSITY: Turbulent scatter
-    if (metrics.std_dev > 0.15 && metrics.directionality < 0.75) {
-      scores.Gas_Porosity = 98;
-    }
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((e): e is FileSystemEntry => e !== null);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
 
-    // 5. COLD SHUT: Angular mis-fusion (Driven by angular features, thick features are stable)
-    // Signature: high angular dev, low oot count (since angular tol is loose), low ratio.
-    if (metrics.max_angular_dev > 0.4 && metrics.thickness_ratio < 1.2) {
-      if (metrics.oot_count === 0 || (metrics.oot_count > 0 && metrics.max_angular_dev > metrics.abs_mean_dev)) {
-        scores.Cold_Shut = 96;
-        // Cold shut often looks like offset if directional, so we boost it over offset if angular dev is the primary driver
-        scores.Feature_Offset -= 50; 
-      }
-    }
+const summarizeLot = (entries: BatchEntry[]): LotSummary => {
+  const inspected = entries.filter(e => e.result);
+  const good = inspected.filter(e => e.result!.Label === 'Good').length;
 
-    // Resolve Winner
-    const sortedEntries = Object.entries(scores).sort((a, b) => b[1] - a[1]);
-    const winnerLabel = sortedEntries[0][0] as MLResponse['Label'];
-    const rawScore = sortedEntries[0][1];
-    
-    const confidence = Math.min(Math.max(rawScore, 5), 99);
-    let severity: MLResponse['Severity'] = 'Minor';
-    if (metrics.oot_ratio > 0.4 || metrics.std_dev > 0.3) severity = 'Critical';
-    else if (metrics.oot_count > 0 || metrics.std_dev > 0.1 || metrics.max_angular_dev > 0.5) severity = 'Moderate';
-
-    const reasoning = LocalInferenceEngine.generateReasoning(winnerLabel, metrics);
-
-    return {
-      Part_ID: partId,
-      Label: winnerLabel,
-      Confidence: confidence,
-      Severity: severity,
-      Root_Cause: reasoning.root_cause,
-      Recommended_Action: reasoning.action
-    };
-  },
-
-  generateReasoning: (label: MLResponse['Label'], metrics: EngineeredMetrics) => {
-    switch(label) {
-      case 'Feature_Offset':
-        return {
-          root_cause: `Detected uniform translation signature (Ratio: ${metrics.thickness_ratio.toFixed(2)}). High unidirectional bias (${(metrics.directionality * 100).toFixed(0)}%) across all sections with OOT failures suggests a global datum shift.`,
-          action: "Re-zero CMM and inspect locator pin alignment. Verify fixture clamping consistency."
-        };
-      case 'Shrinkage_Porosity':
-        return {
-          root_cause: `Observed high sectional thickness ratio (${metrics.thickness_ratio.toFixed(2)}). Heavy sections exhibit significant contraction (${metrics.thick_mean_dev.toFixed(3)}mm) while thin sections remain relatively stable. Thermal contraction confirmed.`,
-          action: "Increase Phase 3 intensification pressure. Audit cooling line efficiency in heavy die sections."
-        };
-      case 'Gas_Porosity':
-        return {
-          root_cause: `High dimensional scatter (StdDev: ${metrics.std_dev.toFixed(3)}mm) with low directional bias. Geometric turbulence detected, indicative of internal gas entrapment.`,
-          action: "Inspect and clean vacuum vents. Optimize shot velocity to minimize air entrapment."
-        };
-      case 'Cold_Shut':
-        return {
-          root_cause: `Significant deviations detected in angular or structural features (Max Angular Dev: ${metrics.max_angular_dev.toFixed(3)}) while heavy sections remain accurate. Characteristic of stream fusion failure at joining fronts.`,
-          action: "Increase die and furnace temperatures. Inspect flow fronts for premature solidification."
-        };
-      case 'Good':
-        return {
-          root_cause: "Dimensions are nominal-centric with negligible scatter. Zero OOT flags.",
-          action: "Maintain standard process parameters."
-        };
-      default:
-        return {
-          root_cause: "Morphological signature does not match standard defect vectors.",
-          action: "Manual review and full 3D scan required."
-        };
-    }
-  }
-};
+  const counts = new Map<MLResponse['Label'], number>();
+  inspected.forEach(e => {
+    if (e.result!.Label === 'Good') return;
+    counts.set(e.result!.Label, (counts.get(e.result!.Label) || 0) + 1);
+  });
+  const defectTotal = inspected.length - good;
+  let running = 0;
+  const pareto = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([label, count]) => {
+      running += count;
+      return { label, count, cumulativePct: defectTotal ? (running / defectTotal) * 100 : 0 };
+    });
 
-// --- Helper Functions ---
-
-const calculateMetrics = (features: CMMFeature[]): EngineeredMetrics => {
-  const devs = features.map(f => f.deviation || 0);
-  const n = devs.length || 1;
-  const mean_deviation = devs.reduce((a, b) => a + b, 0) / n;
-  const std_dev = Math.sqrt(devs.map(x => Math.pow(x - mean_deviation, 2)).reduce((a, b) => a + b, 0) / n);
-  
-  const thickFeatures = features.filter(f => f.sectionType === 'thick');
-  const thinFeatures = features.filter(f => f.sectionType === 'thin' || f.sectionType === 'structural');
-  const angularFeatures = features.filter(f => f.sectionType === 'angular');
-  
-  const thickAbsMean = thickFeatures.length ? thickFeatures.reduce((a, b) => a + Math.abs(b.deviation), 0) / thickFeatures.length : 0;
-  const thinAbsMean = thinFeatures.length ? thinFeatures.reduce((a, b) => a + Math.abs(b.deviation), 0) / thinFeatures.length : 0;
-  const angAbsMean = angularFeatures.length ? angularFeatures.reduce((a, b) => a + Math.abs(b.deviation), 0) / angularFeatures.length : 0;
-  
-  const thickMeanDev = thickFeatures.length ? thickFeatures.reduce((a, b) => a + b.deviation, 0) / thickFeatures.length : 0;
-  const thinMeanDev = thinFeatures.length ? thinFeatures.reduce((a, b) => a + b.deviation, 0) / thinFeatures.length : 0;
-
-  // Comparison of heavy vs light/structural area errors
-  const thickness_ratio = (thinAbsMean + angAbsMean) < 0.05 ? (thickAbsMean / 0.05) : (thickAbsMean / ((thinAbsMean + angAbsMean) / ( (thinFeatures.length > 0 ? 1:0) + (angularFeatures.length > 0 ? 1:0) )));
-  
-  const oot_count = features.filter(f => f.outTol === 1).length;
-  const positiveCount = devs.filter(d => d > 0).length;
-  const negativeCount = devs.filter(d => d < 0).length;
-  const directionality = Math.max(positiveCount, negativeCount) / n;
-
-  return { 
-    thickness_ratio, 
-    std_dev, 
-    oot_count, 
-    oot_ratio: oot_count / n, 
-    mean_deviation, 
-    directionality, 
-    thick_mean_dev: thickMeanDev,
-    thin_mean_dev: thinMeanDev,
-    angular_mean_abs_dev: angAbsMean,
-    abs_mean_dev: features.reduce((a, b) => a + Math.abs(b.deviation), 0) / n,
-    max_angular_dev: angularFeatures.length ? Math.max(...angularFeatures.map(f => Math.abs(f.deviation))) : 0,
-    thick_count: thickFeatures.length,
-    thin_count: thinFeatures.length
+  const severity: LotSummary['severity'] = { Minor: 0, Moderate: 0, Critical: 0 };
+  inspected.forEach(e => { if (e.result!.Label !== 'Good') severity[e.result!.Severity]++; });
+
+  return {
+    total: entries.length,
+    inspected: inspected.length,
+    unreadable: entries.length - inspected.length,
+    good,
+    review: inspected.filter(e => e.result!.Needs_Review).length,
+    yieldPct: inspected.length ? (good / inspected.length) * 100 : 0,
+    pareto,
+    severity
   };
 };
 
-// --- Parser ---
-
-const parseCMMReport = (text: string): { partId: string, features: CMMFeature[] } => {
-  let partId = "A3188-337-00";
-  const features: CMMFeature[] = [];
-  const lines = text.split('\n');
-  let currentFeatureId = "Feature";
+// "L12: reason" per rejected or flagged row
+const importIssues = (e: BatchEntry) => (e.diagnostics || []).map(d => `L${d.line}: ${d.reason}`).join('; ');
 
-  lines.forEach(line => {
-    const t = line.trim();
-    if (!t || t.startsWith("Report Name") || t.startsWith("Part Name") || t.startsWith("Inspector") || t.startsWith("Company") || t.startsWith("Date") || t.startsWith("Unit") || t.startsWith("Feature Nom") || t.includes("Label:")) return;
+// Serial through process parameters, in the column order of the batch report
+const traceCells = (h: ReportHeader | undefined) => [
+  h?.serial ?? "", h?.dieId ?? "", h?.cavity ?? "", h?.shot ?? "", h?.operator ?? "", h?.machine ?? "", h?.date ?? "",
+  ...PROCESS_PARAMETERS.map(p => h?.process?.[p.key] ?? "")
+];
 
-    if (t.startsWith("Part No")) {
-      partId = t.split(/[:\s]/).slice(-1)[0].trim() || partId;
-    } else if (t.startsWith("Feature ")) {
-      currentFeatureId = t.split(" ")[1];
-    } else {
-      const parts = t.split(/\s+/);
-      const numericParts = parts.filter(p => /^[\-\d\.]+$/.test(p));
-      
-      if (numericParts.length >= 6) {
-        const numbers = numericParts.slice(-6).map(parseFloat);
-        const [nom, act, dev, lo, up, out] = numbers;
-        
-        let rowFeatureId = currentFeatureId;
-        const firstPart = parts[0];
-        const axes = ["X", "Y", "Z", "XZ", "YZ", "XY", "D", "R", "A", "S"];
-        
-        if (isNaN(parseFloat(firstPart)) && !axes.includes(firstPart.toUpperCase()) && !firstPart.includes(".")) {
-          rowFeatureId = firstPart;
-        }
+const buildBatchReport = (entries: BatchEntry[], summary: LotSummary): string => {
+  const rows: (string | number)[][] = [
+    ["NVDA Batch QC Report"],
+    ["Generated", new Date().toISOString()],
+    ["Reports", summary.total],
+    ["Inspected", summary.inspected],
+    ["Unreadable", summary.unreadable],
+    ["Good", summary.good],
+    ["Manual Review", summary.review],
+    ["Yield %", summary.yieldPct.toFixed(1)],
+    [],
+    ["Defect Pareto"],
+    ["Label", "Count", "Cumulative %"],
+    ...summary.pareto.map(p => [p.label, p.count, p.cumulativePct.toFixed(1)]),
+    [],
+    ["File", "Format", "Part ID", "Serial", "Die", "Cavity", "Shot", "Operator", "Machine", "Date", ...PROCESS_PARAMETERS.map(p => `${p.label} ${p.unit}`), "Label", "Confidence %", "Margin", "Review", "Severity", "OOT Count", "Features", "Import Issues", "Findings", "GD&T Failing", "Baseline Drift", "Outside Band", "Drift Pattern", "Rules Fired", "Root Cause", "Recommended Action"],
+    ...entries.map(e => e.result && e.metrics
+      ? [e.fileName, e.format ?? "", e.partId, ...traceCells(e.header), e.result.Label, e.result.Confidence.toFixed(0), e.result.Margin?.toFixed(3) ?? "", e.result.Needs_Review ? "YES" : "", e.result.Severity, e.metrics.oot_count, e.features.length, importIssues(e), (e.result.Findings || []).map(f => `${f.Label} (${f.Features.map(x => x.featureId).filter((id, i, a) => a.indexOf(id) === i).join(' ')})`).join('; '), (e.result.Gdt || []).filter(r => r.status === 'fail').map(r => r.id).join(' '), e.result.Baseline?.driftScore.toFixed(2) ?? "", e.result.Baseline ? `${e.result.Baseline.exceeded}/${e.result.Baseline.matched}` : "", e.result.Baseline?.pattern ?? "", e.result.Trace?.rules.filter(r => r.status === 'fired').map(r => r.ruleId).join(' ') ?? "", e.result.Root_Cause, e.result.Recommended_Action]
+      : [e.fileName, e.format ?? "", e.partId, ...traceCells(e.header), "UNREADABLE", "", "", "", "", "", 0, importIssues(e), "", "", "", "", "", "", e.error || "", ""])
+  ];
+  return rows.map(r => r.map(csvCell).join(",")).join("\n");
+};
 
-        const axisLabel = parts.find(p => axes.includes(p.toUpperCase())) || (rowFeatureId.split("_").length > 1 ? rowFeatureId.split("_").pop() || "D" : "D");
-        
-        let sType: CMMFeature['sectionType'] = 'structural';
-        const lowerId = rowFeatureId.toLowerCase();
-        if (lowerId.includes("thick") || lowerId.includes("boss") || lowerId.includes("cylinder") || lowerId.includes("circle9") || lowerId.includes("circle21")) sType = 'thick';
-        else if (lowerId.includes("thin") || lowerId.includes("rib") || lowerId.includes("point62") || lowerId.includes("point67") || lowerId.includes("point68")) sType = 'thin';
-        else if (lowerId.includes("ang") || lowerId.includes("angle")) sType = 'angular';
-        else if (lowerId.includes("line") || lowerId.includes("point") || lowerId.includes("plane")) sType = 'structural';
-
-        features.push({
-          featureId: rowFeatureId,
-          axis: axisLabel,
-          nominal: nom,
-          actual: act,
-          deviation: dev,
-          loTol: lo,
-          upTol: up,
-          outTol: Math.round(out),
-          sectionType: sType
-        });
-      }
-    }
-  });
-  return { partId, features };
+// Report format travels with the header on screen but is its own field on the certificate
+const certificateHeader = (h: (ReportHeader & { format: string }) | null, partId: string) => {
+  if (!h) return { header: { partId } };
+  const { format, ...header } = h;
+  return { format, header };
 };
 
+// --- Line Monitor ---
+
+const LINE_SETTINGS_KEY = 'inspect-os.line';
+const LINE_FEED_SIZE = 200;
+
+// --- Narrative Assistant ---
+
+// vite.config.ts injects GEMINI_API_KEY from .env.local; without it only the offline template drafts
+if (process.env.GEMINI_API_KEY) registerNarrativeProvider(createGeminiProvider(process.env.GEMINI_API_KEY));
+
 // --- Main App ---
 
 const HybridNVDA = () => {
@@ -302,40 +262,412 @@ const HybridNVDA = () => {
   const [features, setFeatures] = useState<CMMFeature[]>([]);
   const [log, setLog] = useState<{msg: string, time: string}[]>([]);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
+  const [batch, setBatch] = useState<BatchEntry[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [view, setView] = useState<'inspect' | 'history' | 'rules' | 'models' | 'features' | 'baselines' | 'gage' | 'ncr' | 'line'>('inspect');
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>([]);
+  const [model, setModel] = useState<SoftmaxModel | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [focusedFinding, setFocusedFinding] = useState<number | null>(null);
+  const [reportHeader, setReportHeader] = useState<(ReportHeader & { format: string }) | null>(null);
+  const [inputFileName, setInputFileName] = useState<string | undefined>(undefined);
+  const [importerId, setImporterId] = useState("auto");
+  const [mappings, setMappings] = useState<CsvColumnMapping[]>([]);
+  const [featureMaps, setFeatureMaps] = useState<FeatureMap[]>([]);
+  const [baselines, setBaselines] = useState<GoldenBaseline[]>([]);
+  const [noiseProfiles, setNoiseProfiles] = useState<MeasurementNoise[]>([]);
+  const [ncrs, setNcrs] = useState<Nonconformance[]>([]);
+  const [selectedNcr, setSelectedNcr] = useState<string | null>(null);
+  // Text of the report on screen when it was analysed here, attached to NCRs raised from it
+  const [resultText, setResultText] = useState<string | undefined>(undefined);
+  const [shots, setShots] = useState<ShotRecord[]>([]);
+  const [preview, setPreview] = useState<{ report: ParsedReport, rows: PreviewRow[] } | null>(null);
+  // Serial, die, shot and process values typed at the station for the report in the payload box
+  const [traceEntry, setTraceEntry] = useState<TraceEntry>({});
+  const [showTrace, setShowTrace] = useState(false);
+  const [showSynthetic, setShowSynthetic] = useState(false);
+  // Deviation profile after the rigid best fit rather than as measured
+  const [showAligned, setShowAligned] = useState(false);
+  const [mappingRequest, setMappingRequest] = useState<{ text: string, fileName?: string, layout: CsvLayout, suggestion: CsvColumnMapping, resume: (mappings: CsvColumnMapping[]) => void } | null>(null);
+  // Live feed from the local inspection service; the connection survives view switches
+  const [line, setLine] = useState<{ url: string, enabled: boolean }>(() => {
+    try {
+      return { url: DEFAULT_SERVICE_URL, enabled: false, ...JSON.parse(localStorage.getItem(LINE_SETTINGS_KEY) || '{}') };
+    } catch {
+      return { url: DEFAULT_SERVICE_URL, enabled: false };
+    }
+  });
+  const [lineStatus, setLineStatus] = useState<{ status: FeedStatus, detail?: string }>({ status: 'closed' });
+  const [lineFeed, setLineFeed] = useState<ServiceRecord[]>([]);
+  const [lineErrors, setLineErrors] = useState<LineError[]>([]);
+  const [lineFollow, setLineFollow] = useState(true);
+  const lineFollowRef = useRef(lineFollow);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Source, header and text of the report Analyze last saved: running it again must not store a duplicate
+  // inspection, which would shrink the SPC sigma estimates
+  const lastRecordedRef = useRef('');
+
+  const shotIndex = useMemo(() => indexShots(shots), [shots]);
+  const lotSummary = useMemo(() => batch ? summarizeLot(batch) : null, [batch]);
+  // The benchmark table reads the exact rule set version that produced the on-screen verdict
+  const appliedRuleSet = useMemo(() => findRuleSetVersion(ruleSets, results?.Rule_Set), [ruleSets, results]);
+  // Feature row → index of the finding it belongs to, for colouring the deviation profile
+  const findingIndex = useMemo(() => {
+    const index = new Map<string, number>();
+    results?.Findings?.forEach((finding, i) => finding.Features.forEach(f => index.set(featureKey(f), i)));
+    return index;
+  }, [results]);
+  const alignment = useMemo(() => bestFit(features), [features]);
+  const alignedFeatures = useMemo(() => alignFeatures(features, alignment), [features, alignment]);
+  const profileSource = showAligned ? alignedFeatures : features;
+  // The inspection on screen as the certificate and NCRs record it
+  const shownInspection = results && metrics ? { source: inputFileName ?? "manual-input", ...certificateHeader(reportHeader, results.Part_ID), features, metrics, result: results } : null;
+  const shownNcr = shownInspection ? findOpenNcr(ncrs, shownInspection) : undefined;
+  const profileFeatures = focusedFinding === null
+    ? profileSource.slice(0, 10)
+    : profileSource.filter(f => findingIndex.get(featureKey(f)) === focusedFinding).slice(0, 10);
+
+  useEffect(() => setFocusedFinding(null), [results]);
+
+  const loadRuleSets = () => {
+    RuleSetStore.listAll()
+      .then(setRuleSets)
+      .catch(err => setLog(prev => [{ msg: `Rule store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadRuleSets, []);
+
+  const loadModel = () => {
+    ModelStore.getActive()
+      .then(m => setModel(m ?? null))
+      .catch(err => setLog(prev => [{ msg: `Model store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadModel, []);
+
+  const loadFeatureMaps = () => {
+    FeatureMapStore.listAll()
+      .then(setFeatureMaps)
+      .catch(err => setLog(prev => [{ msg: `Feature map store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadFeatureMaps, []);
+
+  const loadBaselines = () => {
+    BaselineStore.listAll()
+      .then(setBaselines)
+      .catch(err => setLog(prev => [{ msg: `Baseline store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadBaselines, []);
+
+  const loadNoise = () => {
+    NoiseStore.listAll()
+      .then(setNoiseProfiles)
+      .catch(err => setLog(prev => [{ msg: `Measurement noise store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadNoise, []);
+
+  const loadNcrs = () => {
+    NcrStore.listAll()
+      .then(setNcrs)
+      .catch(err => setLog(prev => [{ msg: `NCR store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadNcrs, []);
 
-  const handleAnalysis = () => {
+  const loadShots = () => {
+    ShotLogStore.listAll()
+      .then(setShots)
+      .catch(err => setLog(prev => [{ msg: `Shot log store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  useEffect(loadShots, []);
+
+  useEffect(() => {
+    MappingStore.listAll()
+      .then(setMappings)
+      .catch(err => setLog(prev => [{ msg: `Mapping store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  }, []);
+
+  const saveMapping = async (mapping: CsvColumnMapping) => {
+    const request = mappingRequest;
+    setMappingRequest(null);
+    const next = [...mappings.filter(m => m.signature !== mapping.signature), mapping];
+    setMappings(next);
+    try {
+      await MappingStore.save(mapping);
+    } catch (err) {
+      setLog(prev => [{ msg: `Mapping store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+    }
+    request?.resume(next);
+  };
+
+  useEffect(() => {
+    // webkitdirectory is not part of React's input attribute typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const recordHistory = (entries: Parameters<typeof InspectionHistory.save>[0]) => {
+    if (entries.length === 0) return;
+    InspectionHistory.save(entries)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => setLog(prev => [{ msg: `History store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+  };
+
+  // Puts a service-side inspection on the Inspect panels as if it had been run here
+  const showRecord = (record: ServiceRecord) => {
+    setBatch(null);
+    setPreview(null);
+    setInputText("");
+    setInputFileName(record.source);
+    setFeatures(record.features);
+    setMetrics(record.metrics);
+    setResults(record.result);
+    setReportHeader({ ...record.header ?? { partId: record.partId }, format: record.format });
+    setResultText(undefined);
+  };
+
+  useEffect(() => { lineFollowRef.current = lineFollow; }, [lineFollow]);
+
+  useEffect(() => {
+    localStorage.setItem(LINE_SETTINGS_KEY, JSON.stringify(line));
+    if (!line.enabled) return;
+    // The backlog fills the feed only; records reach the local history as they arrive live
+    fetchRecentInspections(line.url)
+      .then(recent => setLineFeed(prev => {
+        const known = new Set(prev.map(r => r.id));
+        return [...prev, ...recent.filter(r => !known.has(r.id))].sort((a, b) => b.id - a.id).slice(0, LINE_FEED_SIZE);
+      }))
+      .catch(err => setLog(prev => [{ msg: `Line service: ${err instanceof Error ? err.message : err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5)));
+    return connectLineFeed(line.url, {
+      onStatus: (status, detail) => setLineStatus({ status, detail }),
+      onMessage: message => {
+        if (message.type === 'error') {
+          setLineErrors(prev => [{ source: message.source, error: message.error, timestamp: message.timestamp }, ...prev].slice(0, 5));
+          return;
+        }
+        if (message.type !== 'inspection') return;
+        const { record } = message;
+        setLineFeed(prev => [record, ...prev.filter(r => r.id !== record.id)].slice(0, LINE_FEED_SIZE));
+        recordHistory([toInspectionRecord(record)]);
+        if (lineFollowRef.current) showRecord(record);
+        setLog(prev => [{
+          msg: `Line: ${record.source} → ${record.result.Label} (${record.disposition})`,
+          time: new Date().toLocaleTimeString()
+        }, ...prev].slice(0, 5));
+      }
+    });
+  }, [line]);
+
+  // Adds the on-screen report to its part/cavity golden set and re-compares it against the updated set
+  const registerGolden = async () => {
+    if (!results || features.length === 0) return;
+    const cavity = reportHeader?.cavity ?? '';
+    const id = baselineId(results.Part_ID, cavity);
+    const current = baselines.find(b => b.id === id) ?? emptyBaseline(results.Part_ID, cavity);
+    const updated = addGoldenSamples(current, [goldenSample(inputFileName ?? `${results.Part_ID} ${new Date().toISOString()}`, features)]);
+    try {
+      await BaselineStore.save(updated);
+      loadBaselines();
+      setResults({ ...results, Baseline: compareToBaseline(updated, features) });
+      setLog(prev => [{ msg: `Golden: ${updated.samples.length} reference part${updated.samples.length === 1 ? '' : 's'} for ${results.Part_ID}${cavity ? ` cavity ${cavity}` : ''}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+    } catch (err) {
+      setLog(prev => [{ msg: `Baseline store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+    }
+  };
+
+  // The preview belongs to the text (and importer) it was parsed from
+  useEffect(() => setPreview(null), [inputText, importerId]);
+
+  // A CSV layout without a saved mapping opens the wizard, which calls `resume` once the mapping is saved
+  const importInput = (mappingList: CsvColumnMapping[], resume: (mappings: CsvColumnMapping[]) => void): ParsedReport | null => {
+    try {
+      return importReport(inputText, { fileName: inputFileName, mappings: mappingList, featureMaps, importerId: importerId === 'auto' ? undefined : importerId });
+    } catch (err) {
+      if (err instanceof MappingRequiredError) {
+        setMappingRequest({ text: inputText, fileName: inputFileName, layout: err.layout, suggestion: err.suggestion, resume });
+      } else {
+        setLog(prev => [{ msg: `Import error: ${err instanceof Error ? err.message : err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+      }
+      return null;
+    }
+  };
+
+  const openPreview = (mappingList: CsvColumnMapping[] = mappings) => {
+    const report = importInput(mappingList, openPreview);
+    if (report) setPreview({ report, rows: previewRows(report) });
+  };
+
+  const handleAnalysis = (mappingList: CsvColumnMapping[] = mappings) => {
     if (!inputText.trim()) return;
     setIsAnalyzing(true);
     setResults(null);
     setFeatures([]);
+    setBatch(null);
 
     setTimeout(() => {
-      const { partId, features: parsedFeatures } = parseCMMReport(inputText);
-      const computedMetrics = calculateMetrics(parsedFeatures);
-      const inference = LocalInferenceEngine.classify(partId, parsedFeatures, computedMetrics);
+      let report: ParsedReport;
+      if (preview) {
+        const kept = preview.rows.filter(r => !r.excluded);
+        report = { ...preview.report, features: kept.map(r => r.feature), sources: kept.map(r => r.source) };
+      } else {
+        const imported = importInput(mappingList, handleAnalysis);
+        if (!imported) { setIsAnalyzing(false); return; }
+        // A rejected or inconsistent row shifts the verdict, so nothing is scored until the user has seen it
+        if (imported.diagnostics.length) {
+          const rejected = imported.diagnostics.filter(d => d.severity === 'error').length;
+          setPreview({ report: imported, rows: previewRows(imported) });
+          setIsAnalyzing(false);
+          setLog(prev => [{
+            msg: `Import: ${rejected} rejected, ${imported.diagnostics.length - rejected} flagged — review the preview, then run again`,
+            time: new Date().toLocaleTimeString()
+          }, ...prev].slice(0, 5));
+          return;
+        }
+        report = imported;
+      }
+      report = { ...report, header: applyTraceEntry(report.header, traceEntry) };
+      const { features: parsedFeatures } = report;
+      const { header, metrics: computedMetrics, result: inference } = inspectReport(report, { ruleSets, model, mappings: mappingList, featureMaps, baselines, noise: noiseProfiles, shots: shotIndex });
 
       setFeatures(parsedFeatures);
       setMetrics(computedMetrics);
       setResults(inference);
+      setReportHeader({ ...header, format: report.format });
+      setResultText(inputText);
       setIsAnalyzing(false);
+      const source = inputFileName ?? "manual-input";
+      const signature = JSON.stringify([source, header, inputText]);
+      if (parsedFeatures.length > 0 && signature !== lastRecordedRef.current) {
+        lastRecordedRef.current = signature;
+        recordHistory([{ source, timestamp: reportTimestamp(header, Date.now()), header, result: inference, metrics: computedMetrics, features: parsedFeatures }]);
+      }
 
       setLog(prev => [{
-        msg: `Deduction: ${inference.Label} (${inference.Confidence.toFixed(0)}%)`,
+        msg: `Deduction: ${inference.Label} (${inference.Confidence.toFixed(0)}%)${inference.Needs_Review ? ' — manual review' : ''}`,
+        time: new Date().toLocaleTimeString()
+      }, {
+        msg: `Rules fired: ${inference.Trace?.rules.filter(r => r.status === 'fired').map(r => r.ruleId).join(', ') || 'none'}`,
+        time: new Date().toLocaleTimeString()
+      }, {
+        msg: `Imported ${parsedFeatures.length} features (${report.format})`,
         time: new Date().toLocaleTimeString()
       }, ...prev].slice(0, 5));
     }, 600);
   };
 
-  const loadScenario = (type: 'shrinkage' | 'gas' | 'good' | 'offset' | 'coldshut') => {
-    const scenarios = {
-      shrinkage: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nCIRCLE9_THICK_X 42.000 41.485 -0.515 -0.2 0.2 1\nCIRCLE9_THICK_Y 17.000 16.583 -0.417 -0.1 0.1 1\nCYLINDER12_THICK_Z 14.500 14.071 -0.429 -0.2 0.2 1\nCIRCLE21_THICK_Y 37.000 36.592 -0.408 -0.1 0.1 1\nPOINT62_THIN_X 5.100 5.094 -0.006 -0.1 0.1 0`,
-      gas: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nPOINT62_THIN_X 5.100 5.341 0.241 -0.1 0.1 1\nPOINT67_THIN_Y 3.500 3.283 -0.217 -0.1 0.1 1\nPOINT68_THIN_Z 2.800 3.014 0.214 -0.1 0.1 1\nLINE72_THIN_XZ 25.000 24.777 -0.223 -0.1 0.1 1\nCIRCLE16_THICK_X 13.000 13.029 0.029 -0.2 0.2 0`,
-      coldshut: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nLINE3_X 60.000 59.872 -0.128 -0.2 0.2 0\nANGLE6_YZ 90.00 89.32 -0.68 -1.0 1.0 0\nANGLE4_XY 45.00 44.37 -0.63 -1.0 1.0 0\nCIRCLE21_THICK_Y 37.000 36.995 -0.005 -0.1 0.1 0`,
-      offset: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nPOINT1_X 12.500 12.614 0.114 -0.1 0.1 1\nPOINT1_Y 24.300 24.421 0.121 -0.1 0.1 1\nPOINT62_THIN_X 5.100 5.212 0.112 -0.1 0.1 1\nPOINT68_THIN_Z 2.800 2.913 0.113 -0.1 0.1 1\nCIRCLE16_THICK_X 13.000 13.120 0.120 -0.2 0.2 0`,
-      good: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nPOINT1_X 12.500 12.499 -0.001 -0.1 0.1 0\nPOINT1_Y 24.300 24.302 0.002 -0.1 0.1 0\nCIRCLE9_THICK_X 42.000 42.010 0.010 -0.2 0.2 0\nPOINT62_THIN_X 5.100 5.102 0.002 -0.1 0.1 0`
-    };
-    setInputText(scenarios[type]);
+  // `prior` holds the lot's already-inspected entries when resuming files that waited on a column mapping
+  const handleBatch = async (files: File[], mappingList: CsvColumnMapping[] = mappings, prior: BatchEntry[] = []) => {
+    if (files.length === 0) return;
+    setIsAnalyzing(true);
+    setResults(null);
+    setFeatures([]);
+    setReportHeader(null);
+
+    const fresh: BatchEntry[] = [];
+    for (const file of files) {
+      fresh.push(await inspectReportFile(file, { ruleSets, model, mappings: mappingList, featureMaps, baselines, noise: noiseProfiles, shots: shotIndex }));
+    }
+    const redone = new Set(fresh.map(e => e.fileName));
+    const entries = [...prior.filter(e => !redone.has(e.fileName)), ...fresh];
+    entries.sort((a, b) => a.fileName.localeCompare(b.fileName, undefined, { numeric: true }));
+    const summary = summarizeLot(entries);
+
+    setBatch(entries);
+    setIsAnalyzing(false);
+    recordHistory(fresh
+      .filter(e => e.result && e.metrics)
+      .map(e => ({ source: e.fileName, timestamp: e.timestamp, header: e.header, result: e.result!, metrics: e.metrics!, features: e.features })));
+    setLog(prev => [{
+      msg: `Batch: ${summary.inspected}/${summary.total} reports, yield ${summary.yieldPct.toFixed(1)}%`,
+      time: new Date().toLocaleTimeString()
+    }, ...prev].slice(0, 5));
+
+    // One wizard per unmapped layout: resuming re-runs the waiting files, which prompts again for any other layout
+    const waiting = files.filter((_, i) => fresh[i].unmapped);
+    const first = fresh.find(e => e.unmapped);
+    if (first) {
+      setMappingRequest({ ...first.unmapped!, fileName: first.fileName, resume: list => handleBatch(waiting, list, entries) });
+    }
+  };
+
+  const handleFileSelection = (files: File[]) => {
+    if (files.length === 1) {
+      const r = new FileReader();
+      r.onload = (ev) => {
+        setInputText(ev.target?.result as string);
+        setInputFileName(files[0].name);
+        setTraceEntry({});
+      };
+      r.readAsText(files[0]);
+    } else {
+      handleBatch(files);
+    }
+  };
+
+  const openBatchEntry = (entry: BatchEntry) => {
+    if (!entry.result || !entry.metrics) return;
+    setFeatures(entry.features);
+    setMetrics(entry.metrics);
+    setResults(entry.result);
+    setReportHeader(entry.header ? { ...entry.header, format: entry.format ?? "" } : null);
+    setResultText(undefined);
+  };
+
+  // Raises an NCR for every rejected inspection that has no open one yet
+  const raiseNcrs = async (inspections: (Parameters<typeof createNcr>[0] & { reportText?: string })[]) => {
+    const by = localStorage.getItem(INSPECTOR_KEY) || window.prompt('Raise NCRs as (name or badge):') || '';
+    const raised: Nonconformance[] = [];
+    // One millisecond apart, so NCRs raised together get distinct ids
+    let now = Date.now();
+    for (const inspection of inspections) {
+      if (!shouldRaiseNcr(inspection.result) || findOpenNcr(ncrs, inspection)) continue;
+      const { ncr, errors } = createNcr(inspection, { by, reportText: inspection.reportText, now: now++ });
+      if (!ncr) {
+        setLog(prev => [{ msg: `NCR not raised: ${errors.join('; ')}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+        break;
+      }
+      try {
+        await NcrStore.save(ncr);
+      } catch (err) {
+        setLog(prev => [{ msg: `NCR store error: ${err}`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+        break;
+      }
+      raised.push(ncr);
+    }
+    if (!raised.length) return;
+    localStorage.setItem(INSPECTOR_KEY, by.trim());
+    loadNcrs();
+    setLog(prev => [{ msg: raised.length === 1 ? `Raised ${raised[0].id}` : `Raised ${raised.length} NCRs`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+    return raised;
+  };
+
+  const exportBatchReport = () => {
+    // Without a lot loaded, the on-screen result is reported as a lot of one
+    const entries = batch ?? (results && metrics ? [{ fileName: inputFileName ?? "manual-input", timestamp: Date.now(), partId: results.Part_ID, format: reportHeader?.format, header: reportHeader ?? undefined, features, metrics, result: results }] : []);
+    if (entries.length === 0) return;
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    downloadText(`batch-qc-report-${stamp}.csv`, buildBatchReport(entries, summarizeLot(entries)));
+  };
+
+  const loadSynthetic = (report: SyntheticReport) => {
+    setInputText(report.text);
+    setTraceEntry({});
+    setInputFileName(report.fileName);
+    setPreview(null);
+    setResults(null);
+    setMetrics(null);
+    setFeatures([]);
+    setLog(prev => [{ msg: `Synthetic ${report.label} (${report.severity}) seed ${report.seed} loaded`, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+  };
+
+  const loadScenario = (type: ScenarioId) => {
+    setInputText(SCENARIOS[type]);
+    setTraceEntry({});
+    setInputFileName(undefined);
     setResults(null);
     setMetrics(null);
     setFeatures([]);
@@ -349,13 +681,43 @@ const HybridNVDA = () => {
             <Target className="w-5 h-5 text-white" />
           </div>
           <div>
-            <h1 className="text-xl font-black text-white uppercase italic tracking-tighter">NVDA <span className="text-emerald-500">LocalML 5.0</span></h1>
+            <h1 className="text-xl font-black text-white uppercase italic tracking-tighter">NVDA <span className="text-emerald-500">{PRODUCT_LABEL}</span></h1>
             <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest leading-none">Deductive Defect Engine</p>
           </div>
         </div>
         <div className="flex items-center gap-6">
+          <div className="flex bg-slate-900 border border-slate-800 rounded p-0.5">
+            <button onClick={() => setView('inspect')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'inspect' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <Crosshair className="w-3.5 h-3.5" /> Inspect
+            </button>
+            <button onClick={() => setView('history')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'history' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <History className="w-3.5 h-3.5" /> History
+            </button>
+            <button onClick={() => setView('rules')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'rules' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <SlidersHorizontal className="w-3.5 h-3.5" /> Rules
+            </button>
+            <button onClick={() => setView('models')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'models' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <BrainCircuit className="w-3.5 h-3.5" /> Models
+            </button>
+            <button onClick={() => setView('features')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'features' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <MapIcon className="w-3.5 h-3.5" /> Features
+            </button>
+            <button onClick={() => setView('baselines')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'baselines' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <Star className="w-3.5 h-3.5" /> Baselines
+            </button>
+            <button onClick={() => setView('gage')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'gage' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <Gauge className="w-3.5 h-3.5" /> Gage R&R
+            </button>
+            <button onClick={() => setView('ncr')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'ncr' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <ClipboardList className="w-3.5 h-3.5" /> NCR
+              {ncrs.some(isOpen) && <span className={`px-1 rounded text-[8px] ${view === 'ncr' ? 'bg-white/20' : 'bg-red-500/20 text-red-400'}`}>{ncrs.filter(isOpen).length}</span>}
+            </button>
+            <button onClick={() => setView('line')} className={`flex items-center gap-1.5 px-3 py-1 text-[10px] font-black uppercase rounded transition-all ${view === 'line' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-white'}`}>
+              <Radio className={`w-3.5 h-3.5 ${lineStatus.status === 'live' && view !== 'line' ? 'text-emerald-400 animate-pulse' : ''}`} /> Line
+            </button>
+          </div>
           <div className="flex items-center gap-2 text-[10px] font-mono text-emerald-500 animate-pulse">
-            <Activity className="w-3 h-3" /> ENGINE: MORPHOLOGICAL_v5
+            <Activity className="w-3 h-3" /> ENGINE: {ENGINE_VERSION}
           </div>
           <button onClick={() => setShowFeedbackModal(true)} className="flex items-center gap-2 px-3 py-1.5 text-[10px] font-black uppercase text-amber-500 hover:text-amber-400 bg-amber-500/5 border border-amber-500/20 rounded transition-all">
             <MessageSquareWarning className="w-3.5 h-3.5" /> Log Logic Error
@@ -363,28 +725,127 @@ const HybridNVDA = () => {
         </div>
       </nav>
 
-      <main className="max-w-[1700px] mx-auto p-6 grid grid-cols-1 xl:grid-cols-12 gap-6">
+      {view === 'history' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <HistoryDashboard refreshKey={historyVersion} ruleSets={ruleSets} shots={shots} onShotsChanged={loadShots} />
+        </main>
+      )}
+
+      {view === 'rules' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <RuleSetEditor ruleSets={ruleSets} onSaved={loadRuleSets} />
+        </main>
+      )}
+
+      {view === 'features' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <FeatureMapEditor
+            featureMaps={featureMaps}
+            current={results ? { partId: results.Part_ID, features } : null}
+            onSaved={loadFeatureMaps}
+          />
+        </main>
+      )}
+
+      {view === 'baselines' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <BaselineManager
+            baselines={baselines}
+            importText={(text, fileName) => importReport(text, { fileName, mappings, featureMaps })}
+            onSaved={loadBaselines}
+          />
+        </main>
+      )}
+
+      {view === 'ncr' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <NcrBoard ncrs={ncrs} selectedId={selectedNcr} onSelect={setSelectedNcr} onSaved={loadNcrs} />
+        </main>
+      )}
+
+      {view === 'gage' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <GageStudy
+            profiles={noiseProfiles}
+            importText={(text, fileName) => importReport(text, { fileName, mappings, featureMaps })}
+            onSaved={loadNoise}
+          />
+        </main>
+      )}
+
+      {view === 'line' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <LineMonitor
+            url={line.url}
+            enabled={line.enabled}
+            status={lineStatus}
+            feed={lineFeed}
+            errors={lineErrors}
+            follow={lineFollow}
+            onConnect={url => setLine({ url, enabled: true })}
+            onDisconnect={() => setLine(prev => ({ ...prev, enabled: false }))}
+            onFollowChange={setLineFollow}
+            onOpen={record => { showRecord(record); setView('inspect'); }}
+          />
+        </main>
+      )}
+
+      {view === 'models' && (
+        <main className="max-w-[1700px] mx-auto p-6">
+          <ModelLab
+            ruleSets={ruleSets}
+            model={model}
+            onModelChanged={(msg) => {
+              loadModel();
+              setLog(prev => [{ msg, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+            }}
+          />
+        </main>
+      )}
+
+      <main className={`max-w-[1700px] mx-auto p-6 grid-cols-1 xl:grid-cols-12 gap-6 ${view === 'inspect' ? 'grid' : 'hidden'}`}>
         
         {/* Left Column: Input */}
         <div className="xl:col-span-4 space-y-6">
-          <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-2xl flex flex-col h-[520px]">
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={async (e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              handleFileSelection(await collectDroppedFiles(e.dataTransfer));
+            }}
+            className={`bg-[#0f172a] border rounded-xl overflow-hidden shadow-2xl flex flex-col h-[520px] transition-colors ${isDragging ? 'border-emerald-500' : 'border-slate-800'}`}
+          >
             <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex justify-between items-center">
               <h2 className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2 tracking-widest">
                 <FileSpreadsheet className="w-4 h-4 text-emerald-500" /> CMM Payload
               </h2>
               <div className="flex gap-2">
-                 <button onClick={() => fileInputRef.current?.click()} className="p-1.5 text-slate-500 hover:text-white transition-colors">
+                 <button onClick={() => fileInputRef.current?.click()} title="Upload report(s)" className="p-1.5 text-slate-500 hover:text-white transition-colors">
                    <Upload className="w-4 h-4" />
                  </button>
-                 <input type="file" ref={fileInputRef} onChange={(e) => {
-                    const f = e.target.files?.[0];
-                    if (f) {
-                      const r = new FileReader();
-                      r.onload = (ev) => setInputText(ev.target?.result as string);
-                      r.readAsText(f);
-                    }
+                 <button onClick={() => folderInputRef.current?.click()} title="Inspect folder" className="p-1.5 text-slate-500 hover:text-white transition-colors">
+                   <FolderOpen className="w-4 h-4" />
+                 </button>
+                 <button onClick={() => openPreview()} disabled={!inputText.trim() || !!preview} title="Preview import" className="p-1.5 text-slate-500 hover:text-white disabled:text-slate-800 transition-colors">
+                   <TableProperties className="w-4 h-4" />
+                 </button>
+                 <button onClick={() => { setShowTrace(!showTrace); setShowSynthetic(false); }} title="Traceability" className={`p-1.5 transition-colors ${showTrace || !isTraceEntryEmpty(traceEntry) ? 'text-emerald-400' : 'text-slate-500'} hover:text-white`}>
+                   <Tag className="w-4 h-4" />
+                 </button>
+                 <button onClick={() => { setShowSynthetic(!showSynthetic); setShowTrace(false); }} title="Synthetic report" className={`p-1.5 transition-colors ${showSynthetic ? 'text-emerald-400' : 'text-slate-500'} hover:text-white`}>
+                   <FlaskConical className="w-4 h-4" />
+                 </button>
+                 <input type="file" multiple ref={fileInputRef} onChange={(e) => {
+                    handleFileSelection(Array.from(e.target.files || []));
+                    e.target.value = "";
+                 }} className="hidden" />
+                 <input type="file" multiple ref={folderInputRef} onChange={(e) => {
+                    handleBatch(Array.from(e.target.files || []));
+                    e.target.value = "";
                  }} className="hidden" />
-                 {inputText && <button onClick={() => setInputText("")} className="p-1.5 text-slate-500 hover:text-red-400"><X className="w-4 h-4" /></button>}
+                 {inputText && <button onClick={() => { setInputText(""); setInputFileName(undefined); setTraceEntry({}); }} className="p-1.5 text-slate-500 hover:text-red-400"><X className="w-4 h-4" /></button>}
               </div>
             </div>
             
@@ -397,20 +858,56 @@ const HybridNVDA = () => {
                 <button onClick={() => loadScenario('coldshut')} className="py-2 rounded bg-slate-800 hover:bg-slate-700 text-[8px] font-bold uppercase transition-all">Cold</button>
               </div>
 
-              <textarea
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                placeholder="Paste CMM tabular data here..."
-                className="flex-1 bg-[#05080d] border border-slate-800 rounded-lg p-4 text-xs font-mono text-emerald-400 focus:ring-1 focus:ring-emerald-500/50 outline-none placeholder:text-slate-800 custom-scrollbar leading-relaxed resize-none"
-              />
+              {showSynthetic ? (
+                <SyntheticGenerator
+                  current={results && features.length ? templateFromFeatures(results.Part_ID, features) : null}
+                  onGenerate={loadSynthetic}
+                  onClose={() => setShowSynthetic(false)}
+                />
+              ) : showTrace ? (
+                <TraceabilityForm
+                  parsed={preview?.report.header ?? reportHeader}
+                  entry={traceEntry}
+                  onChange={setTraceEntry}
+                  onClose={() => setShowTrace(false)}
+                />
+              ) : preview ? (
+                <ImportPreview
+                  format={preview.report.format}
+                  rows={preview.rows}
+                  rejected={preview.report.diagnostics.filter(d => d.severity === 'error')}
+                  onChange={(rows) => setPreview({ ...preview, rows })}
+                  onClose={() => setPreview(null)}
+                />
+              ) : (
+                <textarea
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  placeholder="Paste CMM tabular data here, or drop a folder of reports for batch inspection..."
+                  className="flex-1 bg-[#05080d] border border-slate-800 rounded-lg p-4 text-xs font-mono text-emerald-400 focus:ring-1 focus:ring-emerald-500/50 outline-none placeholder:text-slate-800 custom-scrollbar leading-relaxed resize-none"
+                />
+              )}
+
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                Format
+                <select
+                  value={importerId}
+                  onChange={(e) => setImporterId(e.target.value)}
+                  className="flex-1 bg-[#05080d] border border-slate-800 rounded px-2 py-1 font-mono normal-case tracking-normal text-emerald-400 outline-none"
+                >
+                  <option value="auto">Auto-detect</option>
+                  {listImporters(mappings).map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                </select>
+                {inputFileName && <span className="font-mono normal-case tracking-normal text-slate-600 truncate max-w-[40%]">{inputFileName}</span>}
+              </div>
 
               <button 
                 disabled={isAnalyzing || !inputText} 
-                onClick={handleAnalysis} 
+                onClick={() => handleAnalysis()} 
                 className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 rounded-lg font-black text-xs uppercase tracking-[0.2em] flex items-center justify-center gap-3 transition-all active:scale-[0.98] shadow-lg shadow-emerald-500/10"
               >
                 {isAnalyzing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Zap className="w-5 h-5 fill-current" />}
-                Deduce Defect Profile
+                {preview ? `Deduce from ${preview.rows.filter(r => !r.excluded).length} rows` : 'Deduce Defect Profile'}
               </button>
             </div>
           </div>
@@ -436,7 +933,7 @@ const HybridNVDA = () => {
 
         {/* Right Column: Results */}
         <div className="xl:col-span-8 space-y-6">
-          {!results && !isAnalyzing && (
+          {!results && !isAnalyzing && !batch && (
             <div className="h-full flex flex-col items-center justify-center text-center p-20 opacity-20">
               <Crosshair className="w-20 h-20 mb-6 text-slate-600" />
               <h3 className="text-xl font-black text-slate-600 uppercase tracking-tighter italic">Inspection Sandbox</h3>
@@ -461,9 +958,125 @@ const HybridNVDA = () => {
             </div>
           )}
 
+          {batch && lotSummary && !results && !isAnalyzing && (
+            <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-500">
+
+              {/* Lot KPIs */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl flex flex-col justify-center">
+                  <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">Lot Yield</div>
+                  <div className={`text-3xl font-mono ${lotSummary.yieldPct >= 95 ? 'text-emerald-400' : 'text-red-400'}`}>{lotSummary.yieldPct.toFixed(1)}%</div>
+                  <div className="w-full bg-slate-900 h-1.5 mt-2 rounded-full overflow-hidden">
+                    <div className="bg-emerald-500 h-full" style={{ width: `${lotSummary.yieldPct}%` }} />
+                  </div>
+                </div>
+                <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl flex flex-col justify-center">
+                  <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">Reports Inspected</div>
+                  <div className="text-3xl font-mono text-slate-200">{lotSummary.inspected}<span className="text-base text-slate-600">/{lotSummary.total}</span></div>
+                  {lotSummary.unreadable > 0 && <div className="text-[9px] font-mono text-amber-500 mt-1 uppercase">{lotSummary.unreadable} unreadable</div>}
+                  {lotSummary.review > 0 && <div className="text-[9px] font-mono text-amber-400 mt-1 uppercase">{lotSummary.review} need manual review</div>}
+                </div>
+                <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl flex flex-col justify-center">
+                  <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">Rejected</div>
+                  <div className="text-3xl font-mono text-red-400">{lotSummary.inspected - lotSummary.good}</div>
+                  <div className="text-[9px] font-mono text-slate-600 mt-1 uppercase">
+                    {lotSummary.severity.Critical} crit / {lotSummary.severity.Moderate} mod / {lotSummary.severity.Minor} min
+                  </div>
+                  {lotSummary.inspected > lotSummary.good && (
+                    <button
+                      onClick={() => raiseNcrs(batch.flatMap(e => e.result && e.metrics ? [{ source: e.fileName, format: e.format, header: e.header ?? { partId: e.partId }, features: e.features, metrics: e.metrics, result: e.result }] : []))}
+                      className="mt-2 flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-white transition-colors"
+                    >
+                      <ClipboardList className="w-3 h-3" /> Raise NCRs for rejects
+                    </button>
+                  )}
+                </div>
+                <button onClick={exportBatchReport} className="bg-[#0f172a] border border-slate-800 hover:border-emerald-500/50 p-6 rounded-xl shadow-xl flex flex-col items-center justify-center gap-2 transition-all">
+                  <Download className="w-6 h-6 text-emerald-500" />
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Download Batch Report</span>
+                </button>
+              </div>
+
+              {/* Defect Pareto */}
+              <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-4">
+                <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+                  <BarChart3 className="w-4 h-4 text-emerald-500" /> Defect Pareto
+                </h3>
+                {lotSummary.pareto.length === 0 ? (
+                  <div className="text-[10px] font-mono text-slate-600 italic">No defects deduced in this lot.</div>
+                ) : (
+                  <div className="space-y-2">
+                    {lotSummary.pareto.map(p => (
+                      <div key={p.label} className="grid grid-cols-12 items-center gap-3 text-[10px] font-mono">
+                        <span className="col-span-3 font-bold uppercase text-slate-400">{p.label.replace('_', ' ')}</span>
+                        <div className="col-span-7 bg-slate-900 h-3 rounded overflow-hidden">
+                          <div className="bg-red-500/80 h-full" style={{ width: `${(p.count / lotSummary.pareto[0].count) * 100}%` }} />
+                        </div>
+                        <span className="col-span-1 text-right text-slate-300">{p.count}</span>
+                        <span className="col-span-1 text-right text-slate-600">{p.cumulativePct.toFixed(0)}%</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Lot Table */}
+              <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
+                <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex items-center gap-2">
+                  <Layers className="w-4 h-4 text-blue-400" />
+                  <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Lot Summary</h3>
+                </div>
+                <div className="max-h-[480px] overflow-y-auto custom-scrollbar">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest sticky top-0">
+                      <tr>
+                        <th className="px-6 py-3 border-b border-slate-800">Report</th>
+                        <th className="px-6 py-3 border-b border-slate-800">Part ID</th>
+                        <th className="px-6 py-3 border-b border-slate-800">Label</th>
+                        <th className="px-6 py-3 border-b border-slate-800 text-right">Confidence</th>
+                        <th className="px-6 py-3 border-b border-slate-800">Severity</th>
+                        <th className="px-6 py-3 border-b border-slate-800 text-right">OOT</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800/50">
+                      {batch.map((e, i) => (
+                        <tr key={i} onClick={() => openBatchEntry(e)} className={e.result ? 'cursor-pointer hover:bg-slate-800/40' : ''}>
+                          <td className="px-6 py-3 font-mono text-slate-400 truncate max-w-[220px]" title={[e.fileName, ...(e.diagnostics || []).map(d => `L${d.line}: ${d.reason}`)].join('\n')}>
+                            {e.diagnostics?.length ? <AlertTriangle className="w-3 h-3 text-amber-400 inline mr-1.5 -mt-0.5" /> : null}
+                            {e.fileName}
+                          </td>
+                          <td className="px-6 py-3 font-mono text-slate-500">{e.partId}</td>
+                          {e.result && e.metrics ? (
+                            <>
+                              <td className={`px-6 py-3 font-bold uppercase text-[10px] ${e.result.Label === 'Good' ? 'text-emerald-500' : 'text-red-400'}`}>{e.result.Label.replace('_', ' ')}{e.result.Needs_Review && <span className="ml-2 text-amber-400" title="Manual review">?</span>}</td>
+                              <td className="px-6 py-3 font-mono text-right">{e.result.Confidence.toFixed(0)}%</td>
+                              <td className={`px-6 py-3 font-bold uppercase text-[10px] ${
+                                e.result.Severity === 'Critical' ? 'text-red-500' :
+                                e.result.Severity === 'Moderate' ? 'text-orange-500' : 'text-blue-500'
+                              }`}>{e.result.Severity}</td>
+                              <td className="px-6 py-3 font-mono text-right">{e.metrics.oot_count}</td>
+                            </>
+                          ) : (
+                            <td colSpan={4} className="px-6 py-3 text-[10px] font-mono text-amber-500 uppercase">Unreadable: {e.error}</td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+
           {results && metrics && (
             <div className="space-y-6 animate-in fade-in slide-in-from-right-4 duration-500">
               
+              {batch && (
+                <button onClick={() => setResults(null)} className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500 hover:text-white transition-colors">
+                  <ArrowLeft className="w-3.5 h-3.5" /> Back to Lot Summary
+                </button>
+              )}
+
               {/* Classification */}
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="col-span-2 bg-[#0f172a] border border-slate-800 p-6 rounded-xl flex items-center justify-between shadow-xl ring-1 ring-emerald-500/10">
@@ -473,8 +1086,28 @@ const HybridNVDA = () => {
                       {(results?.Label || 'N/A').replace('_', ' ')}
                     </div>
                     <div className="text-[9px] font-mono text-slate-600 mt-1 uppercase tracking-widest">Part ID: {results.Part_ID}</div>
+                    {reportHeader && (
+                      <div className="text-[9px] font-mono text-slate-600 mt-0.5 uppercase tracking-widest flex flex-wrap gap-x-3">
+                        <span>{reportHeader.format}</span>
+                        {reportHeader.serial && <span>S/N: {reportHeader.serial}</span>}
+                        {reportHeader.dieId && <span>Die: {reportHeader.dieId}</span>}
+                        {reportHeader.cavity && <span>Cav: {reportHeader.cavity}</span>}
+                        {reportHeader.shot && <span>Shot: {reportHeader.shot}</span>}
+                        {reportHeader.operator && <span>Op: {reportHeader.operator}</span>}
+                        {reportHeader.machine && <span>CMM: {reportHeader.machine}</span>}
+                        {reportHeader.date && <span>{reportHeader.date}</span>}
+                      </div>
+                    )}
+                    {reportHeader?.process && (
+                      <div className="text-[9px] font-mono text-slate-600 mt-0.5 tracking-widest">{formatProcess(reportHeader.process)}</div>
+                    )}
+                    {results.Needs_Review && (
+                      <div className="mt-2 inline-flex items-center gap-1.5 px-2 py-0.5 rounded bg-amber-500/10 border border-amber-500/30 text-[9px] font-black uppercase tracking-widest text-amber-400">
+                        <Eye className="w-3 h-3" /> Uncertain — Manual Review
+                      </div>
+                    )}
                   </div>
-                  {results.Label === 'Good' ? <CheckCircle2 className="w-12 h-12 text-emerald-500" /> : <AlertTriangle className="w-12 h-12 text-red-500" />}
+                  {results.Needs_Review ? <Eye className="w-12 h-12 text-amber-500" /> : results.Label === 'Good' ? <CheckCircle2 className="w-12 h-12 text-emerald-500" /> : <AlertTriangle className="w-12 h-12 text-red-500" />}
                 </div>
                 <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl flex flex-col justify-center">
                   <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">Inference Confidence</div>
@@ -482,6 +1115,13 @@ const HybridNVDA = () => {
                   <div className="w-full bg-slate-900 h-1.5 mt-2 rounded-full overflow-hidden">
                     <div className="bg-emerald-500 h-full" style={{ width: `${results?.Confidence ?? 0}%` }} />
                   </div>
+                  {results.Votes?.model && (
+                    <div className="mt-2 space-y-0.5 text-[9px] font-mono uppercase text-slate-600">
+                      <div>Source: <span className="text-slate-400">{results.Decision_Source}</span></div>
+                      <div>Rules: <span className={results.Votes.rules.label === results.Label ? 'text-emerald-500' : 'text-amber-500'}>{results.Votes.rules.label.replace('_', ' ')} {results.Votes.rules.confidence.toFixed(0)}%</span></div>
+                      <div>Model: <span className={results.Votes.model.label === results.Label ? 'text-emerald-500' : 'text-amber-500'}>{results.Votes.model.label.replace('_', ' ')} {results.Votes.model.confidence.toFixed(0)}%</span></div>
+                    </div>
+                  )}
                 </div>
                 <div className="bg-[#0f172a] border border-slate-800 p-6 rounded-xl shadow-xl flex flex-col justify-center">
                   <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">Severity Rating</div>
@@ -494,65 +1134,143 @@ const HybridNVDA = () => {
                 </div>
               </div>
 
+              {/* Class Probabilities */}
+              {results.Probabilities && (
+                <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+                      <ListOrdered className="w-4 h-4 text-emerald-500" /> Class Probabilities
+                    </h3>
+                    <span className={`text-[9px] font-mono uppercase ${results.Needs_Review ? 'text-amber-400' : 'text-slate-600'}`}>
+                      Margin {((results.Margin ?? 0) * 100).toFixed(1)} pts · review below {((appliedRuleSet.calibration ?? DEFAULT_CALIBRATION).reviewMargin * 100).toFixed(0)}
+                    </span>
+                  </div>
+                  {rankDistribution(results.Probabilities).map(({ label, probability }, i) => (
+                    <div key={label} className="flex items-center gap-4 text-[10px] font-mono">
+                      <span className={`w-36 uppercase ${i === 0 ? 'text-slate-200 font-bold' : 'text-slate-500'}`}>{label.replace('_', ' ')}</span>
+                      <div className="flex-1 bg-slate-900 h-1.5 rounded-full overflow-hidden">
+                        <div className={`h-full ${i === 0 ? (results.Needs_Review ? 'bg-amber-500' : 'bg-emerald-500') : 'bg-slate-600'}`} style={{ width: `${probability * 100}%` }} />
+                      </div>
+                      <span className="w-14 text-right text-slate-400">{(probability * 100).toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Deduction Logic */}
               <div className="bg-[#0f172a] border border-slate-800 rounded-xl overflow-hidden shadow-xl">
                 <div className="p-4 border-b border-slate-800 bg-[#1e293b]/30 flex items-center gap-2">
                   <Scale className="w-4 h-4 text-blue-400" />
                   <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Decision Logic Benchmarks</h3>
+                  <span className="ml-auto text-[9px] font-mono text-slate-600">{appliedRuleSet.family} · {ruleSetRef(appliedRuleSet)}</span>
                 </div>
                 <table className="w-full text-left text-xs">
                     <thead className="bg-slate-950/50 text-slate-500 font-black uppercase tracking-widest">
                       <tr>
                         <th className="px-6 py-3 border-b border-slate-800">Inference Metric</th>
                         <th className="px-6 py-3 border-b border-slate-800">Observed Value</th>
+                        <th className="px-6 py-3 border-b border-slate-800">Rule Threshold</th>
                         <th className="px-6 py-3 border-b border-slate-800 text-center">Benchmark Interpretation</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-800/50">
-                      <tr>
-                        <td className="px-6 py-4 font-bold text-slate-400">OOT Flags</td>
-                        <td className="px-6 py-4 font-mono">{metrics.oot_count}</td>
-                        <td className="px-6 py-4 text-center">{metrics.oot_count === 0 ? <span className="text-emerald-500 font-bold uppercase text-[9px]">Nominal (0 OOT)</span> : <span className="text-red-500 font-bold uppercase text-[9px]">Fail ({results.Label})</span>}</td>
-                      </tr>
-                      <tr>
-                        <td className="px-6 py-4 font-bold text-slate-400">Thickness Deviation Ratio</td>
-                        <td className="px-6 py-4 font-mono">{metrics.thickness_ratio.toFixed(2)}</td>
-                        <td className="px-6 py-4 text-center">{metrics.thickness_ratio > 1.6 ? <span className="text-red-400 font-bold uppercase text-[9px]">Localized (Shrink)</span> : <span className="text-emerald-500 font-bold uppercase text-[9px]">Uniform Error</span>}</td>
-                      </tr>
-                      <tr>
-                        <td className="px-6 py-4 font-bold text-slate-400">Max Angular Deviation</td>
-                        <td className="px-6 py-4 font-mono">{metrics.max_angular_dev.toFixed(3)}mm</td>
-                        <td className="px-6 py-4 text-center">{metrics.max_angular_dev > 0.4 ? <span className="text-orange-400 font-bold uppercase text-[9px]">Significant (Cold Shut)</span> : <span className="text-slate-500 font-bold uppercase text-[9px]">Normal</span>}</td>
-                      </tr>
-                      <tr>
-                        <td className="px-6 py-4 font-bold text-slate-400">Global Scatter (StdDev)</td>
-                        <td className="px-6 py-4 font-mono">{metrics.std_dev.toFixed(3)}mm</td>
-                        <td className="px-6 py-4 text-center">{metrics.std_dev > 0.15 ? <span className="text-orange-400 font-bold uppercase text-[9px]">High Scatter (Gas)</span> : <span className="text-emerald-500 font-bold uppercase text-[9px]">Low Scatter (Stable)</span>}</td>
-                      </tr>
+                      {appliedRuleSet.benchmarks.map(b => {
+                        const { alert, threshold } = evaluateBenchmark(appliedRuleSet, b, metrics);
+                        return (
+                          <tr key={b.title}>
+                            <td className="px-6 py-4 font-bold text-slate-400">{b.title}</td>
+                            <td className="px-6 py-4 font-mono">{metrics[b.metric].toFixed(b.digits ?? 3)}{b.unit || ''}</td>
+                            <td className="px-6 py-4 font-mono text-slate-500">
+                              {threshold ? `${threshold.abs ? '|x|' : 'x'} ${threshold.op} ${typeof threshold.value === 'number' ? threshold.value : threshold.value.metric}` : '—'}
+                              <span className="text-slate-700"> ({b.ruleId})</span>
+                            </td>
+                            <td className="px-6 py-4 text-center">
+                              {alert
+                                ? <span className={`${b.tone === 'red' ? 'text-red-400' : 'text-orange-400'} font-bold uppercase text-[9px]`}>{b.alertText.replace('{label}', results.Label)}</span>
+                                : <span className="text-emerald-500 font-bold uppercase text-[9px]">{b.okText}</span>}
+                            </td>
+                          </tr>
+                        );
+                      })}
                     </tbody>
                 </table>
               </div>
 
+              {/* Audit Trail */}
+              <AuditTrail result={results} />
+
+              {/* Findings */}
+              {results.Findings && results.Findings.length > 0 && (
+                <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-6 shadow-xl space-y-3">
+                  <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+                    <Target className="w-4 h-4 text-red-400" /> Localized Findings ({results.Findings.length})
+                  </h3>
+                  {results.Findings.map((finding, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setFocusedFinding(focusedFinding === i ? null : i)}
+                      className={`w-full text-left flex items-center gap-4 px-4 py-2.5 rounded border transition-all ${focusedFinding === i ? 'border-slate-500 bg-slate-800/40' : 'border-slate-800 hover:bg-slate-800/20'}`}
+                    >
+                      <span className="w-2.5 h-2.5 rounded shrink-0" style={{ backgroundColor: LABEL_COLORS[finding.Label] }} />
+                      <span className="w-36 text-[10px] font-black uppercase text-slate-200">{finding.Label.replace('_', ' ')}</span>
+                      <span className={`w-20 text-[9px] font-black uppercase ${
+                        finding.Severity === 'Critical' ? 'text-red-500' :
+                        finding.Severity === 'Moderate' ? 'text-orange-500' : 'text-blue-500'
+                      }`}>{finding.Severity}</span>
+                      <span className="w-12 text-[10px] font-mono text-slate-400 text-right">{finding.Confidence.toFixed(0)}%</span>
+                      <span className="flex-1 text-[9px] font-mono text-slate-500 truncate" title={finding.Features.map(f => `${f.featureId} [${f.axis}]`).join(', ')}>
+                        {finding.Features.map(f => `${f.featureId}.${f.axis}`).join(' · ')}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Golden Baseline */}
+              <BaselinePanel comparison={results.Baseline} partId={results.Part_ID} cavity={reportHeader?.cavity} onRegister={registerGolden} />
+
+              {/* Best-Fit Alignment */}
+              <AlignmentPanel
+                fit={alignment}
+                ootMeasured={metrics.oot_count}
+                ootAligned={metrics.residual_oot_count}
+                showAligned={showAligned && alignment !== null}
+                onToggle={() => setShowAligned(v => !v)}
+              />
+
+              {/* GD&T */}
+              {results.Gdt && results.Gdt.length > 0 && <GdtPanel results={results.Gdt} />}
+
               {/* Deviation Chart */}
               <div className="bg-[#0f172a] border border-slate-800 rounded-xl p-8 space-y-6 shadow-2xl relative overflow-hidden">
                 <h3 className="text-xs font-black uppercase tracking-widest text-slate-200 flex items-center gap-2 relative z-10">
                   <BarChart3 className="w-4 h-4 text-emerald-500" />
                   Geometric Deviation Vector Profile
+                  {focusedFinding !== null && results.Findings?.[focusedFinding] && (
+                    <span className="ml-2 text-[9px] font-mono normal-case tracking-normal" style={{ color: LABEL_COLORS[results.Findings[focusedFinding].Label] }}>
+                      — {results.Findings[focusedFinding].Label.replace('_', ' ')} features
+                    </span>
+                  )}
+                  {showAligned && alignment && (
+                    <span className="ml-2 text-[9px] font-mono normal-case tracking-normal text-emerald-400">— after best fit</span>
+                  )}
                 </h3>
                 <div className="h-64 bg-slate-950/40 rounded-xl border border-slate-800 flex items-end justify-around p-10 gap-6 relative z-10">
-                  {features.slice(0, 10).map((f, i) => {
+                  {profileFeatures.map((f, i) => {
                     const devAbs = Math.abs(f.deviation ?? 0);
                     const tolMax = Math.max(Math.abs(f.upTol), Math.abs(f.loTol)) || 0.1;
                     const ratio = Math.min(devAbs / tolMax, 3.5);
                     const isOOT = f.outTol === 1;
                     const barColor = isOOT ? 'bg-red-500' : f.sectionType === 'thick' ? 'bg-orange-500' : f.sectionType === 'angular' ? 'bg-blue-500' : 'bg-emerald-500';
+                    const finding = findingIndex.get(featureKey(f));
+                    const findingColor = finding !== undefined ? LABEL_COLORS[results.Findings![finding].Label] : undefined;
                     
                     return (
                       <div key={i} className="flex flex-col items-center gap-2 w-full max-w-[60px]">
-                        <span className="text-[7px] font-mono text-slate-500 font-bold uppercase truncate w-full text-center" title={`${f.featureId} [${f.axis}]`}>
-                          {f.featureId.split("_")[0]}<br/>{f.axis}
+                        <span className="text-[7px] font-mono text-slate-500 font-bold uppercase truncate w-full text-center" title={`${f.featureId} [${f.axis}]${f.criticality ? ` · ${f.criticality}` : ''}${f.dieZone ? ` · zone ${f.dieZone}` : ''}`} style={{ color: findingColor }}>
+                          {f.featureId.split("_")[0]}<br/>{f.axis}{f.criticality && <span className="text-amber-400"> {f.criticality}</span>}
                         </span>
-                        <div className="w-full relative h-32 flex items-end bg-slate-900/50 rounded-t overflow-hidden">
+                        <div className="w-full relative h-32 flex items-end bg-slate-900/50 rounded-t overflow-hidden" style={findingColor ? { boxShadow: `inset 0 0 0 2px ${findingColor}` } : undefined}>
                            <div className={`w-full transition-all duration-1000 ${barColor} shadow-lg shadow-black/40`} style={{ height: `${(ratio / 3.5) * 100}%` }} />
                         </div>
                         <span className={`text-[9px] font-black font-mono ${isOOT ? 'text-red-400' : 'text-slate-400'}`}>
@@ -567,6 +1285,9 @@ const HybridNVDA = () => {
                    <div className="flex items-center gap-1.5"><div className="w-2 h-2 bg-emerald-500 rounded" /> Thin Section</div>
                    <div className="flex items-center gap-1.5"><div className="w-2 h-2 bg-blue-500 rounded" /> Angular Dev</div>
                    <div className="flex items-center gap-1.5"><div className="w-2 h-2 bg-red-500 rounded" /> OOT Fail</div>
+                   {results.Findings && results.Findings.length > 0 && (
+                     <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded ring-2 ring-slate-400" /> Outline = Finding</div>
+                   )}
                 </div>
               </div>
 
@@ -594,11 +1315,26 @@ const HybridNVDA = () => {
                       {results?.Recommended_Action || 'Process control active.'}
                     </p>
                   </div>
-                  <button className="w-full py-2.5 bg-slate-800 hover:bg-slate-700 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700 mt-2">
+                  <button onClick={exportBatchReport} className="w-full py-2.5 bg-slate-800 hover:bg-slate-700 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-slate-700 mt-2">
                     Generate Batch QC Report
                   </button>
+                  {shouldRaiseNcr(results) && (shownNcr ? (
+                    <button onClick={() => { setSelectedNcr(shownNcr.id); setView('ncr'); }} className="w-full py-2.5 bg-red-500/10 hover:bg-red-500/20 rounded text-[9px] font-black uppercase tracking-widest transition-all border border-red-500/30 text-red-400 flex items-center justify-center gap-2">
+                      <ClipboardList className="w-3.5 h-3.5" /> {shownNcr.id} · {statusLabel(shownNcr.status)}
+                    </button>
+                  ) : (
+                    <button onClick={() => shownInspection && raiseNcrs([{ ...shownInspection, reportText: resultText }])} className="w-full py-2.5 bg-red-600 hover:bg-red-500 rounded text-[9px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2">
+                      <ClipboardList className="w-3.5 h-3.5" /> Raise NCR
+                    </button>
+                  ))}
                 </div>
               </div>
+
+              {/* 8D Draft */}
+              <NarrativePanel input={narrativeInput(results, metrics, reportHeader ?? { partId: results.Part_ID }, features)} />
+
+              {/* Certificate */}
+              <CertificatePanel inspection={{ source: inputFileName ?? "manual-input", ...certificateHeader(reportHeader, results.Part_ID), features, metrics, result: results }} />
             </div>
           )}
         </div>
@@ -606,27 +1342,28 @@ const HybridNVDA = () => {
 
       {/* Logic Calibration Modal */}
       {showFeedbackModal && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4">
-          <div className="bg-[#0f172a] border border-slate-700 rounded-2xl w-full max-w-xl overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200">
-             <div className="p-6 border-b border-slate-800 bg-[#1e293b]/50 flex justify-between items-center">
-                <h3 className="font-black uppercase tracking-widest text-amber-500">Logic Calibration Core</h3>
-                <button onClick={() => setShowFeedbackModal(false)}><X className="w-5 h-5 text-slate-500" /></button>
-             </div>
-             <div className="p-8 space-y-6">
-                <p className="text-xs text-slate-400 leading-relaxed font-medium">
-                  Refine the deterministic core by reporting logic misalignments. Engine thresholds adjust based on reported morphological mismatch.
-                </p>
-                <textarea 
-                  className="w-full h-32 bg-[#05080d] border border-slate-800 rounded-lg p-4 text-xs font-mono text-amber-500 focus:ring-1 focus:ring-amber-500/50 outline-none placeholder:text-slate-800"
-                  placeholder="e.g. Cold Shut incorrectly labeled as Offset despite high Angular Deviation. Threshold recalibration requested..."
-                />
-                <div className="flex justify-end gap-3 pt-2">
-                   <button onClick={() => setShowFeedbackModal(false)} className="px-5 py-2 rounded font-bold text-slate-500 hover:text-white text-xs uppercase transition-colors">Abort</button>
-                   <button onClick={() => setShowFeedbackModal(false)} className="px-6 py-2.5 bg-amber-600 hover:bg-amber-500 rounded font-black text-xs uppercase tracking-widest transition-all">Submit Threshold Shift</button>
-                </div>
-             </div>
-          </div>
-        </div>
+        <CalibrationModal
+          current={results && metrics ? { features, metrics, result: results } : null}
+          ruleSets={ruleSets}
+          onApplied={(msg) => {
+            loadRuleSets();
+            setShowFeedbackModal(false);
+            setLog(prev => [{ msg, time: new Date().toLocaleTimeString() }, ...prev].slice(0, 5));
+          }}
+          onClose={() => setShowFeedbackModal(false)}
+        />
+      )}
+
+      {/* CSV Column Mapping Wizard */}
+      {mappingRequest && (
+        <ColumnMappingWizard
+          text={mappingRequest.text}
+          fileName={mappingRequest.fileName}
+          layout={mappingRequest.layout}
+          suggestion={mappingRequest.suggestion}
+          onSave={saveMapping}
+          onCancel={() => setMappingRequest(null)}
+        />
       )}
     </div>
   );
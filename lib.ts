@@ -0,0 +1,30 @@
+/**
+ * INSPECT-OS LIBRARY ENTRY
+ * The UI-free surface of the station: report importers, feature engineering, the classifier and the
+ * inspection pipeline. Nothing here touches the DOM or IndexedDB, so it runs unchanged under Node
+ * for the CLI, CMM post-measurement hooks and MES scripts.
+ */
+
+export type * from './types';
+
+export { calculateMetrics, LocalInferenceEngine } from './services/engine';
+export { alignFeatures, bestFit, type AlignmentFit } from './services/alignment';
+export { evaluateGdt, groupFeatures, GDT_TYPES, type FeatureGroup } from './services/gdt';
+export {
+  createInspectionContext, dispositionOf, exitCodeFor, inspectReport, inspectText, reportTimestamp, EXIT_CODES,
+  type Disposition, type InspectionContext, type InspectionOutcome
+} from './services/pipeline';
+export { detectImporters, importReport, listImporters, registerImporter, MappingRequiredError, type CsvColumnMapping, type ImportOptions, type ReportImporter } from './services/importers';
+export { DEFAULT_RULE_SET, LABELS, selectRuleSet, validateRuleSet, type RuleSet } from './services/ruleEngine';
+export { validateModel, type SoftmaxModel } from './services/statModel';
+export { DEFAULT_FEATURE_MAPS, parseFeatureMap, validateFeatureMap } from './services/featureMap';
+export { compareToBaseline, selectBaseline } from './services/baseline';
+export { indexShots, parseShotLog } from './services/shotLog';
+export { analyzeGageStudy, noiseFromStudy, observationFromReport, selectNoise, validateNoise, type GageObservation, type GageStudy } from './services/gageRR';
+export { DEFAULT_TEMPLATE, generateReport, generateSet, formatLegacyReport, templateFromFeatures, type PartTemplate, type SyntheticOptions, type SyntheticReport } from './services/synthetic';
+export {
+  createGeminiProvider, draftNarrative, draftToText, listNarrativeProviders, narrativeInput, registerNarrativeProvider, TEMPLATE_PROVIDER,
+  type EightDDraft, type NarrativeInput, type NarrativeProvider
+} from './services/narrative';
+export { buildCertificate, certificateToCsv, certificateToHtml, certificateToJson, suggestDisposition, type CertificateDisposition, type InspectionCertificate, type SignOff } from './services/certificate';
+export { advanceNcr, assignNcr, attachToNcr, commentNcr, createNcr, ncrsToCsv, summarizeNcrs, MRB_DISPOSITIONS, NCR_STATUSES } from './services/ncr';
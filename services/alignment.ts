@@ -0,0 +1,171 @@
+import type { CMMFeature } from '../types';
+import { baseId } from './featureIds';
+
+/**
+ * RIGID-BODY BEST FIT
+ * Least-squares translation (and small rotation, when the report has enough equations for it) of the
+ * positional features onto their nominals. A fixture or datum shift moves every point the same way and is
+ * almost entirely explained by the fit; a casting that is undersized or distorted is not, because contraction
+ * and local form error are not rigid motions. What the fit leaves behind is the form error proper.
+ *
+ * Each row of a report is one axis of one feature (POINT1_X, POINT1_Y, ...), so a point's nominal position is
+ * assembled from the nominals of its axis rows. A coordinate the report does not measure is taken at the
+ * centroid, where it adds no lever arm to the rotation.
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface FitResidual {
+  featureId: string;
+  axis: string;
+  deviation: number;
+  residual: number;
+}
+
+export interface AlignmentFit {
+  // Estimated datum shift in mm
+  translation: Vector3;
+  // Small-angle rotation about each axis through the centroid of the fitted points, in degrees
+  rotation: Vector3;
+  shift: number;
+  rotationDeg: number;
+  mode: 'translation' | 'translation+rotation';
+  // Features (not rows) that took part in the fit
+  points: number;
+  rows: number;
+  // Share of the fitted rows' deviation (sum of squares about nominal) the rigid motion accounts for
+  explained: number;
+  // Mean tolerance half-width of the fitted rows, to judge the shift against
+  tolerance: number;
+  residuals: FitResidual[];
+}
+
+// Points and circle centres: features whose deviation is a position along one machine axis
+const POSITIONAL = /^(POINT|PNT|PT|CIRCLE|CIRC|CIR|HOLE)[^A-Z]/i;
+const AXES = ['X', 'Y', 'Z'] as const;
+type Axis = typeof AXES[number];
+
+// A fit absorbs form error too when it has nearly as many unknowns as equations
+const ROWS_PER_PARAMETER = 2;
+const MIN_POINTS = 3;
+
+const isPositional = (f: CMMFeature) =>
+  f.sectionType !== 'angular' && AXES.includes(f.axis.toUpperCase() as Axis) && POSITIONAL.test(`${baseId(f)}_`);
+
+// Gaussian elimination with partial pivoting; `a` is square and already regularised
+const solve = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const k = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= k * m[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    x[r] = (m[r][n] - m[r].slice(r + 1, n).reduce((s, v, i) => s + v * x[r + 1 + i], 0)) / m[r][r];
+  }
+  return x;
+};
+
+type Parameter = 'tX' | 'tY' | 'tZ' | 'rX' | 'rY' | 'rZ';
+
+// Coefficient of each parameter in the deviation along `axis` of a point at `p` (relative to the centroid): d = t + ω × p
+const coefficient = (param: Parameter, axis: Axis, p: Vector3): number => {
+  switch (param) {
+    case 'tX': return axis === 'X' ? 1 : 0;
+    case 'tY': return axis === 'Y' ? 1 : 0;
+    case 'tZ': return axis === 'Z' ? 1 : 0;
+    case 'rX': return axis === 'Y' ? -p.z : axis === 'Z' ? p.y : 0;
+    case 'rY': return axis === 'X' ? p.z : axis === 'Z' ? -p.x : 0;
+    case 'rZ': return axis === 'X' ? -p.y : axis === 'Y' ? p.x : 0;
+  }
+};
+
+const DEG = 180 / Math.PI;
+
+export const bestFit = (features: CMMFeature[]): AlignmentFit | null => {
+  const candidates = features.filter(isPositional);
+  const axisOf = (f: CMMFeature) => f.axis.toUpperCase() as Axis;
+
+  // An axis measured once would be fitted exactly, so a gross error on it would pass for a shift: only axes
+  // with redundancy take part, and rotation about an axis needs both others translated
+  const fitted = AXES.filter(axis => candidates.filter(f => axisOf(f) === axis).length >= ROWS_PER_PARAMETER);
+  const rows = candidates.filter(f => fitted.includes(axisOf(f)));
+  const groups = new Map<string, Partial<Record<Axis, number>>>();
+  rows.forEach(f => {
+    const nominal = groups.get(baseId(f)) ?? {};
+    if (nominal[axisOf(f)] === undefined) nominal[axisOf(f)] = f.nominal;
+    groups.set(baseId(f), nominal);
+  });
+  if (groups.size < MIN_POINTS) return null;
+
+  const translations = fitted.map(axis => `t${axis}` as Parameter);
+  const rotations = AXES.filter(axis => AXES.every(other => other === axis || fitted.includes(other))).map(axis => `r${axis}` as Parameter);
+  const rotation = rotations.length > 0 && rows.length >= (translations.length + rotations.length) * ROWS_PER_PARAMETER;
+  const params = rotation ? [...translations, ...rotations] : translations;
+  if (params.length === 0 || rows.length < params.length * ROWS_PER_PARAMETER) return null;
+
+  const centroid = Object.fromEntries(AXES.map(axis => {
+    const known = [...groups.values()].map(g => g[axis]).filter((v): v is number => v !== undefined);
+    return [axis, known.length ? known.reduce((a, b) => a + b, 0) / known.length : 0];
+  })) as Record<Axis, number>;
+  const position = (f: CMMFeature): Vector3 => {
+    const g = groups.get(baseId(f))!;
+    return { x: (g.X ?? centroid.X) - centroid.X, y: (g.Y ?? centroid.Y) - centroid.Y, z: (g.Z ?? centroid.Z) - centroid.Z };
+  };
+
+  const A = rows.map(f => params.map(param => coefficient(param, axisOf(f), position(f))));
+  const d = rows.map(f => f.deviation);
+  const n = params.length;
+  const AtA = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => A.reduce((s, r) => s + r[i] * r[j], 0)));
+  const Atd = Array.from({ length: n }, (_, i) => A.reduce((s, r, k) => s + r[i] * d[k], 0));
+  // A light ridge keeps a rotation the points cannot resolve (all on a line) at zero
+  const ridge = 1e-9 * Math.max(1, ...AtA.map((r, i) => r[i]));
+  AtA.forEach((r, i) => { r[i] += ridge; });
+  const solution = solve(AtA, Atd);
+  const q = (param: Parameter) => solution[params.indexOf(param)] ?? 0;
+
+  const residuals = rows.map((f, k) => ({
+    featureId: f.featureId,
+    axis: f.axis,
+    deviation: f.deviation,
+    residual: f.deviation - A[k].reduce((s, v, i) => s + v * solution[i], 0)
+  }));
+  const total = d.reduce((s, v) => s + v * v, 0);
+  const left = residuals.reduce((s, r) => s + r.residual * r.residual, 0);
+  const translation = { x: q('tX'), y: q('tY'), z: q('tZ') };
+  const omega = { x: q('rX') * DEG, y: q('rY') * DEG, z: q('rZ') * DEG };
+
+  return {
+    translation,
+    rotation: omega,
+    shift: Math.hypot(translation.x, translation.y, translation.z),
+    rotationDeg: Math.hypot(omega.x, omega.y, omega.z),
+    mode: rotation ? 'translation+rotation' : 'translation',
+    points: groups.size,
+    rows: rows.length,
+    explained: total > 0 ? Math.max(0, 1 - left / total) : 0,
+    tolerance: rows.reduce((s, f) => s + (f.upTol - f.loTol) / 2, 0) / rows.length,
+    residuals
+  };
+};
+
+// The report as it reads after alignment: fitted rows carry their residual, everything else is as measured
+export const alignFeatures = (features: CMMFeature[], fit: AlignmentFit | null): CMMFeature[] => {
+  if (!fit) return features;
+  const residual = new Map(fit.residuals.map(r => [`${r.featureId}|${r.axis}`, r.residual]));
+  return features.map(f => {
+    const r = residual.get(`${f.featureId}|${f.axis}`);
+    if (r === undefined) return f;
+    return { ...f, deviation: r, actual: f.nominal + r, outTol: r < f.loTol || r > f.upTol ? 1 : 0 };
+  });
+};
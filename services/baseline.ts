@@ -0,0 +1,104 @@
+import type { BaselineComparison, BaselineDelta, BaselineFeature, CMMFeature, GoldenBaseline, GoldenSample } from '../types';
+import { featureKey } from './featureIds';
+
+/**
+ * GOLDEN BASELINES
+ * Approved reports of a part number and cavity define where each feature normally sits. A new part is
+ * compared against that, not against nominal, so a die that always runs +0.05 on a boss stops looking
+ * like a defect while a part that suddenly moved does.
+ */
+
+export const DEFAULT_BAND_FRACTION = 0.25;
+// Below this share of exceeding features a uniform shift is still treated as noise around the baseline
+const DRIFT_MIN_SHARE = 0.5;
+const DRIFT_MIN_COHERENCE = 0.8;
+
+export const baselineId = (partId: string, cavity = '') => `${partId.trim().toUpperCase()}|${cavity.trim().toUpperCase()}`;
+
+// --- Building ---
+
+export const goldenSample = (source: string, features: CMMFeature[]): GoldenSample => {
+  const deviations: Record<string, number> = {};
+  features.forEach(f => { deviations[featureKey(f)] = f.deviation; });
+  return { source, addedAt: Date.now(), deviations };
+};
+
+// Per-feature mean and spread over every golden sample that measured the feature
+export const summarizeSamples = (samples: GoldenSample[]): BaselineFeature[] => {
+  const byKey = new Map<string, number[]>();
+  samples.forEach(s => Object.entries(s.deviations).forEach(([key, dev]) => {
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(dev);
+  }));
+  return Array.from(byKey.entries()).map(([key, devs]) => {
+    const [featureId, axis] = key.split('|');
+    const mean = devs.reduce((a, b) => a + b, 0) / devs.length;
+    const std = devs.length > 1 ? Math.sqrt(devs.reduce((a, d) => a + (d - mean) ** 2, 0) / (devs.length - 1)) : 0;
+    return { featureId, axis, mean, std, n: devs.length };
+  });
+};
+
+// Adding a report with the same source name replaces the earlier copy
+export const addGoldenSamples = (baseline: GoldenBaseline, samples: GoldenSample[]): GoldenBaseline => {
+  const replaced = new Set(samples.map(s => s.source));
+  const all = [...baseline.samples.filter(s => !replaced.has(s.source)), ...samples];
+  return { ...baseline, samples: all, features: summarizeSamples(all) };
+};
+
+export const removeGoldenSample = (baseline: GoldenBaseline, source: string): GoldenBaseline => {
+  const samples = baseline.samples.filter(s => s.source !== source);
+  return { ...baseline, samples, features: summarizeSamples(samples) };
+};
+
+export const emptyBaseline = (partId: string, cavity = ''): GoldenBaseline => ({
+  id: baselineId(partId, cavity),
+  partId: partId.trim(),
+  cavity: cavity.trim(),
+  bandFraction: DEFAULT_BAND_FRACTION,
+  samples: [],
+  features: []
+});
+
+// --- Comparison ---
+
+// The cavity's own baseline wins; a part-wide baseline ('' cavity) covers cavities without one
+export const selectBaseline = (baselines: GoldenBaseline[], partId: string, cavity?: string): GoldenBaseline | undefined => {
+  const usable = baselines.filter(b => b.samples.length > 0);
+  return (cavity ? usable.find(b => b.id === baselineId(partId, cavity)) : undefined)
+    || usable.find(b => b.id === baselineId(partId));
+};
+
+export const compareToBaseline = (baseline: GoldenBaseline, features: CMMFeature[]): BaselineComparison => {
+  const reference = new Map(baseline.features.map(f => [`${f.featureId}|${f.axis}`, f]));
+  const deltas: BaselineDelta[] = features.flatMap(f => {
+    const ref = reference.get(featureKey(f));
+    if (!ref) return [];
+    // Zero-width bands (unknown tolerance) fall back to 0.1 mm so the ratio stays finite
+    const band = baseline.bandFraction * ((f.upTol - f.loTol) || 0.1);
+    const delta = +(f.deviation - ref.mean).toFixed(6);
+    return [{ featureId: f.featureId, axis: f.axis, delta, band, exceeds: Math.abs(delta) > band }];
+  });
+
+  const ratios = deltas.map(d => d.delta / d.band);
+  const absMean = ratios.length ? ratios.reduce((a, r) => a + Math.abs(r), 0) / ratios.length : 0;
+  const signedMean = ratios.length ? ratios.reduce((a, r) => a + r, 0) / ratios.length : 0;
+  const coherence = absMean > 0 ? Math.abs(signedMean) / absMean : 0;
+  const exceeded = deltas.filter(d => d.exceeds).length;
+
+  let pattern: BaselineComparison['pattern'] = 'within_band';
+  if (exceeded > 0) {
+    pattern = exceeded / deltas.length >= DRIFT_MIN_SHARE && coherence >= DRIFT_MIN_COHERENCE ? 'drift' : 'localized';
+  }
+
+  return {
+    baselineId: baseline.id,
+    cavity: baseline.cavity,
+    samples: baseline.samples.length,
+    driftScore: absMean,
+    coherence,
+    exceeded,
+    matched: deltas.length,
+    pattern,
+    deltas
+  };
+};
@@ -0,0 +1,15 @@
+import type { GoldenBaseline } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Golden Baselines (one per part number and cavity) ---
+
+export const BaselineStore = {
+  listAll: (): Promise<GoldenBaseline[]> =>
+    withStore(STORES.baselines, 'readonly', store => store.getAll() as IDBRequest<GoldenBaseline[]>),
+
+  save: (baseline: GoldenBaseline): Promise<IDBValidKey> =>
+    withStore(STORES.baselines, 'readwrite', store => store.put({ ...baseline, updatedAt: Date.now() })),
+
+  remove: (id: string): Promise<undefined> =>
+    withStore(STORES.baselines, 'readwrite', store => store.delete(id))
+};
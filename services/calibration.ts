@@ -0,0 +1,165 @@
+import type { EngineeredMetrics } from '../types';
+import { DEFAULT_CALIBRATION, LABELS, resolveLabel, scoreDistribution, type Label, type MetricKey, type RuleCondition, type RuleSet, type ScoringRule } from './ruleEngine';
+
+/**
+ * THRESHOLD CALIBRATION
+ * Coordinate search over the numeric thresholds of a rule set's scoring rules against engineer-labeled
+ * ground truth. Only ordering comparisons (<, <=, >, >=) against constants are tuned; equality gates,
+ * metric-vs-metric comparisons, score weights and severity gates are left as authored. The softmax
+ * temperature is then refit so reported probabilities match observed accuracy.
+ */
+
+// --- Types ---
+
+export interface LabeledSample {
+  metrics: EngineeredMetrics;
+  label: Label;
+  partId?: string;
+}
+
+export type ConfusionMatrix = Record<Label, Record<Label, number>>;
+
+export interface ThresholdChange {
+  ruleId: string;
+  metric: MetricKey;
+  op: string;
+  from: number;
+  to: number;
+}
+
+export interface CalibrationResult {
+  ruleSet: RuleSet;
+  before: { matrix: ConfusionMatrix, accuracy: number };
+  after: { matrix: ConfusionMatrix, accuracy: number };
+  changes: ThresholdChange[];
+  temperature: { from: number, to: number };
+}
+
+type Leaf = Extract<RuleCondition, { metric: MetricKey }> & { value: number };
+
+// --- Evaluation ---
+
+export const emptyMatrix = (): ConfusionMatrix =>
+  Object.fromEntries(LABELS.map(a => [a, Object.fromEntries(LABELS.map(p => [p, 0]))])) as ConfusionMatrix;
+
+// Confusion matrix, accuracy and per-class precision/recall from (truth, predicted) pairs
+export const scorePredictions = (pairs: { truth: Label, predicted: Label }[]) => {
+  const matrix = emptyMatrix();
+  pairs.forEach(p => { matrix[p.truth][p.predicted]++; });
+  const correct = pairs.filter(p => p.truth === p.predicted).length;
+  const perClass = LABELS.map(label => {
+    const tp = matrix[label][label];
+    const predicted = LABELS.reduce((n, t) => n + matrix[t][label], 0);
+    const support = LABELS.reduce((n, p) => n + matrix[label][p], 0);
+    return { label, precision: predicted ? tp / predicted : null, recall: support ? tp / support : null, support };
+  });
+  return { matrix, accuracy: pairs.length ? correct / pairs.length : 0, perClass };
+};
+
+export const confusionMatrix = (ruleSet: RuleSet, samples: LabeledSample[]) => {
+  const { matrix, accuracy } = scorePredictions(samples.map(s => ({ truth: s.label, predicted: resolveLabel(ruleSet, s.metrics).label })));
+  return { matrix, accuracy };
+};
+
+const accuracyOf = (ruleSet: RuleSet, samples: LabeledSample[]) =>
+  samples.reduce((n, s) => n + (resolveLabel(ruleSet, s.metrics).label === s.label ? 1 : 0), 0) / (samples.length || 1);
+
+// --- Parameter Discovery ---
+
+const collectLeaves = (cond: RuleCondition, out: Leaf[]) => {
+  if ('all' in cond) cond.all.forEach(c => collectLeaves(c, out));
+  else if ('any' in cond) cond.any.forEach(c => collectLeaves(c, out));
+  else if (typeof cond.value === 'number' && ['<', '<=', '>', '>='].includes(cond.op)) out.push(cond as Leaf);
+};
+
+// Returns live references into `ruleSet`, so callers must pass a clone they own
+const tunableLeaves = (ruleSet: RuleSet) => {
+  const params: { ruleId: string, leaf: Leaf }[] = [];
+  const walk = (rules: ScoringRule[]) => rules.forEach(r => {
+    const leaves: Leaf[] = [];
+    collectLeaves(r.when, leaves);
+    leaves.forEach(leaf => params.push({ ruleId: r.id, leaf }));
+    walk(r.children || []);
+  });
+  walk(ruleSet.rules);
+  return params;
+};
+
+// Accuracy only changes between observed metric values, so midpoints are the complete candidate set
+const candidateValues = (leaf: Leaf, samples: LabeledSample[], maxCandidates = 60) => {
+  const observed = Array.from(new Set(samples.map(s => leaf.abs ? Math.abs(s.metrics[leaf.metric]) : s.metrics[leaf.metric])))
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+  const mids = observed.slice(1).map((v, i) => (v + observed[i]) / 2);
+  const step = Math.max(1, Math.ceil(mids.length / maxCandidates));
+  return [leaf.value, ...mids.filter((_, i) => i % step === 0)];
+};
+
+// --- Probability Calibration ---
+
+const meanLogLoss = (ruleSet: RuleSet, samples: LabeledSample[], temperature: number) =>
+  samples.reduce((a, s) => {
+    const p = scoreDistribution(ruleSet, resolveLabel(ruleSet, s.metrics).scores, temperature)[s.label];
+    return a - Math.log(Math.max(p, 1e-6));
+  }, 0) / (samples.length || 1);
+
+// Log-spaced grid search: the loss is one-dimensional and cheap, and a grid cannot diverge on tiny datasets
+export const fitTemperature = (ruleSet: RuleSet, samples: LabeledSample[], lo = 1, hi = 100, steps = 60) => {
+  let best = (ruleSet.calibration ?? DEFAULT_CALIBRATION).temperature;
+  let bestLoss = meanLogLoss(ruleSet, samples, best);
+  for (let i = 0; i <= steps; i++) {
+    const t = lo * Math.pow(hi / lo, i / steps);
+    const loss = meanLogLoss(ruleSet, samples, t);
+    if (loss < bestLoss - 1e-9) { best = t; bestLoss = loss; }
+  }
+  return Number(best.toPrecision(2));
+};
+
+// --- Search ---
+
+export const calibrateThresholds = (ruleSet: RuleSet, samples: LabeledSample[], maxPasses = 4): CalibrationResult => {
+  const tuned: RuleSet = JSON.parse(JSON.stringify(ruleSet));
+  const params = tunableLeaves(tuned);
+  const original = params.map(p => p.leaf.value);
+  let best = accuracyOf(tuned, samples);
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+    params.forEach((p, i) => {
+      const current = p.leaf.value;
+      let bestValue = current;
+      candidateValues(p.leaf, samples).forEach(v => {
+        p.leaf.value = v;
+        const acc = accuracyOf(tuned, samples);
+        // On ties keep the value closest to the authored threshold to avoid gratuitous drift
+        const closer = Math.abs(v - original[i]) < Math.abs(bestValue - original[i]);
+        if (acc > best + 1e-9 || (Math.abs(acc - best) <= 1e-9 && closer)) {
+          if (acc > best + 1e-9) improved = true;
+          best = acc;
+          bestValue = v;
+        }
+      });
+      p.leaf.value = bestValue;
+    });
+    if (!improved) break;
+  }
+
+  // Round to the precision engineers actually write thresholds in
+  params.forEach(p => { p.leaf.value = Number(p.leaf.value.toPrecision(3)); });
+
+  const changes: ThresholdChange[] = params
+    .map((p, i) => ({ ruleId: p.ruleId, metric: p.leaf.metric, op: p.leaf.op, from: original[i], to: p.leaf.value }))
+    .filter(c => c.from !== c.to);
+
+  const calibration = tuned.calibration ?? DEFAULT_CALIBRATION;
+  const temperature = fitTemperature(tuned, samples);
+  tuned.calibration = { ...calibration, temperature };
+
+  return {
+    ruleSet: tuned,
+    before: confusionMatrix(ruleSet, samples),
+    after: confusionMatrix(tuned, samples),
+    changes,
+    temperature: { from: calibration.temperature, to: temperature }
+  };
+};
@@ -0,0 +1,280 @@
+import type { CMMFeature, EngineeredMetrics, GdtResult, MLResponse, ReportHeader } from '../types';
+import { ENGINE_VERSION } from './engine';
+import { dispositionOf } from './pipeline';
+import { GDT_TYPES, utilization } from './gdt';
+import { PROCESS_PARAMETERS, TRACE_FIELDS } from './traceability';
+import { csvCell } from './csv';
+
+/**
+ * INSPECTION CERTIFICATE
+ * The record that leaves the station with a part: header, every measured feature, the engineered metrics,
+ * the verdict and the disposition an inspector signed for. One certificate renders three ways: a standalone
+ * HTML page to print or save as PDF, a CSV for spreadsheets, and JSON for the MES. The engine suggests the
+ * disposition; the inspector's choice is what the certificate carries.
+ */
+
+// MRB: held for the material review board
+export type CertificateDisposition = 'accept' | 'reject' | 'mrb';
+
+export const CERTIFICATE_DISPOSITIONS: { id: CertificateDisposition, label: string }[] = [
+  { id: 'accept', label: 'Accept' },
+  { id: 'reject', label: 'Reject' },
+  { id: 'mrb', label: 'MRB' }
+];
+
+export interface SignOff {
+  inspector: string;
+  // ISO timestamp of signing
+  signedAt: string;
+  comment?: string;
+}
+
+export interface InspectionCertificate {
+  schema: 'inspect-os.certificate/1';
+  id: string;
+  issuedAt: string;
+  engine: string;
+  source: string;
+  format?: string;
+  header: ReportHeader;
+  verdict: {
+    label: MLResponse['Label'];
+    confidence: number;
+    severity: MLResponse['Severity'];
+    needsReview: boolean;
+    rootCause: string;
+    recommendedAction: string;
+    ruleSet?: string;
+    decisionSource?: MLResponse['Decision_Source'];
+  };
+  suggestedDisposition: CertificateDisposition;
+  disposition: CertificateDisposition;
+  // Absent until an inspector signs; an unsigned certificate is a draft
+  signOff?: SignOff;
+  metrics: EngineeredMetrics;
+  features: CMMFeature[];
+  // GD&T characteristics of the part's feature map, when it has any
+  gdt?: GdtResult[];
+}
+
+// The pipeline's review verdict is what goes to the board
+export const suggestDisposition = (result: MLResponse): CertificateDisposition => {
+  const d = dispositionOf(result);
+  return d === 'review' || d === 'error' ? 'mrb' : d;
+};
+
+// Overriding the engine needs a reason on the certificate
+export const needsJustification = (cert: Pick<InspectionCertificate, 'disposition' | 'suggestedDisposition'>) =>
+  cert.disposition !== cert.suggestedDisposition;
+
+// Reasons a certificate cannot be signed yet, empty when it can
+export const signOffErrors = (cert: Pick<InspectionCertificate, 'disposition' | 'suggestedDisposition'>, signOff: Omit<SignOff, 'signedAt'>): string[] => {
+  const errors: string[] = [];
+  if (!signOff.inspector.trim()) errors.push('Inspector name is required');
+  if (needsJustification(cert) && !signOff.comment?.trim()) errors.push('A comment is required when the disposition differs from the engine');
+  return errors;
+};
+
+export const buildCertificate = (
+  inspection: { source: string, format?: string, header: ReportHeader, features: CMMFeature[], metrics: EngineeredMetrics, result: MLResponse },
+  options: { disposition?: CertificateDisposition, signOff?: SignOff, issuedAt?: Date } = {}
+): InspectionCertificate => {
+  const { source, format, header, features, metrics, result } = inspection;
+  const issuedAt = (options.issuedAt ?? new Date()).toISOString();
+  const suggested = suggestDisposition(result);
+  return {
+    schema: 'inspect-os.certificate/1',
+    id: `${header.partId || result.Part_ID}-${header.serial || issuedAt.slice(0, 19).replace(/[-:T]/g, '')}`,
+    issuedAt,
+    engine: ENGINE_VERSION,
+    source,
+    format,
+    header: { ...header, partId: header.partId || result.Part_ID },
+    verdict: {
+      label: result.Label,
+      confidence: result.Confidence,
+      severity: result.Severity,
+      needsReview: !!result.Needs_Review,
+      rootCause: result.Root_Cause,
+      recommendedAction: result.Recommended_Action,
+      ruleSet: result.Rule_Set,
+      decisionSource: result.Decision_Source
+    },
+    suggestedDisposition: suggested,
+    disposition: options.disposition ?? suggested,
+    signOff: options.signOff,
+    metrics,
+    features,
+    ...(result.Gdt?.length ? { gdt: result.Gdt } : {})
+  };
+};
+
+export const certificateFileName = (cert: InspectionCertificate, extension: 'json' | 'csv' | 'html') =>
+  `certificate-${cert.id.replace(/[^\w.-]+/g, '_')}.${extension}`;
+
+// --- JSON ---
+
+export const certificateToJson = (cert: InspectionCertificate) => JSON.stringify(cert, null, 2);
+
+// --- CSV ---
+
+const dispositionLabel = (d: CertificateDisposition) => CERTIFICATE_DISPOSITIONS.find(x => x.id === d)!.label;
+
+const gdtLabel = (r: GdtResult) => GDT_TYPES.find(t => t.id === r.type)!.label;
+
+const gdtStatus = (r: GdtResult) => r.status === 'not_measured' ? 'NOT MEASURED' : r.status.toUpperCase();
+
+const headerRows = (cert: InspectionCertificate): [string, string | number | undefined][] => [
+  ['Part ID', cert.header.partId],
+  ...TRACE_FIELDS.map(f => [f.label, cert.header[f.key]] as [string, string | undefined]),
+  ['Operator', cert.header.operator],
+  ['Machine', cert.header.machine],
+  ['Measured', cert.header.date],
+  ...PROCESS_PARAMETERS.filter(p => cert.header.process?.[p.key] !== undefined).map(p => [`${p.label} ${p.unit}`, cert.header.process![p.key]] as [string, number])
+];
+
+// Sectioned like the batch report: key/value blocks, then the GD&T and feature tables
+export const certificateToCsv = (cert: InspectionCertificate): string => {
+  const rows: (string | number | undefined)[][] = [
+    ['Inspection Certificate', cert.id],
+    ['Issued', cert.issuedAt],
+    ['Engine', cert.engine],
+    ['Source', cert.source],
+    ['Format', cert.format],
+    ...headerRows(cert),
+    [],
+    ['Label', cert.verdict.label],
+    ['Confidence %', cert.verdict.confidence.toFixed(0)],
+    ['Severity', cert.verdict.severity],
+    ['Manual Review', cert.verdict.needsReview ? 'YES' : ''],
+    ['Rule Set', cert.verdict.ruleSet],
+    ['Root Cause', cert.verdict.rootCause],
+    ['Recommended Action', cert.verdict.recommendedAction],
+    [],
+    ['Suggested Disposition', dispositionLabel(cert.suggestedDisposition)],
+    ['Disposition', dispositionLabel(cert.disposition)],
+    ['Inspector', cert.signOff?.inspector ?? 'UNSIGNED'],
+    ['Signed', cert.signOff?.signedAt],
+    ['Comment', cert.signOff?.comment],
+    [],
+    ['Metric', 'Value'],
+    ...Object.entries(cert.metrics).map(([k, v]) => [k, +v.toFixed(4)]),
+    ...(cert.gdt ? [
+      [],
+      ['Characteristic', 'Type', 'Features', 'Measured', 'Tolerance', 'MMC Bonus', 'Status'],
+      ...cert.gdt.map(r => [r.id, gdtLabel(r), r.features.join(' '), r.status === 'not_measured' ? '' : +r.value.toFixed(4), r.tolerance, r.bonus ? +r.bonus.toFixed(4) : '', gdtStatus(r)])
+    ] : []),
+    [],
+    ['Feature', 'Axis', 'Section', 'Nominal', 'Actual', 'Deviation', 'Lo Tol', 'Up Tol', 'OOT', 'Criticality', 'Die Zone'],
+    ...cert.features.map(f => [f.featureId, f.axis, f.sectionType, f.nominal, f.actual, f.deviation, f.loTol, f.upTol, f.outTol === 1 ? 'OOT' : '', f.criticality, f.dieZone])
+  ];
+  return rows.map(r => r.map(csvCell).join(',')).join('\n');
+};
+
+// --- Printable HTML ---
+
+const escapeHtml = (value: string | number | undefined) =>
+  (value === undefined ? '' : String(value)).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+// Deviation over the tolerance on its side, as on the station's profile chart but signed, with the ±1 band marked
+const deviationChart = (features: CMMFeature[]) => {
+  const W = 720, H = 180, PAD = 28, LIMIT = 3;
+  const slot = (W - PAD * 2) / Math.max(features.length, 1);
+  const y = (ratio: number) => H / 2 - (Math.max(-LIMIT, Math.min(LIMIT, ratio)) / LIMIT) * (H / 2 - PAD / 2);
+  const bars = features.map((f, i) => {
+    const tol = (f.deviation >= 0 ? f.upTol : -f.loTol) || 0.1;
+    const ratio = f.deviation / tol;
+    const top = Math.min(y(ratio), y(0));
+    const color = f.outTol === 1 ? '#dc2626' : f.sectionType === 'thick' ? '#ea580c' : f.sectionType === 'angular' ? '#2563eb' : '#059669';
+    const x = PAD + i * slot + slot * 0.15;
+    return `<rect x="${x.toFixed(1)}" y="${top.toFixed(1)}" width="${(slot * 0.7).toFixed(1)}" height="${Math.max(Math.abs(y(ratio) - y(0)), 0.5).toFixed(1)}" fill="${color}"><title>${escapeHtml(`${f.featureId} ${f.axis}: ${f.deviation}`)}</title></rect>`;
+  }).join('');
+  const band = [1, -1].map(r => `<line x1="${PAD}" x2="${W - PAD}" y1="${y(r)}" y2="${y(r)}" stroke="#9ca3af" stroke-dasharray="4 3"/>`).join('');
+  return `<svg viewBox="0 0 ${W} ${H}" width="100%" role="img" aria-label="Deviation profile">
+<line x1="${PAD}" x2="${W - PAD}" y1="${y(0)}" y2="${y(0)}" stroke="#111827"/>${band}${bars}
+<text x="4" y="${y(1) + 3}" font-size="9" fill="#6b7280">+tol</text><text x="4" y="${y(-1) + 3}" font-size="9" fill="#6b7280">−tol</text>
+</svg>`;
+};
+
+const CERTIFICATE_CSS = `
+body { font: 11px/1.4 Helvetica, Arial, sans-serif; color: #111827; margin: 24px; }
+h1 { font-size: 18px; margin: 0; letter-spacing: .05em; text-transform: uppercase; }
+h2 { font-size: 11px; text-transform: uppercase; letter-spacing: .1em; color: #4b5563; border-bottom: 1px solid #d1d5db; padding-bottom: 2px; margin: 18px 0 6px; }
+table { border-collapse: collapse; width: 100%; }
+td, th { padding: 2px 6px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+th { font-size: 9px; text-transform: uppercase; color: #6b7280; }
+.num { text-align: right; font-family: Menlo, Consolas, monospace; }
+.oot td { background: #fee2e2; color: #991b1b; font-weight: bold; }
+.kv td:first-child { color: #6b7280; width: 30%; }
+.top { display: flex; justify-content: space-between; align-items: flex-start; }
+.disposition { font-size: 20px; font-weight: 900; padding: 6px 14px; border: 3px solid; text-transform: uppercase; }
+.accept { color: #047857; } .reject { color: #b91c1c; } .mrb { color: #b45309; }
+.grid { display: grid; grid-template-columns: 1fr 1fr; gap: 0 24px; }
+.sign { margin-top: 24px; display: grid; grid-template-columns: 2fr 1fr; gap: 24px; }
+.line { border-top: 1px solid #111827; padding-top: 2px; color: #6b7280; font-size: 9px; text-transform: uppercase; }
+.draft { color: #b91c1c; font-weight: bold; }
+@media print { body { margin: 0; } tr { break-inside: avoid; } @page { margin: 12mm; } }
+`;
+
+const kvTable = (rows: [string, string | number | undefined][]) =>
+  `<table class="kv">${rows.filter(([, v]) => v !== undefined && v !== '').map(([k, v]) => `<tr><td>${escapeHtml(k)}</td><td>${escapeHtml(v)}</td></tr>`).join('')}</table>`;
+
+// Self-contained page: print it from the browser (Save as PDF) or archive it as is
+export const certificateToHtml = (cert: InspectionCertificate): string => {
+  const { verdict, signOff } = cert;
+  const features = cert.features.map(f => `<tr class="${f.outTol === 1 ? 'oot' : ''}">
+<td>${escapeHtml(f.featureId)}</td><td>${escapeHtml(f.axis)}</td><td>${f.sectionType}${f.criticality ? ` · ${f.criticality}` : ''}</td>
+<td class="num">${f.nominal}</td><td class="num">${f.actual}</td><td class="num">${f.deviation > 0 ? '+' : ''}${f.deviation}</td>
+<td class="num">${f.loTol}</td><td class="num">${f.upTol}</td><td>${f.outTol === 1 ? 'OOT' : ''}</td></tr>`).join('');
+  const gdt = (cert.gdt ?? []).map(r => `<tr class="${r.status === 'fail' ? 'oot' : ''}">
+<td>${escapeHtml(r.id)}</td><td>${GDT_TYPES.find(t => t.id === r.type)!.symbol} ${gdtLabel(r)}</td><td>${escapeHtml(r.features.join(', '))}</td>
+<td class="num">${r.status === 'not_measured' ? '—' : r.value.toFixed(3)}</td><td class="num">${r.tolerance}${r.bonus ? ` +${r.bonus.toFixed(3)}` : ''}</td>
+<td class="num">${r.status === 'not_measured' ? '' : `${(utilization(r) * 100).toFixed(0)}%`}</td><td>${gdtStatus(r)}</td></tr>`).join('');
+  const metrics = Object.entries(cert.metrics).map(([k, v]) => `<tr><td>${k}</td><td class="num">${+v.toFixed(4)}</td></tr>`);
+  const half = Math.ceil(metrics.length / 2);
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Inspection Certificate ${escapeHtml(cert.id)}</title><style>${CERTIFICATE_CSS}</style></head>
+<body>
+<div class="top">
+  <div>
+    <h1>Inspection Certificate</h1>
+    <div>${escapeHtml(cert.id)} · issued ${escapeHtml(cert.issuedAt)} · ${escapeHtml(cert.engine)}${signOff ? '' : ' · <span class="draft">DRAFT — NOT SIGNED</span>'}</div>
+  </div>
+  <div class="disposition ${cert.disposition}">${dispositionLabel(cert.disposition)}</div>
+</div>
+
+<div class="grid">
+  <div><h2>Part</h2>${kvTable([...headerRows(cert), ['Source', cert.source], ['Format', cert.format]])}</div>
+  <div><h2>Verdict</h2>${kvTable([
+    ['Label', verdict.label.replace('_', ' ')],
+    ['Confidence', `${verdict.confidence.toFixed(0)}%`],
+    ['Severity', verdict.severity],
+    ['Manual review', verdict.needsReview ? 'Required — top labels too close to call' : undefined],
+    ['Rule set', verdict.ruleSet],
+    ['Suggested disposition', dispositionLabel(cert.suggestedDisposition)],
+    ['Root cause', verdict.rootCause],
+    ['Recommended action', verdict.recommendedAction]
+  ])}</div>
+</div>
+
+<h2>Deviation Profile</h2>
+${deviationChart(cert.features)}
+
+<h2>Features (${cert.features.length}, ${cert.features.filter(f => f.outTol === 1).length} out of tolerance)</h2>
+<table><thead><tr><th>Feature</th><th>Axis</th><th>Section</th><th class="num">Nominal</th><th class="num">Actual</th><th class="num">Deviation</th><th class="num">Lo Tol</th><th class="num">Up Tol</th><th></th></tr></thead>
+<tbody>${features}</tbody></table>
+
+${gdt ? `<h2>GD&amp;T (${cert.gdt!.filter(r => r.status === 'fail').length} of ${cert.gdt!.length} failing)</h2>
+<table><thead><tr><th>Characteristic</th><th>Type</th><th>Features</th><th class="num">Measured</th><th class="num">Tolerance</th><th class="num">Used</th><th></th></tr></thead>
+<tbody>${gdt}</tbody></table>
+` : ''}
+<h2>Engineered Metrics</h2>
+<div class="grid"><table>${metrics.slice(0, half).join('')}</table><table>${metrics.slice(half).join('')}</table></div>
+
+<div class="sign">
+  <div><div>${escapeHtml(signOff?.inspector) || '&nbsp;'}</div><div class="line">Inspector</div>${signOff?.comment ? `<p>${escapeHtml(signOff.comment)}</p>` : ''}</div>
+  <div><div>${escapeHtml(signOff?.signedAt) || '&nbsp;'}</div><div class="line">Signed</div></div>
+</div>
+</body></html>`;
+};
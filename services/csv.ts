@@ -0,0 +1,7 @@
+// --- CSV Export ---
+
+// Quoted only when the cell holds a comma, quote or line break; undefined exports as an empty cell
+export const csvCell = (value: string | number | undefined) => {
+  const s = value === undefined ? '' : String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
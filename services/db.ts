@@ -0,0 +1,121 @@
+// --- Local IndexedDB Store ---
+
+const DB_NAME = 'inspect-os';
+const DB_VERSION = 10;
+
+export const STORES = {
+  inspections: 'inspections',
+  ruleSets: 'ruleSets',
+  feedback: 'feedback',
+  models: 'models',
+  csvMappings: 'csvMappings',
+  featureMaps: 'featureMaps',
+  baselines: 'baselines',
+  shots: 'shots',
+  measurementNoise: 'measurementNoise',
+  ncrs: 'ncrs'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each schema version only adds what it introduced, so existing stations upgrade in place
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const inspections = db.createObjectStore(STORES.inspections, { keyPath: 'id', autoIncrement: true });
+    inspections.createIndex('partId', 'partId');
+    inspections.createIndex('partId_timestamp', ['partId', 'timestamp']);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.ruleSets, { keyPath: ['id', 'version'] });
+  }
+  if (oldVersion < 3) {
+    const feedback = db.createObjectStore(STORES.feedback, { keyPath: 'id', autoIncrement: true });
+    feedback.createIndex('partId', 'partId');
+  }
+  if (oldVersion < 4) {
+    // Out-of-line keys: a single 'active' slot per station
+    db.createObjectStore(STORES.models);
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.csvMappings, { keyPath: 'signature' });
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.featureMaps, { keyPath: 'partId' });
+  }
+  if (oldVersion < 7) {
+    db.createObjectStore(STORES.baselines, { keyPath: 'id' });
+  }
+  if (oldVersion < 8) {
+    db.createObjectStore(STORES.shots, { keyPath: 'key' });
+  }
+  if (oldVersion < 9) {
+    db.createObjectStore(STORES.measurementNoise, { keyPath: 'partId' });
+  }
+  if (oldVersion < 10) {
+    const ncrs = db.createObjectStore(STORES.ncrs, { keyPath: 'id' });
+    ncrs.createIndex('status', 'status');
+  }
+};
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (ev) => upgrade(req.result, ev.oldVersion);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a retry on the next call if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Runs one or more requests in a single transaction and resolves once it has committed.
+// `fn` may issue several requests; the value of the one it returns is resolved.
+export const withStore = async <T>(
+  store: string,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  const tx = db.transaction(store, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const value = await promisify(fn(tx.objectStore(store)));
+  await done;
+  return value;
+};
+
+// Visits every cursor position in a single transaction; `visit` may update or delete the current record
+export const eachCursor = async <C extends IDBCursor>(
+  store: string,
+  mode: IDBTransactionMode,
+  open: (s: IDBObjectStore) => IDBRequest<C | null>,
+  visit: (cursor: C) => void
+): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(store, mode);
+  await new Promise<void>((resolve, reject) => {
+    const req = open(tx.objectStore(store));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      visit(cursor);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
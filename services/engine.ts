@@ -0,0 +1,215 @@
+import type { CMMFeature, EngineeredMetrics, GdtResult, LabelVote, MeasurementNoise, MLResponse, ProcessParameters } from '../types';
+import { DEFAULT_RULE_SET, assessMargin, clampConfidence, resolveLabel, ruleSetRef, scoreDistribution, type RuleSet } from './ruleEngine';
+import { argmax, combine, predictProba, type SoftmaxModel } from './statModel';
+import { detectFindings, type MetricsFn } from './findings';
+import { describeExcursion, processExcursions } from './processCorrelation';
+import { alignFeatures, bestFit } from './alignment';
+import { utilization } from './gdt';
+import { noiseVariance } from './gageRR';
+
+/**
+ * NON-VISUAL MACHINE LEARNING (NVML) CLASSIFIER ENGINE v6.0
+ * Logic-based deduction engine for Die-Casting Defect Detection.
+ * 
+ * CORE MORPHOLOGICAL SIGNATURES (REFINED):
+ * - Shrinkage Porosity: Thickness Ratio >= 1.6 + a best fit explaining < 80% of the error + Systematic Negative
+ *   Thick Dev. (Heavily penalizes Offset).
+ * - Gas Porosity: High Scatter (StdDev > 0.15) + Low Directional Bias (< 0.75).
+ * - Cold Shut: Significant Angular/Structural Devs + Ratio < 1.2 + 0 OOT (Tolerances are loose, but error is real).
+ * - Feature Offset: A rigid best fit of the point/circle features explains > 80% of their error with a shift of at
+ *   least half the tolerance. Reports with too few points to fit fall back to Directionality (> 0.88) + Ratio near 1.0.
+ *
+ * The exact thresholds and weights are data: see DEFAULT_RULE_SET in services/ruleEngine.ts,
+ * overridable per part family from the Rules view.
+ */
+
+// Recorded with regression snapshots; bump when classify or calculateMetrics changes behaviour
+export const ENGINE_VERSION = 'MORPHOLOGICAL_v6';
+
+// --- Local ML Inference Logic ---
+
+export const LocalInferenceEngine = {
+  // Thresholds, weights and severity gates come from the rule set selected for the part family.
+  // A trained model, when loaded, always votes alongside; its ensemble policy decides who has the final say.
+  // Confidence is the winner's share of a normalized distribution, so near-ties surface as low margins.
+  // Shot parameters, when known, let the recommended action name the setting that was out of window.
+  // Findings re-engineer subsets of the features with `metricsOf`, which must see the same GD&T and gage noise as `metrics`.
+  classify: (partId: string, features: CMMFeature[], metrics: EngineeredMetrics, ruleSet: RuleSet = DEFAULT_RULE_SET, model: SoftmaxModel | null = null, process?: ProcessParameters, metricsOf: MetricsFn = calculateMetrics): MLResponse => {
+    const { scores, severity, trace } = resolveLabel(ruleSet, metrics);
+    const pRules = scoreDistribution(ruleSet, scores);
+    const ruleLabel = argmax(pRules);
+    const ruleVote = { label: ruleLabel, confidence: clampConfidence(ruleSet, pRules[ruleLabel] * 100) };
+
+    let dist = pRules;
+    let modelVote: LabelVote | undefined;
+    if (model) {
+      const pModel = predictProba(model, metrics);
+      const modelLabel = argmax(pModel);
+      modelVote = { label: modelLabel, confidence: pModel[modelLabel] * 100 };
+      if (model.ensemble.mode === 'model') dist = pModel;
+      else if (model.ensemble.mode === 'ensemble') dist = combine(pRules, pModel, model.ensemble.weight);
+    }
+
+    const { ranked, margin, uncertain } = assessMargin(ruleSet, dist);
+    const winnerLabel = ranked[0].label;
+    const reasoning = LocalInferenceEngine.generateReasoning(winnerLabel, metrics);
+    const excursions = processExcursions(ruleSet.processWindows, winnerLabel, process);
+    if (excursions.length) reasoning.action = `Shot data: ${excursions.map(describeExcursion).join('; ')}. ${reasoning.action}`;
+    const runnerUp = ranked[1];
+
+    return {
+      Part_ID: partId,
+      Label: winnerLabel,
+      Confidence: clampConfidence(ruleSet, ranked[0].probability * 100),
+      Severity: severity,
+      Root_Cause: reasoning.root_cause,
+      Recommended_Action: uncertain
+        ? `Route to manual review: ${winnerLabel} (${(ranked[0].probability * 100).toFixed(0)}%) and ${runnerUp.label} (${(runnerUp.probability * 100).toFixed(0)}%) are too close to call. Provisional action: ${reasoning.action}`
+        : reasoning.action,
+      Rule_Set: ruleSetRef(ruleSet),
+      Decision_Source: model ? model.ensemble.mode : 'rules',
+      Votes: { rules: ruleVote, model: modelVote },
+      Probabilities: dist,
+      Margin: margin,
+      Needs_Review: uncertain,
+      Trace: trace,
+      Findings: features.length ? detectFindings(ruleSet, features, metricsOf) : [],
+      ...(excursions.length ? { Process_Excursions: excursions } : {})
+    };
+  },
+
+  generateReasoning: (label: MLResponse['Label'], metrics: EngineeredMetrics) => {
+    switch(label) {
+      case 'Feature_Offset':
+        return {
+          root_cause: metrics.fit_points >= 3
+            ? `Rigid best fit of ${metrics.fit_points} positional features explains ${(metrics.fit_explained * 100).toFixed(0)}% of their deviation with a ${metrics.datum_shift.toFixed(3)}mm shift${metrics.datum_rotation > 0 ? ` and ${metrics.datum_rotation.toFixed(3)}° rotation` : ''}; ${metrics.residual_oot_count} feature(s) remain out of tolerance after alignment. The part is displaced, not deformed: a global datum shift.`
+            : `Detected uniform translation signature (Ratio: ${metrics.thickness_ratio.toFixed(2)}). High unidirectional bias (${(metrics.directionality * 100).toFixed(0)}%) across all sections with OOT failures suggests a global datum shift.`,
+          action: "Re-zero CMM and inspect locator pin alignment. Verify fixture clamping consistency."
+        };
+      case 'Shrinkage_Porosity':
+        return {
+          root_cause: `Observed high sectional thickness ratio (${metrics.thickness_ratio.toFixed(2)}). Heavy sections exhibit significant contraction (${metrics.thick_mean_dev.toFixed(3)}mm) while thin sections remain relatively stable. Thermal contraction confirmed.`,
+          action: "Increase Phase 3 intensification pressure. Audit cooling line efficiency in heavy die sections."
+        };
+      case 'Gas_Porosity':
+        return {
+          root_cause: `High dimensional scatter (StdDev: ${metrics.std_dev.toFixed(3)}mm) with low directional bias. Geometric turbulence detected, indicative of internal gas entrapment.`,
+          action: "Inspect and clean vacuum vents. Optimize shot velocity to minimize air entrapment."
+        };
+      case 'Cold_Shut':
+        return {
+          root_cause: `Significant deviations detected in angular or structural features (Max Angular Dev: ${metrics.max_angular_dev.toFixed(3)}) while heavy sections remain accurate. Characteristic of stream fusion failure at joining fronts.`,
+          action: "Increase die and furnace temperatures. Inspect flow fronts for premature solidification."
+        };
+      case 'Other_Defect':
+        return {
+          root_cause: `Gross deviation confined to ${metrics.oot_count} feature(s) while the rest of the part stays nominal (StdDev ${metrics.std_dev.toFixed(3)}mm against a mean error of ${metrics.abs_mean_dev.toFixed(3)}mm). Local damage rather than a process-wide defect.`,
+          action: "Inspect the flagged features for flash, handling damage or a worn die insert."
+        };
+      case 'Good':
+        return {
+          root_cause: "Dimensions are nominal-centric with negligible scatter. Zero OOT flags.",
+          action: "Maintain standard process parameters."
+        };
+      default:
+        return {
+          root_cause: "Morphological signature does not match standard defect vectors.",
+          action: "Manual review and full 3D scan required."
+        };
+    }
+  }
+};
+
+// --- Helper Functions ---
+
+// `gdt` is the report's evaluated GD&T characteristics (services/gdt.ts); without it the GD&T metrics are 0.
+// `noise` is the part's Gage R&R profile (services/gageRR.ts): its variance is a floor the scatter must clear
+export const calculateMetrics = (features: CMMFeature[], gdt: GdtResult[] = [], noise: MeasurementNoise | null = null): EngineeredMetrics => {
+  const devs = features.map(f => f.deviation || 0);
+  const n = devs.length || 1;
+  const mean_deviation = devs.reduce((a, b) => a + b, 0) / n;
+  const gageVariance = noiseVariance(noise, features);
+  const std_dev = Math.sqrt(Math.max(0, devs.map(x => Math.pow(x - mean_deviation, 2)).reduce((a, b) => a + b, 0) / n - gageVariance));
+  
+  const thickFeatures = features.filter(f => f.sectionType === 'thick');
+  const thinFeatures = features.filter(f => f.sectionType === 'thin' || f.sectionType === 'structural');
+  const angularFeatures = features.filter(f => f.sectionType === 'angular');
+  
+  const thickAbsMean = thickFeatures.length ? thickFeatures.reduce((a, b) => a + Math.abs(b.deviation), 0) / thickFeatures.length : 0;
+  const thinAbsMean = thinFeatures.length ? thinFeatures.reduce((a, b) => a + Math.abs(b.deviation), 0) / thinFeatures.length : 0;
+  const angAbsMean = angularFeatures.length ? angularFeatures.reduce((a, b) => a + Math.abs(b.deviation), 0) / angularFeatures.length : 0;
+  
+  const thickMeanDev = thickFeatures.length ? thickFeatures.reduce((a, b) => a + b.deviation, 0) / thickFeatures.length : 0;
+  const thinMeanDev = thinFeatures.length ? thinFeatures.reduce((a, b) => a + b.deviation, 0) / thinFeatures.length : 0;
+
+  // Comparison of heavy vs light/structural area errors
+  const thickness_ratio = (thinAbsMean + angAbsMean) < 0.05 ? (thickAbsMean / 0.05) : (thickAbsMean / ((thinAbsMean + angAbsMean) / ( (thinFeatures.length > 0 ? 1:0) + (angularFeatures.length > 0 ? 1:0) )));
+  
+  const oot_count = features.filter(f => f.outTol === 1).length;
+  const positiveCount = devs.filter(d => d > 0).length;
+  const negativeCount = devs.filter(d => d < 0).length;
+  const directionality = Math.max(positiveCount, negativeCount) / n;
+
+  // Feature-map metrics: OOT on critical characteristics, whether error grows with wall thickness
+  // (shrinkage in heavy sections), and how much of the OOT sits in a single die zone
+  const ootFeatures = features.filter(f => f.outTol === 1);
+  const ctq_oot_count = ootFeatures.filter(f => f.criticality).length;
+
+  const walled = features.filter(f => f.wallThickness !== undefined);
+  let thickness_dev_corr = 0;
+  if (walled.length >= 3) {
+    const xs = walled.map(f => f.wallThickness!);
+    const ys = walled.map(f => Math.abs(f.deviation));
+    const mx = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const my = ys.reduce((a, b) => a + b, 0) / ys.length;
+    const cov = xs.reduce((a, x, i) => a + (x - mx) * (ys[i] - my), 0);
+    const vx = xs.reduce((a, x) => a + (x - mx) ** 2, 0);
+    const vy = ys.reduce((a, y) => a + (y - my) ** 2, 0);
+    thickness_dev_corr = vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : 0;
+  }
+
+  const zoneCounts = new Map<string, number>();
+  ootFeatures.forEach(f => { if (f.dieZone) zoneCounts.set(f.dieZone, (zoneCounts.get(f.dieZone) || 0) + 1); });
+  const zone_oot_concentration = zoneCounts.size ? Math.max(...zoneCounts.values()) / ootFeatures.length : 0;
+
+  // Datum shift from geometry rather than sign counts: what a rigid best fit explains, and what it leaves
+  const fit = bestFit(features);
+  const alignedFeatures = alignFeatures(features, fit);
+  const aligned = alignedFeatures.map(f => f.deviation || 0);
+  const alignedMean = aligned.reduce((a, b) => a + b, 0) / n;
+
+  const measured = gdt.filter(r => r.status !== 'not_measured');
+  const worst = (results: GdtResult[]) => results.reduce((max, r) => Math.max(max, utilization(r)), 0);
+
+  return { 
+    thickness_ratio, 
+    std_dev, 
+    oot_count, 
+    oot_ratio: oot_count / n, 
+    mean_deviation, 
+    directionality, 
+    thick_mean_dev: thickMeanDev,
+    thin_mean_dev: thinMeanDev,
+    angular_mean_abs_dev: angAbsMean,
+    abs_mean_dev: features.reduce((a, b) => a + Math.abs(b.deviation), 0) / n,
+    max_angular_dev: angularFeatures.length ? Math.max(...angularFeatures.map(f => Math.abs(f.deviation))) : 0,
+    thick_count: thickFeatures.length,
+    thin_count: thinFeatures.length,
+    ctq_oot_count,
+    thickness_dev_corr,
+    zone_oot_concentration,
+    fit_points: fit?.points ?? 0,
+    datum_shift: fit?.shift ?? 0,
+    datum_shift_ratio: fit && fit.tolerance > 0 ? fit.shift / fit.tolerance : 0,
+    datum_rotation: fit?.rotationDeg ?? 0,
+    fit_explained: fit?.explained ?? 0,
+    residual_std_dev: Math.sqrt(Math.max(0, aligned.reduce((a, x) => a + (x - alignedMean) ** 2, 0) / n - gageVariance)),
+    residual_oot_count: alignedFeatures.filter(f => f.outTol === 1).length,
+    gdt_count: measured.length,
+    gdt_fail_count: measured.filter(r => r.status === 'fail').length,
+    position_utilization: worst(measured.filter(r => r.type === 'position')),
+    form_utilization: worst(measured.filter(r => r.type !== 'position')),
+    gage_noise: Math.sqrt(gageVariance)
+  };
+};
@@ -0,0 +1,15 @@
+import type { CMMFeature } from '../types';
+
+/**
+ * FEATURE IDENTITY
+ * A report has one row per measured axis. `featureKey` names the row, `baseId` the feature it belongs to:
+ * POINT1_X and POINT1_Y are two rows of POINT1, which is what GD&T, the best fit and the findings group on.
+ */
+
+export const featureKey = (f: Pick<CMMFeature, 'featureId' | 'axis'>) => `${f.featureId}|${f.axis}`;
+
+// Axes come from the report as written, so the suffix is compared as text rather than as a pattern
+export const baseId = (f: Pick<CMMFeature, 'featureId' | 'axis'>) => {
+  const suffix = `_${f.axis}`;
+  return f.featureId.toUpperCase().endsWith(suffix.toUpperCase()) ? f.featureId.slice(0, -suffix.length) : f.featureId;
+};
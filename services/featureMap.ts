@@ -0,0 +1,191 @@
+import type { CMMFeature, Criticality, FeatureMap, FeatureMapEntry } from '../types';
+import { globToRegExp } from './ruleEngine';
+import { validateCharacteristics } from './gdt';
+import { detectDelimiter, lines, parseNumber, splitDelimited } from './importers/common';
+import { csvCell } from './csv';
+
+/**
+ * PART FEATURE MAPS
+ * A feature map tells the engine what each measured feature of a part number is: its section type,
+ * wall thickness, criticality class and die zone. Features the map does not cover keep the section
+ * type the importer derived from naming conventions. The map also carries the part's GD&T callouts
+ * (services/gdt.ts), which are checked against the grouped rows of every report.
+ */
+
+// --- Constants ---
+
+export const SECTION_TYPES: CMMFeature['sectionType'][] = ['thick', 'thin', 'structural', 'angular'];
+export const CRITICALITIES: Criticality[] = ['CTQ', 'KC'];
+export const DEFAULT_WALL_BANDS = { thin: 2.5, thick: 6 };
+
+// The A3188 program's heavy bosses and thin ribs, which its feature names do not always spell out
+export const DEFAULT_FEATURE_MAPS: FeatureMap[] = [
+  {
+    partId: 'A3188-337-00',
+    description: 'Built-in section assignments for the A3188 housing.',
+    entries: [
+      { featureId: '*CIRCLE9*', sectionType: 'thick' },
+      { featureId: '*CIRCLE21*', sectionType: 'thick' },
+      { featureId: '*POINT62*', sectionType: 'thin' },
+      { featureId: '*POINT67*', sectionType: 'thin' },
+      { featureId: '*POINT68*', sectionType: 'thin' }
+    ],
+    characteristics: [
+      { id: 'POS-CIRCLE9', type: 'position', features: 'CIRCLE9_THICK', tolerance: 0.3, datum: 'A|B|C' },
+      { id: 'PROFILE-RIB', type: 'profile', features: 'POINT6*_THIN', tolerance: 0.2, datum: 'A|B' }
+    ]
+  }
+];
+
+// --- Resolution ---
+
+// A stored map replaces the built-in one for the same part number
+export const selectFeatureMap = (maps: FeatureMap[], partId: string): FeatureMap | undefined => {
+  const key = partId.trim().toUpperCase();
+  return maps.find(m => m.partId.toUpperCase() === key) || DEFAULT_FEATURE_MAPS.find(m => m.partId.toUpperCase() === key);
+};
+
+// Exact ids beat patterns and axis-specific entries beat all-axis ones; list order breaks remaining ties
+export const matchEntry = (map: FeatureMap, feature: Pick<CMMFeature, 'featureId' | 'axis'>): FeatureMapEntry | undefined => {
+  let best: FeatureMapEntry | undefined;
+  let bestScore = -1;
+  map.entries.forEach(entry => {
+    if (entry.axis && entry.axis.toUpperCase() !== feature.axis.toUpperCase()) return;
+    const exact = !entry.featureId.includes('*');
+    if (exact ? entry.featureId.toUpperCase() !== feature.featureId.toUpperCase() : !globToRegExp(entry.featureId).test(feature.featureId)) return;
+    const score = (exact ? 2 : 0) + (entry.axis ? 1 : 0);
+    if (score > bestScore) { best = entry; bestScore = score; }
+  });
+  return best;
+};
+
+const sectionFromWall = (wall: number | undefined, bands = DEFAULT_WALL_BANDS): CMMFeature['sectionType'] | undefined => {
+  if (wall === undefined) return undefined;
+  if (wall <= bands.thin) return 'thin';
+  if (wall >= bands.thick) return 'thick';
+  return 'structural';
+};
+
+export const applyFeatureMap = (features: CMMFeature[], map: FeatureMap | undefined): CMMFeature[] => {
+  if (!map) return features;
+  return features.map(f => {
+    const entry = matchEntry(map, f);
+    if (!entry) return f;
+    const mapped: CMMFeature = { ...f, sectionType: entry.sectionType ?? sectionFromWall(entry.wallThickness, map.wallBands) ?? f.sectionType };
+    if (entry.wallThickness !== undefined) mapped.wallThickness = entry.wallThickness;
+    if (entry.criticality) mapped.criticality = entry.criticality;
+    if (entry.dieZone) mapped.dieZone = entry.dieZone;
+    return mapped;
+  });
+};
+
+// Distinct feature/axis pairs the map does not cover, in report order
+export const unmappedFeatures = (features: CMMFeature[], map: FeatureMap | undefined) => {
+  const seen = new Set<string>();
+  return features.filter(f => {
+    const key = `${f.featureId}|${f.axis}`;
+    if (seen.has(key) || (map && matchEntry(map, f))) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// --- Validation ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const validateFeatureMap = (input: unknown): { featureMap: FeatureMap | null, errors: string[] } => {
+  const errors: string[] = [];
+  if (!isObject(input)) return { featureMap: null, errors: ['Feature map must be a JSON object'] };
+
+  if (typeof input.partId !== 'string' || !input.partId.trim()) errors.push('partId: required');
+  if (input.description !== undefined && typeof input.description !== 'string') errors.push('description: must be a string');
+  if (input.wallBands !== undefined) {
+    const b = input.wallBands;
+    if (!isObject(b) || typeof b.thin !== 'number' || typeof b.thick !== 'number' || !(b.thin > 0) || !(b.thick > b.thin)) {
+      errors.push('wallBands: { thin, thick } in mm with 0 < thin < thick');
+    }
+  }
+  if (!Array.isArray(input.entries)) errors.push('entries: array required');
+  else input.entries.forEach((e, i) => {
+    const p = `entries[${i}]`;
+    if (!isObject(e)) { errors.push(`${p}: entry must be an object`); return; }
+    if (typeof e.featureId !== 'string' || !e.featureId.trim()) errors.push(`${p}: featureId required`);
+    if (e.axis !== undefined && (typeof e.axis !== 'string' || !e.axis.trim())) errors.push(`${p}.axis: must be a non-empty string`);
+    if (e.sectionType !== undefined && !SECTION_TYPES.includes(e.sectionType as CMMFeature['sectionType'])) errors.push(`${p}.sectionType: one of ${SECTION_TYPES.join(', ')}`);
+    if (e.wallThickness !== undefined && (typeof e.wallThickness !== 'number' || !(e.wallThickness > 0))) errors.push(`${p}.wallThickness: positive number in mm`);
+    if (e.criticality !== undefined && !CRITICALITIES.includes(e.criticality as Criticality)) errors.push(`${p}.criticality: one of ${CRITICALITIES.join(', ')}`);
+    if (e.dieZone !== undefined && typeof e.dieZone !== 'string') errors.push(`${p}.dieZone: must be a string`);
+    if (e.sectionType === undefined && e.wallThickness === undefined && e.criticality === undefined && e.dieZone === undefined) {
+      errors.push(`${p}: assigns nothing (set a section type, wall thickness, criticality or die zone)`);
+    }
+  });
+
+  if (input.characteristics !== undefined) errors.push(...validateCharacteristics(input.characteristics));
+
+  return errors.length ? { featureMap: null, errors } : { featureMap: input as unknown as FeatureMap, errors };
+};
+
+// --- CSV / JSON Exchange ---
+
+// GD&T characteristics travel in JSON only; the CSV holds one row per section entry
+
+const CSV_COLUMNS: Record<keyof FeatureMapEntry, string[]> = {
+  featureId: ['featureid', 'feature', 'feature id', 'name'],
+  axis: ['axis', 'ax'],
+  sectionType: ['sectiontype', 'section type', 'section'],
+  wallThickness: ['wallthickness', 'wall thickness', 'wall', 'wall mm', 'thickness'],
+  criticality: ['criticality', 'class', 'ctq/kc'],
+  dieZone: ['diezone', 'die zone', 'zone']
+};
+
+const csvEntries = (text: string): { entries: unknown[], errors: string[] } => {
+  const rows = lines(text).filter(l => l.trim());
+  if (rows.length === 0) return { entries: [], errors: ['CSV is empty'] };
+  const delimiter = detectDelimiter(rows[0]);
+  const headers = splitDelimited(rows[0], delimiter).map(h => h.toLowerCase().replace(/[_.]+/g, ' ').trim());
+  const col = (field: keyof FeatureMapEntry) => headers.findIndex(h => CSV_COLUMNS[field].includes(h));
+  if (col('featureId') < 0) return { entries: [], errors: ['CSV needs a featureId column'] };
+
+  const errors: string[] = [];
+  const entries = rows.slice(1).map((row, i) => {
+    const cells = splitDelimited(row, delimiter);
+    const cell = (field: keyof FeatureMapEntry) => { const c = col(field); return c >= 0 && cells[c] ? cells[c] : undefined; };
+    const entry: Record<string, unknown> = { featureId: cell('featureId') };
+    if (cell('axis')) entry.axis = cell('axis')!.toUpperCase();
+    if (cell('sectionType')) entry.sectionType = cell('sectionType')!.toLowerCase();
+    if (cell('wallThickness')) {
+      entry.wallThickness = parseNumber(cell('wallThickness'));
+      if (entry.wallThickness === undefined) errors.push(`line ${i + 2}: wall thickness '${cell('wallThickness')}' is not a number`);
+    }
+    if (cell('criticality')) entry.criticality = cell('criticality')!.toUpperCase();
+    if (cell('dieZone')) entry.dieZone = cell('dieZone');
+    return entry;
+  });
+  return { entries, errors };
+};
+
+/**
+ * Reads a feature map from JSON (a full map, or a bare array of entries) or CSV with one row per entry.
+ * `partId` fills in the part number when the file does not carry one.
+ */
+export const parseFeatureMap = (text: string, partId: string): { featureMap: FeatureMap | null, errors: string[] } => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const json = JSON.parse(trimmed);
+      return validateFeatureMap(Array.isArray(json) ? { partId, entries: json } : { partId, ...json });
+    } catch (err) {
+      return { featureMap: null, errors: [`JSON syntax: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+  }
+  const { entries, errors } = csvEntries(text);
+  if (errors.length) return { featureMap: null, errors };
+  return validateFeatureMap({ partId, entries });
+};
+
+export const featureMapToCsv = (map: FeatureMap): string =>
+  [
+    'featureId,axis,sectionType,wallThickness,criticality,dieZone',
+    ...map.entries.map(e => [e.featureId, e.axis, e.sectionType, e.wallThickness, e.criticality, e.dieZone].map(csvCell).join(','))
+  ].join('\n');
@@ -0,0 +1,15 @@
+import type { FeatureMap } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Part Feature Maps (one per part number) ---
+
+export const FeatureMapStore = {
+  listAll: (): Promise<FeatureMap[]> =>
+    withStore(STORES.featureMaps, 'readonly', store => store.getAll() as IDBRequest<FeatureMap[]>),
+
+  save: (map: FeatureMap): Promise<IDBValidKey> =>
+    withStore(STORES.featureMaps, 'readwrite', store => store.put({ ...map, updatedAt: Date.now() })),
+
+  remove: (partId: string): Promise<undefined> =>
+    withStore(STORES.featureMaps, 'readwrite', store => store.delete(partId))
+};
@@ -0,0 +1,22 @@
+import type { FeedbackRecord } from '../types';
+import type { LabeledSample } from './calibration';
+import { calculateMetrics } from './engine';
+import { STORES, withStore } from './db';
+
+// --- Ground-Truth Feedback ---
+
+export const FeedbackStore = {
+  add: (record: Omit<FeedbackRecord, 'id' | 'timestamp'>): Promise<IDBValidKey> =>
+    withStore(STORES.feedback, 'readwrite', store => store.add({ ...record, timestamp: Date.now() })),
+
+  listAll: (): Promise<FeedbackRecord[]> =>
+    withStore(STORES.feedback, 'readonly', store => store.getAll() as IDBRequest<FeedbackRecord[]>),
+
+  remove: (id: number): Promise<undefined> =>
+    withStore(STORES.feedback, 'readwrite', store => store.delete(id))
+};
+
+// Records keep the metrics they were saved with; metrics added to the engine since then are computed
+// from the stored features, so older records are not scored on missing (undefined) values
+export const feedbackSamples = (records: FeedbackRecord[]): LabeledSample[] =>
+  records.map(r => ({ metrics: { ...calculateMetrics(r.features), ...r.metrics }, label: r.corrected, partId: r.partId }));
@@ -0,0 +1,91 @@
+import type { CMMFeature, EngineeredMetrics, Finding } from '../types';
+import { clampConfidence, resolveLabel, scoreDistribution, scoreMetrics, type Label, type RuleSet } from './ruleEngine';
+import { baseId, featureKey } from './featureIds';
+
+/**
+ * MULTI-LABEL FINDINGS
+ * The global metrics vector only ever yields one winner, so co-occurring defects are peeled off one at a
+ * time: classify the remaining features, find the smallest set of feature regions whose removal makes
+ * that label lose, set them aside and re-run the signatures on what is left. Each set-aside group is then
+ * classified again against the healthy remainder alone.
+ * A region is every row of one feature, POINT1_X and POINT1_Y alike (all axes of a circle or boss move together).
+ */
+
+// Metrics of a subset of the part's rows, engineered the same way as the whole part's
+export type MetricsFn = (features: CMMFeature[]) => EngineeredMetrics;
+
+// Upper bound on findings per part; also guards the loop against rule sets that never settle on Good
+const MAX_FINDINGS = 4;
+
+const groupRegions = (features: CMMFeature[]) => {
+  const regions = new Map<string, CMMFeature[]>();
+  features.forEach(f => {
+    const id = baseId(f).toUpperCase();
+    regions.set(id, [...(regions.get(id) || []), f]);
+  });
+  return Array.from(regions.values());
+};
+
+// Deviation as a fraction of the tolerance half-band, averaged over the region
+const regionEvidence = (region: CMMFeature[]) =>
+  region.reduce((a, f) => a + Math.abs(f.deviation) / (Math.max(Math.abs(f.upTol), Math.abs(f.loTol)) || 0.1), 0) / region.length;
+
+const labelOf = (ruleSet: RuleSet, features: CMMFeature[], metricsOf: MetricsFn) =>
+  resolveLabel(ruleSet, metricsOf(features)).label;
+
+/**
+ * Smallest set of regions that carries `label`: remove regions strongest-first until the label loses,
+ * then put back any region that is not needed for the flip (backward elimination).
+ */
+const localize = (ruleSet: RuleSet, label: Label, regions: CMMFeature[][], metricsOf: MetricsFn) => {
+  const order = [...regions].sort((a, b) => regionEvidence(b) - regionEvidence(a));
+  const removed: CMMFeature[][] = [];
+  const without = (out: CMMFeature[][]) => regions.filter(r => !out.includes(r)).flat();
+
+  for (const region of order) {
+    removed.push(region);
+    if (labelOf(ruleSet, without(removed), metricsOf) !== label) break;
+  }
+  for (const region of [...removed].reverse()) {
+    if (removed.length === 1) break;
+    const trial = removed.filter(r => r !== region);
+    if (labelOf(ruleSet, without(trial), metricsOf) !== label) removed.splice(removed.indexOf(region), 1);
+  }
+  return removed;
+};
+
+export const detectFindings = (ruleSet: RuleSet, features: CMMFeature[], metricsOf: MetricsFn): Finding[] => {
+  // Pass 1: partition the part into driver groups and a healthy residual
+  const groups: CMMFeature[][] = [];
+  let regions = groupRegions(features);
+  while (regions.length > 0 && groups.length < MAX_FINDINGS) {
+    const label = labelOf(ruleSet, regions.flat(), metricsOf);
+    if (label === 'Good') break;
+    const drivers = localize(ruleSet, label, regions, metricsOf);
+    groups.push(drivers.flat());
+    regions = regions.filter(r => !drivers.includes(r));
+  }
+  const healthy = regions.flat();
+
+  // Pass 2: judge each group against the healthy reference only, so one defect does not mask another
+  const findings: Finding[] = [];
+  groups.forEach(group => {
+    const { label, scores } = resolveLabel(ruleSet, metricsOf([...group, ...healthy]));
+    if (label === 'Good') return;
+    const confidence = clampConfidence(ruleSet, scoreDistribution(ruleSet, scores)[label] * 100);
+    // The same signature in two areas is one defect mode spread over more features
+    const existing = findings.find(f => f.Label === label);
+    const prior = existing ? features.filter(f => existing.Features.some(d => featureKey(d) === featureKey(f))) : [];
+    const own = [...prior, ...group];
+    const finding: Finding = {
+      Label: label,
+      Confidence: existing ? Math.max(existing.Confidence, confidence) : confidence,
+      // Severity gates read the finding's own features, so a minor cold shut is not rated by a critical shrink
+      Severity: scoreMetrics(ruleSet, metricsOf(own)).severity,
+      Features: own.map(f => ({ featureId: f.featureId, axis: f.axis }))
+    };
+    if (existing) findings.splice(findings.indexOf(existing), 1, finding);
+    else findings.push(finding);
+  });
+  return findings;
+};
@@ -0,0 +1,275 @@
+import type { CMMFeature, MeasurementNoise, ParsedReport } from '../types';
+import { featureKey } from './featureIds';
+
+/**
+ * GAGE R&R (MEASUREMENT SYSTEM ANALYSIS)
+ * Crossed study, ANOVA method as in the AIAG MSA manual: the same parts measured several times by several
+ * appraisers (operators, or fixtures and machines), every feature analysed on its own. The variance of the
+ * measurements splits into part-to-part variation, repeatability (the CMM measuring the same part again) and
+ * reproducibility (the appraiser, and the appraiser-by-part interaction). %GRR compares 6σ of the gage with the
+ * tolerance width; ndc is how many distinct part categories the gage can tell apart.
+ *
+ * The study's gage standard deviations become the part's measurement noise profile, which calculateMetrics
+ * takes out of the scatter metrics so CMM noise is not read as a defect.
+ */
+
+// Report header field that identifies the appraiser
+export type AppraiserField = 'operator' | 'machine';
+
+export const APPRAISER_FIELDS: { id: AppraiserField, label: string }[] = [
+  { id: 'operator', label: 'Operator' },
+  { id: 'machine', label: 'Machine / fixture' }
+];
+
+export interface GageObservation {
+  source: string;
+  part: string;
+  appraiser: string;
+  features: CMMFeature[];
+}
+
+export interface AnovaRow {
+  source: 'Part' | 'Appraiser' | 'Part × Appraiser' | 'Repeatability';
+  df: number;
+  ss: number;
+  ms: number;
+  f?: number;
+  p?: number;
+}
+
+export type GageVerdict = 'acceptable' | 'marginal' | 'unacceptable';
+
+export interface FeatureGageResult {
+  featureId: string;
+  axis: string;
+  tolerance: number;
+  // Standard deviations in mm
+  repeatability: number;
+  reproducibility: number;
+  interaction: number;
+  grr: number;
+  partVariation: number;
+  totalVariation: number;
+  // 6σ of the gage over the tolerance width, and σ of the gage over the total σ, in percent
+  pctTolerance: number;
+  pctStudyVariation: number;
+  // Number of distinct categories; Infinity when the gage shows no variation at all
+  ndc: number;
+  // Interaction not significant (p > 0.25) and pooled into repeatability
+  interactionPooled: boolean;
+  verdict: GageVerdict;
+  anova: AnovaRow[];
+}
+
+export interface GageStudy {
+  partId: string;
+  appraiserField: AppraiserField;
+  parts: string[];
+  appraisers: string[];
+  trials: number;
+  reports: number;
+  features: FeatureGageResult[];
+  // Features left out because some reports did not measure them
+  skipped: string[];
+}
+
+// --- Constants ---
+
+export const MIN_PARTS = 2;
+export const MIN_APPRAISERS = 2;
+export const MIN_TRIALS = 2;
+// Interaction terms above this p-value are pooled into the error term
+export const INTERACTION_ALPHA = 0.25;
+// AIAG %GRR acceptance bands
+export const GRR_LIMITS = { acceptable: 10, marginal: 30 };
+export const MIN_NDC = 5;
+
+// --- Observations ---
+
+// The part is the report's serial number; the appraiser its operator or machine
+export const observationFromReport = (report: ParsedReport, source: string, appraiserField: AppraiserField): { observation: GageObservation | null, error?: string } => {
+  const part = report.header.serial?.trim();
+  const appraiser = report.header[appraiserField]?.trim();
+  if (!report.features.length) return { observation: null, error: `${source}: no measurement rows` };
+  if (!part) return { observation: null, error: `${source}: no serial number to identify the part` };
+  if (!appraiser) return { observation: null, error: `${source}: no ${appraiserField} in the report header` };
+  return { observation: { source, part, appraiser, features: report.features } };
+};
+
+// --- F Distribution ---
+
+// Lanczos approximation
+const logGamma = (x: number): number => {
+  const g = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  const ser = g.reduce((s, c) => s + c / ++y, 1.000000000190015);
+  return -tmp + Math.log(2.5066282746310005 * ser / x);
+};
+
+// Continued fraction of the incomplete beta function (modified Lentz)
+const betaFraction = (a: number, b: number, x: number) => {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < TINY ? TINY : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const num of [m * (b - m) * x / ((a + m2 - 1) * (a + m2)), -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))]) {
+      d = 1 + num * d;
+      d = 1 / (Math.abs(d) < TINY ? TINY : d);
+      c = 1 + num / c;
+      if (Math.abs(c) < TINY) c = TINY;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+const incompleteBeta = (a: number, b: number, x: number) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? front * betaFraction(a, b, x) / a : 1 - front * betaFraction(b, a, 1 - x) / b;
+};
+
+// Upper tail P(F > f) with (d1, d2) degrees of freedom
+export const fTestP = (f: number, d1: number, d2: number) =>
+  !Number.isFinite(f) ? 0 : f <= 0 ? 1 : 1 - incompleteBeta(d1 / 2, d2 / 2, d1 * f / (d1 * f + d2));
+
+// --- ANOVA ---
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// y[part][appraiser][trial], balanced
+const analyzeFeature = (featureId: string, axis: string, tolerance: number, y: number[][][]): FeatureGageResult => {
+  const p = y.length, o = y[0].length, r = y[0][0].length;
+  const grand = mean(y.flat(2));
+  const partMeans = y.map(byPart => mean(byPart.flat()));
+  const appraiserMeans = Array.from({ length: o }, (_, j) => mean(y.flatMap(byPart => byPart[j])));
+  const cellMeans = y.map(byPart => byPart.map(mean));
+
+  const ssPart = o * r * partMeans.reduce((s, m) => s + (m - grand) ** 2, 0);
+  const ssAppraiser = p * r * appraiserMeans.reduce((s, m) => s + (m - grand) ** 2, 0);
+  const ssInteraction = r * cellMeans.reduce((s, row, i) => s + row.reduce((t, m, j) => t + (m - partMeans[i] - appraiserMeans[j] + grand) ** 2, 0), 0);
+  const ssError = y.reduce((s, byPart, i) => s + byPart.reduce((t, trials, j) => t + trials.reduce((u, v) => u + (v - cellMeans[i][j]) ** 2, 0), 0), 0);
+
+  const df = { part: p - 1, appraiser: o - 1, interaction: (p - 1) * (o - 1), error: p * o * (r - 1) };
+  const ms = { part: ssPart / df.part, appraiser: ssAppraiser / df.appraiser, interaction: ssInteraction / df.interaction, error: ssError / df.error };
+
+  const fInteraction = ms.error > 0 ? ms.interaction / ms.error : ms.interaction > 0 ? Infinity : 0;
+  const pInteraction = fTestP(fInteraction, df.interaction, df.error);
+  const pooled = pInteraction > INTERACTION_ALPHA;
+
+  // Pooling folds the interaction into the error term and tests the main effects against it
+  const denominator = pooled ? (ssInteraction + ssError) / (df.interaction + df.error) : ms.interaction;
+  const dfDenominator = pooled ? df.interaction + df.error : df.interaction;
+  const varRepeat = pooled ? denominator : ms.error;
+  const varInteraction = pooled ? 0 : Math.max(0, (ms.interaction - ms.error) / r);
+  const varAppraiser = Math.max(0, (ms.appraiser - denominator) / (p * r));
+  const varPart = Math.max(0, (ms.part - denominator) / (o * r));
+  const varGrr = varRepeat + varAppraiser + varInteraction;
+
+  const f = (numerator: number) => denominator > 0 ? numerator / denominator : numerator > 0 ? Infinity : 0;
+  const fPart = f(ms.part), fAppraiser = f(ms.appraiser);
+  const anova: AnovaRow[] = [
+    { source: 'Part', df: df.part, ss: ssPart, ms: ms.part, f: fPart, p: fTestP(fPart, df.part, dfDenominator) },
+    { source: 'Appraiser', df: df.appraiser, ss: ssAppraiser, ms: ms.appraiser, f: fAppraiser, p: fTestP(fAppraiser, df.appraiser, dfDenominator) },
+    { source: 'Part × Appraiser', df: df.interaction, ss: ssInteraction, ms: ms.interaction, f: fInteraction, p: pInteraction },
+    { source: 'Repeatability', df: df.error, ss: ssError, ms: ms.error }
+  ];
+
+  const grr = Math.sqrt(varGrr);
+  const partVariation = Math.sqrt(varPart);
+  const totalVariation = Math.sqrt(varGrr + varPart);
+  const pctTolerance = tolerance > 0 ? 6 * grr / tolerance * 100 : Infinity;
+  return {
+    featureId,
+    axis,
+    tolerance,
+    repeatability: Math.sqrt(varRepeat),
+    reproducibility: Math.sqrt(varAppraiser + varInteraction),
+    interaction: Math.sqrt(varInteraction),
+    grr,
+    partVariation,
+    totalVariation,
+    pctTolerance,
+    pctStudyVariation: totalVariation > 0 ? grr / totalVariation * 100 : 0,
+    ndc: grr > 0 ? Math.floor(Math.SQRT2 * partVariation / grr) : Infinity,
+    interactionPooled: pooled,
+    verdict: pctTolerance < GRR_LIMITS.acceptable ? 'acceptable' : pctTolerance <= GRR_LIMITS.marginal ? 'marginal' : 'unacceptable',
+    anova
+  };
+};
+
+/**
+ * Every part must be measured by every appraiser the same number of times (at least twice). Features some
+ * reports do not carry are skipped rather than failing the study.
+ */
+export const analyzeGageStudy = (partId: string, observations: GageObservation[], appraiserField: AppraiserField): { study: GageStudy | null, errors: string[] } => {
+  const parts = [...new Set(observations.map(o => o.part))].sort();
+  const appraisers = [...new Set(observations.map(o => o.appraiser))].sort();
+  const errors: string[] = [];
+  if (parts.length < MIN_PARTS) errors.push(`At least ${MIN_PARTS} parts (serial numbers) are needed, found ${parts.length}`);
+  if (appraisers.length < MIN_APPRAISERS) errors.push(`At least ${MIN_APPRAISERS} appraisers (${appraiserField}) are needed, found ${appraisers.length}`);
+  if (errors.length) return { study: null, errors };
+
+  const cells = parts.map(part => appraisers.map(appraiser => observations.filter(o => o.part === part && o.appraiser === appraiser)));
+  const trials = Math.max(...cells.flat().map(c => c.length));
+  cells.forEach((row, i) => row.forEach((cell, j) => {
+    if (cell.length !== trials || cell.length < MIN_TRIALS) errors.push(`Part ${parts[i]} by ${appraisers[j]}: ${cell.length} trial${cell.length === 1 ? '' : 's'}`);
+  }));
+  if (errors.length) {
+    return { study: null, errors: [`The study must be balanced with at least ${MIN_TRIALS} trials per part and appraiser:`, ...errors] };
+  }
+
+  const counts = new Map<string, { feature: CMMFeature, n: number }>();
+  observations.forEach(o => new Set(o.features.map(featureKey)).forEach(key => {
+    const entry = counts.get(key);
+    if (entry) entry.n++;
+    else counts.set(key, { feature: o.features.find(f => featureKey(f) === key)!, n: 1 });
+  }));
+  const studied = [...counts.values()].filter(c => c.n === observations.length).map(c => c.feature);
+  const skipped = [...counts.values()].filter(c => c.n < observations.length).map(c => featureKey(c.feature));
+  if (!studied.length) return { study: null, errors: ['No feature was measured in every report'] };
+
+  const features = studied.map(feature => {
+    const key = featureKey(feature);
+    const y = cells.map(row => row.map(cell => cell.map(o => o.features.find(f => featureKey(f) === key)!.deviation)));
+    return analyzeFeature(feature.featureId, feature.axis, feature.upTol - feature.loTol, y);
+  });
+
+  return { study: { partId, appraiserField, parts, appraisers, trials, reports: observations.length, features, skipped }, errors: [] };
+};
+
+// --- Measurement Noise ---
+
+export const noiseFromStudy = (study: GageStudy, createdAt = Date.now()): MeasurementNoise => ({
+  partId: study.partId,
+  features: Object.fromEntries(study.features.map(f => [featureKey(f), f.grr])),
+  pooled: Math.sqrt(mean(study.features.map(f => f.grr ** 2))),
+  study: { parts: study.parts.length, appraisers: study.appraisers.length, trials: study.trials, appraiserField: study.appraiserField, reports: study.reports },
+  createdAt
+});
+
+// Both sides are trimmed: a profile saved by an older build or edited by hand may carry spaces around its part number
+export const selectNoise = (profiles: MeasurementNoise[], partId: string) =>
+  profiles.find(n => n.partId.trim().toUpperCase() === partId.trim().toUpperCase());
+
+// Mean gage variance over the features: what noise adds to the variance of their deviations
+export const noiseVariance = (noise: MeasurementNoise | null | undefined, features: Pick<CMMFeature, 'featureId' | 'axis'>[]) =>
+  noise && features.length ? mean(features.map(f => (noise.features[featureKey(f)] ?? noise.pooled) ** 2)) : 0;
+
+export const validateNoise = (input: unknown): { noise: MeasurementNoise | null, errors: string[] } => {
+  const n = input as Partial<MeasurementNoise> | null;
+  const errors: string[] = [];
+  if (typeof n !== 'object' || n === null) return { noise: null, errors: ['Measurement noise must be a JSON object'] };
+  if (typeof n.partId !== 'string' || !n.partId.trim()) errors.push('partId: required');
+  if (typeof n.pooled !== 'number' || !(n.pooled >= 0)) errors.push('pooled: non-negative number in mm');
+  if (typeof n.features !== 'object' || n.features === null || !Object.values(n.features).every(v => typeof v === 'number' && v >= 0)) {
+    errors.push('features: object of non-negative standard deviations in mm');
+  }
+  return errors.length ? { noise: null, errors } : { noise: { ...n, partId: n.partId!.trim() } as MeasurementNoise, errors };
+};
@@ -0,0 +1,170 @@
+import type { CMMFeature, GdtCharacteristic, GdtResult, GdtType } from '../types';
+import { globToRegExp } from './ruleEngine';
+import { baseId } from './featureIds';
+
+/**
+ * GD&T EVALUATION
+ * A CMM report lists one row per axis (POINT1_X, POINT1_Y, CIRCLE9_THICK_D), which is how the engine's
+ * section metrics want them. Geometric tolerances need the rows put back together: a hole's true position
+ * combines its X and Y deviations, flatness compares the heights of several plane points. Rows are grouped by
+ * base id (the feature id without its axis suffix) and each characteristic of the part's feature map is
+ * evaluated on the groups it names.
+ *
+ * Zones follow the usual CMM conventions rather than a full minimum-zone solve: position is diametral
+ * (2 × radial deviation), profile is bilateral and equal (2 × largest deviation), parallelism is the spread
+ * of heights in the datum frame and flatness the spread left after the best least-squares tilt.
+ */
+
+export const GDT_TYPES: { id: GdtType, label: string, symbol: string }[] = [
+  { id: 'position', label: 'Position', symbol: '⌖' },
+  { id: 'profile', label: 'Profile of a surface', symbol: '⌓' },
+  { id: 'flatness', label: 'Flatness', symbol: '⏥' },
+  { id: 'parallelism', label: 'Parallelism', symbol: '∥' }
+];
+
+// --- Feature Groups ---
+
+export interface FeatureGroup {
+  baseId: string;
+  // Rows of the feature keyed by upper-case axis, in report order
+  components: Record<string, CMMFeature>;
+}
+
+const POSITION_AXES = ['X', 'Y', 'Z'];
+const SIZE_AXES = ['D', 'DIA', 'DIAM', 'DM'];
+
+// A repeated axis row keeps its first measurement, as the importers do for duplicate features
+export const groupFeatures = (features: CMMFeature[]): FeatureGroup[] => {
+  const groups = new Map<string, FeatureGroup>();
+  features.forEach(f => {
+    const id = baseId(f);
+    const group = groups.get(id.toUpperCase()) ?? { baseId: id, components: {} };
+    const axis = f.axis.toUpperCase();
+    if (!group.components[axis]) group.components[axis] = f;
+    groups.set(id.toUpperCase(), group);
+  });
+  return [...groups.values()];
+};
+
+const matchGroups = (groups: FeatureGroup[], pattern: string) => {
+  const exact = !pattern.includes('*');
+  return groups.filter(g => exact ? g.baseId.toUpperCase() === pattern.trim().toUpperCase() : globToRegExp(pattern.trim()).test(g.baseId));
+};
+
+// --- Characteristics ---
+
+const result = (c: GdtCharacteristic, features: string[], value: number, bonus = 0): GdtResult => ({
+  id: c.id,
+  type: c.type,
+  features,
+  value,
+  tolerance: c.tolerance,
+  bonus,
+  status: value <= c.tolerance + bonus + 1e-9 ? 'pass' : 'fail'
+});
+
+const notMeasured = (c: GdtCharacteristic, features: string[] = []): GdtResult => ({
+  id: c.id, type: c.type, features, value: 0, tolerance: c.tolerance, bonus: 0, status: 'not_measured'
+});
+
+// Hole: bonus grows as the hole opens up from its smallest size; pin: as it shrinks from its largest
+const mmcBonus = (c: GdtCharacteristic, group: FeatureGroup) => {
+  const size = SIZE_AXES.map(a => group.components[a]).find(Boolean);
+  if (!c.mmc || !size) return 0;
+  return c.size === 'external'
+    ? Math.max(0, size.nominal + size.upTol - size.actual)
+    : Math.max(0, size.actual - (size.nominal + size.loTol));
+};
+
+const position = (c: GdtCharacteristic, group: FeatureGroup): GdtResult => {
+  const rows = POSITION_AXES.map(a => group.components[a]).filter(Boolean);
+  if (!rows.length) return notMeasured(c, [group.baseId]);
+  return result(c, [group.baseId], 2 * Math.hypot(...rows.map(r => r.deviation)), mmcBonus(c, group));
+};
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+// Spread of the residuals after fitting d = a + b·u + c·v by least squares (Cramer's rule on the normal equations)
+const detiltedSpread = (points: { u: number, v: number, d: number }[]) => {
+  const s = (f: (p: typeof points[number]) => number) => points.reduce((acc, p) => acc + f(p), 0);
+  const m = [
+    [points.length, s(p => p.u), s(p => p.v)],
+    [s(p => p.u), s(p => p.u * p.u), s(p => p.u * p.v)],
+    [s(p => p.v), s(p => p.u * p.v), s(p => p.v * p.v)]
+  ];
+  const r = [s(p => p.d), s(p => p.u * p.d), s(p => p.v * p.d)];
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) - a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) + a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const d = det(m);
+  // Collinear points leave the tilt undetermined
+  if (Math.abs(d) < 1e-9 * Math.max(1, m[1][1] * m[2][2])) return Infinity;
+  const [a, b, cc] = [0, 1, 2].map(k => det(m.map((row, i) => row.map((v, j) => j === k ? r[i] : v))) / d);
+  return spread(points.map(p => p.d - (a + b * p.u + cc * p.v)));
+};
+
+const planar = (c: GdtCharacteristic, groups: FeatureGroup[]): GdtResult => {
+  const normal = c.direction ?? 'Z';
+  const [uAxis, vAxis] = POSITION_AXES.filter(a => a !== normal);
+  const points = groups.filter(g => g.components[normal]);
+  const ids = points.map(g => g.baseId);
+  if (points.length < 2) return notMeasured(c, ids);
+  const heights = points.map(g => g.components[normal].deviation);
+  if (c.type === 'parallelism') return result(c, ids, spread(heights));
+  // Any tilt gives a valid zone, so flatness is the narrower of the measured and the least-squares one
+  const located = points.filter(g => g.components[uAxis] && g.components[vAxis])
+    .map(g => ({ u: g.components[uAxis].nominal, v: g.components[vAxis].nominal, d: g.components[normal].deviation }));
+  return result(c, ids, Math.min(spread(heights), located.length === points.length && located.length >= 3 ? detiltedSpread(located) : Infinity));
+};
+
+const profile = (c: GdtCharacteristic, groups: FeatureGroup[]): GdtResult => {
+  const rows = groups.flatMap(g => POSITION_AXES.map(a => g.components[a]).filter(Boolean));
+  const ids = groups.map(g => g.baseId);
+  if (!rows.length) return notMeasured(c, ids);
+  return result(c, ids, 2 * Math.max(...rows.map(r => Math.abs(r.deviation))));
+};
+
+// One result per matched feature for position, one per characteristic otherwise
+export const evaluateGdt = (features: CMMFeature[], characteristics: GdtCharacteristic[] = []): GdtResult[] => {
+  if (!characteristics.length) return [];
+  const groups = groupFeatures(features);
+  return characteristics.flatMap(c => {
+    const matched = matchGroups(groups, c.features);
+    if (!matched.length) return [notMeasured(c)];
+    switch (c.type) {
+      case 'position': return matched.map(g => position(c, g));
+      case 'profile': return [profile(c, matched)];
+      case 'flatness':
+      case 'parallelism': return [planar(c, matched)];
+    }
+  });
+};
+
+// Measured zone over the allowed one; above 1 fails
+export const utilization = (r: GdtResult) => r.status === 'not_measured' ? 0 : r.value / (r.tolerance + r.bonus);
+
+// --- Validation ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const validateCharacteristics = (input: unknown, path = 'characteristics'): string[] => {
+  if (!Array.isArray(input)) return [`${path}: array required`];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  input.forEach((c, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(c)) { errors.push(`${p}: characteristic must be an object`); return; }
+    if (typeof c.id !== 'string' || !c.id.trim()) errors.push(`${p}: id required`);
+    else if (ids.has(c.id)) errors.push(`${p}: duplicate id '${c.id}'`);
+    else ids.add(c.id);
+    if (!GDT_TYPES.some(t => t.id === c.type)) errors.push(`${p}.type: one of ${GDT_TYPES.map(t => t.id).join(', ')}`);
+    if (typeof c.features !== 'string' || !c.features.trim()) errors.push(`${p}.features: base feature id or pattern required`);
+    if (typeof c.tolerance !== 'number' || !(c.tolerance > 0)) errors.push(`${p}.tolerance: positive number in mm`);
+    if (c.mmc !== undefined && typeof c.mmc !== 'boolean') errors.push(`${p}.mmc: must be boolean`);
+    if ((c.mmc !== undefined || c.size !== undefined) && c.type !== 'position') errors.push(`${p}: mmc and size apply to position only`);
+    if (c.size !== undefined && c.size !== 'internal' && c.size !== 'external') errors.push(`${p}.size: internal or external`);
+    if (c.direction !== undefined && !POSITION_AXES.includes(c.direction as string)) errors.push(`${p}.direction: X, Y or Z`);
+    if (c.direction !== undefined && c.type !== 'flatness' && c.type !== 'parallelism') errors.push(`${p}: direction applies to flatness and parallelism only`);
+    if (c.datum !== undefined && typeof c.datum !== 'string') errors.push(`${p}.datum: must be a string`);
+  });
+  return errors;
+};
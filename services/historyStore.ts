@@ -0,0 +1,47 @@
+import type { CMMFeature, EngineeredMetrics, InspectionRecord, MLResponse, ReportHeader } from '../types';
+import { STORES, eachCursor, withStore } from './db';
+
+// --- Inspection History ---
+
+export const InspectionHistory = {
+  // `timestamp` defaults to now; batch imports pass the report file's modification time
+  save: (entries: { source: string, timestamp?: number, header?: ReportHeader, result: MLResponse, metrics: EngineeredMetrics, features: CMMFeature[] }[]): Promise<IDBValidKey> => {
+    const now = Date.now();
+    return withStore(STORES.inspections, 'readwrite', store => {
+      let last!: IDBRequest<IDBValidKey>;
+      entries.forEach(e => {
+        const record: InspectionRecord = {
+          partId: e.result.Part_ID,
+          timestamp: e.timestamp ?? now,
+          source: e.source,
+          header: e.header,
+          result: e.result,
+          metrics: e.metrics,
+          features: e.features
+        };
+        last = store.add(record);
+      });
+      return last;
+    });
+  },
+
+  listParts: async (): Promise<string[]> => {
+    const parts: string[] = [];
+    await eachCursor(STORES.inspections, 'readonly',
+      store => store.index('partId').openKeyCursor(null, 'nextunique'),
+      cursor => { parts.push(String(cursor.key)); }
+    );
+    return parts;
+  },
+
+  listByPart: (partId: string): Promise<InspectionRecord[]> =>
+    withStore(STORES.inspections, 'readonly', store =>
+      store.index('partId_timestamp').getAll(IDBKeyRange.bound([partId, 0], [partId, Infinity])) as IDBRequest<InspectionRecord[]>
+    ),
+
+  clearPart: (partId: string): Promise<void> =>
+    eachCursor(STORES.inspections, 'readwrite',
+      store => store.index('partId').openCursor(IDBKeyRange.only(partId)),
+      cursor => { cursor.delete(); }
+    )
+};
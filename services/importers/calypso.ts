@@ -0,0 +1,97 @@
+import type { ProcessParameters } from '../../types';
+import { buildFeature, createRowCollector, emptyHeader, leadingNumber, lines, parseNumber, readNumbers, splitDelimited, type HeaderField, type ReportImporter } from './common';
+
+/**
+ * Zeiss Calypso table files (the tab-separated "_chr.txt" characteristic export). Header fields normally
+ * live in the separate "_hdr.txt"; when the export merges them in as columns they are read from the first row.
+ * Calypso writes lowertol signed (-0.1) and "exceed" as the amount beyond the limit (0 when in tolerance).
+ */
+
+const REQUIRED = ['id', 'actual', 'nominal', 'uppertol', 'lowertol'];
+
+const HEADER_COLUMNS: Record<HeaderField, string[]> = {
+  partId: ['partnb', 'partnumber'],
+  serial: ['serialnumber', 'serial', 'partident'],
+  dieId: ['dieid', 'dienumber', 'tool'],
+  cavity: ['cavity', 'cavityno', 'nest'],
+  shot: ['shot', 'shotno', 'shotcounter'],
+  operator: ['operid', 'operator'],
+  machine: ['dmeid', 'dmesn', 'machine'],
+  date: ['date']
+};
+
+const PROCESS_COLUMNS: Record<keyof ProcessParameters, string[]> = {
+  metalTemp: ['metaltemp', 'melttemp'],
+  dieTemp: ['dietemp'],
+  intensificationPressure: ['intenspressure', 'intensificationpressure'],
+  shotVelocity: ['shotvelocity', 'shotspeed'],
+  vacuum: ['vacuum']
+};
+
+const SYMBOL_AXES: Record<string, string> = { 'Ø': 'D', 'D': 'D', 'R': 'R', '∠': 'A', 'A': 'A', 'X': 'X', 'Y': 'Y', 'Z': 'Z' };
+
+const headerIndex = (rows: string[]) =>
+  rows.findIndex(r => {
+    const cols = splitDelimited(r, '\t').map(c => c.toLowerCase());
+    return REQUIRED.every(c => cols.includes(c));
+  });
+
+// "Circle9_Boss.X" → axis X; otherwise the idsymbol column decides, defaulting to a size (D)
+const axisOf = (id: string, symbol: string | undefined) => {
+  const suffix = id.match(/\.([XYZ])$/i);
+  if (suffix) return suffix[1].toUpperCase();
+  return (symbol && SYMBOL_AXES[symbol.trim().toUpperCase()]) || 'D';
+};
+
+export const calypsoImporter: ReportImporter = {
+  id: 'calypso',
+  name: 'Zeiss Calypso (table file)',
+  extensions: ['.txt', '.tab'],
+
+  detect: (text) => headerIndex(lines(text).slice(0, 10)) >= 0 ? 0.95 : 0,
+
+  parse: (text) => {
+    const rows = lines(text);
+    const collected = createRowCollector('calypso');
+    const hi = headerIndex(rows.slice(0, 10));
+    if (hi < 0) return collected.finish(emptyHeader());
+    const cols = splitDelimited(rows[hi], '\t').map(c => c.toLowerCase());
+    const at = (cells: string[], name: string) => { const i = cols.indexOf(name); return i >= 0 ? cells[i] : undefined; };
+
+    const data = rows
+      .map((raw, i) => ({ line: i + 1, raw: raw.trim(), cells: splitDelimited(raw, '\t') }))
+      .filter((r, i) => i > hi && r.raw);
+    const header = emptyHeader();
+    if (data.length) {
+      (Object.keys(HEADER_COLUMNS) as HeaderField[]).forEach(field => {
+        const value = HEADER_COLUMNS[field].map(c => at(data[0].cells, c)).find(v => v);
+        if (value) header[field] = value;
+      });
+      const process: ProcessParameters = {};
+      (Object.keys(PROCESS_COLUMNS) as (keyof ProcessParameters)[]).forEach(field => {
+        const value = PROCESS_COLUMNS[field].map(c => leadingNumber(at(data[0].cells, c))).find(v => v !== undefined);
+        if (value !== undefined) process[field] = value;
+      });
+      if (Object.keys(process).length) header.process = process;
+    }
+
+    data.forEach(({ line, raw, cells }) => {
+      const parsed = readNumbers({ nominal: at(cells, 'nominal'), actual: at(cells, 'actual'), uppertol: at(cells, 'uppertol'), lowertol: at(cells, 'lowertol') });
+      if ('reason' in parsed) { collected.reject(line, raw, parsed.reason); return; }
+      const { nominal, actual, uppertol: upTol, lowertol: loTol } = parsed.values;
+      const id = at(cells, 'id') || 'Feature';
+      const exceed = parseNumber(at(cells, 'exceed'));
+      collected.add(buildFeature({
+        featureId: (at(cells, 'featureid') || id.replace(/\.[XYZ]$/i, '')).replace(/\s+/g, '_'),
+        axis: axisOf(id, at(cells, 'idsymbol')),
+        nominal,
+        actual,
+        deviation: parseNumber(at(cells, 'deviation')),
+        loTol,
+        upTol,
+        outTol: exceed !== undefined ? (Math.abs(exceed) > 0 ? 1 : 0) : undefined
+      }), line, raw);
+    });
+    return collected.finish(header);
+  }
+};
@@ -0,0 +1,231 @@
+import type { CMMFeature, FeatureSource, ImportDiagnostic, ParsedReport, ProcessParameters, ReportHeader } from '../../types';
+
+// --- Importer Contract ---
+
+export interface ReportImporter {
+  id: string;
+  name: string;
+  extensions: string[];
+  // 0 = cannot read this content, 1 = certain; the registry picks the highest score
+  detect: (text: string, fileName?: string) => number;
+  parse: (text: string) => ParsedReport;
+}
+
+export const AXES = ["X", "Y", "Z", "XZ", "YZ", "XY", "D", "R", "A", "S"];
+
+// --- Feature Construction ---
+
+// Section type from generic naming conventions (heavy bosses, thin ribs, angles); the part's feature map
+// overrides it for features whose names do not say what they are
+export const classifySection = (featureId: string): CMMFeature['sectionType'] => {
+  const lowerId = featureId.toLowerCase();
+  if (lowerId.includes("thick") || lowerId.includes("boss") || lowerId.includes("cylinder")) return 'thick';
+  if (lowerId.includes("thin") || lowerId.includes("rib")) return 'thin';
+  if (lowerId.includes("ang")) return 'angular';
+  return 'structural';
+};
+
+/**
+ * Normalizes one measured characteristic. Formats disagree on which columns they carry, so deviation
+ * falls back to actual - nominal and the OOT flag falls back to the tolerance band.
+ */
+export const buildFeature = (row: {
+  featureId: string,
+  axis?: string,
+  nominal: number,
+  actual?: number,
+  deviation?: number,
+  loTol: number,
+  upTol: number,
+  outTol?: number
+}): CMMFeature => {
+  // Derived values are rounded so they do not carry float noise (10.3 - 10 = 0.30000000000000071)
+  const deviation = row.deviation ?? (row.actual !== undefined ? +(row.actual - row.nominal).toFixed(6) : 0);
+  const actual = row.actual ?? +(row.nominal + deviation).toFixed(6);
+  const outTol = row.outTol ?? (deviation < row.loTol || deviation > row.upTol ? 1 : 0);
+  return {
+    featureId: row.featureId,
+    axis: (row.axis || "D").toUpperCase(),
+    nominal: row.nominal,
+    actual,
+    deviation,
+    loTol: row.loTol,
+    upTol: row.upTol,
+    outTol: Math.round(outTol) ? 1 : 0,
+    sectionType: classifySection(row.featureId)
+  };
+};
+
+// Whole-token match only: parseFloat would read "1.2.3" as 1.2 and "12,5" as 12
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+export const isNumberToken = (token: string) => NUMBER.test(token.trim());
+
+export const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || !isNumberToken(value)) return undefined;
+  const n = parseFloat(value.trim().replace(/^\+/, ''));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/**
+ * Parses named cells of one row. The first missing or malformed cell becomes the rejection reason,
+ * so the import preview can say which column broke the row.
+ */
+export const readNumbers = <K extends string>(cells: Record<K, string | undefined>): { values: Record<K, number> } | { reason: string } => {
+  const values = {} as Record<K, number>;
+  for (const key of Object.keys(cells) as K[]) {
+    const cell = cells[key];
+    if (cell === undefined || cell.trim() === '') return { reason: `Missing ${key}` };
+    const n = parseNumber(cell);
+    if (n === undefined) return { reason: `${key} '${cell.trim()}' is not a number` };
+    values[key] = n;
+  }
+  return { values };
+};
+
+// --- Row Collection ---
+
+/**
+ * Accumulates features with their source lines, plus rows the importer rejected or had doubts about.
+ * Every importer returns through finish() so the diagnostics reach the import preview.
+ */
+export const createRowCollector = (format: string) => {
+  const features: CMMFeature[] = [];
+  const sources: FeatureSource[] = [];
+  const diagnostics: ImportDiagnostic[] = [];
+  return {
+    add: (feature: CMMFeature, line: number, raw: string) => {
+      features.push(feature);
+      sources.push({ line, raw });
+    },
+    reject: (line: number, raw: string, reason: string) => {
+      diagnostics.push({ line, raw, severity: 'error', reason });
+    },
+    // Attaches to the most recently added feature
+    warn: (line: number, raw: string, reason: string) => {
+      diagnostics.push({ line, raw, severity: 'warning', reason, featureIndex: features.length - 1 });
+    },
+    finish: (header: ReportHeader): ParsedReport => ({ format, header, features, sources, diagnostics })
+  };
+};
+
+// --- Verification ---
+
+// Reports print three decimals, so actual - nominal can differ from the printed deviation by rounding
+const DEVIATION_SLACK = 0.0015;
+
+export const expectedOutTol = (f: Pick<CMMFeature, 'deviation' | 'loTol' | 'upTol'>) =>
+  f.deviation < f.loTol - 1e-9 || f.deviation > f.upTol + 1e-9 ? 1 : 0;
+
+/**
+ * Cross-checks one feature's columns. The OOT flag is recomputed from the tolerance band, except when the
+ * band is unknown (both limits 0, as DMIS results without a T() definition) and the machine's flag is all there is.
+ */
+export const verifyFeature = (feature: CMMFeature): { feature: CMMFeature, issues: string[] } => {
+  const issues: string[] = [];
+  const derived = feature.actual - feature.nominal;
+  if (Math.abs(derived - feature.deviation) > DEVIATION_SLACK) {
+    issues.push(`Deviation ${feature.deviation} does not match actual − nominal (${derived.toFixed(3)})`);
+  }
+  if (feature.loTol > feature.upTol) {
+    issues.push(`Lower tolerance ${feature.loTol} is above upper tolerance ${feature.upTol}`);
+  }
+  if (feature.loTol === 0 && feature.upTol === 0) return { feature, issues };
+
+  const outTol = expectedOutTol(feature);
+  if (outTol !== feature.outTol) {
+    issues.push(`OOT flag ${feature.outTol} contradicts deviation ${feature.deviation} against [${feature.loTol}, ${feature.upTol}]; corrected to ${outTol}`);
+  }
+  return { feature: { ...feature, outTol }, issues };
+};
+
+// Applies verifyFeature to every row and records its findings as warnings on the report
+export const verifyReport = (report: ParsedReport): ParsedReport => {
+  const diagnostics = [...report.diagnostics];
+  const features = report.features.map((f, i) => {
+    const { feature, issues } = verifyFeature(f);
+    const source = report.sources[i] ?? { line: 0, raw: '' };
+    issues.forEach(reason => diagnostics.push({ ...source, severity: 'warning', reason, featureIndex: i }));
+    return feature;
+  });
+  diagnostics.sort((a, b) => a.line - b.line);
+  return { ...report, features, diagnostics };
+};
+
+// --- Delimited Text ---
+
+export const detectDelimiter = (line: string) => {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: line.split(d).length - 1 }));
+  return counts.sort((a, b) => b.n - a.n)[0].n > 0 ? counts[0].d : ',';
+};
+
+// RFC 4180 style: quoted cells may contain the delimiter and doubled quotes
+export const splitDelimited = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) { cells.push(cell.trim()); cell = ""; }
+    else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+export const lines = (text: string) => text.replace(/\r\n?/g, '\n').split('\n');
+
+// --- Header Metadata ---
+
+export const emptyHeader = (): ReportHeader => ({ partId: "" });
+
+export type HeaderField = Exclude<keyof ReportHeader, 'process'>;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A value ends at the end of the line or where another "LABEL:" / "LABEL=" starts after a column gap
+const headerValue = (text: string, key: string, stop: string) => {
+  const m = text.match(new RegExp(`(?:^|\\s)${escapeRegExp(key)}\\s*[:=]?\\s*(.+?)(?=\\s{2,}(?:${stop}|[A-Za-z][\\w .#-]{0,24}?\\s*[:=])|\\s*$)`, 'im'));
+  return m && m[1].trim() ? m[1].trim() : undefined;
+};
+
+/**
+ * Reads "Key: value" / "KEY = value" header lines. Several keys often share one line in PC-DMIS and
+ * legacy reports ("PART NAME : X   SER NUMBER : 12"), so each value stops at the next label.
+ */
+export const readHeaderFields = (text: string, keys: Partial<Record<HeaderField, string[]>>, header = emptyHeader()) => {
+  const stop = (Object.values(keys).flat() as string[]).map(escapeRegExp).join('|');
+  (Object.keys(keys) as HeaderField[]).forEach(field => {
+    if (header[field]) return;
+    for (const key of keys[field] || []) {
+      const value = headerValue(text, key, stop);
+      if (value) { header[field] = value; break; }
+    }
+  });
+  return header;
+};
+
+// Process settings carry units ("680 °C", "850bar"); only the leading number is kept
+export const leadingNumber = (value: string | undefined): number | undefined => {
+  const m = value?.trim().match(/^[-+]?(\d+\.?\d*|\.\d+)/);
+  return m ? parseFloat(m[0]) : undefined;
+};
+
+export const readProcessFields = (text: string, keys: Partial<Record<keyof ProcessParameters, string[]>>, header = emptyHeader()) => {
+  const stop = (Object.values(keys).flat() as string[]).map(escapeRegExp).join('|');
+  const process: ProcessParameters = { ...header.process };
+  (Object.keys(keys) as (keyof ProcessParameters)[]).forEach(field => {
+    if (process[field] !== undefined) return;
+    for (const key of keys[field] || []) {
+      const value = leadingNumber(headerValue(text, key, stop));
+      if (value !== undefined) { process[field] = value; break; }
+    }
+  });
+  if (Object.keys(process).length) header.process = process;
+  return header;
+};
@@ -0,0 +1,206 @@
+import type { ParsedReport, ProcessParameters, ReportHeader } from '../../types';
+import { buildFeature, createRowCollector, detectDelimiter, emptyHeader, leadingNumber, lines, parseNumber, readNumbers, splitDelimited, type ReportImporter } from './common';
+
+/**
+ * Generic delimited export with a user-defined column mapping. Mappings are keyed by the header row's
+ * signature, so a layout mapped once in the wizard is recognised on every later file from that machine.
+ */
+
+// --- Mapping ---
+
+export type CsvField = 'featureId' | 'axis' | 'nominal' | 'actual' | 'deviation' | 'loTol' | 'upTol' | 'outTol' | 'partId' | 'serial' | 'dieId' | 'cavity' | 'shot' | keyof ProcessParameters;
+
+export interface CsvColumnMapping {
+  signature: string;
+  name: string;
+  delimiter: string;
+  headerRow: number;
+  columns: Partial<Record<CsvField, number>>;
+  // Lower tolerance written as a positive amount below nominal instead of a signed value
+  loTolMagnitude: boolean;
+}
+
+export interface CsvLayout {
+  delimiter: string;
+  headerRow: number;
+  headers: string[];
+  sample: string[][];
+  signature: string;
+}
+
+export const CSV_FIELDS: { key: CsvField, label: string, required: boolean }[] = [
+  { key: 'featureId', label: 'Feature ID', required: true },
+  { key: 'axis', label: 'Axis', required: false },
+  { key: 'nominal', label: 'Nominal', required: true },
+  { key: 'actual', label: 'Actual', required: false },
+  { key: 'deviation', label: 'Deviation', required: false },
+  { key: 'loTol', label: 'Lower Tol', required: true },
+  { key: 'upTol', label: 'Upper Tol', required: true },
+  { key: 'outTol', label: 'Out of Tol', required: false },
+  { key: 'partId', label: 'Part Number', required: false },
+  { key: 'serial', label: 'Serial', required: false },
+  { key: 'dieId', label: 'Die ID', required: false },
+  { key: 'cavity', label: 'Cavity', required: false },
+  { key: 'shot', label: 'Shot No.', required: false },
+  { key: 'metalTemp', label: 'Metal Temp °C', required: false },
+  { key: 'dieTemp', label: 'Die Temp °C', required: false },
+  { key: 'intensificationPressure', label: 'Intens. bar', required: false },
+  { key: 'shotVelocity', label: 'Shot Vel. m/s', required: false },
+  { key: 'vacuum', label: 'Vacuum mbar', required: false }
+];
+
+const PROCESS_FIELDS: (keyof ProcessParameters)[] = ['metalTemp', 'dieTemp', 'intensificationPressure', 'shotVelocity', 'vacuum'];
+
+const SYNONYMS: Record<CsvField, string[]> = {
+  featureId: ['feature', 'featureid', 'feature id', 'feature name', 'characteristic', 'name', 'id', 'label'],
+  axis: ['axis', 'ax', 'direction'],
+  nominal: ['nominal', 'nom', 'target', 'nominal value'],
+  actual: ['actual', 'act', 'measured', 'meas', 'measurement', 'value'],
+  deviation: ['deviation', 'dev', 'error'],
+  loTol: ['lotol', 'lower tol', 'lower tolerance', 'lowertol', 'tol-', '-tol', 'ltol', 'min tol'],
+  upTol: ['uptol', 'upper tol', 'upper tolerance', 'uppertol', 'tol+', '+tol', 'utol', 'max tol'],
+  outTol: ['outtol', 'out tol', 'oot', 'out of tolerance', 'exceed', 'status'],
+  partId: ['part', 'part no', 'part number', 'partnb', 'part id'],
+  serial: ['serial', 'serial no', 'serial number', 'sn'],
+  dieId: ['die', 'die id', 'die no', 'tool'],
+  cavity: ['cavity', 'cav', 'cavity no', 'nest'],
+  shot: ['shot', 'shot no', 'shot number', 'shot count', 'shot counter'],
+  metalTemp: ['metal temp', 'melt temp', 'metal temperature'],
+  dieTemp: ['die temp', 'die temperature'],
+  intensificationPressure: ['intensification pressure', 'intens pressure', 'intensification'],
+  shotVelocity: ['shot velocity', 'shot speed', 'velocity'],
+  vacuum: ['vacuum', 'vacuum level']
+};
+
+const normalize = (h: string) => h.toLowerCase().replace(/[_.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const layoutSignature = (headers: string[]) => headers.map(normalize).join('|');
+
+// Header row: the first row followed by a row of the same width that is mostly numeric
+export const csvLayout = (text: string): CsvLayout | null => {
+  const rows = lines(text).filter(r => r.trim());
+  for (let i = 0; i < Math.min(rows.length - 1, 20); i++) {
+    const delimiter = detectDelimiter(rows[i]);
+    const headers = splitDelimited(rows[i], delimiter);
+    if (headers.length < 3) continue;
+    const next = splitDelimited(rows[i + 1], delimiter);
+    const numeric = next.filter(c => parseNumber(c) !== undefined).length;
+    if (next.length === headers.length && numeric >= 2 && headers.filter(h => parseNumber(h) === undefined).length >= headers.length - 1) {
+      const sample = rows.slice(i + 1, i + 6).map(r => splitDelimited(r, delimiter));
+      return { delimiter, headerRow: lines(text).indexOf(rows[i]), headers, sample, signature: layoutSignature(headers) };
+    }
+  }
+  return null;
+};
+
+export const guessMapping = (layout: CsvLayout): CsvColumnMapping => {
+  const normalized = layout.headers.map(normalize);
+  const columns: CsvColumnMapping['columns'] = {};
+  CSV_FIELDS.forEach(({ key }) => {
+    const index = normalized.findIndex((h, i) => SYNONYMS[key].includes(h) && !Object.values(columns).includes(i));
+    if (index >= 0) columns[key] = index;
+  });
+  const loValues = columns.loTol !== undefined ? layout.sample.map(r => parseNumber(r[columns.loTol!])).filter((v): v is number => v !== undefined) : [];
+  return {
+    signature: layout.signature,
+    name: 'Auto-detected',
+    delimiter: layout.delimiter,
+    headerRow: layout.headerRow,
+    columns,
+    loTolMagnitude: loValues.length > 0 && loValues.every(v => v >= 0) && loValues.some(v => v > 0)
+  };
+};
+
+// Deviation can be derived from actual and vice versa, but one of them is needed
+export const isMappingComplete = (mapping: CsvColumnMapping) =>
+  CSV_FIELDS.every(f => !f.required || mapping.columns[f.key] !== undefined)
+  && (mapping.columns.actual !== undefined || mapping.columns.deviation !== undefined);
+
+// "1", "OUT", "FAIL", "NOK", "X" mark a failed characteristic; exceed amounts count when non-zero
+const parseOutTol = (cell: string | undefined) => {
+  if (cell === undefined || cell.trim() === '') return undefined;
+  const n = parseNumber(cell);
+  if (n !== undefined) return n !== 0 ? 1 : 0;
+  return /^(out|fail|nok|x|yes|true|oot)$/i.test(cell.trim()) ? 1 : 0;
+};
+
+export const parseWithMapping = (text: string, mapping: CsvColumnMapping): ParsedReport => {
+  const rows = lines(text)
+    .map((raw, i) => ({ line: i + 1, raw: raw.trim(), cells: splitDelimited(raw, mapping.delimiter) }))
+    .filter((r, i) => i > mapping.headerRow && r.raw);
+  const col = (cells: string[], field: CsvField) => mapping.columns[field] !== undefined ? cells[mapping.columns[field]!] : undefined;
+  const collected = createRowCollector('csv');
+
+  const header: ReportHeader = emptyHeader();
+  if (rows.length) {
+    header.partId = col(rows[0].cells, 'partId') || "";
+    header.serial = col(rows[0].cells, 'serial') || undefined;
+    header.dieId = col(rows[0].cells, 'dieId') || undefined;
+    header.cavity = col(rows[0].cells, 'cavity') || undefined;
+    header.shot = col(rows[0].cells, 'shot') || undefined;
+    const process: ProcessParameters = {};
+    PROCESS_FIELDS.forEach(field => {
+      const value = leadingNumber(col(rows[0].cells, field));
+      if (value !== undefined) process[field] = value;
+    });
+    if (Object.keys(process).length) header.process = process;
+  }
+
+  rows.forEach(({ line, raw, cells }) => {
+    const parsed = readNumbers({ nominal: col(cells, 'nominal'), loTol: col(cells, 'loTol'), upTol: col(cells, 'upTol') });
+    if ('reason' in parsed) { collected.reject(line, raw, parsed.reason); return; }
+    const actual = parseNumber(col(cells, 'actual'));
+    const deviation = parseNumber(col(cells, 'deviation'));
+    if (actual === undefined && deviation === undefined) {
+      collected.reject(line, raw, `Neither actual '${col(cells, 'actual') ?? ''}' nor deviation '${col(cells, 'deviation') ?? ''}' is a number`);
+      return;
+    }
+    const { nominal, loTol: lo, upTol } = parsed.values;
+    collected.add(buildFeature({
+      featureId: (col(cells, 'featureId') || 'Feature').replace(/\s+/g, '_'),
+      axis: col(cells, 'axis'),
+      nominal,
+      actual,
+      deviation,
+      loTol: mapping.loTolMagnitude ? -Math.abs(lo) : lo,
+      upTol,
+      outTol: parseOutTol(col(cells, 'outTol'))
+    }), line, raw);
+  });
+  return collected.finish(header);
+};
+
+// --- Importer ---
+
+export class MappingRequiredError extends Error {
+  constructor(public layout: CsvLayout, public suggestion: CsvColumnMapping) {
+    super('CSV column mapping required');
+    this.name = 'MappingRequiredError';
+  }
+}
+
+/**
+ * The generic CSV importer needs the saved mappings to parse; without a saved or fully auto-detected
+ * mapping it throws MappingRequiredError so the caller can open the mapping wizard.
+ */
+export const createCsvImporter = (mappings: CsvColumnMapping[]): ReportImporter => ({
+  id: 'csv',
+  name: 'Generic CSV (column mapping)',
+  extensions: ['.csv', '.tsv', '.txt'],
+
+  detect: (text) => {
+    const layout = csvLayout(text);
+    if (!layout) return 0;
+    return mappings.some(m => m.signature === layout.signature) ? 0.85 : 0.5;
+  },
+
+  parse: (text) => {
+    const layout = csvLayout(text);
+    if (!layout) return createRowCollector('csv').finish(emptyHeader());
+    const saved = mappings.find(m => m.signature === layout.signature);
+    if (saved) return parseWithMapping(text, saved);
+    const guess = guessMapping(layout);
+    if (!isMappingComplete(guess)) throw new MappingRequiredError(layout, guess);
+    return parseWithMapping(text, guess);
+  }
+});
@@ -0,0 +1,120 @@
+import { buildFeature, createRowCollector, emptyHeader, lines, parseNumber, type ReportImporter } from './common';
+
+/**
+ * DMIS output files (.dmo). Nominal features F(), actual features FA(), tolerance definitions T() and
+ * actual tolerance results TA() are tied together by OUTPUT/FA(feature),TA(tol) statements. Each TA
+ * result carries the deviation and an INTOL/OUTOL flag; the nominal comes from the matching F() where
+ * the tolerance type says which coordinate or size it applies to.
+ */
+
+type Statement = { label: string | null, kind: string | null, major: string, params: string[], line: number, raw: string };
+
+const TOL_AXES: Record<string, string> = { XAXIS: 'X', YAXIS: 'Y', ZAXIS: 'Z' };
+const TOL_TYPE_AXES: Record<string, string> = { DIAM: 'D', RAD: 'R', ANGLB: 'A', ANGLR: 'A', ANGLWRT: 'A', DISTB: 'S', DISTWRT: 'S' };
+
+// Joins '$' continuation lines and strips "$$" comments
+const statements = (text: string): Statement[] => {
+  const joined: { line: number, raw: string }[] = [];
+  let pending = "";
+  let start = 0;
+  lines(text).forEach((raw, i) => {
+    const line = raw.replace(/\$\$.*$/, '').trim();
+    if (!line) return;
+    if (!pending) start = i + 1;
+    if (line.endsWith('$')) { pending += line.slice(0, -1); return; }
+    joined.push({ line: start, raw: pending + line });
+    pending = "";
+  });
+  return joined.map(({ line, raw: s }) => {
+    const m = s.match(/^(?:(\w+)\(([^)]*)\)\s*=\s*)?([A-Z]+)\s*\/\s*(.*)$/i);
+    if (!m) return { label: null, kind: null, major: s.toUpperCase(), params: [], line, raw: s };
+    return {
+      line,
+      raw: s,
+      kind: m[1] ? m[1].toUpperCase() : null,
+      label: m[2] ?? null,
+      major: m[3].toUpperCase(),
+      params: m[4].split(',').map(p => p.trim().replace(/^'(.*)'$/, '$1'))
+    };
+  });
+};
+
+// Nominal value a tolerance refers to, read from the feature's CART coordinates or trailing size
+const nominalFor = (feature: string[] | undefined, tolType: string, tolAxis: string | undefined) => {
+  if (!feature) return undefined;
+  const cart = feature.findIndex(p => p.toUpperCase() === 'CART');
+  if (tolType === 'CORTOL' && tolAxis && cart >= 0) return parseNumber(feature[cart + 1 + 'XYZ'.indexOf(tolAxis)]);
+  if (tolType === 'DIAM') return parseNumber(feature[feature.length - 1]);
+  if (tolType === 'RAD') { const d = parseNumber(feature[feature.length - 1]); return d !== undefined ? d / 2 : undefined; }
+  return undefined;
+};
+
+export const dmisImporter: ReportImporter = {
+  id: 'dmis',
+  name: 'DMIS Output (.dmo)',
+  extensions: ['.dmo', '.dmi'],
+
+  detect: (text, fileName) => {
+    if (/^\s*DMISMN\s*\//im.test(text) || /^\s*TA\([^)]*\)\s*=\s*TOL\//im.test(text)) return 0.95;
+    return fileName && /\.dmo$/i.test(fileName) ? 0.5 : 0;
+  },
+
+  parse: (text) => {
+    const header = emptyHeader();
+    const nominal = new Map<string, string[]>();
+    const actual = new Map<string, string[]>();
+    const tolerances = new Map<string, string[]>();
+    const tolFeature = new Map<string, string>();
+    const rows = createRowCollector('dmis');
+
+    statements(text).forEach(st => {
+      const first = st.params[0] ?? "";
+      if (st.kind === 'PN' && st.major === 'PARTID') header.partId = first;
+      else if (st.kind === 'PS' && st.major === 'PARTSN') header.serial = first;
+      else if (st.kind === 'OP' && st.major === 'OPERID') header.operator = first;
+      else if (st.kind === 'DI' && st.major === 'DMEID') header.machine = first;
+      else if (!st.kind && st.major === 'DATE') header.date = first;
+      else if (!st.kind && st.major === 'FILNAM' && !header.partId) header.partId = first;
+      else if (st.kind === 'F' && st.major === 'FEAT' && st.label) nominal.set(st.label, st.params);
+      else if (st.kind === 'FA' && st.major === 'FEAT' && st.label) actual.set(st.label, st.params);
+      else if (st.kind === 'T' && st.major === 'TOL' && st.label) tolerances.set(st.label, st.params);
+      else if (!st.kind && st.major === 'OUTPUT') {
+        // OUTPUT/FA(CIR1),TA(LOC_X),TA(DIA1)
+        const refs = st.params.map(p => p.match(/^(FA?|TA?)\(([^)]*)\)$/i)).filter((m): m is RegExpMatchArray => !!m);
+        const feat = refs.find(m => m[1].toUpperCase().startsWith('F'));
+        if (feat) refs.filter(m => m[1].toUpperCase().startsWith('T')).forEach(m => tolFeature.set(m[2], feat[2]));
+      }
+      else if (st.kind === 'TA' && st.major === 'TOL' && st.label) {
+        const tolType = first.toUpperCase();
+        const def = tolerances.get(st.label) ?? [];
+        const tolAxis = TOL_AXES[(st.params[1] ?? "").toUpperCase()];
+        // CORTOL carries the axis before the values: TOL/CORTOL,XAXIS,dev,INTOL
+        const values = tolAxis ? st.params.slice(2) : st.params.slice(1);
+        const limits = (tolAxis ? def.slice(2) : def.slice(1)).map(parseNumber);
+        const deviation = parseNumber(values[0]);
+        if (deviation === undefined) {
+          rows.reject(st.line, st.raw, `Deviation '${values[0] ?? ''}' is not a number`);
+          return;
+        }
+        const featureLabel = tolFeature.get(st.label) ?? st.label;
+        const nom = nominalFor(nominal.get(featureLabel), tolType, tolAxis);
+        const act = nominalFor(actual.get(featureLabel), tolType, tolAxis);
+        const flag = values.find(v => /^(INTOL|OUTOL)$/i.test(v));
+        rows.add(buildFeature({
+          featureId: featureLabel,
+          axis: tolAxis || TOL_TYPE_AXES[tolType] || 'D',
+          nominal: nom ?? 0,
+          actual: act ?? (nom ?? 0) + deviation,
+          deviation,
+          // A result without its T() definition still carries the machine's INTOL/OUTOL verdict
+          loTol: limits[0] ?? 0,
+          upTol: limits[1] ?? 0,
+          outTol: flag ? (/^OUTOL$/i.test(flag) ? 1 : 0) : undefined
+        }), st.line, st.raw);
+        if (nom === undefined) rows.warn(st.line, st.raw, `No nominal for ${featureLabel} (${tolType}); assumed 0`);
+        if (!tolerances.has(st.label)) rows.warn(st.line, st.raw, `No T(${st.label}) tolerance definition; limits assumed 0`);
+      }
+    });
+    return rows.finish(header);
+  }
+};
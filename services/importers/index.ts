@@ -0,0 +1,68 @@
+import type { FeatureMap, ParsedReport } from '../../types';
+import { applyFeatureMap, selectFeatureMap } from '../featureMap';
+import { verifyReport, type ReportImporter } from './common';
+import { pcDmisImporter } from './pcdmis';
+import { calypsoImporter } from './calypso';
+import { dmisImporter } from './dmis';
+import { qifImporter } from './qif';
+import { legacyTableImporter } from './legacyTable';
+import { createCsvImporter, type CsvColumnMapping } from './csv';
+
+/**
+ * CMM REPORT IMPORTERS
+ * Every importer scores how confidently it recognises a report's content; the highest score parses it.
+ * All of them yield the same CMMFeature[] plus header metadata, so the engine never sees the source format.
+ */
+
+export { expectedOutTol, verifyFeature, type ReportImporter } from './common';
+export { MappingRequiredError, CSV_FIELDS, csvLayout, guessMapping, isMappingComplete, parseWithMapping, type CsvColumnMapping, type CsvField, type CsvLayout } from './csv';
+
+// --- Registry ---
+
+const registry: ReportImporter[] = [pcDmisImporter, calypsoImporter, dmisImporter, qifImporter, legacyTableImporter];
+
+// Site-specific formats can be added at startup; a later registration with the same id replaces the built-in
+export const registerImporter = (importer: ReportImporter) => {
+  const i = registry.findIndex(r => r.id === importer.id);
+  if (i >= 0) registry.splice(i, 1, importer);
+  else registry.push(importer);
+};
+
+export const listImporters = (mappings: CsvColumnMapping[] = []): ReportImporter[] => [...registry, createCsvImporter(mappings)];
+
+export interface ImportOptions {
+  fileName?: string;
+  // Saved column mappings for the generic CSV importer
+  mappings?: CsvColumnMapping[];
+  // Skip detection and use this importer
+  importerId?: string;
+  // Stored part feature maps; the built-in maps apply when none is stored for the part
+  featureMaps?: FeatureMap[];
+}
+
+export const detectImporters = (text: string, options: ImportOptions = {}) => {
+  const ext = options.fileName?.match(/\.[^.\\/]+$/)?.[0].toLowerCase();
+  return listImporters(options.mappings)
+    .map(importer => ({
+      importer,
+      // A matching extension only breaks ties between importers that already recognise the content
+      score: importer.detect(text, options.fileName) + (ext && importer.extensions.includes(ext) ? 0.01 : 0)
+    }))
+    .filter(c => c.score >= 0.1)
+    .sort((a, b) => b.score - a.score);
+};
+
+const stem = (fileName: string) => fileName.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, '');
+
+export const importReport = (text: string, options: ImportOptions = {}): ParsedReport => {
+  const importer = options.importerId
+    ? listImporters(options.mappings).find(i => i.id === options.importerId)
+    : detectImporters(text, options)[0]?.importer;
+  if (!importer) throw new Error(options.importerId ? `Unknown importer '${options.importerId}'` : 'Unrecognised report format');
+
+  // Cross-checks deviation and OOT columns; disagreements surface as diagnostics in the import preview
+  const report = verifyReport(importer.parse(text));
+  // Without a part number in the report, the file name is the most specific identifier available
+  if (!report.header.partId) report.header.partId = options.fileName ? stem(options.fileName) : 'UNKNOWN';
+  return { ...report, features: applyFeatureMap(report.features, selectFeatureMap(options.featureMaps || [], report.header.partId)) };
+};
@@ -0,0 +1,92 @@
+import { AXES, buildFeature, createRowCollector, emptyHeader, isNumberToken, lines, readHeaderFields, readProcessFields, type ReportImporter } from './common';
+
+/**
+ * Loosely structured whitespace table ("Feature Nom Act Dev LoTol UpTol OutTol"), as exported by the
+ * plant's older reporting templates. A measurement row is any line whose last six tokens are numeric.
+ */
+
+const HEADER_KEYS = {
+  partId: ["Part No.", "Part No", "Part Number"],
+  serial: ["Serial No.", "Serial No", "Serial"],
+  dieId: ["Die ID", "Die No.", "Die No"],
+  cavity: ["Cavity", "Cav."],
+  shot: ["Shot No.", "Shot No", "Shot Count", "Shot Counter"],
+  operator: ["Inspector", "Operator"],
+  machine: ["Machine", "CMM ID", "CMM No"],
+  date: ["Date"]
+};
+
+// Written by the casting cell's traveller template when the report is generated at the machine
+const PROCESS_KEYS = {
+  metalTemp: ["Metal Temp", "Melt Temp"],
+  dieTemp: ["Die Temp"],
+  intensificationPressure: ["Intens. Pressure", "Intensification Pressure", "Intens Pressure"],
+  shotVelocity: ["Shot Velocity", "Shot Speed"],
+  vacuum: ["Vacuum"]
+};
+
+const SKIP = ["Report Name", "Part Name", "Part No", "Inspector", "Operator", "Company", "Date", "Unit", "Serial", "Die ID", "Die No", "Die Temp", "Cavity", "Cav.", "Shot", "Metal Temp", "Melt Temp", "Intens", "Vacuum", "Machine", "Feature Nom"];
+
+const isNumeric = (p: string) => isNumberToken(p);
+// Digits, dots and signs only: meant as a number, but not one ("1.2.3", "-", "0..5")
+const isMalformedNumber = (p: string) => /^[-+\d.]+$/.test(p) && !isNumberToken(p);
+
+export const legacyTableImporter: ReportImporter = {
+  id: 'legacy-table',
+  name: 'Text Table (Nom/Act/Dev)',
+  extensions: ['.txt', '.rpt'],
+
+  detect: (text) => {
+    const rows = lines(text).filter(l => l.trim().split(/\s+/).filter(isNumeric).length >= 6);
+    if (rows.length === 0) return 0;
+    return /Feature\s+Nom\s+Act\s+Dev/i.test(text) ? 0.8 : 0.3;
+  },
+
+  parse: (text) => {
+    const header = readProcessFields(text, PROCESS_KEYS, readHeaderFields(text, HEADER_KEYS, emptyHeader()));
+    const rows = createRowCollector('legacy-table');
+    let currentFeatureId = "Feature";
+
+    lines(text).forEach((line, i) => {
+      const lineNo = i + 1;
+      const t = line.trim();
+      if (!t || SKIP.some(k => t.startsWith(k)) || t.includes("Label:")) return;
+
+      const parts = t.split(/\s+/);
+      if (t.startsWith("Feature ")) {
+        currentFeatureId = parts[1];
+        return;
+      }
+      const malformed = parts.filter(isMalformedNumber);
+      if (malformed.length) {
+        rows.reject(lineNo, t, `Malformed number ${malformed.map(p => `'${p}'`).join(', ')}`);
+        return;
+      }
+      const numericParts = parts.filter(isNumeric);
+      // Prose and separator lines carry no digits; anything else without values is a broken row
+      if (numericParts.length === 0) {
+        if (/\d/.test(t)) rows.reject(lineNo, t, "No measurement values; line skipped");
+        return;
+      }
+      if (numericParts.length < 6) {
+        rows.reject(lineNo, t, `Only ${numericParts.length} numeric value${numericParts.length === 1 ? "" : "s"} (Nom Act Dev LoTol UpTol OutTol expected)`);
+        return;
+      }
+
+      const [nominal, actual, deviation, loTol, upTol, outTol] = numericParts.slice(-6).map(parseFloat);
+      const firstPart = parts[0];
+      const featureId = isNaN(parseFloat(firstPart)) && !AXES.includes(firstPart.toUpperCase()) && !firstPart.includes(".")
+        ? firstPart
+        : currentFeatureId;
+      const axis = parts.find(p => AXES.includes(p.toUpperCase())) || (featureId.split("_").length > 1 ? featureId.split("_").pop() || "D" : "D");
+
+      rows.add(buildFeature({ featureId, axis, nominal, actual, deviation, loTol, upTol, outTol }), lineNo, t);
+      if (numericParts.length > 6) rows.warn(lineNo, t, `${numericParts.length} numeric values; read the last six as Nom Act Dev LoTol UpTol OutTol`);
+      if (outTol !== 0 && outTol !== 1) rows.warn(lineNo, t, `OutTol ${outTol} is not 0 or 1`);
+    });
+
+    // "Part No. X" is the legacy layout; keep only the last token as the original parser did
+    header.partId = header.partId.split(/[:\s]/).filter(Boolean).slice(-1)[0] || "";
+    return rows.finish(header);
+  }
+};
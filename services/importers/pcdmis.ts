@@ -0,0 +1,130 @@
+import { buildFeature, createRowCollector, detectDelimiter, emptyHeader, lines, parseNumber, readHeaderFields, readNumbers, readProcessFields, splitDelimited, type ReportImporter } from './common';
+
+/**
+ * Hexagon PC-DMIS reports.
+ * - Text report: "DIM <name>= <description>" blocks with an "AX NOMINAL +TOL -TOL MEAS DEV OUTTOL" table.
+ * - CSV export: one row per axis with the same column names (plus Dimension/Feature columns).
+ * PC-DMIS prints the minus tolerance as the amount subtracted from nominal, so -TOL 0.2 means a lower limit of -0.2.
+ */
+
+const HEADER_KEYS = {
+  partId: ["PART NAME", "PART NUMBER"],
+  serial: ["SER NUMBER", "SERIAL NUMBER"],
+  dieId: ["DIE ID", "DIE NUMBER"],
+  cavity: ["CAVITY"],
+  shot: ["SHOT NUMBER", "SHOT COUNT"],
+  operator: ["OPERATOR", "INSPECTOR"],
+  machine: ["MACHINE", "CMM NAME"],
+  date: ["DATE"]
+};
+
+// Report header comments the casting cell fills in before measurement
+const PROCESS_KEYS = {
+  metalTemp: ["METAL TEMP", "MELT TEMP"],
+  dieTemp: ["DIE TEMP"],
+  intensificationPressure: ["INTENS PRESSURE", "INTENSIFICATION PRESSURE"],
+  shotVelocity: ["SHOT VELOCITY", "SHOT SPEED"],
+  vacuum: ["VACUUM"]
+};
+
+const TABLE_HEADER = /^AX\s+NOMINAL\s+\+TOL\s+-TOL\s+MEAS\s+DEV\s+OUTTOL/i;
+const DIM_LINE = /^DIM\s+([^=\s]+)\s*=\s*(.*)$/i;
+
+// "LOCATION OF CIRCLE CIR9_BOSS" → CIR9_BOSS; distances and angles keep the dimension name
+const featureFromDimension = (name: string, description: string) => {
+  const m = description.match(/\bOF\s+[A-Z]+\s+([^\s,$]+)/i);
+  return m ? m[1] : name;
+};
+
+type Rows = ReturnType<typeof createRowCollector>;
+
+const parseText = (text: string, rows: Rows) => {
+  let featureId: string | null = null;
+  let inTable = false;
+
+  lines(text).forEach((line, i) => {
+    const t = line.trim();
+    const dim = t.match(DIM_LINE);
+    if (dim) {
+      featureId = featureFromDimension(dim[1], dim[2]);
+      inTable = false;
+      return;
+    }
+    if (TABLE_HEADER.test(t)) { inTable = true; return; }
+    if (/^END OF DIMENSION/i.test(t)) { inTable = false; return; }
+    // Separator lines between tables carry no digits
+    if (!inTable || !featureId || !/\d/.test(t)) return;
+
+    const [axis, ...rest] = t.split(/\s+/);
+    const parsed = readNumbers({ NOMINAL: rest[0], '+TOL': rest[1], '-TOL': rest[2], MEAS: rest[3] });
+    if ('reason' in parsed) { rows.reject(i + 1, t, parsed.reason); return; }
+    const { NOMINAL: nominal, '+TOL': plus, '-TOL': minus, MEAS: meas } = parsed.values;
+    const [dev, out] = rest.slice(4, 6).map(parseNumber);
+    rows.add(buildFeature({
+      featureId,
+      axis: axis === 'M' ? 'D' : axis,
+      nominal,
+      actual: meas,
+      deviation: dev,
+      loTol: -minus,
+      upTol: plus,
+      outTol: out !== undefined ? (out > 0 ? 1 : 0) : undefined
+    }), i + 1, t);
+  });
+};
+
+const CSV_COLUMNS = ['AX', 'NOMINAL', '+TOL', '-TOL', 'MEAS'];
+
+const findCsvHeader = (rows: string[]) =>
+  rows.findIndex(r => {
+    const cells = splitDelimited(r, detectDelimiter(r)).map(c => c.toUpperCase());
+    return CSV_COLUMNS.every(c => cells.includes(c));
+  });
+
+const parseCsv = (all: string[], headerIndex: number, rows: Rows) => {
+  const delimiter = detectDelimiter(all[headerIndex]);
+  const cols = splitDelimited(all[headerIndex], delimiter).map(c => c.toUpperCase());
+  const at = (cells: string[], name: string) => { const i = cols.indexOf(name); return i >= 0 ? cells[i] : undefined; };
+
+  all.forEach((row, i) => {
+    if (i <= headerIndex || !row.trim()) return;
+    const cells = splitDelimited(row, delimiter);
+    const parsed = readNumbers({ NOMINAL: at(cells, 'NOMINAL'), '+TOL': at(cells, '+TOL'), '-TOL': at(cells, '-TOL'), MEAS: at(cells, 'MEAS') });
+    if ('reason' in parsed) { rows.reject(i + 1, row.trim(), parsed.reason); return; }
+    const { NOMINAL: nominal, '+TOL': plus, '-TOL': minus, MEAS: meas } = parsed.values;
+    const out = parseNumber(at(cells, 'OUTTOL'));
+    rows.add(buildFeature({
+      featureId: at(cells, 'FEATURE') || at(cells, 'DIMENSION') || 'Feature',
+      axis: at(cells, 'AX'),
+      nominal,
+      actual: meas,
+      deviation: parseNumber(at(cells, 'DEV')),
+      loTol: -minus,
+      upTol: plus,
+      outTol: out !== undefined ? (out > 0 ? 1 : 0) : undefined
+    }), i + 1, row.trim());
+  });
+};
+
+export const pcDmisImporter: ReportImporter = {
+  id: 'pc-dmis',
+  name: 'PC-DMIS (text / CSV)',
+  extensions: ['.txt', '.rtf', '.csv'],
+
+  detect: (text) => {
+    const all = lines(text);
+    if (all.some(l => TABLE_HEADER.test(l.trim())) && all.some(l => DIM_LINE.test(l.trim()))) return 0.95;
+    if (findCsvHeader(all.slice(0, 40)) >= 0) return 0.9;
+    return /PC-DMIS/i.test(text) ? 0.4 : 0;
+  },
+
+  parse: (text) => {
+    const header = readProcessFields(text, PROCESS_KEYS, readHeaderFields(text, HEADER_KEYS, emptyHeader()));
+    const all = lines(text);
+    const csvHeader = findCsvHeader(all.slice(0, 40));
+    const rows = createRowCollector('pc-dmis');
+    if (csvHeader >= 0 && !all.some(l => TABLE_HEADER.test(l.trim()))) parseCsv(all, csvHeader, rows);
+    else parseText(text, rows);
+    return rows.finish(header);
+  }
+};
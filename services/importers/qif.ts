@@ -0,0 +1,93 @@
+import { buildFeature, createRowCollector, emptyHeader, parseNumber, type ReportImporter } from './common';
+import { child, childText, findAll, findFirst, parseXml, type XmlNode } from './xml';
+
+/**
+ * QIF 3 results documents. A measured characteristic is resolved through the QIF chain
+ * Measurement → CharacteristicItem → CharacteristicNominal → CharacteristicDefinition (tolerance),
+ * and the item's first FeatureItem supplies the feature name. Size characteristics carry a TargetValue
+ * and a +/- Tolerance; geometric ones (flatness, position, ...) a zone width measured from zero.
+ */
+
+const AXIS_BY_TYPE: [RegExp, string][] = [
+  [/^Diameter/, 'D'], [/^Radius/, 'R'], [/^Angl/, 'A'],
+  [/^(Distance|Length|Width|Height|Depth|Thickness)/, 'S']
+];
+
+const byId = (root: XmlNode, suffix: string) => {
+  const map = new Map<string, XmlNode>();
+  findAll(root, n => n.endsWith(suffix)).forEach(n => { if (n.attrs.id) map.set(n.attrs.id, n); });
+  return map;
+};
+
+const typeOf = (node: XmlNode, suffix: string) => node.name.slice(0, node.name.length - suffix.length);
+
+// Limits relative to nominal; QIF may also state them as absolute limits (DefinedAsLimit)
+const toleranceOf = (definition: XmlNode | undefined, target: number) => {
+  const tol = child(definition, 'Tolerance');
+  if (tol) {
+    let lo = parseNumber(childText(tol, 'MinValue')) ?? 0;
+    let up = parseNumber(childText(tol, 'MaxValue')) ?? 0;
+    if (childText(tol, 'DefinedAsLimit') === 'true') { lo -= target; up -= target; }
+    return { loTol: lo, upTol: up };
+  }
+  return { loTol: 0, upTol: parseNumber(childText(definition, 'ToleranceValue')) ?? 0 };
+};
+
+const headerText = (root: XmlNode, names: string[]) => {
+  for (const name of names) {
+    const node = findFirst(root, name);
+    const value = node && (childText(node, 'Name') || node.text.trim());
+    if (value) return value;
+  }
+  return undefined;
+};
+
+export const qifImporter: ReportImporter = {
+  id: 'qif',
+  name: 'QIF 3 Results (XML)',
+  extensions: ['.qif', '.xml'],
+
+  detect: (text) => /<(\w+:)?QIFDocument[\s>]/.test(text) ? (/MeasurementResults/.test(text) ? 0.98 : 0.6) : 0,
+
+  parse: (text) => {
+    const root = parseXml(text);
+    const definitions = byId(root, 'CharacteristicDefinition');
+    const nominals = byId(root, 'CharacteristicNominal');
+    const items = byId(root, 'CharacteristicItem');
+    const featureItems = byId(root, 'FeatureItem');
+
+    const part = findFirst(root, 'Part');
+    const header = emptyHeader();
+    header.partId = childText(part, 'PartNumber') || childText(part, 'Name') || "";
+    header.serial = headerText(root, ['SerialNumber']);
+    header.operator = headerText(root, ['InspectionOperator', 'Operator']);
+    header.machine = headerText(root, ['MeasurementDevice', 'MeasurementResource']);
+    header.date = headerText(root, ['InspectionStart', 'ActualStart', 'CreationDate']);
+
+    const rows = createRowCollector('qif');
+    findAll(root, n => n.endsWith('CharacteristicMeasurement')).forEach(measurement => {
+      // XML has no meaningful line structure; the element and its id identify the row instead
+      const raw = `<${measurement.name} id="${measurement.attrs.id ?? ''}">`;
+      const value = parseNumber(childText(measurement, 'Value'));
+      const item = items.get(childText(measurement, 'CharacteristicItemId') || '');
+      if (value === undefined) { rows.reject(0, raw, `Value '${childText(measurement, 'Value') ?? ''}' is not a number`); return; }
+      if (!item) { rows.reject(0, raw, `CharacteristicItem ${childText(measurement, 'CharacteristicItemId') ?? '(none)'} not found`); return; }
+      const nominal = nominals.get(childText(item, 'CharacteristicNominalId') || '');
+      const definition = definitions.get(childText(nominal, 'CharacteristicDefinitionId') || '');
+      const target = parseNumber(childText(nominal, 'TargetValue')) ?? 0;
+      const featureItem = featureItems.get(childText(child(item, 'FeatureItemIds'), 'Id') || '');
+      const type = typeOf(item, 'CharacteristicItem');
+      const status = childText(child(measurement, 'Status'), 'CharacteristicStatusEnum');
+
+      rows.add(buildFeature({
+        featureId: (childText(featureItem, 'FeatureName') || childText(item, 'Name') || type).replace(/\s+/g, '_'),
+        axis: AXIS_BY_TYPE.find(([re]) => re.test(type))?.[1] || 'D',
+        nominal: target,
+        actual: value,
+        ...toleranceOf(definition, target),
+        outTol: status ? (status === 'FAIL' ? 1 : 0) : undefined
+      }), 0, raw);
+    });
+    return rows.finish(header);
+  }
+};
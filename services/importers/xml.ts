@@ -0,0 +1,59 @@
+/**
+ * Minimal XML reader for importers. DOMParser only exists in browsers; this keeps importers usable from
+ * Node as well. Namespace prefixes are dropped, entities are decoded, DTDs are not supported.
+ */
+
+export interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const decode = (s: string) => s
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCharCode(parseInt(n, 16)))
+  .replace(/&amp;/g, '&');
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+export const parseXml = (text: string): XmlNode => {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = token.exec(text))) {
+    const top = stack[stack.length - 1];
+    if (m[1] !== undefined) top.text += m[1];
+    else if (m[2] !== undefined) {
+      if (stack.length > 1 && top.name === localName(m[2])) stack.pop();
+      else throw new Error(`Malformed XML: unexpected </${m[2]}>`);
+    } else if (m[3] !== undefined) {
+      const attrs: Record<string, string> = {};
+      for (const a of m[4].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) attrs[localName(a[1])] = decode(a[2] ?? a[3] ?? '');
+      const node: XmlNode = { name: localName(m[3]), attrs, children: [], text: '' };
+      top.children.push(node);
+      if (!m[5]) stack.push(node);
+    } else if (m[6] !== undefined) top.text += decode(m[6]);
+  }
+  if (stack.length > 1) throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is not closed`);
+  return root;
+};
+
+// --- Queries ---
+
+export const child = (node: XmlNode | undefined, name: string) => node?.children.find(c => c.name === name);
+
+export const childText = (node: XmlNode | undefined, name: string) => child(node, name)?.text.trim();
+
+// Depth-first search for every element whose name satisfies `match`
+export const findAll = (node: XmlNode, match: (name: string) => boolean, out: XmlNode[] = []): XmlNode[] => {
+  node.children.forEach(c => {
+    if (match(c.name)) out.push(c);
+    findAll(c, match, out);
+  });
+  return out;
+};
+
+export const findFirst = (node: XmlNode, name: string): XmlNode | undefined => findAll(node, n => n === name)[0];
@@ -0,0 +1,96 @@
+import type { ImportDiagnostic, InspectionRecord } from '../types';
+import type { Disposition } from './pipeline';
+
+/**
+ * LINE FEED
+ * Wire format of the local inspection service (`inspect-os serve`) and the browser side of its live channel.
+ * The service classifies reports as the CMMs drop them into the watched share; the station subscribes over
+ * WebSocket and turns into a line monitor.
+ */
+
+// --- Wire Format ---
+
+export interface ServiceRecord extends InspectionRecord {
+  id: number;
+  disposition: Disposition;
+  format: string;
+  diagnostics: ImportDiagnostic[];
+  // Watched-folder origin; a file is inspected again only when its modification time changes
+  file?: { path: string, modified: number };
+}
+
+export type LiveMessage =
+  | { type: 'hello', inspections: number, watching?: string }
+  | { type: 'inspection', record: ServiceRecord }
+  | { type: 'error', source: string, error: string, timestamp: number };
+
+export const DEFAULT_SERVICE_PORT = 8787;
+export const DEFAULT_SERVICE_URL = `ws://localhost:${DEFAULT_SERVICE_PORT}/live`;
+
+// The station's local history has its own ids
+export const toInspectionRecord = ({ id, disposition, format, diagnostics, file, ...record }: ServiceRecord): InspectionRecord => record;
+
+// "ws://host:8787/live" → "http://host:8787"
+export const serviceHttpBase = (url: string) => {
+  const parsed = new URL(url);
+  parsed.protocol = parsed.protocol === 'wss:' ? 'https:' : 'http:';
+  return parsed.origin;
+};
+
+// --- Client ---
+
+export type FeedStatus = 'connecting' | 'live' | 'retrying' | 'closed';
+
+export interface FeedHandlers {
+  onMessage: (message: LiveMessage) => void;
+  onStatus: (status: FeedStatus, detail?: string) => void;
+}
+
+const RETRY_MS = [1000, 2000, 5000, 10000, 30000];
+
+// Reconnects with back-off until closed: the service restarting must not leave the monitor silently stale
+export const connectLineFeed = (url: string, handlers: FeedHandlers) => {
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const open = () => {
+    handlers.onStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      handlers.onStatus('closed', err instanceof Error ? err.message : String(err));
+      return;
+    }
+    socket.onopen = () => { attempt = 0; handlers.onStatus('live'); };
+    socket.onmessage = (ev) => {
+      try {
+        handlers.onMessage(JSON.parse(ev.data as string) as LiveMessage);
+      } catch {
+        // A malformed frame is dropped; the next record still arrives
+      }
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      const delay = RETRY_MS[Math.min(attempt++, RETRY_MS.length - 1)];
+      handlers.onStatus('retrying', `reconnecting in ${delay / 1000}s`);
+      timer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+  return () => {
+    closed = true;
+    clearTimeout(timer);
+    socket?.close();
+    handlers.onStatus('closed');
+  };
+};
+
+// Backlog on connect, newest first
+export const fetchRecentInspections = async (url: string, limit = 50): Promise<ServiceRecord[]> => {
+  const response = await fetch(`${serviceHttpBase(url)}/inspections?limit=${limit}`);
+  if (!response.ok) throw new Error(`Inspection service returned ${response.status}`);
+  return response.json();
+};
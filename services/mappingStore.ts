@@ -0,0 +1,15 @@
+import type { CsvColumnMapping } from './importers';
+import { STORES, withStore } from './db';
+
+// --- CSV Column Mappings (one per header layout) ---
+
+export const MappingStore = {
+  listAll: (): Promise<CsvColumnMapping[]> =>
+    withStore(STORES.csvMappings, 'readonly', store => store.getAll() as IDBRequest<CsvColumnMapping[]>),
+
+  save: (mapping: CsvColumnMapping): Promise<IDBValidKey> =>
+    withStore(STORES.csvMappings, 'readwrite', store => store.put(mapping)),
+
+  remove: (signature: string): Promise<undefined> =>
+    withStore(STORES.csvMappings, 'readwrite', store => store.delete(signature))
+};
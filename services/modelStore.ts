@@ -0,0 +1,17 @@
+import type { SoftmaxModel } from './statModel';
+import { STORES, withStore } from './db';
+
+// --- Active Model Slot ---
+
+const ACTIVE_KEY = 'active';
+
+export const ModelStore = {
+  getActive: (): Promise<SoftmaxModel | undefined> =>
+    withStore(STORES.models, 'readonly', store => store.get(ACTIVE_KEY) as IDBRequest<SoftmaxModel | undefined>),
+
+  setActive: (model: SoftmaxModel): Promise<IDBValidKey> =>
+    withStore(STORES.models, 'readwrite', store => store.put(model, ACTIVE_KEY)),
+
+  clearActive: (): Promise<undefined> =>
+    withStore(STORES.models, 'readwrite', store => store.delete(ACTIVE_KEY))
+};
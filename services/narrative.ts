@@ -0,0 +1,246 @@
+import type { CMMFeature, EngineeredMetrics, MLResponse, ReportHeader } from '../types';
+import { LABELS } from './ruleEngine';
+import { describeExcursion } from './processCorrelation';
+import { formatProcess, PROCESS_PARAMETERS } from './traceability';
+
+/**
+ * NARRATIVE ASSISTANT
+ * Drafts the 8D write-up of an inspection: problem description (D2), containment (D3), probable root cause (D4)
+ * and corrective actions (D5). Providers only write prose. The label and severity on a draft are always copied
+ * from the engine's verdict, and a draft that names a defect the engine did not find is rejected.
+ *
+ * The template provider is deterministic and needs no network, for offline stations and tests. The Gemini
+ * provider is registered by the UI when the build has an API key.
+ */
+
+export interface NarrativeInput {
+  result: MLResponse;
+  metrics: EngineeredMetrics;
+  header: ReportHeader;
+  // Most tolerance-consuming rows first
+  deviations: CMMFeature[];
+}
+
+export interface EightDDraft {
+  // From the engine, never from the provider
+  label: MLResponse['Label'];
+  severity: MLResponse['Severity'];
+  problem: string;
+  containment: string;
+  rootCause: string;
+  correctiveActions: string[];
+  provider: string;
+}
+
+// What a provider writes; draftNarrative adds the verdict
+export type DraftProse = Pick<EightDDraft, 'problem' | 'containment' | 'rootCause' | 'correctiveActions'>;
+
+export interface NarrativeProvider {
+  id: string;
+  label: string;
+  // Works without a network connection
+  offline: boolean;
+  draft: (input: NarrativeInput) => Promise<DraftProse>;
+}
+
+export class NarrativeError extends Error {}
+
+export const TOP_DEVIATIONS = 5;
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// --- Input ---
+
+// Share of the tolerance band a deviation uses, on its own side
+const toleranceUsed = (f: CMMFeature) => {
+  const band = f.deviation >= 0 ? f.upTol : -f.loTol;
+  return band > 0 ? Math.abs(f.deviation) / band : Infinity;
+};
+
+export const topDeviations = (features: CMMFeature[], count = TOP_DEVIATIONS) =>
+  features
+    .map((f, i) => ({ f, i, used: toleranceUsed(f) }))
+    .sort((a, b) => b.used - a.used || a.i - b.i)
+    .slice(0, count)
+    .map(({ f }) => f);
+
+export const narrativeInput = (result: MLResponse, metrics: EngineeredMetrics, header: ReportHeader, features: CMMFeature[]): NarrativeInput =>
+  ({ result, metrics, header, deviations: topDeviations(features) });
+
+// --- Shared Wording ---
+
+const labelName = (label: MLResponse['Label']) => label.replace('_', ' ').toLowerCase();
+
+const formatDeviation = (f: CMMFeature) =>
+  `${f.featureId}.${f.axis} ${f.deviation >= 0 ? '+' : ''}${f.deviation.toFixed(3)}mm (tol ${f.loTol}/+${f.upTol}${f.outTol ? ', OOT' : ''})`;
+
+const traceability = (header: ReportHeader) => [
+  header.serial && `S/N ${header.serial}`,
+  header.dieId && `die ${header.dieId}`,
+  header.cavity && `cavity ${header.cavity}`,
+  header.shot && `shot ${header.shot}`,
+  header.machine && `measured on ${header.machine}`,
+  header.operator && `by ${header.operator}`,
+  header.date && `at ${header.date}`
+].filter(Boolean).join(', ');
+
+// --- Template Provider ---
+
+const CONTAINMENT: Record<MLResponse['Severity'], (where: string) => string> = {
+  Critical: where => `Quarantine all parts${where} back to the last part measured good and sort them with a full CMM check. Stop the cell until the cause is confirmed.`,
+  Moderate: where => `Hold parts${where} and re-measure a sample of five before release. Keep the cell running with first-off checks each shift.`,
+  Minor: where => `No hold required. Raise the sampling frequency on parts${where} until two consecutive samples pass.`
+};
+
+const draftFromTemplate = ({ result, metrics, header, deviations }: NarrativeInput): DraftProse => {
+  const defect = result.Label !== 'Good';
+  const trace = traceability(header);
+  const where = [header.dieId && ` from die ${header.dieId}`, header.cavity && ` cavity ${header.cavity}`, header.shot && ` around shot ${header.shot}`].filter(Boolean).join('');
+  const gdtFailing = (result.Gdt || []).filter(r => r.status === 'fail').map(r => r.id);
+
+  const problem = [
+    `Part ${result.Part_ID}${trace ? ` (${trace})` : ''} was classified ${labelName(result.Label)}, ${result.Severity.toLowerCase()} severity, at ${result.Confidence.toFixed(0)}% confidence${result.Needs_Review ? ', pending inspector review' : ''}.`,
+    `${metrics.oot_count} feature row(s) out of tolerance${metrics.ctq_oot_count ? `, ${metrics.ctq_oot_count} of them critical to quality` : ''}.`,
+    deviations.length ? `Largest deviations: ${deviations.map(formatDeviation).join('; ')}.` : '',
+    gdtFailing.length ? `GD&T characteristics failing: ${gdtFailing.join(', ')}.` : ''
+  ].filter(Boolean).join(' ');
+
+  const excursions = result.Process_Excursions || [];
+  const cofindings = (result.Findings || []).filter(f => f.Label !== result.Label);
+  const rootCause = [
+    result.Root_Cause,
+    excursions.length ? `Shot data for this part: ${excursions.map(describeExcursion).join('; ')}.` : header.process ? `Recorded shot parameters (${formatProcess(header.process)}) were within the rule set's process windows.` : '',
+    result.Baseline && result.Baseline.pattern !== 'within_band'
+      ? `Against the golden baseline of cavity ${result.Baseline.cavity}, ${result.Baseline.exceeded} of ${result.Baseline.matched} features left their band (${result.Baseline.pattern === 'drift' ? 'a uniform drift' : 'localized'}).`
+      : '',
+    cofindings.length ? `Co-occurring signatures: ${cofindings.map(f => `${labelName(f.Label)} on ${[...new Set(f.Features.map(x => x.featureId))].join(', ')}`).join('; ')}.` : ''
+  ].filter(Boolean).join(' ');
+
+  const correctiveActions = defect
+    ? [
+      result.Recommended_Action,
+      ...excursions.map(e => `Bring ${PROCESS_PARAMETERS.find(p => p.key === e.parameter)?.label.toLowerCase() ?? e.parameter} back into its process window and record the setting change.`),
+      `Verify effectiveness: the next parts${where} measure free of ${labelName(result.Label)} on ${deviations.slice(0, 3).map(f => f.featureId).join(', ') || 'the affected features'}.`
+    ]
+    : [result.Recommended_Action];
+
+  return {
+    problem,
+    containment: defect ? CONTAINMENT[result.Severity](where) : 'None required: the part is within its dimensional signature.',
+    rootCause,
+    correctiveActions
+  };
+};
+
+export const TEMPLATE_PROVIDER: NarrativeProvider = {
+  id: 'template',
+  label: 'Template (offline)',
+  offline: true,
+  draft: async input => draftFromTemplate(input)
+};
+
+// --- Gemini Provider ---
+
+const SYSTEM_INSTRUCTION = `You are a die-casting quality engineer writing the 8D report of one CMM inspection.
+The inspection engine's verdict (defect label and severity) is final: do not change it, question it or suggest another defect.
+Use only the measurements and traceability data you are given; do not invent shot parameters, dates or part history.
+Write plain, specific prose for the shop floor. Corrective actions are short imperative sentences.`;
+
+const DRAFT_SCHEMA = {
+  type: 'object',
+  properties: {
+    problem: { type: 'string', description: 'D2 problem description: what, where, when, how much' },
+    containment: { type: 'string', description: 'D3 interim containment actions' },
+    rootCause: { type: 'string', description: 'D4 probable root cause, consistent with the engine verdict' },
+    correctiveActions: { type: 'array', items: { type: 'string' }, description: 'D5 permanent corrective actions' }
+  },
+  required: ['problem', 'containment', 'rootCause', 'correctiveActions']
+};
+
+export const narrativePrompt = ({ result, metrics, header, deviations }: NarrativeInput) => JSON.stringify({
+  verdict: { label: result.Label, severity: result.Severity, confidence: Math.round(result.Confidence), needsReview: !!result.Needs_Review },
+  engineRootCause: result.Root_Cause,
+  engineAction: result.Recommended_Action,
+  part: { partId: result.Part_ID, ...header },
+  outOfTolerance: metrics.oot_count,
+  topDeviations: deviations.map(f => ({ feature: f.featureId, axis: f.axis, deviation: f.deviation, loTol: f.loTol, upTol: f.upTol, section: f.sectionType })),
+  processExcursions: (result.Process_Excursions || []).map(describeExcursion),
+  gdtFailing: (result.Gdt || []).filter(r => r.status === 'fail').map(r => ({ id: r.id, type: r.type, value: r.value, tolerance: r.tolerance })),
+  baseline: result.Baseline && { pattern: result.Baseline.pattern, exceeded: result.Baseline.exceeded, matched: result.Baseline.matched },
+  coFindings: (result.Findings || []).filter(f => f.Label !== result.Label).map(f => f.Label)
+}, null, 2);
+
+export const parseDraft = (text: string): DraftProse => {
+  let parsed: Partial<DraftProse>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new NarrativeError('The assistant did not return JSON');
+  }
+  const missing: string[] = (['problem', 'containment', 'rootCause'] as const).filter(k => typeof parsed[k] !== 'string' || !parsed[k]!.trim());
+  if (!Array.isArray(parsed.correctiveActions) || !parsed.correctiveActions.every(a => typeof a === 'string')) missing.push('correctiveActions');
+  if (missing.length) throw new NarrativeError(`The assistant's draft is missing ${missing.join(', ')}`);
+  return { problem: parsed.problem!, containment: parsed.containment!, rootCause: parsed.rootCause!, correctiveActions: parsed.correctiveActions! };
+};
+
+// The SDK is only loaded when a draft is requested, so offline stations and the CLI never pull it in
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL): NarrativeProvider => ({
+  id: 'gemini',
+  label: `Gemini (${model})`,
+  offline: false,
+  draft: async input => {
+    const { GoogleGenAI } = await import('@google/genai');
+    const response = await new GoogleGenAI({ apiKey }).models.generateContent({
+      model,
+      contents: narrativePrompt(input),
+      config: { systemInstruction: SYSTEM_INSTRUCTION, responseMimeType: 'application/json', responseJsonSchema: DRAFT_SCHEMA, temperature: 0.2 }
+    });
+    return parseDraft(response.text ?? '');
+  }
+});
+
+// --- Registry ---
+
+const registry: NarrativeProvider[] = [TEMPLATE_PROVIDER];
+
+// A later registration with the same id replaces the earlier one
+export const registerNarrativeProvider = (provider: NarrativeProvider) => {
+  const i = registry.findIndex(p => p.id === provider.id);
+  if (i >= 0) registry.splice(i, 1, provider);
+  else registry.push(provider);
+};
+
+export const listNarrativeProviders = (): NarrativeProvider[] => [...registry];
+
+// --- Drafting ---
+
+const namedLabels = (texts: string[]) => {
+  const text = texts.join(' ').toLowerCase().replace(/_/g, ' ');
+  return LABELS.filter(l => l !== 'Good' && l !== 'Other_Defect' && text.includes(labelName(l)));
+};
+
+// Defect labels anywhere in the prose other than the verdict, the engine's own co-occurring findings and
+// those its recommended action names (the runner-up of a verdict routed to review)
+export const conflictingLabels = (prose: DraftProse, result: MLResponse) => {
+  const allowed = new Set<MLResponse['Label']>([result.Label, ...(result.Findings || []).map(f => f.Label), ...namedLabels([result.Recommended_Action])]);
+  return namedLabels([prose.problem, prose.containment, prose.rootCause, ...prose.correctiveActions]).filter(l => !allowed.has(l));
+};
+
+export const draftNarrative = async (provider: NarrativeProvider, input: NarrativeInput): Promise<EightDDraft> => {
+  const prose = await provider.draft(input);
+  const conflicts = conflictingLabels(prose, input.result);
+  if (conflicts.length) {
+    throw new NarrativeError(`${provider.label} named ${conflicts.map(labelName).join(', ')}; the engine's verdict is ${labelName(input.result.Label)}. Draft discarded.`);
+  }
+  return { label: input.result.Label, severity: input.result.Severity, ...prose, provider: provider.id };
+};
+
+export const draftToText = (draft: EightDDraft, partId: string) => [
+  `8D DRAFT — ${partId}`,
+  `Verdict: ${draft.label.replace('_', ' ')} (${draft.severity})`,
+  '',
+  'D2 Problem description', draft.problem, '',
+  'D3 Containment', draft.containment, '',
+  'D4 Probable root cause', draft.rootCause, '',
+  'D5 Corrective actions', ...draft.correctiveActions.filter(a => a.trim()).map((a, i) => `${i + 1}. ${a}`), '',
+  `Drafted by: ${draft.provider}. Review before release.`
+].join('\n');
@@ -0,0 +1,210 @@
+import type { CMMFeature, EngineeredMetrics, MLResponse, MrbDisposition, NcrAttachment, NcrEvent, NcrStatus, Nonconformance, ReportHeader } from '../types';
+import { buildCertificate, certificateToJson } from './certificate';
+import { csvCell } from './csv';
+
+/**
+ * NONCONFORMANCE RECORDS (NCR) AND MRB DISPOSITION
+ * A part the engine did not accept becomes an NCR carrying its report and the engine output. The record then
+ * moves one step at a time through containment and the material review board (MRB) to a disposition and is
+ * closed. Every change is appended to the record's audit log with who made it and when; the log is never
+ * edited. Actions return a new record, or the reasons the change is not allowed.
+ */
+
+export const NCR_STATUSES: { id: NcrStatus, label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'containment', label: 'Containment' },
+  { id: 'mrb_review', label: 'MRB Review' },
+  { id: 'dispositioned', label: 'Dispositioned' },
+  { id: 'closed', label: 'Closed' }
+];
+
+export const MRB_DISPOSITIONS: { id: MrbDisposition, label: string }[] = [
+  { id: 'scrap', label: 'Scrap' },
+  { id: 'rework', label: 'Rework' },
+  { id: 'use_as_is', label: 'Use As Is' },
+  { id: 'return_to_supplier', label: 'Return To Supplier' }
+];
+
+// Open NCRs by time since they were raised
+export const AGE_BUCKETS: { label: string, maxDays: number }[] = [
+  { label: '< 1 day', maxDays: 1 },
+  { label: '1–7 days', maxDays: 7 },
+  { label: '7–30 days', maxDays: 30 },
+  { label: '> 30 days', maxDays: Infinity }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type NcrChange = { ncr: Nonconformance | null, errors: string[] };
+
+export const statusLabel = (s: NcrStatus) => NCR_STATUSES.find(x => x.id === s)!.label;
+export const dispositionLabel = (d: MrbDisposition) => MRB_DISPOSITIONS.find(x => x.id === d)!.label;
+
+export const nextStatus = (s: NcrStatus): NcrStatus | null => {
+  const i = NCR_STATUSES.findIndex(x => x.id === s);
+  return NCR_STATUSES[i + 1]?.id ?? null;
+};
+
+export const isOpen = (ncr: Nonconformance) => ncr.status !== 'closed';
+
+// --- Raising ---
+
+export const shouldRaiseNcr = (result: MLResponse) => result.Label !== 'Good';
+
+// The open NCR already raised for this report, if any
+export const findOpenNcr = (ncrs: Nonconformance[], inspection: { source: string, header: ReportHeader }) =>
+  ncrs.find(n => isOpen(n) && n.source === inspection.source && n.header.partId === inspection.header.partId && n.header.serial === inspection.header.serial);
+
+export const ncrId = (createdAt: number) => {
+  const d = new Date(createdAt);
+  const date = `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+  return `NCR-${date}-${createdAt.toString(36).slice(-5).toUpperCase()}`;
+};
+
+export const createNcr = (
+  inspection: { source: string, format?: string, header: ReportHeader, features: CMMFeature[], metrics: EngineeredMetrics, result: MLResponse },
+  options: { by: string, reportText?: string, now?: number }
+): NcrChange => {
+  const { result, source } = inspection;
+  const by = options.by.trim();
+  const errors: string[] = [];
+  if (!shouldRaiseNcr(result)) errors.push('The engine accepted this part; there is nothing to raise');
+  if (!by) errors.push('Name or badge is required');
+  if (errors.length) return { ncr: null, errors };
+
+  const now = options.now ?? Date.now();
+  const added = { addedAt: now, addedBy: by };
+  const attachments: NcrAttachment[] = [
+    ...(options.reportText ? [{ name: source, mimeType: 'text/plain', kind: 'report' as const, content: options.reportText, encoding: 'text' as const, ...added }] : []),
+    { name: `${source}.certificate.json`, mimeType: 'application/json', kind: 'engine', content: certificateToJson(buildCertificate(inspection, { issuedAt: new Date(now) })), encoding: 'text', ...added }
+  ];
+  return {
+    ncr: {
+      id: ncrId(now),
+      partId: inspection.header.partId || result.Part_ID,
+      source,
+      header: inspection.header,
+      label: result.Label,
+      severity: result.Severity,
+      confidence: result.Confidence,
+      description: `${result.Label.replace('_', ' ')} (${result.Severity}, ${result.Confidence.toFixed(0)}%). ${result.Root_Cause}`,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+      comments: [],
+      attachments,
+      events: [{ at: now, by, action: 'created', to: 'open', note: `Raised from ${source}` }]
+    },
+    errors: []
+  };
+};
+
+// --- Actions ---
+
+// Shared checks, then the change with its audit entry appended
+const change = (ncr: Nonconformance, by: string, now: number, problems: string[], apply: (by: string) => { patch: Partial<Nonconformance>, event: Omit<NcrEvent, 'at' | 'by'> }, allowClosed = false): NcrChange => {
+  const actor = by.trim();
+  const errors = [
+    ...(!actor ? ['Name or badge is required'] : []),
+    ...(!allowClosed && ncr.status === 'closed' ? [`${ncr.id} is closed`] : []),
+    ...problems
+  ];
+  if (errors.length) return { ncr: null, errors };
+  const { patch, event } = apply(actor);
+  return { ncr: { ...ncr, ...patch, updatedAt: now, events: [...ncr.events, { at: now, by: actor, ...event }] }, errors: [] };
+};
+
+/**
+ * One step forward. Containment needs an owner; leaving MRB review needs a disposition, and use as is
+ * a note with the justification (concession or customer deviation).
+ */
+export const advanceNcr = (ncr: Nonconformance, options: { by: string, disposition?: MrbDisposition, note?: string }, now = Date.now()): NcrChange => {
+  const to = nextStatus(ncr.status);
+  const note = options.note?.trim();
+  const problems: string[] = [];
+  if (to === 'containment' && !ncr.owner) problems.push('Assign an owner before containment');
+  if (to === 'dispositioned') {
+    if (!options.disposition) problems.push('Choose the MRB disposition');
+    else if (options.disposition === 'use_as_is' && !note) problems.push('Use as is needs a justification note');
+  }
+  return change(ncr, options.by, now, problems, () => ({
+    patch: {
+      status: to!,
+      ...(to === 'dispositioned' ? { disposition: options.disposition } : {}),
+      ...(to === 'closed' ? { closedAt: now } : {})
+    },
+    event: {
+      action: 'status',
+      from: ncr.status,
+      to: to!,
+      ...(note || to === 'dispositioned' ? { note: [to === 'dispositioned' && dispositionLabel(options.disposition!), note].filter(Boolean).join(': ') } : {})
+    }
+  }));
+};
+
+export const assignNcr = (ncr: Nonconformance, owner: string, by: string, now = Date.now()): NcrChange => {
+  const name = owner.trim();
+  const problems = !name ? ['Owner is required'] : name === ncr.owner ? [`${ncr.id} is already assigned to ${name}`] : [];
+  return change(ncr, by, now, problems, () => ({
+    patch: { owner: name },
+    event: { action: 'owner', ...(ncr.owner ? { from: ncr.owner } : {}), to: name }
+  }));
+};
+
+// Comments are still taken once an NCR is closed
+export const commentNcr = (ncr: Nonconformance, text: string, by: string, now = Date.now()): NcrChange => {
+  const body = text.trim();
+  return change(ncr, by, now, body ? [] : ['Comment is empty'], actor => ({
+    patch: { comments: [...ncr.comments, { at: now, by: actor, text: body }] },
+    event: { action: 'comment' }
+  }), true);
+};
+
+export const attachToNcr = (ncr: Nonconformance, attachment: Omit<NcrAttachment, 'addedAt' | 'addedBy'>, by: string, now = Date.now()): NcrChange =>
+  change(ncr, by, now, attachment.name.trim() ? [] : ['Attachment needs a name'], actor => ({
+    patch: { attachments: [...ncr.attachments, { ...attachment, addedAt: now, addedBy: actor }] },
+    event: { action: 'attachment', to: attachment.name }
+  }));
+
+// --- Dashboard ---
+
+export const ncrAgeDays = (ncr: Nonconformance, now = Date.now()) => ((ncr.closedAt ?? now) - ncr.createdAt) / DAY_MS;
+
+const countBy = <K extends string>(ncrs: Nonconformance[], key: (n: Nonconformance) => K) => {
+  const groups = new Map<K, Nonconformance[]>();
+  ncrs.forEach(n => groups.set(key(n), [...(groups.get(key(n)) ?? []), n]));
+  return [...groups.entries()]
+    .map(([k, items]) => ({ key: k, count: items.length, oldest: Math.min(...items.map(n => n.createdAt)) }))
+    .sort((a, b) => b.count - a.count || a.oldest - b.oldest);
+};
+
+export const summarizeNcrs = (ncrs: Nonconformance[], now = Date.now()) => {
+  const open = ncrs.filter(isOpen);
+  return {
+    open: open.length,
+    byStatus: NCR_STATUSES.map(s => ({ status: s.id, count: ncrs.filter(n => n.status === s.id).length })),
+    byPart: countBy(open, n => n.partId),
+    byLabel: countBy(open, n => n.label),
+    byAge: AGE_BUCKETS.map((b, i) => ({
+      label: b.label,
+      count: open.filter(n => {
+        const age = ncrAgeDays(n, now);
+        return age < b.maxDays && age >= (AGE_BUCKETS[i - 1]?.maxDays ?? 0);
+      }).length
+    }))
+  };
+};
+
+// --- CSV ---
+
+// One row per NCR, for import into the plant quality system
+export const ncrsToCsv = (ncrs: Nonconformance[], now = Date.now()) => {
+  const head = ['NCR', 'Part Number', 'Serial', 'Die', 'Cavity', 'Shot', 'Source', 'Defect', 'Severity', 'Confidence', 'Status', 'Owner', 'Disposition', 'Raised', 'Closed', 'Age (days)', 'Comments', 'Attachments', 'Description'];
+  const rows = ncrs.map(n => [
+    n.id, n.partId, n.header.serial, n.header.dieId, n.header.cavity, n.header.shot, n.source,
+    n.label, n.severity, n.confidence.toFixed(0), statusLabel(n.status), n.owner, n.disposition && dispositionLabel(n.disposition),
+    new Date(n.createdAt).toISOString(), n.closedAt ? new Date(n.closedAt).toISOString() : undefined, ncrAgeDays(n, now).toFixed(1),
+    n.comments.length, n.attachments.length, n.description
+  ]);
+  return [head, ...rows].map(r => r.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,13 @@
+import type { Nonconformance } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Nonconformance Records ---
+
+export const NcrStore = {
+  listAll: (): Promise<Nonconformance[]> =>
+    withStore(STORES.ncrs, 'readonly', store => store.getAll() as IDBRequest<Nonconformance[]>),
+
+  // Records are never deleted: a closed NCR stays as the quality record
+  save: (ncr: Nonconformance): Promise<IDBValidKey> =>
+    withStore(STORES.ncrs, 'readwrite', store => store.put(ncr))
+};
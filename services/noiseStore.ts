@@ -0,0 +1,15 @@
+import type { MeasurementNoise } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Measurement Noise (one Gage R&R profile per part number) ---
+
+export const NoiseStore = {
+  listAll: (): Promise<MeasurementNoise[]> =>
+    withStore(STORES.measurementNoise, 'readonly', store => store.getAll() as IDBRequest<MeasurementNoise[]>),
+
+  save: (noise: MeasurementNoise): Promise<IDBValidKey> =>
+    withStore(STORES.measurementNoise, 'readwrite', store => store.put(noise)),
+
+  remove: (partId: string): Promise<undefined> =>
+    withStore(STORES.measurementNoise, 'readwrite', store => store.delete(partId))
+};
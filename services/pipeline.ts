@@ -0,0 +1,112 @@
+import type { CMMFeature, EngineeredMetrics, FeatureMap, GoldenBaseline, ImportDiagnostic, MeasurementNoise, MLResponse, ParsedReport, ReportHeader } from '../types';
+import { selectRuleSet, type RuleSet } from './ruleEngine';
+import type { SoftmaxModel } from './statModel';
+import { calculateMetrics, LocalInferenceEngine } from './engine';
+import { compareToBaseline, selectBaseline } from './baseline';
+import { findShot, indexShots, withShotData, type ShotIndex } from './shotLog';
+import { importReport, type CsvColumnMapping } from './importers';
+import { selectFeatureMap } from './featureMap';
+import { evaluateGdt } from './gdt';
+import { selectNoise } from './gageRR';
+
+/**
+ * INSPECTION PIPELINE
+ * Report text in, verdict out: import, GD&T evaluation, feature engineering, classification and baseline comparison,
+ * with no UI or storage attached. The station UI, the CLI and automation scripts all run through here.
+ */
+
+// --- Context ---
+
+// Station configuration every inspection runs against
+export interface InspectionContext {
+  ruleSets: RuleSet[];
+  model: SoftmaxModel | null;
+  mappings: CsvColumnMapping[];
+  featureMaps: FeatureMap[];
+  baselines: GoldenBaseline[];
+  shots: ShotIndex;
+  // Gage R&R noise profiles per part number
+  noise: MeasurementNoise[];
+}
+
+// Built-in rule set and feature maps only: what a fresh station or a bare CLI call inspects with
+export const createInspectionContext = (overrides: Partial<InspectionContext> = {}): InspectionContext => ({
+  ruleSets: [],
+  model: null,
+  mappings: [],
+  featureMaps: [],
+  baselines: [],
+  shots: indexShots([]),
+  noise: [],
+  ...overrides
+});
+
+// Report date when the header carries a parseable one, otherwise the fallback (file modification time or now)
+export const reportTimestamp = (header: ReportHeader, fallback: number) => {
+  const parsed = header.date ? Date.parse(header.date) : NaN;
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+// --- Inspection ---
+
+// `header` comes back with the matching shot-log row merged in, for the history record
+export const inspectReport = (report: ParsedReport, ctx: InspectionContext) => {
+  const header = withShotData(report.header, findShot(report.header, ctx.shots));
+  const { partId, cavity } = header;
+  const characteristics = selectFeatureMap(ctx.featureMaps, partId)?.characteristics;
+  const noise = selectNoise(ctx.noise, partId);
+  const gdt = evaluateGdt(report.features, characteristics);
+  const metrics = calculateMetrics(report.features, gdt, noise);
+  // Findings score subsets of the rows; they get the same characteristics and gage noise as the whole part
+  const metricsOf = (features: CMMFeature[]) => calculateMetrics(features, evaluateGdt(features, characteristics), noise);
+  const result = LocalInferenceEngine.classify(partId, report.features, metrics, selectRuleSet(ctx.ruleSets, partId), ctx.model, header.process, metricsOf);
+  if (gdt.length) result.Gdt = gdt;
+  // The verdict stays nominal-based; the baseline delta says whether the part moved relative to its die
+  const baseline = selectBaseline(ctx.baselines, partId, cavity);
+  if (baseline) result.Baseline = compareToBaseline(baseline, report.features);
+  return { header, metrics, result };
+};
+
+export type Disposition = 'accept' | 'reject' | 'review' | 'error';
+
+// JSON-ready outcome of inspecting one report
+export interface InspectionOutcome {
+  source: string;
+  disposition: Disposition;
+  format?: string;
+  header?: ReportHeader;
+  features: CMMFeature[];
+  diagnostics: ImportDiagnostic[];
+  metrics?: EngineeredMetrics;
+  result?: MLResponse;
+  error?: string;
+}
+
+// A defect label rejects; a Good verdict the engine could not call cleanly waits for an inspector
+export const dispositionOf = (result: MLResponse): Disposition =>
+  result.Label !== 'Good' ? 'reject' : result.Needs_Review ? 'review' : 'accept';
+
+export const inspectText = (text: string, ctx: InspectionContext, options: { source: string, importerId?: string }): InspectionOutcome => {
+  const { source, importerId } = options;
+  try {
+    const report = importReport(text, { fileName: source, importerId, mappings: ctx.mappings, featureMaps: ctx.featureMaps });
+    // An empty feature list would classify as a spurious Good
+    if (report.features.length === 0) {
+      return { source, disposition: 'error', format: report.format, header: report.header, features: [], diagnostics: report.diagnostics, error: 'No measurement rows found' };
+    }
+    const { header, metrics, result } = inspectReport(report, ctx);
+    return { source, disposition: dispositionOf(result), format: report.format, header, features: report.features, diagnostics: report.diagnostics, metrics, result };
+  } catch (err) {
+    return { source, disposition: 'error', features: [], diagnostics: [], error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+// --- Exit Codes ---
+
+// For line-side automation: any reject outranks an unreadable report, which outranks a pending review
+export const EXIT_CODES: Record<Disposition, number> = { accept: 0, reject: 1, error: 2, review: 3 };
+
+export const exitCodeFor = (outcomes: InspectionOutcome[]) => {
+  const worst = (['reject', 'error', 'review'] as Disposition[]).find(d => outcomes.some(o => o.disposition === d));
+  return EXIT_CODES[worst ?? 'accept'];
+};
@@ -0,0 +1,134 @@
+import type { MLResponse, ProcessExcursion, ProcessParameters, ProcessWindow } from '../types';
+import { PROCESS_PARAMETERS } from './traceability';
+
+/**
+ * PROCESS CORRELATION
+ * Links defect labels to the shot parameters they are physically sensitive to, checks recorded shots
+ * against the rule set's process window and measures, over the inspection history, how strongly each
+ * label's rate moves with each parameter.
+ */
+
+type Label = MLResponse['Label'];
+type Parameter = keyof ProcessParameters;
+
+// --- Physics ---
+
+// Which machine settings can cause each defect class, most direct first
+export const LABEL_PARAMETERS: Record<Label, Parameter[]> = {
+  Shrinkage_Porosity: ['intensificationPressure', 'dieTemp', 'metalTemp'],
+  Gas_Porosity: ['vacuum', 'shotVelocity', 'metalTemp'],
+  Cold_Shut: ['metalTemp', 'dieTemp', 'shotVelocity'],
+  Feature_Offset: [],
+  Other_Defect: ['metalTemp', 'dieTemp', 'intensificationPressure', 'shotVelocity', 'vacuum'],
+  Good: []
+};
+
+// --- Window Checks ---
+
+const parameterInfo = (parameter: Parameter) => PROCESS_PARAMETERS.find(p => p.key === parameter)!;
+
+// How far outside the window, in window widths (or in units of the limit when only one side is set)
+const excess = (value: number, window: ProcessWindow) => {
+  const width = window.min !== undefined && window.max !== undefined ? window.max - window.min : Math.abs(window.max ?? window.min ?? 1) || 1;
+  if (window.max !== undefined && value > window.max) return (value - window.max) / width;
+  if (window.min !== undefined && value < window.min) return (window.min - value) / width;
+  return 0;
+};
+
+export const processExcursions = (
+  windows: Partial<Record<Parameter, ProcessWindow>> | undefined,
+  label: Label,
+  process: ProcessParameters | undefined
+): ProcessExcursion[] => {
+  if (!windows || !process) return [];
+  return LABEL_PARAMETERS[label]
+    .flatMap(parameter => {
+      const value = process[parameter];
+      const window = windows[parameter];
+      return value !== undefined && window && excess(value, window) > 0 ? [{ parameter, value, window }] : [];
+    })
+    .sort((a, b) => excess(b.value, b.window) - excess(a.value, a.window));
+};
+
+export const formatWindow = (parameter: Parameter, window: ProcessWindow) => {
+  const { unit } = parameterInfo(parameter);
+  if (window.min !== undefined && window.max !== undefined) return `${window.min}–${window.max} ${unit}`;
+  return window.max !== undefined ? `≤ ${window.max} ${unit}` : `≥ ${window.min} ${unit}`;
+};
+
+// "Vacuum 120 mbar above window (≤ 80 mbar)"
+export const describeExcursion = (e: ProcessExcursion) => {
+  const { label, unit } = parameterInfo(e.parameter);
+  const side = e.window.max !== undefined && e.value > e.window.max ? 'above' : 'below';
+  return `${label} ${e.value} ${unit} ${side} window (${formatWindow(e.parameter, e.window)})`;
+};
+
+// --- Correlation ---
+
+export interface ProcessObservation {
+  label: Label;
+  process: ProcessParameters;
+}
+
+export interface LabelCorrelation {
+  label: Label;
+  parameter: Parameter;
+  // Inspections that recorded the parameter
+  n: number;
+  // Point-biserial correlation between "has this label" and the parameter value; 0 when undefined
+  r: number;
+  meanWith: number;
+  meanWithout: number;
+}
+
+const pearson = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+};
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : NaN;
+
+export const labelCorrelations = (observations: ProcessObservation[], labels: Label[]): LabelCorrelation[] =>
+  labels.flatMap(label => PROCESS_PARAMETERS.map(({ key: parameter }) => {
+    const recorded = observations.filter(o => o.process[parameter] !== undefined);
+    const values = recorded.map(o => o.process[parameter]!);
+    const hits = recorded.map(o => o.label === label ? 1 : 0);
+    return {
+      label,
+      parameter,
+      n: recorded.length,
+      r: recorded.length >= 3 ? pearson(values, hits) : 0,
+      meanWith: mean(values.filter((_, i) => hits[i])),
+      meanWithout: mean(values.filter((_, i) => !hits[i]))
+    };
+  }));
+
+export interface RateBin {
+  lo: number;
+  hi: number;
+  n: number;
+  rate: number;
+}
+
+// Label rate over equal-width bins of the parameter; empty bins are dropped
+export const binnedRates = (observations: ProcessObservation[], label: Label, parameter: Parameter, bins = 6): RateBin[] => {
+  const recorded = observations.filter(o => o.process[parameter] !== undefined);
+  if (recorded.length === 0) return [];
+  const values = recorded.map(o => o.process[parameter]!);
+  const min = Math.min(...values);
+  const width = (Math.max(...values) - min) / bins || 1;
+  return Array.from({ length: bins }, (_, b) => {
+    const lo = min + b * width;
+    const hi = lo + width;
+    const inBin = recorded.filter((_, i) => Math.min(Math.floor((values[i] - min) / width), bins - 1) === b);
+    return { lo, hi, n: inBin.length, rate: inBin.length ? inBin.filter(o => o.label === label).length / inBin.length : 0 };
+  }).filter(bin => bin.n > 0);
+};
@@ -0,0 +1,124 @@
+import type { MLResponse } from '../types';
+import { ENGINE_VERSION } from './engine';
+import { inspectText, type Disposition, type InspectionContext } from './pipeline';
+
+/**
+ * REGRESSION CORPUS
+ * A versioned set of reports with the verdict each one must keep. Running the corpus yields a snapshot;
+ * diffing two snapshots (or a snapshot against the corpus expectations) lists every case whose disposition,
+ * label or severity moved, so a threshold or formula change never flips a verdict unnoticed.
+ */
+
+// --- Corpus ---
+
+export interface CaseVerdict {
+  disposition: Disposition;
+  label?: MLResponse['Label'];
+  severity?: MLResponse['Severity'];
+}
+
+export interface CorpusCase {
+  id: string;
+  // Report file, relative to the corpus directory
+  file: string;
+  description: string;
+  expected: CaseVerdict;
+}
+
+export interface Corpus {
+  // Bumped whenever an expectation is changed on purpose
+  version: number;
+  // Engine the expectations were recorded with
+  engine: string;
+  cases: CorpusCase[];
+}
+
+export interface CaseRun extends CaseVerdict {
+  id: string;
+  confidence?: number;
+  needsReview?: boolean;
+  error?: string;
+}
+
+export interface RegressionSnapshot {
+  engine: string;
+  corpusVersion: number;
+  createdAt: string;
+  runs: CaseRun[];
+}
+
+export const validateCorpus = (input: unknown): { corpus: Corpus | null, errors: string[] } => {
+  const errors: string[] = [];
+  const c = input as Partial<Corpus> | null;
+  if (!c || typeof c !== 'object') return { corpus: null, errors: ['Corpus manifest must be an object'] };
+  if (typeof c.version !== 'number') errors.push('version must be a number');
+  if (typeof c.engine !== 'string') errors.push('engine must be a string');
+  if (!Array.isArray(c.cases)) errors.push('cases must be an array');
+  const ids = new Set<string>();
+  (Array.isArray(c.cases) ? c.cases : []).forEach((k, i) => {
+    if (!k || typeof k.id !== 'string' || !k.id) { errors.push(`cases[${i}].id is required`); return; }
+    if (ids.has(k.id)) errors.push(`cases[${i}]: duplicate id '${k.id}'`);
+    ids.add(k.id);
+    if (typeof k.file !== 'string') errors.push(`${k.id}: file is required`);
+    if (!k.expected || typeof k.expected.disposition !== 'string') errors.push(`${k.id}: expected.disposition is required`);
+  });
+  return errors.length ? { corpus: null, errors } : { corpus: c as Corpus, errors };
+};
+
+// --- Running ---
+
+export const runCase = (id: string, text: string, fileName: string, ctx: InspectionContext): CaseRun => {
+  const outcome = inspectText(text, ctx, { source: fileName });
+  const r = outcome.result;
+  return r
+    ? { id, disposition: outcome.disposition, label: r.Label, severity: r.Severity, confidence: +r.Confidence.toFixed(1), needsReview: !!r.Needs_Review }
+    : { id, disposition: outcome.disposition, error: outcome.error };
+};
+
+// `readReport` resolves a case's file; the browser and Node load the corpus differently
+export const runCorpus = async (corpus: Corpus, readReport: (file: string) => Promise<string>, ctx: InspectionContext): Promise<RegressionSnapshot> => {
+  const runs: CaseRun[] = [];
+  for (const c of corpus.cases) runs.push(runCase(c.id, await readReport(c.file), c.file, ctx));
+  return { engine: ENGINE_VERSION, corpusVersion: corpus.version, createdAt: new Date().toISOString(), runs };
+};
+
+// The corpus expectations read as a snapshot of the engine version that recorded them
+export const expectedSnapshot = (corpus: Corpus): RegressionSnapshot => ({
+  engine: corpus.engine,
+  corpusVersion: corpus.version,
+  createdAt: '',
+  runs: corpus.cases.map(c => ({ id: c.id, ...c.expected }))
+});
+
+// --- Comparison ---
+
+export interface VerdictChange {
+  id: string;
+  before?: CaseVerdict;
+  after?: CaseVerdict;
+}
+
+const verdictText = (v: CaseVerdict | undefined) =>
+  !v ? '(absent)' : v.label ? `${v.disposition} ${v.label}/${v.severity}` : v.disposition;
+
+const sameVerdict = (a: CaseVerdict, b: CaseVerdict) =>
+  a.disposition === b.disposition && a.label === b.label && a.severity === b.severity;
+
+// Cases added to or dropped from the corpus count as changes too
+export const diffSnapshots = (before: RegressionSnapshot, after: RegressionSnapshot): VerdictChange[] => {
+  const previous = new Map(before.runs.map(r => [r.id, r]));
+  const current = new Map(after.runs.map(r => [r.id, r]));
+  const ids = [...new Set([...previous.keys(), ...current.keys()])];
+  return ids.flatMap(id => {
+    const b = previous.get(id), a = current.get(id);
+    return b && a && sameVerdict(b, a) ? [] : [{ id, before: b, after: a }];
+  });
+};
+
+export const formatChangeReport = (before: RegressionSnapshot, after: RegressionSnapshot, changes: VerdictChange[]) => {
+  const total = new Set([...before.runs, ...after.runs].map(r => r.id)).size;
+  const head = `${before.engine} → ${after.engine}: ${changes.length} of ${total} case${total === 1 ? '' : 's'} changed`;
+  if (changes.length === 0) return head;
+  const width = Math.max(...changes.map(c => c.id.length));
+  return [head, ...changes.map(c => `  ${c.id.padEnd(width)}  ${verdictText(c.before)}  →  ${verdictText(c.after)}`)].join('\n');
+};
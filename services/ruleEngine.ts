@@ -0,0 +1,562 @@
+import type { ConditionTrace, DecisionTrace, EngineeredMetrics, MLResponse, ProcessParameters, ProcessWindow, RuleTrace } from '../types';
+
+/**
+ * DATA-DRIVEN DEDUCTION RULES
+ * A rule set is plain JSON: per-label base scores, scoring rules (optionally nested, a child is only
+ * evaluated when its parent fired), ordered severity gates and the benchmark rows shown in the UI.
+ * Benchmarks point at a rule and metric instead of repeating a threshold, so the table and the engine
+ * always read the same number.
+ */
+
+// --- Schema ---
+
+export type MetricKey = keyof EngineeredMetrics;
+export type Comparator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type Label = MLResponse['Label'];
+export type Severity = MLResponse['Severity'];
+
+export type RuleCondition =
+  | { metric: MetricKey, op: Comparator, value: number | { metric: MetricKey }, abs?: boolean }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] };
+
+export interface RuleEffect {
+  label: Label;
+  mode: 'add' | 'set';
+  points: number;
+}
+
+export interface ScoringRule {
+  id: string;
+  description: string;
+  when: RuleCondition;
+  effects: RuleEffect[];
+  children?: ScoringRule[];
+}
+
+export interface BenchmarkDefinition {
+  title: string;
+  metric: MetricKey;
+  ruleId: string;
+  unit?: string;
+  digits?: number;
+  // Whether the referenced condition being met is the alarming outcome (true) or the healthy one (false)
+  alertWhenMet: boolean;
+  alertText: string;
+  okText: string;
+  tone: 'red' | 'orange';
+}
+
+export interface RuleSet {
+  id: string;
+  family: string;
+  version: number;
+  description: string;
+  partPatterns: string[];
+  baseScores: Record<Label, number>;
+  rules: ScoringRule[];
+  severity: { level: Severity, when: RuleCondition }[];
+  defaultSeverity: Severity;
+  confidence: { min: number, max: number };
+  calibration?: ProbabilityCalibration;
+  benchmarks: BenchmarkDefinition[];
+  // Acceptable shot parameters for the family; recorded shots outside them are cited in the recommended action
+  processWindows?: Partial<Record<keyof ProcessParameters, ProcessWindow>>;
+  updatedAt?: number;
+}
+
+export interface ProbabilityCalibration {
+  // Softmax temperature in score points: higher spreads probability across more labels
+  temperature: number;
+  // Gap between the top two probabilities below which the verdict is routed to manual review
+  reviewMargin: number;
+}
+
+export type Distribution = Record<Label, number>;
+
+export const LABELS: Label[] = ['Shrinkage_Porosity', 'Gas_Porosity', 'Cold_Shut', 'Feature_Offset', 'Other_Defect', 'Good'];
+export const SEVERITIES: Severity[] = ['Minor', 'Moderate', 'Critical'];
+export const COMPARATORS: Comparator[] = ['>', '>=', '<', '<=', '==', '!='];
+export const PROCESS_PARAMETER_KEYS: (keyof ProcessParameters)[] = ['metalTemp', 'dieTemp', 'intensificationPressure', 'shotVelocity', 'vacuum'];
+export const METRIC_KEYS: MetricKey[] = [
+  'thickness_ratio', 'std_dev', 'oot_count', 'oot_ratio', 'mean_deviation', 'directionality', 'thick_mean_dev',
+  'thin_mean_dev', 'angular_mean_abs_dev', 'abs_mean_dev', 'max_angular_dev', 'thick_count', 'thin_count',
+  'ctq_oot_count', 'thickness_dev_corr', 'zone_oot_concentration', 'fit_points', 'datum_shift', 'datum_shift_ratio',
+  'datum_rotation', 'fit_explained', 'residual_std_dev', 'residual_oot_count', 'gdt_count', 'gdt_fail_count',
+  'position_utilization', 'form_utilization', 'gage_noise'
+];
+
+// Rule sets saved before probabilities existed fall back to this
+export const DEFAULT_CALIBRATION: ProbabilityCalibration = { temperature: 8, reviewMargin: 0.2 };
+
+// --- Default Rule Set (MORPHOLOGICAL_v6 signatures) ---
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  id: 'diecast-default',
+  family: 'Generic Die-Casting',
+  version: 3,
+  description: 'Morphological v6 signatures: shrinkage, gas, cold shut, datum offset from a rigid best fit and isolated local damage.',
+  partPatterns: ['*'],
+  baseScores: { Shrinkage_Porosity: 0, Gas_Porosity: 0, Cold_Shut: 0, Feature_Offset: 0, Other_Defect: 0, Good: -1000 },
+  rules: [
+    {
+      id: 'good_gate',
+      description: 'GOOD: zero OOT, negligible scatter and nominal-centric mean',
+      when: { all: [
+        { metric: 'oot_count', op: '==', value: 0 },
+        { metric: 'std_dev', op: '<', value: 0.04 },
+        { metric: 'mean_deviation', op: '<', value: 0.05, abs: true }
+      ] },
+      effects: [{ label: 'Good', mode: 'set', points: 100 }]
+    },
+    {
+      id: 'shrinkage',
+      description: 'SHRINKAGE POROSITY: systematic contraction in heavy walls (localized, so not a global offset)',
+      when: { all: [
+        { metric: 'thickness_ratio', op: '>=', value: 1.6 },
+        { metric: 'fit_explained', op: '<', value: 0.8 }
+      ] },
+      effects: [
+        { label: 'Shrinkage_Porosity', mode: 'add', points: 80 },
+        { label: 'Feature_Offset', mode: 'add', points: -80 }
+      ],
+      children: [
+        {
+          id: 'shrinkage_contraction',
+          description: 'Heavy sections contracted beyond 0.1mm',
+          when: { metric: 'thick_mean_dev', op: '<', value: -0.1 },
+          effects: [{ label: 'Shrinkage_Porosity', mode: 'add', points: 20 }]
+        }
+      ]
+    },
+    {
+      id: 'offset_geometric',
+      description: 'FEATURE OFFSET: a rigid best-fit shift explains the positional error',
+      when: { all: [
+        { metric: 'fit_points', op: '>=', value: 3 },
+        { metric: 'fit_explained', op: '>=', value: 0.8 },
+        { metric: 'datum_shift_ratio', op: '>=', value: 0.5 }
+      ] },
+      effects: [],
+      children: [
+        {
+          id: 'offset_geometric_oot',
+          description: 'The shift pushes features out of tolerance',
+          when: { metric: 'oot_count', op: '>', value: 0 },
+          effects: [{ label: 'Feature_Offset', mode: 'add', points: 95 }]
+        },
+        {
+          id: 'offset_geometric_in_tol',
+          description: 'In-tolerance shift, still a datum to correct',
+          when: { metric: 'oot_count', op: '==', value: 0 },
+          effects: [{ label: 'Feature_Offset', mode: 'add', points: 40 }]
+        }
+      ]
+    },
+    {
+      id: 'offset',
+      description: 'FEATURE OFFSET (too few points to fit): uniform translation of the entire geometry',
+      when: { all: [
+        { metric: 'fit_points', op: '<', value: 3 },
+        { metric: 'directionality', op: '>', value: 0.88 },
+        { metric: 'thickness_ratio', op: '<', value: 1.4 }
+      ] },
+      effects: [],
+      children: [
+        {
+          id: 'offset_oot',
+          description: 'Typical offset: translation pushes features out of tolerance',
+          when: { metric: 'oot_count', op: '>', value: 0 },
+          effects: [{ label: 'Feature_Offset', mode: 'add', points: 95 }]
+        },
+        {
+          id: 'offset_in_tol',
+          description: 'In-tolerance translation with noticeable scatter',
+          when: { all: [
+            { metric: 'oot_count', op: '==', value: 0 },
+            { metric: 'std_dev', op: '>', value: 0.05 }
+          ] },
+          effects: [{ label: 'Feature_Offset', mode: 'add', points: 40 }]
+        }
+      ]
+    },
+    {
+      id: 'gas',
+      description: 'GAS POROSITY: turbulent scatter without directional bias',
+      when: { all: [
+        { metric: 'std_dev', op: '>', value: 0.15 },
+        { metric: 'directionality', op: '<', value: 0.75 }
+      ] },
+      effects: [{ label: 'Gas_Porosity', mode: 'set', points: 98 }]
+    },
+    {
+      id: 'cold_shut',
+      description: 'COLD SHUT: angular mis-fusion while heavy sections stay accurate',
+      when: { all: [
+        { metric: 'max_angular_dev', op: '>', value: 0.4 },
+        { metric: 'thickness_ratio', op: '<', value: 1.2 },
+        { any: [
+          { metric: 'oot_count', op: '==', value: 0 },
+          { all: [
+            { metric: 'oot_count', op: '>', value: 0 },
+            { metric: 'max_angular_dev', op: '>', value: { metric: 'abs_mean_dev' } }
+          ] }
+        ] }
+      ] },
+      effects: [
+        { label: 'Cold_Shut', mode: 'set', points: 96 },
+        { label: 'Feature_Offset', mode: 'add', points: -50 }
+      ]
+    },
+    {
+      id: 'other_defect',
+      description: 'OTHER DEFECT: gross error on one or two features while the rest of the part stays nominal (local damage)',
+      when: { all: [
+        { metric: 'oot_count', op: '>=', value: 1 },
+        { metric: 'oot_count', op: '<=', value: 2 },
+        { metric: 'directionality', op: '<', value: 0.85 },
+        { metric: 'std_dev', op: '>', value: { metric: 'abs_mean_dev' } }
+      ] },
+      effects: [
+        { label: 'Other_Defect', mode: 'set', points: 97 },
+        { label: 'Gas_Porosity', mode: 'add', points: -50 },
+        { label: 'Cold_Shut', mode: 'add', points: -50 }
+      ]
+    }
+  ],
+  severity: [
+    { level: 'Critical', when: { any: [
+      { metric: 'oot_ratio', op: '>', value: 0.4 },
+      { metric: 'std_dev', op: '>', value: 0.3 }
+    ] } },
+    { level: 'Moderate', when: { any: [
+      { metric: 'oot_count', op: '>', value: 0 },
+      { metric: 'std_dev', op: '>', value: 0.1 },
+      { metric: 'max_angular_dev', op: '>', value: 0.5 }
+    ] } }
+  ],
+  defaultSeverity: 'Minor',
+  confidence: { min: 5, max: 99 },
+  calibration: { temperature: 8, reviewMargin: 0.2 },
+  processWindows: {
+    metalTemp: { min: 660, max: 700 },
+    dieTemp: { min: 180, max: 250 },
+    intensificationPressure: { min: 700, max: 1000 },
+    shotVelocity: { min: 3.5, max: 5.5 },
+    vacuum: { max: 80 }
+  },
+  benchmarks: [
+    { title: 'OOT Flags', metric: 'oot_count', ruleId: 'good_gate', digits: 0, alertWhenMet: false, alertText: 'Fail ({label})', okText: 'Nominal (0 OOT)', tone: 'red' },
+    { title: 'Thickness Deviation Ratio', metric: 'thickness_ratio', ruleId: 'shrinkage', digits: 2, alertWhenMet: true, alertText: 'Localized (Shrink)', okText: 'Uniform Error', tone: 'red' },
+    { title: 'Max Angular Deviation', metric: 'max_angular_dev', ruleId: 'cold_shut', unit: 'mm', digits: 3, alertWhenMet: true, alertText: 'Significant (Cold Shut)', okText: 'Normal', tone: 'orange' },
+    { title: 'Global Scatter (StdDev)', metric: 'std_dev', ruleId: 'gas', unit: 'mm', digits: 3, alertWhenMet: true, alertText: 'High Scatter (Gas)', okText: 'Low Scatter (Stable)', tone: 'orange' },
+    { title: 'Best-Fit Explained', metric: 'fit_explained', ruleId: 'offset_geometric', digits: 2, alertWhenMet: true, alertText: 'Rigid Shift (Offset)', okText: 'No Rigid Shift', tone: 'orange' }
+  ]
+};
+
+// --- Evaluation ---
+
+const compare = (a: number, op: Comparator, b: number) => {
+  switch (op) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '==': return a === b;
+    case '!=': return a !== b;
+  }
+};
+
+export const evaluateCondition = (cond: RuleCondition, metrics: EngineeredMetrics): boolean => {
+  if ('all' in cond) return cond.all.every(c => evaluateCondition(c, metrics));
+  if ('any' in cond) return cond.any.some(c => evaluateCondition(c, metrics));
+  const raw = metrics[cond.metric];
+  const lhs = cond.abs ? Math.abs(raw) : raw;
+  const rhs = typeof cond.value === 'number' ? cond.value : metrics[cond.value.metric];
+  return compare(lhs, cond.op, rhs);
+};
+
+const conditionLeaves = (cond: RuleCondition): Extract<RuleCondition, { metric: MetricKey }>[] =>
+  'all' in cond ? cond.all.flatMap(conditionLeaves) : 'any' in cond ? cond.any.flatMap(conditionLeaves) : [cond];
+
+// Human-readable form of a condition tree, e.g. "oot_count == 0 AND (|mean_deviation| < 0.05 OR ...)"
+export const formatCondition = (cond: RuleCondition, nested = false): string => {
+  if ('all' in cond || 'any' in cond) {
+    const parts = 'all' in cond ? cond.all : cond.any;
+    const text = parts.map(c => formatCondition(c, true)).join('all' in cond ? ' AND ' : ' OR ');
+    return nested && parts.length > 1 ? `(${text})` : text;
+  }
+  const lhs = cond.abs ? `|${cond.metric}|` : cond.metric;
+  return `${lhs} ${cond.op} ${typeof cond.value === 'number' ? cond.value : cond.value.metric}`;
+};
+
+const traceConditions = (cond: RuleCondition, metrics: EngineeredMetrics): ConditionTrace[] =>
+  conditionLeaves(cond).map(leaf => {
+    const observed = leaf.abs ? Math.abs(metrics[leaf.metric]) : metrics[leaf.metric];
+    const compared = typeof leaf.value === 'number' ? leaf.value : metrics[leaf.value.metric];
+    return {
+      metric: leaf.metric,
+      abs: !!leaf.abs,
+      op: leaf.op,
+      threshold: typeof leaf.value === 'number' ? leaf.value : leaf.value.metric,
+      observed,
+      compared,
+      met: evaluateCondition(leaf, metrics)
+    };
+  });
+
+export const scoreMetrics = (ruleSet: RuleSet, metrics: EngineeredMetrics) => {
+  const scores = { ...ruleSet.baseScores };
+  const fired: string[] = [];
+  const rules: RuleTrace[] = [];
+
+  const apply = (list: ScoringRule[], depth: number, parentFired: boolean) => {
+    list.forEach(rule => {
+      const met = parentFired && evaluateCondition(rule.when, metrics);
+      const entry: RuleTrace = {
+        ruleId: rule.id,
+        description: rule.description,
+        depth,
+        status: !parentFired ? 'skipped' : met ? 'fired' : 'not_met',
+        expression: formatCondition(rule.when),
+        conditions: parentFired ? traceConditions(rule.when, metrics) : [],
+        effects: []
+      };
+      rules.push(entry);
+      if (met) {
+        fired.push(rule.id);
+        rule.effects.forEach(e => {
+          const before = scores[e.label];
+          scores[e.label] = e.mode === 'set' ? e.points : before + e.points;
+          entry.effects.push({ label: e.label, mode: e.mode, points: e.points, before, after: scores[e.label] });
+        });
+      }
+      if (rule.children) apply(rule.children, depth + 1, met);
+    });
+  };
+  apply(ruleSet.rules, 0, true);
+
+  const gate = ruleSet.severity.find(s => evaluateCondition(s.when, metrics));
+  const severity = gate?.level ?? ruleSet.defaultSeverity;
+  const trace: DecisionTrace = {
+    ruleSet: ruleSetRef(ruleSet),
+    baseScores: { ...ruleSet.baseScores },
+    rules,
+    scores: { ...scores },
+    severity: { level: severity, gate: gate ? formatCondition(gate.when) : null }
+  };
+  return { scores, severity, fired, trace };
+};
+
+// Winner resolution: highest score, ties go to the earlier label in LABELS order
+export const resolveLabel = (ruleSet: RuleSet, metrics: EngineeredMetrics) => {
+  const { scores, severity, fired, trace } = scoreMetrics(ruleSet, metrics);
+  const ranked = LABELS.map(l => [l, scores[l]] as const).sort((a, b) => b[1] - a[1]);
+  return { label: ranked[0][0], rawScore: ranked[0][1], severity, scores, fired, trace };
+};
+
+export const clampConfidence = (ruleSet: RuleSet, rawScore: number) =>
+  Math.min(Math.max(rawScore, ruleSet.confidence.min), ruleSet.confidence.max);
+
+// --- Probabilities ---
+
+/**
+ * Softmax over the label scores. Scores are additive evidence points, so dividing by a temperature
+ * turns a 96 vs 95 near-tie into roughly even odds while a -1000 veto becomes a probability of ~0.
+ */
+export const scoreDistribution = (ruleSet: RuleSet, scores: Record<Label, number>, temperature = (ruleSet.calibration ?? DEFAULT_CALIBRATION).temperature): Distribution => {
+  const top = Math.max(...LABELS.map(l => scores[l]));
+  const e = LABELS.map(l => Math.exp((scores[l] - top) / temperature));
+  const sum = e.reduce((a, b) => a + b, 0);
+  return Object.fromEntries(LABELS.map((l, i) => [l, e[i] / sum])) as Distribution;
+};
+
+// Labels by descending probability; the stable sort keeps LABELS order on ties, as resolveLabel does
+export const rankDistribution = (dist: Distribution) =>
+  LABELS.map(label => ({ label, probability: dist[label] })).sort((a, b) => b.probability - a.probability);
+
+export const assessMargin = (ruleSet: RuleSet, dist: Distribution) => {
+  const ranked = rankDistribution(dist);
+  const margin = ranked[0].probability - ranked[1].probability;
+  return { ranked, margin, uncertain: margin < (ruleSet.calibration ?? DEFAULT_CALIBRATION).reviewMargin };
+};
+
+// --- Lookup ---
+
+const flattenRules = (rules: ScoringRule[]): ScoringRule[] =>
+  rules.flatMap(r => [r, ...flattenRules(r.children || [])]);
+
+export const findRule = (ruleSet: RuleSet, ruleId: string) =>
+  flattenRules(ruleSet.rules).find(r => r.id === ruleId);
+
+// First leaf condition on `metric` inside a condition tree
+export const findMetricCondition = (cond: RuleCondition, metric: MetricKey): Extract<RuleCondition, { metric: MetricKey }> | undefined => {
+  if ('all' in cond) return cond.all.map(c => findMetricCondition(c, metric)).find(Boolean);
+  if ('any' in cond) return cond.any.map(c => findMetricCondition(c, metric)).find(Boolean);
+  return cond.metric === metric ? cond : undefined;
+};
+
+export const evaluateBenchmark = (ruleSet: RuleSet, benchmark: BenchmarkDefinition, metrics: EngineeredMetrics) => {
+  const rule = findRule(ruleSet, benchmark.ruleId);
+  const cond = rule && findMetricCondition(rule.when, benchmark.metric);
+  if (!cond) return { alert: false, threshold: undefined };
+  const met = evaluateCondition(cond, metrics);
+  return { alert: met === benchmark.alertWhenMet, threshold: cond };
+};
+
+export const globToRegExp = (pattern: string) =>
+  new RegExp('^' + pattern.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$', 'i');
+
+// Built-in sets are stamped `id@builtin-N`: a release that bumps one never shares a number with a version
+// saved on the station, whose edits of a built-in set continue from its version as `id@N`
+export const ruleSetRef = (rs: RuleSet) => `${rs.id}@${rs === DEFAULT_RULE_SET ? 'builtin-' : ''}${rs.version}`;
+
+export const nextVersion = (ruleSets: RuleSet[], id: string) =>
+  Math.max(0, ...[DEFAULT_RULE_SET, ...ruleSets].filter(rs => rs.id === id).map(rs => rs.version)) + 1;
+
+// Latest version per rule set id
+export const activeRuleSets = (all: RuleSet[]): RuleSet[] => {
+  const latest = new Map<string, RuleSet>();
+  all.forEach(rs => {
+    const cur = latest.get(rs.id);
+    if (!cur || rs.version > cur.version) latest.set(rs.id, rs);
+  });
+  return Array.from(latest.values());
+};
+
+/**
+ * Picks the rule set for a part number. Specific family patterns win over catch-all ('*') sets,
+ * and the built-in default is the last resort so the engine never runs without rules.
+ */
+export const selectRuleSet = (ruleSets: RuleSet[], partId: string): RuleSet => {
+  const active = activeRuleSets(ruleSets);
+  const matches = (rs: RuleSet, specificOnly: boolean) =>
+    rs.partPatterns.some(p => (!specificOnly || p.trim() !== '*') && globToRegExp(p.trim()).test(partId));
+  return active.find(rs => matches(rs, true))
+    || active.find(rs => matches(rs, false))
+    || DEFAULT_RULE_SET;
+};
+
+// --- Validation ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const validateCondition = (cond: unknown, path: string, errors: string[]) => {
+  if (!isObject(cond)) { errors.push(`${path}: condition must be an object`); return; }
+  if ('all' in cond || 'any' in cond) {
+    const list = cond.all ?? cond.any;
+    if (!Array.isArray(list) || list.length === 0) { errors.push(`${path}: 'all'/'any' must be a non-empty array`); return; }
+    list.forEach((c, i) => validateCondition(c, `${path}.${'all' in cond ? 'all' : 'any'}[${i}]`, errors));
+    return;
+  }
+  if (!METRIC_KEYS.includes(cond.metric as MetricKey)) errors.push(`${path}: unknown metric '${String(cond.metric)}'`);
+  if (!COMPARATORS.includes(cond.op as Comparator)) errors.push(`${path}: unknown operator '${String(cond.op)}'`);
+  if (typeof cond.value === 'number') {
+    if (!Number.isFinite(cond.value)) errors.push(`${path}: value must be finite`);
+  } else if (!isObject(cond.value) || !METRIC_KEYS.includes(cond.value.metric as MetricKey)) {
+    errors.push(`${path}: value must be a number or { "metric": <metric> }`);
+  }
+  if ('abs' in cond && typeof cond.abs !== 'boolean') errors.push(`${path}: 'abs' must be boolean`);
+};
+
+const validateRules = (rules: unknown, path: string, errors: string[], ids: Set<string>) => {
+  if (!Array.isArray(rules)) { errors.push(`${path}: must be an array`); return; }
+  rules.forEach((r, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(r)) { errors.push(`${p}: rule must be an object`); return; }
+    if (typeof r.id !== 'string' || !r.id) errors.push(`${p}: missing id`);
+    else if (ids.has(r.id)) errors.push(`${p}: duplicate rule id '${r.id}'`);
+    else ids.add(r.id);
+    if (typeof r.description !== 'string') errors.push(`${p}: missing description`);
+    validateCondition(r.when, `${p}.when`, errors);
+    if (!Array.isArray(r.effects)) errors.push(`${p}.effects: must be an array`);
+    else r.effects.forEach((e, k) => {
+      if (!isObject(e) || !LABELS.includes(e.label as Label)) errors.push(`${p}.effects[${k}]: unknown label`);
+      else if (e.mode !== 'add' && e.mode !== 'set') errors.push(`${p}.effects[${k}]: mode must be 'add' or 'set'`);
+      else if (typeof e.points !== 'number' || !Number.isFinite(e.points)) errors.push(`${p}.effects[${k}]: points must be a finite number`);
+    });
+    if (r.children !== undefined) validateRules(r.children, `${p}.children`, errors, ids);
+  });
+};
+
+export const validateRuleSet = (input: unknown): { ruleSet: RuleSet | null, errors: string[] } => {
+  const errors: string[] = [];
+  if (!isObject(input)) return { ruleSet: null, errors: ['Rule set must be a JSON object'] };
+
+  if (typeof input.id !== 'string' || !/^[\w.-]+$/.test(input.id)) errors.push('id: letters, digits, dot, dash or underscore only');
+  if (typeof input.family !== 'string' || !input.family) errors.push('family: required');
+  if (!Number.isInteger(input.version) || (input.version as number) < 1) errors.push('version: positive integer required');
+  if (typeof input.description !== 'string') errors.push('description: required');
+  if (!Array.isArray(input.partPatterns) || input.partPatterns.length === 0 || !input.partPatterns.every(p => typeof p === 'string' && p.trim())) {
+    errors.push('partPatterns: non-empty array of part number patterns (use * as wildcard)');
+  }
+  if (!isObject(input.baseScores)) errors.push('baseScores: object required');
+  else LABELS.forEach(l => {
+    if (typeof (input.baseScores as Record<string, unknown>)[l] !== 'number') errors.push(`baseScores.${l}: number required`);
+  });
+
+  const ids = new Set<string>();
+  validateRules(input.rules, 'rules', errors, ids);
+
+  if (!Array.isArray(input.severity)) errors.push('severity: array required');
+  else input.severity.forEach((s, i) => {
+    if (!isObject(s) || !SEVERITIES.includes(s.level as Severity)) errors.push(`severity[${i}]: unknown level`);
+    else validateCondition(s.when, `severity[${i}].when`, errors);
+  });
+  if (!SEVERITIES.includes(input.defaultSeverity as Severity)) errors.push('defaultSeverity: Minor, Moderate or Critical');
+
+  const conf = input.confidence;
+  if (!isObject(conf) || typeof conf.min !== 'number' || typeof conf.max !== 'number' || conf.min < 0 || conf.max > 100 || conf.min >= conf.max) {
+    errors.push('confidence: { min, max } with 0 <= min < max <= 100');
+  }
+  const cal = input.calibration;
+  if (cal !== undefined && (!isObject(cal) || typeof cal.temperature !== 'number' || !(cal.temperature > 0)
+    || typeof cal.reviewMargin !== 'number' || cal.reviewMargin < 0 || cal.reviewMargin >= 1)) {
+    errors.push('calibration: { temperature > 0, reviewMargin in [0, 1) }');
+  }
+  if (input.processWindows !== undefined) {
+    if (!isObject(input.processWindows)) errors.push('processWindows: object required');
+    else Object.entries(input.processWindows).forEach(([key, w]) => {
+      const p = `processWindows.${key}`;
+      if (!PROCESS_PARAMETER_KEYS.includes(key as keyof ProcessParameters)) { errors.push(`${p}: unknown parameter`); return; }
+      if (!isObject(w) || (w.min === undefined && w.max === undefined)
+        || (w.min !== undefined && typeof w.min !== 'number') || (w.max !== undefined && typeof w.max !== 'number')
+        || (typeof w.min === 'number' && typeof w.max === 'number' && w.min >= w.max)) {
+        errors.push(`${p}: { min?, max? } with at least one limit and min < max`);
+      }
+    });
+  }
+
+  if (!Array.isArray(input.benchmarks)) errors.push('benchmarks: array required');
+  else input.benchmarks.forEach((b, i) => {
+    const p = `benchmarks[${i}]`;
+    if (!isObject(b)) { errors.push(`${p}: object required`); return; }
+    if (typeof b.title !== 'string' || typeof b.alertText !== 'string' || typeof b.okText !== 'string') errors.push(`${p}: title, alertText and okText required`);
+    if (typeof b.alertWhenMet !== 'boolean') errors.push(`${p}.alertWhenMet: boolean required`);
+    if (b.tone !== 'red' && b.tone !== 'orange') errors.push(`${p}.tone: 'red' or 'orange'`);
+    if (!METRIC_KEYS.includes(b.metric as MetricKey)) { errors.push(`${p}: unknown metric '${String(b.metric)}'`); return; }
+    if (typeof b.ruleId !== 'string' || !ids.has(b.ruleId)) { errors.push(`${p}: ruleId '${String(b.ruleId)}' not found`); return; }
+    const rule = flattenRules(input.rules as ScoringRule[]).find(r => r.id === b.ruleId);
+    if (rule && !findMetricCondition(rule.when, b.metric as MetricKey)) errors.push(`${p}: rule '${b.ruleId}' has no condition on ${String(b.metric)}`);
+  });
+
+  return { ruleSet: errors.length ? null : input as unknown as RuleSet, errors };
+};
+
+// Resolves a `ruleSetRef` (as stamped on MLResponse.Rule_Set) back to its definition. Station-saved sets come
+// first, so a plain `id@N` stamped before built-in refs were marked still finds the set that produced it
+export const findRuleSetVersion = (ruleSets: RuleSet[], ref: string | undefined): RuleSet => {
+  const all = [...ruleSets, DEFAULT_RULE_SET];
+  const exact = all.find(rs => ruleSetRef(rs) === ref);
+  if (exact) return exact;
+  const id = ref?.slice(0, ref.lastIndexOf('@'));
+  return activeRuleSets(all.filter(rs => rs.id === id))[0] || DEFAULT_RULE_SET;
+};
+
+// Numeric threshold behind the benchmark row for `metric`, for charts that draw the decision line
+export const benchmarkThreshold = (ruleSet: RuleSet, metric: MetricKey): number | undefined => {
+  const benchmark = ruleSet.benchmarks.find(b => b.metric === metric);
+  const rule = benchmark && findRule(ruleSet, benchmark.ruleId);
+  const cond = rule && findMetricCondition(rule.when, metric);
+  return cond && typeof cond.value === 'number' ? cond.value : undefined;
+};
@@ -0,0 +1,16 @@
+import type { RuleSet } from './ruleEngine';
+import { STORES, withStore } from './db';
+
+// --- Rule Set Versions ---
+
+// Every save is a new immutable version; the engine always runs the latest version of each id
+export const RuleSetStore = {
+  listAll: (): Promise<RuleSet[]> =>
+    withStore(STORES.ruleSets, 'readonly', store => store.getAll() as IDBRequest<RuleSet[]>),
+
+  save: (ruleSet: RuleSet): Promise<IDBValidKey> =>
+    withStore(STORES.ruleSets, 'readwrite', store => store.add({ ...ruleSet, updatedAt: Date.now() })),
+
+  remove: (id: string): Promise<undefined> =>
+    withStore(STORES.ruleSets, 'readwrite', store => store.delete(IDBKeyRange.bound([id, 0], [id, Infinity])))
+};
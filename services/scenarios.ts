@@ -0,0 +1,15 @@
+/**
+ * BUILT-IN SCENARIOS
+ * One report per defect signature, loadable from the Inspect view. The regression corpus carries the same
+ * reports (tests/corpus/reports/scenario-*.txt) with their expected verdicts.
+ */
+
+export type ScenarioId = 'shrinkage' | 'gas' | 'good' | 'offset' | 'coldshut';
+
+export const SCENARIOS: Record<ScenarioId, string> = {
+  shrinkage: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nCIRCLE9_THICK_X 42.000 41.485 -0.515 -0.2 0.2 1\nCIRCLE9_THICK_Y 17.000 16.583 -0.417 -0.1 0.1 1\nCYLINDER12_THICK_Z 14.500 14.071 -0.429 -0.2 0.2 1\nCIRCLE21_THICK_Y 37.000 36.592 -0.408 -0.1 0.1 1\nPOINT62_THIN_X 5.100 5.094 -0.006 -0.1 0.1 0`,
+  gas: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nPOINT62_THIN_X 5.100 5.341 0.241 -0.1 0.1 1\nPOINT67_THIN_Y 3.500 3.283 -0.217 -0.1 0.1 1\nPOINT68_THIN_Z 2.800 3.014 0.214 -0.1 0.1 1\nLINE72_THIN_XZ 25.000 24.777 -0.223 -0.1 0.1 1\nCIRCLE16_THICK_X 13.000 13.029 0.029 -0.2 0.2 0`,
+  coldshut: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nLINE3_X 60.000 59.872 -0.128 -0.2 0.2 0\nANGLE6_YZ 90.00 89.32 -0.68 -1.0 1.0 0\nANGLE4_XY 45.00 44.37 -0.63 -1.0 1.0 0\nCIRCLE21_THICK_Y 37.000 36.995 -0.005 -0.1 0.1 0`,
+  offset: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nPOINT1_X 12.500 12.614 0.114 -0.1 0.1 1\nPOINT1_Y 24.300 24.421 0.121 -0.1 0.1 1\nPOINT62_THIN_X 5.100 5.212 0.112 -0.1 0.1 1\nPOINT68_THIN_Z 2.800 2.913 0.113 -0.1 0.1 1\nCIRCLE16_THICK_X 13.000 13.120 0.120 -0.2 0.2 0`,
+  good: `Report Name CMM REPORT\nPart No. A3188-337-00\nFeature Nom Act Dev LoTol UpTol OutTol\nPOINT1_X 12.500 12.499 -0.001 -0.1 0.1 0\nPOINT1_Y 24.300 24.302 0.002 -0.1 0.1 0\nCIRCLE9_THICK_X 42.000 42.010 0.010 -0.2 0.2 0\nPOINT62_THIN_X 5.100 5.102 0.002 -0.1 0.1 0`
+};
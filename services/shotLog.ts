@@ -0,0 +1,145 @@
+import type { ProcessParameters, ReportHeader, ShotRecord } from '../types';
+import { detectDelimiter, leadingNumber, lines, splitDelimited } from './importers/common';
+
+/**
+ * SHOT-MONITORING LOGS
+ * The die-casting cell controller writes one CSV row per shot: counter, time and the machine settings it
+ * ran with. Inspections are joined to the log by shot number (and die, when both sides know it); reports
+ * without a shot number fall back to the nearest shot in time, which only works when the report date is
+ * the casting time rather than the CMM measurement time.
+ */
+
+// --- Parsing ---
+
+type ShotColumn = 'shot' | 'dieId' | 'timestamp' | 'date' | 'time' | keyof ProcessParameters;
+
+const COLUMNS: Record<ShotColumn, string[]> = {
+  shot: ['shot', 'shot no', 'shot number', 'shot counter', 'shot count', 'cycle', 'cycle no'],
+  dieId: ['die', 'die id', 'die no', 'tool', 'tool id'],
+  timestamp: ['timestamp', 'date time', 'datetime', 'date/time'],
+  date: ['date'],
+  time: ['time'],
+  metalTemp: ['metal temp', 'melt temp', 'metal temperature', 'melt temperature'],
+  dieTemp: ['die temp', 'die temperature'],
+  intensificationPressure: ['intensification pressure', 'intens pressure', 'intensification', 'p3', 'phase 3 pressure'],
+  shotVelocity: ['shot velocity', 'shot speed', 'velocity', 'v2', 'phase 2 velocity'],
+  vacuum: ['vacuum', 'vacuum level', 'vacuum pressure']
+};
+
+const PROCESS_COLUMNS: (keyof ProcessParameters)[] = ['metalTemp', 'dieTemp', 'intensificationPressure', 'shotVelocity', 'vacuum'];
+
+// "Vacuum [mbar]", "Metal_Temp (°C)" → "vacuum", "metal temp"
+const normalize = (h: string) => h.toLowerCase().replace(/[[(].*?[\])]/g, '').replace(/[_.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// ISO dates parse natively; controllers set to a European locale write "04.03.2026 14:05:09"
+export const parseTimestamp = (value: string | undefined): number | undefined => {
+  if (!value?.trim()) return undefined;
+  const dotted = value.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dotted) {
+    const [, d, mo, y, h = '0', mi = '0', s = '0'] = dotted;
+    return new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime();
+  }
+  const parsed = Date.parse(value.trim());
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const normalizeShot = (shot: string) => shot.trim().replace(/^0+(?=\d)/, '').toUpperCase();
+
+export const shotKey = (dieId: string | undefined, shot: string) => `${(dieId ?? '').trim().toUpperCase()}|${normalizeShot(shot)}`;
+
+export const parseShotLog = (text: string, source: string): { shots: ShotRecord[], errors: string[] } => {
+  const all = lines(text);
+  const headerIndex = all.findIndex(l => l.trim());
+  if (headerIndex < 0) return { shots: [], errors: ['Shot log is empty'] };
+  const delimiter = detectDelimiter(all[headerIndex]);
+  const headers = splitDelimited(all[headerIndex], delimiter).map(normalize);
+  const col = (column: ShotColumn) => headers.findIndex(h => COLUMNS[column].includes(h));
+  if (col('shot') < 0) return { shots: [], errors: ['Shot log needs a shot number column'] };
+  if (col('timestamp') < 0 && col('date') < 0) return { shots: [], errors: ['Shot log needs a timestamp or date column'] };
+
+  const shots: ShotRecord[] = [];
+  const errors: string[] = [];
+  all.forEach((raw, i) => {
+    if (i <= headerIndex || !raw.trim()) return;
+    const cells = splitDelimited(raw, delimiter);
+    const cell = (column: ShotColumn) => { const c = col(column); return c >= 0 && cells[c] ? cells[c] : undefined; };
+    const shot = cell('shot');
+    if (!shot) { errors.push(`line ${i + 1}: no shot number`); return; }
+    const stamp = cell('timestamp') ?? [cell('date'), cell('time')].filter(Boolean).join(' ');
+    const timestamp = parseTimestamp(stamp);
+    if (timestamp === undefined) { errors.push(`line ${i + 1}: timestamp '${stamp}' is not a date`); return; }
+    const process: ProcessParameters = {};
+    PROCESS_COLUMNS.forEach(key => {
+      const value = leadingNumber(cell(key));
+      if (value !== undefined) process[key] = value;
+    });
+    const dieId = cell('dieId');
+    shots.push({ key: shotKey(dieId, shot), shot: shot.trim(), dieId, timestamp, process, source });
+  });
+  if (shots.length === 0 && errors.length === 0) errors.push('Shot log has no data rows');
+  return { shots, errors };
+};
+
+// --- Join ---
+
+export const SHOT_MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+export interface ShotIndex {
+  byShot: Map<string, ShotRecord[]>;
+  // Ascending by timestamp
+  byTime: ShotRecord[];
+}
+
+export const indexShots = (shots: ShotRecord[]): ShotIndex => {
+  const byShot = new Map<string, ShotRecord[]>();
+  shots.forEach(s => {
+    const k = normalizeShot(s.shot);
+    if (!byShot.has(k)) byShot.set(k, []);
+    byShot.get(k)!.push(s);
+  });
+  return { byShot, byTime: [...shots].sort((a, b) => a.timestamp - b.timestamp) };
+};
+
+const sameDie = (header: ReportHeader, shot: ShotRecord) =>
+  !header.dieId || !shot.dieId || header.dieId.trim().toUpperCase() === shot.dieId.trim().toUpperCase();
+
+const nearest = (candidates: ShotRecord[], t: number) =>
+  candidates.reduce<ShotRecord | undefined>((best, s) => !best || Math.abs(s.timestamp - t) < Math.abs(best.timestamp - t) ? s : best, undefined);
+
+// First index with timestamp >= t
+const lowerBound = (sorted: ShotRecord[], t: number) => {
+  let lo = 0, hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid].timestamp < t) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+export const findShot = (header: ReportHeader | undefined, index: ShotIndex): ShotRecord | undefined => {
+  if (!header) return undefined;
+  const parsed = header.date ? parseTimestamp(header.date) : undefined;
+
+  if (header.shot) {
+    const candidates = (index.byShot.get(normalizeShot(header.shot)) || []).filter(s => sameDie(header, s));
+    if (candidates.length === 1) return candidates[0];
+    // A counter shared by several dies is only resolved by time
+    return parsed !== undefined ? nearest(candidates, parsed) : undefined;
+  }
+
+  if (parsed === undefined) return undefined;
+  const from = lowerBound(index.byTime, parsed - SHOT_MATCH_WINDOW_MS);
+  const to = lowerBound(index.byTime, parsed + SHOT_MATCH_WINDOW_MS + 1);
+  return nearest(index.byTime.slice(from, to).filter(s => sameDie(header, s)), parsed);
+};
+
+// The report and station entries win; the log fills in what they left out
+export const withShotData = (header: ReportHeader, shot: ShotRecord | undefined): ReportHeader => {
+  if (!shot) return header;
+  return {
+    ...header,
+    shot: header.shot ?? shot.shot,
+    dieId: header.dieId ?? shot.dieId,
+    process: { ...shot.process, ...header.process }
+  };
+};
@@ -0,0 +1,20 @@
+import type { ShotRecord } from '../types';
+import { STORES, withStore } from './db';
+
+// --- Shot Log (one record per die and shot counter) ---
+
+export const ShotLogStore = {
+  listAll: (): Promise<ShotRecord[]> =>
+    withStore(STORES.shots, 'readonly', store => store.getAll() as IDBRequest<ShotRecord[]>),
+
+  // Re-importing an overlapping log replaces the shots it repeats
+  saveAll: (shots: ShotRecord[]): Promise<IDBValidKey> =>
+    withStore(STORES.shots, 'readwrite', store => {
+      let last!: IDBRequest<IDBValidKey>;
+      shots.forEach(s => { last = store.put(s); });
+      return last;
+    }),
+
+  clear: (): Promise<undefined> =>
+    withStore(STORES.shots, 'readwrite', store => store.clear())
+};
@@ -0,0 +1,211 @@
+import type { InspectionRecord } from '../types';
+
+/**
+ * STATISTICAL PROCESS CONTROL
+ * Shewhart X̄/R (or I-MR for subgroup size 1) charts, capability indices and
+ * Western Electric / Nelson run rules over the stored inspection series of one part number.
+ * All values are feature deviations (actual - nominal), so spec limits are [loTol, upTol].
+ */
+
+// --- Types ---
+
+export interface Characteristic {
+  key: string;          // featureId + axis
+  featureId: string;
+  axis: string;
+  loTol: number;
+  upTol: number;
+  samples: { t: number, v: number }[];
+}
+
+export interface ControlPoint {
+  index: number;
+  t: number;
+  value: number;
+  range: number;
+}
+
+export interface RuleViolation {
+  rule: SpcRuleId;
+  chart: 'xbar' | 'range';
+  index: number;
+}
+
+export type SpcRuleId = 'WE1' | 'WE2' | 'WE3' | 'WE4' | 'N3' | 'N4';
+
+export interface SpcAnalysis {
+  characteristic: Characteristic;
+  subgroupSize: number;
+  points: ControlPoint[];
+  xbar: { cl: number, ucl: number, lcl: number, sigma: number };
+  range: { cl: number, ucl: number, lcl: number };
+  sigmaWithin: number;
+  sigmaOverall: number;
+  mean: number;
+  Cp: number | null;
+  Cpk: number | null;
+  Pp: number | null;
+  Ppk: number | null;
+  violations: RuleViolation[];
+}
+
+export const SPC_RULES: Record<SpcRuleId, string> = {
+  WE1: '1 point beyond 3σ',
+  WE2: '2 of 3 points beyond 2σ, same side',
+  WE3: '4 of 5 points beyond 1σ, same side',
+  WE4: '8 points in a row on one side of center',
+  N3: '6 points in a row steadily increasing or decreasing',
+  N4: '14 points in a row alternating up and down'
+};
+
+// --- Control Chart Constants (AIAG SPC manual, n = 2..10) ---
+
+const D2: Record<number, number> = { 2: 1.128, 3: 1.693, 4: 2.059, 5: 2.326, 6: 2.534, 7: 2.704, 8: 2.847, 9: 2.970, 10: 3.078 };
+const D3: Record<number, number> = { 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0.076, 8: 0.136, 9: 0.184, 10: 0.223 };
+const D4: Record<number, number> = { 2: 3.267, 3: 2.574, 4: 2.282, 5: 2.114, 6: 2.004, 7: 1.924, 8: 1.864, 9: 1.816, 10: 1.777 };
+
+export const MAX_SUBGROUP_SIZE = 10;
+
+// --- Helpers ---
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / (xs.length || 1);
+
+const sampleStdDev = (xs: number[]) => {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) ** 2, 0) / (xs.length - 1));
+};
+
+const capability = (lo: number, up: number, mu: number, sigma: number) => {
+  if (!(sigma > 0) || up <= lo) return { cp: null, cpk: null };
+  return {
+    cp: (up - lo) / (6 * sigma),
+    cpk: Math.min(up - mu, mu - lo) / (3 * sigma)
+  };
+};
+
+// --- Series Extraction ---
+
+export const extractCharacteristics = (records: InspectionRecord[]): Characteristic[] => {
+  const map = new Map<string, Characteristic>();
+  [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(r => {
+      r.features.forEach(f => {
+        const key = `${f.featureId}|${f.axis}`;
+        let c = map.get(key);
+        if (!c) {
+          c = { key, featureId: f.featureId, axis: f.axis, loTol: f.loTol, upTol: f.upTol, samples: [] };
+          map.set(key, c);
+        }
+        // The latest tolerance wins if the drawing revision changed mid-series
+        c.loTol = f.loTol;
+        c.upTol = f.upTol;
+        c.samples.push({ t: r.timestamp, v: f.deviation });
+      });
+    });
+  return Array.from(map.values());
+};
+
+// --- Run Rules ---
+
+const detectViolations = (values: number[], cl: number, sigma: number): RuleViolation[] => {
+  const out: RuleViolation[] = [];
+  if (!(sigma > 0)) return out;
+  const z = values.map(v => (v - cl) / sigma);
+  const push = (rule: SpcRuleId, index: number) => out.push({ rule, chart: 'xbar', index });
+
+  z.forEach((zi, i) => {
+    if (Math.abs(zi) > 3) push('WE1', i);
+
+    const window = (len: number) => i + 1 >= len ? z.slice(i + 1 - len, i + 1) : null;
+
+    const w3 = window(3);
+    if (w3 && Math.abs(zi) > 2) {
+      const side = Math.sign(zi);
+      if (w3.filter(x => Math.sign(x) === side && Math.abs(x) > 2).length >= 2) push('WE2', i);
+    }
+
+    const w5 = window(5);
+    if (w5 && Math.abs(zi) > 1) {
+      const side = Math.sign(zi);
+      if (w5.filter(x => Math.sign(x) === side && Math.abs(x) > 1).length >= 4) push('WE3', i);
+    }
+
+    const w8 = window(8);
+    if (w8 && zi !== 0 && w8.every(x => Math.sign(x) === Math.sign(zi))) push('WE4', i);
+
+    const w6 = window(6);
+    if (w6) {
+      const diffs = w6.slice(1).map((x, k) => x - w6[k]);
+      if (diffs.every(d => d > 0) || diffs.every(d => d < 0)) push('N3', i);
+    }
+
+    const w14 = window(14);
+    if (w14) {
+      const diffs = w14.slice(1).map((x, k) => x - w14[k]);
+      if (diffs.every((d, k) => d !== 0 && (k === 0 || Math.sign(d) !== Math.sign(diffs[k - 1])))) push('N4', i);
+    }
+  });
+  return out;
+};
+
+// --- Analysis ---
+
+/**
+ * Subgroups are formed from consecutive inspections; a trailing partial subgroup is dropped.
+ * With subgroupSize 1 the chart becomes an individuals chart with a moving range of 2.
+ */
+export const analyzeCharacteristic = (characteristic: Characteristic, subgroupSize: number): SpcAnalysis => {
+  const n = Math.max(1, Math.min(MAX_SUBGROUP_SIZE, Math.round(subgroupSize)));
+  const values = characteristic.samples.map(s => s.v);
+  const points: ControlPoint[] = [];
+
+  if (n === 1) {
+    characteristic.samples.forEach((s, i) => {
+      points.push({ index: i, t: s.t, value: s.v, range: i > 0 ? Math.abs(s.v - values[i - 1]) : NaN });
+    });
+  } else {
+    for (let i = 0; i + n <= values.length; i += n) {
+      const group = values.slice(i, i + n);
+      points.push({ index: points.length, t: characteristic.samples[i + n - 1].t, value: mean(group), range: Math.max(...group) - Math.min(...group) });
+    }
+  }
+
+  const ranges = points.map(p => p.range).filter(r => !isNaN(r));
+  const rBar = mean(ranges);
+  const d2 = D2[Math.max(n, 2)];
+  const sigmaWithin = ranges.length ? rBar / d2 : 0;
+  const xBarBar = mean(points.map(p => p.value));
+  const sigmaXbar = sigmaWithin / Math.sqrt(n);
+
+  const sigmaOverall = sampleStdDev(values);
+  const mu = mean(values);
+  const within = capability(characteristic.loTol, characteristic.upTol, mu, sigmaWithin);
+  const overall = capability(characteristic.loTol, characteristic.upTol, mu, sigmaOverall);
+
+  const violations = detectViolations(points.map(p => p.value), xBarBar, sigmaXbar);
+  const rUcl = D4[Math.max(n, 2)] * rBar;
+  points.forEach(p => {
+    if (!isNaN(p.range) && ranges.length && p.range > rUcl) violations.push({ rule: 'WE1', chart: 'range', index: p.index });
+  });
+
+  return {
+    characteristic,
+    subgroupSize: n,
+    points,
+    xbar: { cl: xBarBar, ucl: xBarBar + 3 * sigmaXbar, lcl: xBarBar - 3 * sigmaXbar, sigma: sigmaXbar },
+    range: { cl: rBar, ucl: rUcl, lcl: D3[Math.max(n, 2)] * rBar },
+    sigmaWithin,
+    sigmaOverall,
+    mean: mu,
+    Cp: within.cp,
+    Cpk: within.cpk,
+    Pp: overall.cp,
+    Ppk: overall.cpk,
+    violations
+  };
+};
+
+export const analyzeSeries = (records: InspectionRecord[], subgroupSize: number): SpcAnalysis[] =>
+  extractCharacteristics(records).map(c => analyzeCharacteristic(c, subgroupSize));
@@ -0,0 +1,205 @@
+import type { EngineeredMetrics } from '../types';
+import { LABELS, METRIC_KEYS, type Distribution, type Label, type MetricKey } from './ruleEngine';
+import { scorePredictions, type LabeledSample } from './calibration';
+
+/**
+ * TRAINABLE STATISTICAL CLASSIFIER
+ * Multinomial logistic regression (softmax) over the standardized EngineeredMetrics vector,
+ * trained in-browser by full-batch gradient descent with L2 regularization. Models are plain JSON
+ * so one trained model can be shipped to every inspection station.
+ */
+
+// --- Types ---
+
+export type DecisionMode = 'rules' | 'model' | 'ensemble';
+
+export interface SoftmaxModel {
+  kind: 'softmax-logreg';
+  formatVersion: 1;
+  name: string;
+  features: MetricKey[];
+  labels: Label[];
+  mean: number[];
+  scale: number[];
+  // One row per label: [bias, ...feature weights]
+  weights: number[][];
+  hyper: TrainingOptions;
+  trainingSize: number;
+  trainedAt: number;
+  // Decision policy ships with the model so every station combines rules and model the same way
+  ensemble: { mode: DecisionMode, weight: number };
+}
+
+export interface TrainingOptions {
+  l2: number;
+  epochs: number;
+  learningRate: number;
+}
+
+export const DEFAULT_TRAINING: TrainingOptions = { l2: 0.01, epochs: 600, learningRate: 0.2 };
+
+// --- Math ---
+
+const softmax = (z: number[]) => {
+  const m = Math.max(...z);
+  const e = z.map(v => Math.exp(v - m));
+  const sum = e.reduce((a, b) => a + b, 0);
+  return e.map(v => v / sum);
+};
+
+const vectorize = (metrics: EngineeredMetrics, features: MetricKey[]) =>
+  features.map(f => Number.isFinite(metrics[f]) ? metrics[f] : 0);
+
+// Deterministic PRNG so cross-validation folds are reproducible
+export const mulberry32 = (seed: number) => () => {
+  seed |= 0; seed = seed + 0x6D2B79F5 | 0;
+  let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+  t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+  return ((t ^ t >>> 14) >>> 0) / 4294967296;
+};
+
+// --- Training ---
+
+export const trainSoftmax = (samples: LabeledSample[], options: TrainingOptions = DEFAULT_TRAINING, name = 'metrics-logreg'): SoftmaxModel => {
+  if (samples.length === 0) throw new Error('Cannot train on an empty dataset');
+  const features = METRIC_KEYS;
+  const labels = LABELS.filter(l => samples.some(s => s.label === l));
+  const X = samples.map(s => vectorize(s.metrics, features));
+  const y = samples.map(s => labels.indexOf(s.label));
+
+  const mean = features.map((_, j) => X.reduce((a, r) => a + r[j], 0) / X.length);
+  const scale = features.map((_, j) => {
+    const sd = Math.sqrt(X.reduce((a, r) => a + (r[j] - mean[j]) ** 2, 0) / X.length);
+    return sd > 1e-9 ? sd : 1;
+  });
+  const Xs = X.map(r => [1, ...r.map((v, j) => (v - mean[j]) / scale[j])]);
+
+  const W = labels.map(() => new Array(features.length + 1).fill(0));
+  const n = Xs.length;
+
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    const grad = labels.map(() => new Array(features.length + 1).fill(0));
+    Xs.forEach((x, i) => {
+      const p = softmax(W.map(w => w.reduce((a, wk, k) => a + wk * x[k], 0)));
+      p.forEach((pk, c) => {
+        const err = pk - (y[i] === c ? 1 : 0);
+        for (let k = 0; k < x.length; k++) grad[c][k] += err * x[k];
+      });
+    });
+    W.forEach((w, c) => {
+      for (let k = 0; k < w.length; k++) {
+        // Bias (k = 0) is not regularized
+        const reg = k === 0 ? 0 : options.l2 * w[k];
+        w[k] -= options.learningRate * (grad[c][k] / n + reg);
+      }
+    });
+  }
+
+  return {
+    kind: 'softmax-logreg',
+    formatVersion: 1,
+    name,
+    features,
+    labels,
+    mean,
+    scale,
+    weights: W,
+    hyper: options,
+    trainingSize: samples.length,
+    trainedAt: Date.now(),
+    ensemble: { mode: 'ensemble', weight: 0.5 }
+  };
+};
+
+export const predictProba = (model: SoftmaxModel, metrics: EngineeredMetrics): Distribution => {
+  const x = [1, ...vectorize(metrics, model.features).map((v, j) => (v - model.mean[j]) / model.scale[j])];
+  const p = softmax(model.weights.map(w => w.reduce((a, wk, k) => a + wk * x[k], 0)));
+  const dist = Object.fromEntries(LABELS.map(l => [l, 0])) as Distribution;
+  model.labels.forEach((l, i) => { dist[l] = p[i]; });
+  return dist;
+};
+
+export const argmax = (dist: Distribution): Label =>
+  LABELS.reduce((best, l) => dist[l] > dist[best] ? l : best, LABELS[0]);
+
+// --- Ensemble ---
+
+export const combine = (rules: Distribution, model: Distribution, modelWeight: number): Distribution =>
+  Object.fromEntries(LABELS.map(l => [l, (1 - modelWeight) * rules[l] + modelWeight * model[l]])) as Distribution;
+
+// --- Evaluation ---
+
+export interface ModelEvaluation {
+  folds: number;
+  rules: ReturnType<typeof scorePredictions>;
+  model: ReturnType<typeof scorePredictions>;
+  ensemble: ReturnType<typeof scorePredictions>;
+}
+
+/**
+ * k-fold cross-validation. The rule engine is not trained, so its distribution for each sample is
+ * supplied by the caller; the model and ensemble are scored only on held-out folds.
+ */
+export const crossValidate = (
+  samples: LabeledSample[],
+  rulePrediction: (s: LabeledSample) => Distribution,
+  options: TrainingOptions,
+  modelWeight: number,
+  k = 5,
+  seed = 42
+): ModelEvaluation => {
+  const folds = Math.max(2, Math.min(k, samples.length));
+  const rand = mulberry32(seed);
+  const order = samples.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const rulePairs: { truth: Label, predicted: Label }[] = [];
+  const modelPairs: { truth: Label, predicted: Label }[] = [];
+  const ensemblePairs: { truth: Label, predicted: Label }[] = [];
+
+  for (let f = 0; f < folds; f++) {
+    const testIdx = order.filter((_, i) => i % folds === f);
+    const train = order.filter((_, i) => i % folds !== f).map(i => samples[i]);
+    if (train.length === 0) continue;
+    const model = trainSoftmax(train, options);
+    testIdx.forEach(i => {
+      const s = samples[i];
+      const pRules = rulePrediction(s);
+      const pModel = predictProba(model, s.metrics);
+      rulePairs.push({ truth: s.label, predicted: argmax(pRules) });
+      modelPairs.push({ truth: s.label, predicted: argmax(pModel) });
+      ensemblePairs.push({ truth: s.label, predicted: argmax(combine(pRules, pModel, modelWeight)) });
+    });
+  }
+
+  return {
+    folds,
+    rules: scorePredictions(rulePairs),
+    model: scorePredictions(modelPairs),
+    ensemble: scorePredictions(ensemblePairs)
+  };
+};
+
+// --- Import Validation ---
+
+export const validateModel = (input: unknown): { model: SoftmaxModel | null, errors: string[] } => {
+  const errors: string[] = [];
+  const m = input as Partial<SoftmaxModel> | null;
+  if (!m || typeof m !== 'object') return { model: null, errors: ['Model must be a JSON object'] };
+  if (m.kind !== 'softmax-logreg' || m.formatVersion !== 1) errors.push("kind/formatVersion: expected 'softmax-logreg' v1");
+  if (!Array.isArray(m.features) || !m.features.every(f => METRIC_KEYS.includes(f))) errors.push('features: unknown metric');
+  if (!Array.isArray(m.labels) || m.labels.length === 0 || !m.labels.every(l => LABELS.includes(l))) errors.push('labels: unknown label');
+  const width = (m.features?.length ?? 0) + 1;
+  if (!Array.isArray(m.mean) || m.mean.length !== m.features?.length) errors.push('mean: length must match features');
+  if (!Array.isArray(m.scale) || m.scale.length !== m.features?.length || m.scale.some(v => !(v > 0))) errors.push('scale: positive values, one per feature');
+  if (!Array.isArray(m.weights) || m.weights.length !== m.labels?.length || m.weights.some(w => !Array.isArray(w) || w.length !== width || w.some(v => !Number.isFinite(v)))) {
+    errors.push('weights: one row of [bias, ...features] per label');
+  }
+  if (!m.ensemble || !['rules', 'model', 'ensemble'].includes(m.ensemble.mode) || !(m.ensemble.weight >= 0 && m.ensemble.weight <= 1)) {
+    errors.push("ensemble: { mode: 'rules' | 'model' | 'ensemble', weight: 0..1 }");
+  }
+  return { model: errors.length ? null : m as SoftmaxModel, errors };
+};
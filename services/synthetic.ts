@@ -0,0 +1,216 @@
+import type { CMMFeature, MLResponse, ReportHeader } from '../types';
+import { mulberry32 } from './statModel';
+
+/**
+ * SYNTHETIC CMM REPORTS
+ * Seeded generator of measurement reports with a known defect morphology, for exercising the engine and
+ * building training sets beyond the hand-typed scenarios. Each label perturbs a part's feature list the way
+ * the defect deforms a casting; measurement noise is added on top and severity scales the effect in
+ * multiples of each feature's tolerance half-width. Output is the text table the legacy importer reads.
+ */
+
+type Label = MLResponse['Label'];
+type Severity = MLResponse['Severity'];
+
+// What the generator needs of a feature: identity, nominal, tolerance band and section
+export type TemplateFeature = Pick<CMMFeature, 'featureId' | 'axis' | 'nominal' | 'loTol' | 'upTol' | 'sectionType'>;
+
+export interface PartTemplate {
+  partId: string;
+  features: TemplateFeature[];
+}
+
+// --- Templates ---
+
+// Every characteristic the built-in A3188 scenarios measure
+export const DEFAULT_TEMPLATE: PartTemplate = {
+  partId: 'A3188-337-00',
+  features: [
+    { featureId: 'POINT1_X', axis: 'X', nominal: 12.5, loTol: -0.1, upTol: 0.1, sectionType: 'structural' },
+    { featureId: 'POINT1_Y', axis: 'Y', nominal: 24.3, loTol: -0.1, upTol: 0.1, sectionType: 'structural' },
+    { featureId: 'LINE3_X', axis: 'X', nominal: 60, loTol: -0.2, upTol: 0.2, sectionType: 'structural' },
+    { featureId: 'CIRCLE9_THICK_X', axis: 'X', nominal: 42, loTol: -0.2, upTol: 0.2, sectionType: 'thick' },
+    { featureId: 'CIRCLE9_THICK_Y', axis: 'Y', nominal: 17, loTol: -0.1, upTol: 0.1, sectionType: 'thick' },
+    { featureId: 'CYLINDER12_THICK_Z', axis: 'Z', nominal: 14.5, loTol: -0.2, upTol: 0.2, sectionType: 'thick' },
+    { featureId: 'CIRCLE16_THICK_X', axis: 'X', nominal: 13, loTol: -0.2, upTol: 0.2, sectionType: 'thick' },
+    { featureId: 'CIRCLE21_THICK_Y', axis: 'Y', nominal: 37, loTol: -0.1, upTol: 0.1, sectionType: 'thick' },
+    { featureId: 'POINT62_THIN_X', axis: 'X', nominal: 5.1, loTol: -0.1, upTol: 0.1, sectionType: 'thin' },
+    { featureId: 'POINT67_THIN_Y', axis: 'Y', nominal: 3.5, loTol: -0.1, upTol: 0.1, sectionType: 'thin' },
+    { featureId: 'POINT68_THIN_Z', axis: 'Z', nominal: 2.8, loTol: -0.1, upTol: 0.1, sectionType: 'thin' },
+    { featureId: 'LINE72_THIN_XZ', axis: 'XZ', nominal: 25, loTol: -0.1, upTol: 0.1, sectionType: 'thin' },
+    { featureId: 'ANGLE4_XY', axis: 'XY', nominal: 45, loTol: -1, upTol: 1, sectionType: 'angular' },
+    { featureId: 'ANGLE6_YZ', axis: 'YZ', nominal: 90, loTol: -1, upTol: 1, sectionType: 'angular' }
+  ]
+};
+
+// A measured report's features make a template for the same part
+export const templateFromFeatures = (partId: string, features: CMMFeature[]): PartTemplate => ({
+  partId,
+  features: features.map(({ featureId, axis, nominal, loTol, upTol, sectionType }) => ({ featureId, axis, nominal, loTol, upTol, sectionType }))
+});
+
+// --- Morphologies ---
+
+// Effect size in tolerance half-widths: Minor stays mostly inside the band, Critical is well outside it
+export const SEVERITY_AMPLITUDE: Record<Severity, number> = { Minor: 0.7, Moderate: 1.3, Critical: 2.2 };
+
+export const DEFAULT_NOISE_MM = 0.002;
+
+type Random = () => number;
+
+const uniform = (rng: Random, lo: number, hi: number) => lo + (hi - lo) * rng();
+
+// Box–Muller
+const gaussian = (rng: Random) => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+const halfWidth = (f: TemplateFeature) => (f.upTol - f.loTol) / 2;
+
+const isThin = (f: TemplateFeature) => f.sectionType === 'thin' || f.sectionType === 'structural';
+
+// Deviation each morphology adds to each feature, in mm (degrees for angular features)
+type Morphology = (features: TemplateFeature[], amplitude: number, rng: Random) => number[];
+
+const MORPHOLOGIES: Record<Exclude<Label, 'Good'>, Morphology> = {
+  // Heavy sections contract as they solidify last: systematic negative deviation on thick features only
+  Shrinkage_Porosity: (features, a, rng) =>
+    features.map(f => f.sectionType === 'thick' ? -a * halfWidth(f) * uniform(rng, 0.8, 1.2) : 0),
+
+  // Entrapped gas distorts thin walls in no preferred direction: as many pushed out as pulled in, in random
+  // order, and wide enough from Moderate up to clear the engine's scatter threshold
+  Gas_Porosity: (features, a, rng) => {
+    const signs = features.filter(isThin).map((_, i) => [i % 2 ? -1 : 1, rng()]).sort((x, y) => x[1] - y[1]).map(([sign]) => sign);
+    let next = 0;
+    return features.map(f => isThin(f) ? signs[next++] * a * 1.7 * halfWidth(f) * uniform(rng, 0.7, 1.3) : 0);
+  },
+
+  // Two flow fronts that did not fuse leave the joined walls rotated: one-sided angular error, a lighter
+  // pull on the structural features they meet and a slight drag the same way through the other walls
+  Cold_Shut: (features, a, rng) => {
+    const sign = rng() < 0.5 ? -1 : 1;
+    return features.map(f =>
+      f.sectionType === 'angular' ? sign * a * 0.5 * halfWidth(f) * uniform(rng, 0.8, 1.2)
+        : f.sectionType === 'structural' ? sign * a * 0.4 * halfWidth(f) * uniform(rng, 0.6, 1)
+        : sign * a * 0.15 * halfWidth(f) * uniform(rng, 0.6, 1));
+  },
+
+  // Rigid datum shift: the same translation on every positional feature, angles untouched
+  Feature_Offset: (features, a, rng) => {
+    const sign = rng() < 0.5 ? -1 : 1;
+    const reference = Math.min(...features.filter(f => f.sectionType !== 'angular').map(halfWidth));
+    const shift: Record<string, number> = {};
+    ['X', 'Y', 'Z'].forEach(axis => { shift[axis] = sign * a * reference * uniform(rng, 0.9, 1.1); });
+    return features.map(f => {
+      if (f.sectionType === 'angular') return 0;
+      const components = f.axis.toUpperCase().split('').filter(c => c in shift);
+      return components.length ? components.reduce((sum, c) => sum + shift[c], 0) / Math.sqrt(components.length) : shift.X;
+    });
+  },
+
+  // Local damage (flash, a knocked boss, a bent pin): a gross error on one or two features
+  Other_Defect: (features, a, rng) => {
+    const hit = new Set([Math.floor(rng() * features.length)]);
+    if (features.length > 3 && rng() < 0.5) hit.add(Math.floor(rng() * features.length));
+    return features.map((f, i) => hit.has(i) ? (rng() < 0.5 ? -1 : 1) * a * 2 * halfWidth(f) * uniform(rng, 0.8, 1.2) : 0);
+  }
+};
+
+// --- Generation ---
+
+export interface SyntheticOptions {
+  label: Label;
+  severity: Severity;
+  seed: number;
+  // Further defects superimposed on the main one
+  mix?: Exclude<Label, 'Good'>[];
+  // Measurement noise standard deviation in mm (degrees on angular features, scaled by their tolerance)
+  noise?: number;
+}
+
+export interface SyntheticReport {
+  label: Label;
+  severity: Severity;
+  seed: number;
+  mix: Exclude<Label, 'Good'>[];
+  header: ReportHeader;
+  features: CMMFeature[];
+  text: string;
+  fileName: string;
+}
+
+// `|| 0` folds -0, which would print as -0.000
+const round = (v: number, digits: number) => +v.toFixed(digits) || 0;
+
+export const generateFeatures = (template: PartTemplate, options: SyntheticOptions): CMMFeature[] => {
+  const rng = mulberry32(options.seed);
+  const amplitude = SEVERITY_AMPLITUDE[options.severity];
+  const noise = options.noise ?? DEFAULT_NOISE_MM;
+  const defects = [...new Set([...(options.label === 'Good' ? [] : [options.label]), ...(options.mix ?? [])])];
+  // Secondary defects of a mix are drawn at a lighter severity so the primary label stays dominant
+  const offsets = defects.map((label, i) => MORPHOLOGIES[label](template.features, i === 0 ? amplitude : amplitude * 0.6, rng));
+
+  return template.features.map((f, i) => {
+    const digits = f.sectionType === 'angular' ? 2 : 3;
+    const scale = f.sectionType === 'angular' ? halfWidth(f) / 0.1 : 1;
+    const deviation = round(offsets.reduce((sum, o) => sum + o[i], 0) + gaussian(rng) * noise * scale, digits);
+    return {
+      ...f,
+      actual: round(f.nominal + deviation, digits),
+      deviation,
+      outTol: deviation < f.loTol || deviation > f.upTol ? 1 : 0
+    };
+  });
+};
+
+// --- Export ---
+
+const fixed = (v: number, digits: number) => v.toFixed(digits);
+
+// Whitespace table as read by the legacy importer; the axis is spelled out when the name does not end in it
+export const formatLegacyReport = (header: ReportHeader, features: CMMFeature[]): string => {
+  const headerLines = [
+    'Report Name CMM REPORT',
+    `Part No. ${header.partId}`,
+    header.serial && `Serial No. ${header.serial}`,
+    header.date && `Date ${header.date}`
+  ].filter(Boolean);
+  const rows = features.map(f => {
+    const digits = f.sectionType === 'angular' ? 2 : 3;
+    const name = f.featureId.toUpperCase().endsWith(`_${f.axis.toUpperCase()}`) ? f.featureId : `${f.featureId} ${f.axis}`;
+    return [name, fixed(f.nominal, digits), fixed(f.actual, digits), fixed(f.deviation, digits), f.loTol, f.upTol, f.outTol].join(' ');
+  });
+  return [...headerLines, 'Feature Nom Act Dev LoTol UpTol OutTol', ...rows].join('\n');
+};
+
+export const generateReport = (template: PartTemplate, options: SyntheticOptions): SyntheticReport => {
+  const mix = (options.mix ?? []).filter(l => l !== options.label);
+  const features = generateFeatures(template, { ...options, mix });
+  const header: ReportHeader = { partId: template.partId, serial: `SYN-${options.seed}` };
+  const tag = [options.label, ...mix].map(l => l.toLowerCase().replace('_', '-')).join('+');
+  return {
+    label: options.label,
+    severity: options.severity,
+    seed: options.seed,
+    mix,
+    header,
+    features,
+    text: formatLegacyReport(header, features),
+    fileName: `${template.partId}_${tag}_${options.severity.toLowerCase()}_${options.seed}.txt`
+  };
+};
+
+// `count` reports per label and severity, seeds counting up from `seed`
+export const generateSet = (
+  template: PartTemplate,
+  options: { labels: Label[], severities: Severity[], count: number, seed: number } & Pick<SyntheticOptions, 'mix' | 'noise'>
+): SyntheticReport[] => {
+  const reports: SyntheticReport[] = [];
+  let seed = options.seed;
+  options.labels.forEach(label => {
+    // A good part has no defect severity to vary, nor a secondary defect
+    const good = label === 'Good';
+    (good ? ['Minor' as Severity] : options.severities).forEach(severity => {
+      for (let i = 0; i < options.count; i++) reports.push(generateReport(template, { label, severity, seed: seed++, mix: good ? [] : options.mix, noise: options.noise }));
+    });
+  });
+  return reports;
+};
@@ -0,0 +1,100 @@
+import type { InspectionRecord, ProcessParameters, ReportHeader } from '../types';
+
+/**
+ * TRACEABILITY
+ * Ties an inspection to the casting it measured: serial, die, cavity and shot counter, plus the machine
+ * settings of that shot when the report or the operator supplies them. Values entered by hand at the
+ * station override what the report header says.
+ */
+
+// --- Fields ---
+
+export const TRACE_FIELDS: { key: 'serial' | 'dieId' | 'cavity' | 'shot', label: string }[] = [
+  { key: 'serial', label: 'Serial' },
+  { key: 'dieId', label: 'Die ID' },
+  { key: 'cavity', label: 'Cavity' },
+  { key: 'shot', label: 'Shot No.' }
+];
+
+export const PROCESS_PARAMETERS: { key: keyof ProcessParameters, label: string, unit: string }[] = [
+  { key: 'metalTemp', label: 'Metal Temp', unit: '°C' },
+  { key: 'dieTemp', label: 'Die Temp', unit: '°C' },
+  { key: 'intensificationPressure', label: 'Intens. Pressure', unit: 'bar' },
+  { key: 'shotVelocity', label: 'Shot Velocity', unit: 'm/s' },
+  { key: 'vacuum', label: 'Vacuum', unit: 'mbar' }
+];
+
+export const formatProcess = (process: ProcessParameters | undefined) =>
+  PROCESS_PARAMETERS
+    .filter(p => process?.[p.key] !== undefined)
+    .map(p => `${p.label} ${process![p.key]} ${p.unit}`)
+    .join(' · ');
+
+// --- Manual Entry ---
+
+export type TraceEntry = Omit<ReportHeader, 'partId'>;
+
+export const isTraceEntryEmpty = (entry: TraceEntry) =>
+  Object.values(entry).every(v => typeof v === 'string' ? !v.trim() : !v || Object.keys(v).length === 0);
+
+// Blank entry fields keep the report's value
+export const applyTraceEntry = (header: ReportHeader, entry: TraceEntry): ReportHeader => {
+  const merged: ReportHeader = { ...header };
+  (['serial', 'dieId', 'cavity', 'shot', 'operator', 'machine', 'date'] as const).forEach(field => {
+    const value = entry[field]?.trim();
+    if (value) merged[field] = value;
+  });
+  const process = { ...header.process };
+  PROCESS_PARAMETERS.forEach(({ key }) => {
+    const value = entry.process?.[key];
+    if (value !== undefined && Number.isFinite(value)) process[key] = value;
+  });
+  if (Object.keys(process).length) merged.process = process;
+  return merged;
+};
+
+// --- Search & Filter ---
+
+export interface TraceFilter {
+  // Free text matched against serial, die, cavity, shot, operator, machine and source file
+  query: string;
+  dieId: string;
+  cavity: string;
+  // Inclusive yyyy-mm-dd bounds on the inspection timestamp
+  from: string;
+  to: string;
+  parameter: keyof ProcessParameters | '';
+  min?: number;
+  max?: number;
+}
+
+export const EMPTY_TRACE_FILTER: TraceFilter = { query: '', dieId: '', cavity: '', from: '', to: '', parameter: '' };
+
+export const isTraceFilterActive = (filter: TraceFilter) =>
+  !!(filter.query.trim() || filter.dieId || filter.cavity || filter.from || filter.to || filter.parameter);
+
+export const matchesTraceFilter = (record: InspectionRecord, filter: TraceFilter) => {
+  const h = record.header;
+  const query = filter.query.trim().toLowerCase();
+  if (query) {
+    const haystack = [h?.serial, h?.dieId, h?.cavity, h?.shot, h?.operator, h?.machine, record.source].filter(Boolean).join(' ').toLowerCase();
+    if (!haystack.includes(query)) return false;
+  }
+  if (filter.dieId && h?.dieId !== filter.dieId) return false;
+  if (filter.cavity && h?.cavity !== filter.cavity) return false;
+  if (filter.from && record.timestamp < new Date(`${filter.from}T00:00:00`).getTime()) return false;
+  if (filter.to && record.timestamp > new Date(`${filter.to}T23:59:59.999`).getTime()) return false;
+  if (filter.parameter) {
+    // Filtering on a parameter drops inspections that never recorded it
+    const value = h?.process?.[filter.parameter];
+    if (value === undefined) return false;
+    if (filter.min !== undefined && value < filter.min) return false;
+    if (filter.max !== undefined && value > filter.max) return false;
+  }
+  return true;
+};
+
+// Distinct recorded values of a header field, for filter drop-downs
+export const traceValues = (records: InspectionRecord[], field: 'dieId' | 'cavity') =>
+  Array.from(new Set(records.map(r => r.header?.[field]).filter((v): v is string => !!v)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { CMMFeature } from '../types';
+import { alignFeatures, bestFit } from '../services/alignment';
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+// A point measured on the given axes, its deviation a function of its nominal position
+const point = (id: string, nominal: [number, number, number], deviation: (p: [number, number, number]) => [number, number, number], axes: readonly string[] = AXES): CMMFeature[] => {
+  const d = deviation(nominal);
+  return AXES.map((axis, i) => ({
+    featureId: `${id}_${axis}`, axis, nominal: nominal[i], actual: nominal[i] + d[i], deviation: d[i],
+    loTol: -0.1, upTol: 0.1, outTol: Math.abs(d[i]) > 0.1 ? 1 : 0, sectionType: 'structural' as const
+  })).filter(f => axes.includes(f.axis));
+};
+
+const NOMINALS: [number, number, number][] = [[0, 0, 0], [40, 0, 5], [40, 30, 10], [0, 30, 0], [20, 15, 20]];
+const centroid = [20, 15, 7];
+
+describe('bestFit', () => {
+  it('recovers a known translation and small rotation exactly', () => {
+    const t = [0.12, -0.05, 0.08];
+    const w = [0.001, -0.002, 0.0015]; // radians
+    const features = NOMINALS.flatMap((n, i) => point(`POINT${i + 1}`, n, p => {
+      const [x, y, z] = p.map((v, k) => v - centroid[k]);
+      return [t[0] + w[1] * z - w[2] * y, t[1] + w[2] * x - w[0] * z, t[2] + w[0] * y - w[1] * x];
+    }));
+    const fit = bestFit(features)!;
+    expect(fit.mode).toBe('translation+rotation');
+    expect(fit.points).toBe(5);
+    expect(fit.translation.x).toBeCloseTo(t[0], 6);
+    expect(fit.translation.y).toBeCloseTo(t[1], 6);
+    expect(fit.translation.z).toBeCloseTo(t[2], 6);
+    expect(fit.rotation.z).toBeCloseTo(w[2] * 180 / Math.PI, 4);
+    expect(fit.explained).toBeCloseTo(1, 6);
+    expect(alignFeatures(features, fit).every(f => Math.abs(f.deviation) < 1e-6 && f.outTol === 0)).toBe(true);
+  });
+
+  it('leaves an axis measured once out of the fit', () => {
+    const features = [
+      ...NOMINALS.slice(0, 3).flatMap((n, i) => point(`CIRCLE${i + 1}`, n, () => [0.15, 0.15, 0], ['X', 'Y'])),
+      ...point('PNT9', [10, 10, 10], () => [0, 0, 0.4], ['Z'])
+    ];
+    const fit = bestFit(features)!;
+    expect(fit.translation.z).toBe(0);
+    expect(fit.residuals.some(r => r.axis === 'Z')).toBe(false);
+    expect(alignFeatures(features, fit).find(f => f.axis === 'Z')!.deviation).toBe(0.4);
+  });
+
+  it('needs three positional features', () => {
+    expect(bestFit(NOMINALS.slice(0, 2).flatMap((n, i) => point(`POINT${i + 1}`, n, () => [0.2, 0.2, 0.2])))).toBeNull();
+    expect(bestFit(NOMINALS.flatMap((n, i) => point(`PLANE${i + 1}`, n, () => [0.2, 0.2, 0.2])))).toBeNull();
+  });
+
+  it('explains little of a uniform contraction', () => {
+    const features = NOMINALS.flatMap((n, i) => point(`POINT${i + 1}`, n, p => p.map((v, k) => -0.004 * (v - centroid[k])) as [number, number, number]));
+    expect(bestFit(features)!.explained).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { CMMFeature, EngineeredMetrics } from '../types';
+import { calculateMetrics, LocalInferenceEngine } from '../services/engine';
+
+// --- Arbitraries ---
+
+// Reports carry deviations to a tenth of a micron and feature maps wall thicknesses to a micron. Unrounded
+// doubles reach subnormals or differ in the last bit only, where the thickness/deviation correlation is
+// ill-conditioned and feature order changes it in the third digit
+const featureArb: fc.Arbitrary<CMMFeature> = fc.record({
+  featureId: fc.constantFrom('POINT1', 'CIRCLE9', 'CYLINDER12', 'ANGLE4', 'LINE3'),
+  axis: fc.constantFrom('X', 'Y', 'Z', 'XY'),
+  nominal: fc.double({ min: -500, max: 500, noNaN: true }),
+  deviation: fc.double({ min: -2, max: 2, noNaN: true }),
+  loTol: fc.constantFrom(-0.05, -0.1, -0.2, -1),
+  upTol: fc.constantFrom(0.05, 0.1, 0.2, 1),
+  outTol: fc.constantFrom(0, 1),
+  sectionType: fc.constantFrom<CMMFeature['sectionType']>('thick', 'thin', 'structural', 'angular'),
+  wallThickness: fc.option(fc.double({ min: 0.5, max: 20, noNaN: true }).map(t => Math.round(t * 1e3) / 1e3), { nil: undefined }),
+  criticality: fc.option(fc.constantFrom<'CTQ' | 'KC'>('CTQ', 'KC'), { nil: undefined }),
+  dieZone: fc.option(fc.constantFrom('gate', 'overflow', 'core'), { nil: undefined })
+}).map(f => {
+  const deviation = Math.round(f.deviation * 1e4) / 1e4;
+  return { ...f, deviation, actual: f.nominal + deviation };
+});
+
+const featuresArb = fc.array(featureArb, { maxLength: 40 });
+
+const withDeviation = (features: CMMFeature[], map: (d: number) => number) =>
+  features.map(f => ({ ...f, deviation: map(f.deviation) }));
+
+// Relative tolerance: sums in a different order differ in the last bits
+const near = (a: number, b: number, tol = 1e-9) => Math.abs(a - b) <= tol * (1 + Math.abs(a) + Math.abs(b));
+
+const expectNear = (actual: EngineeredMetrics, expected: EngineeredMetrics, keys: (keyof EngineeredMetrics)[]) =>
+  keys.forEach(k => expect(near(actual[k], expected[k]), `${k}: ${actual[k]} vs ${expected[k]}`).toBe(true));
+
+const ALL_KEYS = Object.keys(calculateMetrics([])) as (keyof EngineeredMetrics)[];
+
+// --- Properties ---
+
+describe('calculateMetrics', () => {
+  it('returns finite metrics for any feature list', () => {
+    fc.assert(fc.property(featuresArb, features => {
+      const m = calculateMetrics(features);
+      ALL_KEYS.forEach(k => expect(Number.isFinite(m[k]), k).toBe(true));
+    }));
+  });
+
+  it('keeps bounded metrics in range', () => {
+    fc.assert(fc.property(featuresArb, features => {
+      const m = calculateMetrics(features);
+      expect(m.std_dev).toBeGreaterThanOrEqual(0);
+      expect(m.thickness_ratio).toBeGreaterThanOrEqual(0);
+      [m.directionality, m.oot_ratio, m.zone_oot_concentration, m.fit_explained].forEach(v => {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThanOrEqual(1);
+      });
+      expect(Math.abs(m.thickness_dev_corr)).toBeLessThanOrEqual(1 + 1e-12);
+      expect(m.abs_mean_dev + 1e-12).toBeGreaterThanOrEqual(Math.abs(m.mean_deviation));
+      expect(m.max_angular_dev + 1e-12).toBeGreaterThanOrEqual(m.angular_mean_abs_dev);
+      expect(m.residual_oot_count).toBeLessThanOrEqual(features.length);
+    }));
+  });
+
+  it('counts agree with the feature list', () => {
+    fc.assert(fc.property(featuresArb, features => {
+      const m = calculateMetrics(features);
+      expect(m.oot_count).toBe(features.filter(f => f.outTol === 1).length);
+      expect(m.ctq_oot_count).toBeLessThanOrEqual(m.oot_count);
+      expect(m.thick_count + m.thin_count).toBe(features.filter(f => f.sectionType !== 'angular').length);
+    }));
+  });
+
+  it('does not depend on feature order', () => {
+    const pair = featuresArb.chain(fs => fc.tuple(fc.constant(fs), fc.shuffledSubarray(fs, { minLength: fs.length, maxLength: fs.length })));
+    fc.assert(fc.property(pair, ([features, shuffled]) => {
+      expectNear(calculateMetrics(shuffled), calculateMetrics(features), ALL_KEYS);
+    }));
+  });
+
+  it('mirrors a sign flip of every deviation', () => {
+    fc.assert(fc.property(featuresArb, features => {
+      const m = calculateMetrics(features);
+      const flipped = calculateMetrics(withDeviation(features, d => -d));
+      expectNear(flipped, m, ['std_dev', 'abs_mean_dev', 'directionality', 'thickness_ratio', 'angular_mean_abs_dev', 'max_angular_dev', 'thickness_dev_corr']);
+      expect(near(flipped.mean_deviation, -m.mean_deviation)).toBe(true);
+      expect(near(flipped.thick_mean_dev, -m.thick_mean_dev)).toBe(true);
+      expect(near(flipped.thin_mean_dev, -m.thin_mean_dev)).toBe(true);
+    }));
+  });
+
+  it('scales scatter with the deviations and ignores a common offset', () => {
+    fc.assert(fc.property(featuresArb, fc.double({ min: 0.1, max: 10, noNaN: true }), fc.double({ min: -1, max: 1, noNaN: true }), (features, k, c) => {
+      const m = calculateMetrics(features);
+      const scaled = calculateMetrics(withDeviation(features, d => d * k));
+      expect(near(scaled.std_dev, m.std_dev * k)).toBe(true);
+      expect(near(scaled.abs_mean_dev, m.abs_mean_dev * k)).toBe(true);
+      expect(near(calculateMetrics(withDeviation(features, d => d + c)).std_dev, m.std_dev, 1e-6)).toBe(true);
+    }));
+  });
+});
+
+// --- Edge Cases ---
+
+describe('calculateMetrics edge cases', () => {
+  it('returns all zeros for an empty feature list', () => {
+    const m = calculateMetrics([]);
+    ALL_KEYS.forEach(k => expect(m[k], k).toBe(0));
+  });
+
+  it('has no scatter or direction when every deviation is zero', () => {
+    fc.assert(fc.property(featuresArb, features => {
+      const m = calculateMetrics(withDeviation(features, () => 0));
+      expect(m.std_dev).toBe(0);
+      expect(m.mean_deviation).toBe(0);
+      expect(m.directionality).toBe(0);
+      expect(m.thickness_ratio).toBe(0);
+    }));
+  });
+
+  it('falls back to the absolute floor for the thickness ratio without thin or angular features', () => {
+    const thick = (deviation: number): CMMFeature => ({ featureId: 'CIRCLE9', axis: 'X', nominal: 42, actual: 42 + deviation, deviation, loTol: -0.2, upTol: 0.2, outTol: 0, sectionType: 'thick' });
+    expect(calculateMetrics([thick(-0.1), thick(-0.3)]).thickness_ratio).toBeCloseTo(0.2 / 0.05);
+  });
+
+  it('classifies an empty report as Good, which is why the pipeline rejects it as unreadable first', () => {
+    expect(LocalInferenceEngine.classify('X', [], calculateMetrics([])).Label).toBe('Good');
+  });
+});
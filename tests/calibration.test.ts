@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { EngineeredMetrics, FeedbackRecord } from '../types';
+import { confusionMatrix } from '../services/calibration';
+import { feedbackSamples } from '../services/feedbackStore';
+import { DEFAULT_RULE_SET } from '../services/ruleEngine';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+import { SCENARIOS, type ScenarioId } from '../services/scenarios';
+
+const ALIGNMENT_METRICS = ['fit_points', 'datum_shift', 'datum_shift_ratio', 'datum_rotation', 'fit_explained', 'residual_std_dev', 'residual_oot_count'] as const;
+
+// A feedback record as stored before alignment existed: the fit metrics are absent, not 0
+const preAlignmentRecord = (id: ScenarioId): FeedbackRecord => {
+  const outcome = inspectText(SCENARIOS[id], createInspectionContext(), { source: `${id}.txt` });
+  const metrics = { ...outcome.metrics! } as Partial<EngineeredMetrics>;
+  ALIGNMENT_METRICS.forEach(k => { delete metrics[k]; });
+  return {
+    partId: outcome.header!.partId,
+    timestamp: 0,
+    features: outcome.features,
+    metrics: metrics as EngineeredMetrics,
+    predicted: outcome.result!.Label,
+    corrected: outcome.result!.Label,
+    evidence: 'Sectioning',
+    notes: ''
+  };
+};
+
+describe('feedbackSamples', () => {
+  it('computes metrics a record predates from its stored features', () => {
+    const record = preAlignmentRecord('offset');
+    const [sample] = feedbackSamples([record]);
+    ALIGNMENT_METRICS.forEach(k => expect(Number.isFinite(sample.metrics[k])).toBe(true));
+    expect(sample.metrics.fit_explained).toBeGreaterThan(0.8);
+    expect(sample.metrics.mean_deviation).toBe(record.metrics.mean_deviation);
+  });
+
+  it('scores old records the way the engine called them', () => {
+    const records = (['good', 'shrinkage', 'offset'] as const).map(preAlignmentRecord);
+    expect(confusionMatrix(DEFAULT_RULE_SET, feedbackSamples(records)).accuracy).toBe(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { buildCertificate, certificateToCsv, certificateToHtml, signOffErrors } from '../services/certificate';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+import { SCENARIOS, type ScenarioId } from '../services/scenarios';
+
+const inspect = (id: ScenarioId) => {
+  const outcome = inspectText(SCENARIOS[id], createInspectionContext(), { source: `${id}.txt` });
+  return { ...outcome, header: outcome.header!, metrics: outcome.metrics!, result: outcome.result! };
+};
+
+const issuedAt = new Date('2026-03-02T08:15:00Z');
+
+describe('buildCertificate', () => {
+  it('suggests the pipeline disposition and lets the inspector override it', () => {
+    expect(buildCertificate(inspect('good'), { issuedAt }).disposition).toBe('accept');
+    const gas = buildCertificate(inspect('gas'), { issuedAt, disposition: 'mrb' });
+    expect(gas.suggestedDisposition).toBe('reject');
+    expect(gas.disposition).toBe('mrb');
+  });
+
+  it('sends a verdict the engine could not call cleanly to MRB', () => {
+    const { result, ...rest } = inspect('good');
+    expect(buildCertificate({ ...rest, result: { ...result, Needs_Review: true } }).suggestedDisposition).toBe('mrb');
+  });
+
+  it('requires an inspector, and a comment when overriding the engine', () => {
+    const cert = buildCertificate(inspect('gas'), { issuedAt });
+    expect(signOffErrors(cert, { inspector: ' ' })).toEqual(['Inspector name is required']);
+    expect(signOffErrors({ ...cert, disposition: 'accept' }, { inspector: 'J. Ortiz' })).toHaveLength(1);
+    expect(signOffErrors({ ...cert, disposition: 'accept' }, { inspector: 'J. Ortiz', comment: 'Customer deviation 114' })).toEqual([]);
+  });
+});
+
+describe('certificate exports', () => {
+  const cert = buildCertificate(inspect('shrinkage'), {
+    issuedAt,
+    signOff: { inspector: 'A. Inspector', signedAt: '2026-03-02T08:20:00.000Z', comment: 'Sectioned, "voids" confirmed <2mm' }
+  });
+
+  it('lists every feature in the CSV with OOT marked', () => {
+    const lines = certificateToCsv(cert).split('\n');
+    const table = lines.slice(lines.findIndex(l => l.startsWith('Feature,Axis')) + 1);
+    expect(table).toHaveLength(cert.features.length);
+    expect(table.filter(l => l.includes(',OOT')).length).toBe(cert.metrics.oot_count);
+    expect(lines).toContain('Comment,"Sectioned, ""voids"" confirmed <2mm"');
+  });
+
+  it('escapes report text in the printable page', () => {
+    const html = certificateToHtml(cert);
+    expect(html).toContain('&quot;voids&quot; confirmed &lt;2mm');
+    expect(html).not.toContain('DRAFT');
+    expect(html).toContain('GD&amp;T (1 of 2 failing)');
+    expect(certificateToHtml({ ...cert, signOff: undefined })).toContain('DRAFT — NOT SIGNED');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { loadCorpus } from '../cli/corpus';
+import { ENGINE_VERSION } from '../services/engine';
+import { createInspectionContext } from '../services/pipeline';
+import { runCase } from '../services/regression';
+import { SCENARIOS, type ScenarioId } from '../services/scenarios';
+
+// Every case runs against the built-in rule set with no model, maps or baselines, as on a fresh station
+const { corpus, readReport } = await loadCorpus(fileURLToPath(new URL('./corpus', import.meta.url)));
+const ctx = createInspectionContext();
+
+describe('regression corpus', () => {
+  it('was recorded with the current engine version', () => {
+    // A deliberate behaviour change re-records the expectations and bumps the corpus version with it
+    expect(corpus.engine).toBe(ENGINE_VERSION);
+  });
+
+  it.each(corpus.cases.map(c => [c.id, c] as const))('%s keeps its verdict', async (_, c) => {
+    const run = runCase(c.id, await readReport(c.file), c.file, ctx);
+    expect({ disposition: run.disposition, label: run.label, severity: run.severity }).toEqual(c.expected);
+  });
+
+  it.each(Object.keys(SCENARIOS) as ScenarioId[])('carries the built-in %s scenario verbatim', async id => {
+    expect((await readReport(`reports/scenario-${id}.txt`)).trim()).toBe(SCENARIOS[id]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { CMMFeature } from '../types';
+import { calculateMetrics } from '../services/engine';
+import { detectFindings } from '../services/findings';
+import { DEFAULT_RULE_SET } from '../services/ruleEngine';
+
+const row = (featureId: string, axis: string, deviation: number, sectionType: CMMFeature['sectionType'], tol = 0.1): CMMFeature => ({
+  featureId, axis, nominal: 10, actual: 10 + deviation, deviation, loTol: -tol, upTol: tol,
+  outTol: Math.abs(deviation) > tol ? 1 : 0, sectionType
+});
+
+describe('detectFindings', () => {
+  it('sets aside every axis of a feature together', () => {
+    // Contraction shows on the X row of the circle; its Y row is nearly nominal but is the same hole
+    const features = [
+      row('CIR1_X', 'X', -0.45, 'thick', 0.2), row('CIR1_Y', 'Y', -0.03, 'thick', 0.2), row('CIR2_X', 'X', 0.02, 'thick', 0.2),
+      row('PT3_X', 'X', 0.01, 'thin'), row('PT4_Y', 'Y', -0.01, 'thin'), row('PT5_Z', 'Z', 0.005, 'thin'), row('PT6_X', 'X', -0.006, 'thin')
+    ];
+    const findings = detectFindings(DEFAULT_RULE_SET, features, calculateMetrics);
+    expect(findings.map(f => [f.Label, f.Features.map(x => x.featureId)])).toEqual([['Shrinkage_Porosity', ['CIR1_X', 'CIR1_Y']]]);
+  });
+});
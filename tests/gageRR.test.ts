@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { CMMFeature } from '../types';
+import { analyzeGageStudy, fTestP, noiseFromStudy, selectNoise, validateNoise, type GageObservation } from '../services/gageRR';
+import { calculateMetrics } from '../services/engine';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+
+const row = (featureId: string, deviation: number, tol = 0.1): CMMFeature => ({
+  featureId, axis: 'X', nominal: 0, actual: deviation, deviation, loTol: -tol, upTol: tol,
+  outTol: Math.abs(deviation) > tol ? 1 : 0, sectionType: 'structural'
+});
+
+// Part effects, appraiser effects and a ±e trial-to-trial swing, with no part-by-appraiser interaction
+const PART = [-0.1, 0, 0.1];
+const APPRAISER = [0, 0.02];
+const E = 0.005;
+
+const study = (trials = 2) => PART.flatMap((a, i) => APPRAISER.flatMap((b, j) =>
+  Array.from({ length: trials }, (_, t): GageObservation => ({
+    source: `P${i}-O${j}-T${t}`, part: `SN${i}`, appraiser: `OP${j}`,
+    features: [row('POINT1_X', a + b + (t % 2 ? -E : E))]
+  }))));
+
+describe('fTestP', () => {
+  it('gives upper tail probabilities of the F distribution', () => {
+    expect(fTestP(1, 10, 10)).toBeCloseTo(0.5, 6);
+    expect(fTestP(4.965, 1, 10)).toBeCloseTo(0.05, 3);
+    expect(fTestP(0, 2, 6)).toBe(1);
+    expect(fTestP(Infinity, 2, 6)).toBe(0);
+  });
+});
+
+describe('analyzeGageStudy', () => {
+  it('splits the variance into repeatability, reproducibility and part variation', () => {
+    const { study: result, errors } = analyzeGageStudy('A3188', study(), 'operator');
+    expect(errors).toEqual([]);
+    const f = result!.features[0];
+    // No interaction: pooled, so repeatability is SS_error / (df_interaction + df_error) = 12e² / 8
+    const repeat = 1.5 * E ** 2;
+    expect(f.interactionPooled).toBe(true);
+    expect(f.repeatability ** 2).toBeCloseTo(repeat, 12);
+    expect(f.reproducibility ** 2).toBeCloseTo((1.2e-3 - repeat) / 6, 12);
+    expect(f.partVariation ** 2).toBeCloseTo((0.04 - repeat) / 4, 12);
+    expect(f.pctTolerance).toBeCloseTo(6 * f.grr / 0.2 * 100, 9);
+    expect(f.verdict).toBe('unacceptable');
+    expect(result).toMatchObject({ parts: ['SN0', 'SN1', 'SN2'], appraisers: ['OP0', 'OP1'], trials: 2, reports: 12 });
+  });
+
+  it('rejects unbalanced studies and single trials', () => {
+    expect(analyzeGageStudy('A3188', study().slice(1), 'operator').errors).toEqual([
+      'The study must be balanced with at least 2 trials per part and appraiser:',
+      'Part SN0 by OP0: 1 trial'
+    ]);
+    expect(analyzeGageStudy('A3188', study(1), 'operator').errors).toHaveLength(7);
+    expect(analyzeGageStudy('A3188', study().filter(o => o.appraiser === 'OP0'), 'operator').errors)
+      .toEqual(['At least 2 appraisers (operator) are needed, found 1']);
+  });
+});
+
+describe('measurement noise floor', () => {
+  it('takes the gage variance out of the scatter metrics', () => {
+    const noise = noiseFromStudy(analyzeGageStudy('A3188', study(), 'operator').study!, 0);
+    const features = [row('POINT1_X', 0.05), row('POINT1_X', -0.05), row('POINT1_X', 0.01)];
+    const raw = calculateMetrics(features);
+    const floored = calculateMetrics(features, [], noise);
+    expect(raw.gage_noise).toBe(0);
+    expect(floored.gage_noise).toBeCloseTo(noise.features['POINT1_X|X'], 12);
+    expect(floored.std_dev ** 2).toBeCloseTo(raw.std_dev ** 2 - noise.features['POINT1_X|X'] ** 2, 12);
+  });
+
+  it('gives findings the same floor as the verdict', () => {
+    // In tolerance, with a scatter a 0.05 mm gage accounts for
+    const text = [
+      'Part No. A3188-337-00', 'Feature Nom Act Dev LoTol UpTol OutTol',
+      'POINT62_THIN_X 5.100 5.160 0.060 -0.1 0.1 0', 'POINT67_THIN_Y 3.500 3.440 -0.060 -0.1 0.1 0',
+      'POINT68_THIN_Z 2.800 2.855 0.055 -0.1 0.1 0', 'LINE72_THIN_XZ 25.000 24.945 -0.055 -0.1 0.1 0',
+      'CIRCLE16_THICK_X 13.000 13.010 0.010 -0.2 0.2 0'
+    ].join('\n');
+    const noise = { partId: 'A3188-337-00', features: {}, pooled: 0.05, study: { parts: 10, appraisers: 3, trials: 3, appraiserField: 'operator', reports: 90 }, createdAt: 0 };
+    const raw = inspectText(text, createInspectionContext(), { source: 'a.txt' }).result!;
+    const floored = inspectText(text, createInspectionContext({ noise: [noise] }), { source: 'a.txt' }).result!;
+    expect(raw.Findings!.map(f => f.Label)).toContain(raw.Label);
+    expect(floored.Label).toBe('Good');
+    expect(floored.Findings).toEqual([]);
+  });
+
+  it('matches profiles by part number regardless of surrounding spaces', () => {
+    const noise = { partId: ' a3188-337-00 ', features: {}, pooled: 0.05, study: { parts: 10, appraisers: 3, trials: 3, appraiserField: 'operator', reports: 90 }, createdAt: 0 };
+    expect(selectNoise([noise], 'A3188-337-00 ')).toBe(noise);
+    expect(validateNoise(noise).noise?.partId).toBe('a3188-337-00');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { CMMFeature, GdtCharacteristic } from '../types';
+import { evaluateGdt, groupFeatures, validateCharacteristics } from '../services/gdt';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+import { SCENARIOS } from '../services/scenarios';
+
+const row = (featureId: string, axis: string, nominal: number, deviation: number, tol = 0.1): CMMFeature => ({
+  featureId, axis, nominal, actual: nominal + deviation, deviation, loTol: -tol, upTol: tol,
+  outTol: Math.abs(deviation) > tol ? 1 : 0, sectionType: 'structural'
+});
+
+// Four plane points on a 100 × 60 face, Z heights given
+const plane = (heights: number[]) => [[0, 0], [100, 0], [100, 60], [0, 60]].flatMap(([x, y], i) => [
+  row(`PLANE1_PT${i + 1}_X`, 'X', x, 0), row(`PLANE1_PT${i + 1}_Y`, 'Y', y, 0), row(`PLANE1_PT${i + 1}_Z`, 'Z', 10, heights[i])
+]);
+
+const check = (features: CMMFeature[], c: Partial<GdtCharacteristic>) =>
+  evaluateGdt(features, [{ id: 'C1', type: 'position', features: '*', tolerance: 0.2, ...c }]);
+
+describe('groupFeatures', () => {
+  it('puts the axis rows of a feature back together', () => {
+    const groups = groupFeatures([row('CIRCLE9_THICK_X', 'X', 42, 0.1), row('POINT1_X', 'X', 1, 0), row('CIRCLE9_THICK_Y', 'Y', 17, 0.1), row('CIRCLE9_THICK', 'D', 8, 0.02)]);
+    expect(groups.map(g => [g.baseId, Object.keys(g.components)])).toEqual([['CIRCLE9_THICK', ['X', 'Y', 'D']], ['POINT1', ['X']]]);
+  });
+
+  it('takes axes from the report as text, not as a pattern', () => {
+    const groups = groupFeatures([row('BOSS2_X(', 'X(', 5, 0.01), row('boss2_y', 'Y', 5, 0.01), row('PT1_AX', '.X', 1, 0)]);
+    expect(groups.map(g => g.baseId)).toEqual(['BOSS2', 'PT1_AX']);
+  });
+});
+
+describe('evaluateGdt', () => {
+  const hole = (dx: number, dy: number, size?: number) => [
+    row('HOLE3_X', 'X', 30, dx), row('HOLE3_Y', 'Y', 20, dy), ...(size === undefined ? [] : [row('HOLE3', 'D', 8, size, 0.05)])
+  ];
+
+  it('reports diametral true position and the MMC bonus from the measured size', () => {
+    expect(check(hole(0.06, 0.08), { features: 'HOLE3' })[0]).toMatchObject({ value: expect.closeTo(0.2, 9), bonus: 0, status: 'pass' });
+    expect(check(hole(0.06, 0.1), { features: 'HOLE3' })[0].status).toBe('fail');
+    // Hole at +0.03 is 0.08 above its smallest size; a pin at the same size is 0.02 below its largest
+    expect(check(hole(0.06, 0.1, 0.03), { features: 'HOLE3', mmc: true })[0]).toMatchObject({ bonus: expect.closeTo(0.08, 9), status: 'pass' });
+    expect(check(hole(0.06, 0.1, 0.03), { features: 'HOLE3', mmc: true, size: 'external' })[0]).toMatchObject({ bonus: expect.closeTo(0.02, 9), status: 'fail' });
+  });
+
+  it('checks position per feature a pattern matches', () => {
+    const results = check([row('HOLE1_X', 'X', 0, 0.01), row('HOLE2_X', 'X', 50, 0.3)], { features: 'HOLE*' });
+    expect(results.map(r => [r.features[0], r.status])).toEqual([['HOLE1', 'pass'], ['HOLE2', 'fail']]);
+  });
+
+  it('takes the tilt out of flatness but not out of parallelism', () => {
+    const tilted = plane([0, 0.1, 0.1, 0]);
+    expect(check(tilted, { type: 'flatness', features: 'PLANE1_PT*', tolerance: 0.05 })[0]).toMatchObject({ value: expect.closeTo(0, 9), status: 'pass' });
+    expect(check(tilted, { type: 'parallelism', features: 'PLANE1_PT*', tolerance: 0.05 })[0]).toMatchObject({ value: expect.closeTo(0.1, 9), status: 'fail' });
+    expect(check(plane([0, 0.04, 0, 0.04]), { type: 'flatness', features: 'PLANE1_PT*', tolerance: 0.05 })[0].value).toBeCloseTo(0.04, 9);
+  });
+
+  it('reads profile as twice the largest deviation', () => {
+    expect(check([row('SURF_P1_Z', 'Z', 0, 0.04), row('SURF_P2_Z', 'Z', 5, -0.07)], { type: 'profile', features: 'SURF_P*', tolerance: 0.1 })[0])
+      .toMatchObject({ value: expect.closeTo(0.14, 9), status: 'fail' });
+  });
+
+  it('marks characteristics the report cannot evaluate as not measured', () => {
+    expect(check([row('POINT1_X', 'X', 0, 0.5)], { features: 'CIRCLE9' })[0].status).toBe('not_measured');
+    expect(check(plane([0, 0, 0, 0]).slice(0, 3), { type: 'flatness', features: 'PLANE1_PT*' })[0].status).toBe('not_measured');
+  });
+});
+
+describe('validateCharacteristics', () => {
+  it('rejects bad tolerances, duplicate ids and modifiers of another type', () => {
+    expect(validateCharacteristics([
+      { id: 'A', type: 'position', features: 'HOLE1', tolerance: 0.2, mmc: true },
+      { id: 'A', type: 'flatness', features: 'PLANE*', tolerance: 0, mmc: true }
+    ])).toEqual([
+      "characteristics[1]: duplicate id 'A'",
+      'characteristics[1].tolerance: positive number in mm',
+      'characteristics[1]: mmc and size apply to position only'
+    ]);
+  });
+});
+
+describe('GD&T in the pipeline', () => {
+  it('evaluates the characteristics of the part feature map and feeds them into the metrics', () => {
+    const outcome = inspectText(SCENARIOS.shrinkage, createInspectionContext(), { source: 'shrinkage.txt' });
+    const position = outcome.result!.Gdt!.find(r => r.id === 'POS-CIRCLE9')!;
+    expect(position.status).toBe('fail');
+    expect(outcome.metrics!.gdt_fail_count).toBe(outcome.result!.Gdt!.filter(r => r.status === 'fail').length);
+    expect(outcome.metrics!.position_utilization).toBeCloseTo(position.value / position.tolerance, 9);
+  });
+});
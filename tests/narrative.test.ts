@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { draftNarrative, narrativeInput, parseDraft, topDeviations, NarrativeError, TEMPLATE_PROVIDER, type DraftProse, type NarrativeProvider } from '../services/narrative';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+import { SCENARIOS, type ScenarioId } from '../services/scenarios';
+
+const inspect = (id: ScenarioId) => {
+  const outcome = inspectText(SCENARIOS[id], createInspectionContext(), { source: `${id}.txt` });
+  return narrativeInput(outcome.result!, outcome.metrics!, outcome.header!, outcome.features);
+};
+
+const fixed = (prose: DraftProse): NarrativeProvider => ({ id: 'fixed', label: 'Fixed', offline: true, draft: async () => prose });
+
+describe('topDeviations', () => {
+  it('ranks rows by the share of their tolerance band they use', () => {
+    const row = (featureId: string, deviation: number, loTol: number, upTol: number) =>
+      ({ featureId, axis: 'X', nominal: 0, actual: deviation, deviation, loTol, upTol, outTol: 0, sectionType: 'thin' as const });
+    expect(topDeviations([row('A', 0.05, -0.1, 0.1), row('B', -0.05, -0.05, 0.5), row('C', 0.2, -0.1, 0.5)], 2).map(f => f.featureId)).toEqual(['B', 'A']);
+  });
+});
+
+describe('template provider', () => {
+  it('drafts the same 8D for the same inspection, with the verdict taken from the engine', async () => {
+    const input = inspect('shrinkage');
+    const draft = await draftNarrative(TEMPLATE_PROVIDER, input);
+    expect(draft).toEqual(await draftNarrative(TEMPLATE_PROVIDER, input));
+    expect(draft).toMatchObject({ label: input.result.Label, severity: input.result.Severity, provider: 'template' });
+    expect(draft.problem).toContain(input.deviations[0].featureId);
+    expect(draft.rootCause).toContain(input.result.Root_Cause);
+    expect(draft.correctiveActions[0]).toBe(input.result.Recommended_Action);
+  });
+
+  it('asks for no containment on a good part', async () => {
+    expect((await draftNarrative(TEMPLATE_PROVIDER, inspect('good'))).containment).toMatch(/^None required/);
+  });
+});
+
+describe('draftNarrative', () => {
+  const prose = { problem: 'Part out of tolerance.', containment: 'Hold the lot.', rootCause: 'Thermal contraction in heavy sections.', correctiveActions: ['Raise intensification pressure.'] };
+
+  it('keeps the engine label and severity whatever the provider writes', async () => {
+    const input = inspect('shrinkage');
+    expect(await draftNarrative(fixed(prose), input)).toMatchObject({ label: input.result.Label, severity: input.result.Severity });
+  });
+
+  it('discards a draft that names a defect the engine did not find', async () => {
+    const input = inspect('shrinkage');
+    await expect(draftNarrative(fixed({ ...prose, rootCause: 'Most likely Gas Porosity from blocked vents.' }), input)).rejects.toThrow(NarrativeError);
+  });
+
+  it('checks containment and corrective actions as well', async () => {
+    const input = inspect('shrinkage');
+    await expect(draftNarrative(fixed({ ...prose, containment: 'X-ray the lot for cold shut.' }), input)).rejects.toThrow(NarrativeError);
+    await expect(draftNarrative(fixed({ ...prose, correctiveActions: ['Clean the vents against gas porosity.'] }), input)).rejects.toThrow(NarrativeError);
+  });
+});
+
+describe('parseDraft', () => {
+  it('rejects replies that are not a complete draft', () => {
+    expect(() => parseDraft('Sure! Here is your 8D')).toThrow('did not return JSON');
+    expect(() => parseDraft(JSON.stringify({ problem: 'x', containment: '', rootCause: 'y', correctiveActions: 'z' }))).toThrow('missing containment, correctiveActions');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { Nonconformance } from '../types';
+import { advanceNcr, assignNcr, commentNcr, createNcr, findOpenNcr, ncrsToCsv, summarizeNcrs } from '../services/ncr';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+import { SCENARIOS, type ScenarioId } from '../services/scenarios';
+
+const inspect = (id: ScenarioId) => {
+  const outcome = inspectText(SCENARIOS[id], createInspectionContext(), { source: `${id}.txt` });
+  return { ...outcome, header: outcome.header!, metrics: outcome.metrics!, result: outcome.result! };
+};
+
+const T0 = Date.UTC(2026, 2, 2, 8, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+const raise = (id: ScenarioId = 'gas', now = T0) => createNcr(inspect(id), { by: 'A. Inspector', reportText: SCENARIOS[id], now }).ncr!;
+
+// Applies each step to the result of the previous one, failing the test on the first refusal
+const run = (ncr: Nonconformance, ...steps: ((n: Nonconformance) => { ncr: Nonconformance | null, errors: string[] })[]) =>
+  steps.reduce((current, step) => {
+    const { ncr: next, errors } = step(current);
+    expect(errors).toEqual([]);
+    return next!;
+  }, ncr);
+
+describe('createNcr', () => {
+  it('raises rejected parts with the report and the engine output attached', () => {
+    const ncr = raise();
+    expect(ncr).toMatchObject({ status: 'open', label: 'Gas_Porosity', partId: ncr.header.partId, createdAt: T0 });
+    expect(ncr.attachments.map(a => a.kind)).toEqual(['report', 'engine']);
+    expect(JSON.parse(ncr.attachments[1].content).verdict.label).toBe('Gas_Porosity');
+    expect(ncr.events).toEqual([{ at: T0, by: 'A. Inspector', action: 'created', to: 'open', note: 'Raised from gas.txt' }]);
+  });
+
+  it('does not raise accepted parts or anonymous NCRs', () => {
+    expect(createNcr(inspect('good'), { by: 'A. Inspector' }).errors).toEqual(['The engine accepted this part; there is nothing to raise']);
+    expect(createNcr(inspect('gas'), { by: ' ' }).errors).toEqual(['Name or badge is required']);
+  });
+
+  it('finds the open NCR of a report so it is not raised twice', () => {
+    const ncr = raise();
+    expect(findOpenNcr([ncr], inspect('gas'))?.id).toBe(ncr.id);
+    expect(findOpenNcr([{ ...ncr, status: 'closed' }], inspect('gas'))).toBeUndefined();
+  });
+});
+
+describe('NCR lifecycle', () => {
+  it('moves one step at a time to closed and logs every change', () => {
+    const closed = run(raise(),
+      n => assignNcr(n, 'M. Quality', 'A. Inspector', T0 + 1),
+      n => advanceNcr(n, { by: 'M. Quality', note: 'Lot 42 on hold' }, T0 + 2),
+      n => advanceNcr(n, { by: 'M. Quality' }, T0 + 3),
+      n => advanceNcr(n, { by: 'MRB', disposition: 'scrap' }, T0 + 4),
+      n => commentNcr(n, 'Sectioned: voids at gate', 'M. Quality', T0 + 5),
+      n => advanceNcr(n, { by: 'M. Quality' }, T0 + 6)
+    );
+    expect(closed).toMatchObject({ status: 'closed', owner: 'M. Quality', disposition: 'scrap', closedAt: T0 + 6, updatedAt: T0 + 6 });
+    expect(closed.events.map(e => [e.action, e.to ?? '', e.note ?? ''])).toEqual([
+      ['created', 'open', 'Raised from gas.txt'],
+      ['owner', 'M. Quality', ''],
+      ['status', 'containment', 'Lot 42 on hold'],
+      ['status', 'mrb_review', ''],
+      ['status', 'dispositioned', 'Scrap'],
+      ['comment', '', ''],
+      ['status', 'closed', '']
+    ]);
+    expect(advanceNcr(closed, { by: 'M. Quality' }).errors).toEqual([`${closed.id} is closed`]);
+    expect(commentNcr(closed, 'Customer informed', 'M. Quality').errors).toEqual([]);
+  });
+
+  it('needs an owner for containment and a justified disposition to leave MRB review', () => {
+    const ncr = raise();
+    expect(advanceNcr(ncr, { by: 'M. Quality' }).errors).toEqual(['Assign an owner before containment']);
+    const review = run(ncr, n => assignNcr(n, 'M. Quality', 'M. Quality'), n => advanceNcr(n, { by: 'M. Quality' }), n => advanceNcr(n, { by: 'M. Quality' }));
+    expect(advanceNcr(review, { by: 'MRB' }).errors).toEqual(['Choose the MRB disposition']);
+    expect(advanceNcr(review, { by: 'MRB', disposition: 'use_as_is' }).errors).toEqual(['Use as is needs a justification note']);
+    expect(advanceNcr(review, { by: 'MRB', disposition: 'use_as_is', note: 'Customer deviation 114' }).ncr!.events.at(-1)!.note).toBe('Use As Is: Customer deviation 114');
+  });
+});
+
+describe('NCR dashboard', () => {
+  it('counts open NCRs by part, defect and age', () => {
+    const ncrs = [raise('gas', T0), raise('gas', T0 - 3 * DAY), raise('shrinkage', T0 - 40 * DAY), { ...raise('gas', T0 - DAY / 2), status: 'closed' as const, closedAt: T0 }];
+    const summary = summarizeNcrs(ncrs, T0 + 1000);
+    expect(summary.open).toBe(3);
+    expect(summary.byLabel.map(l => [l.key, l.count])).toEqual([['Gas_Porosity', 2], ['Shrinkage_Porosity', 1]]);
+    expect(summary.byAge.map(b => b.count)).toEqual([1, 1, 0, 1]);
+    expect(summary.byStatus.find(s => s.status === 'closed')!.count).toBe(1);
+    expect(ncrsToCsv(ncrs, T0).split('\n')).toHaveLength(5);
+  });
+});
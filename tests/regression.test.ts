@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots, formatChangeReport, validateCorpus, type CaseRun, type RegressionSnapshot } from '../services/regression';
+
+const snapshot = (engine: string, runs: CaseRun[]): RegressionSnapshot => ({ engine, corpusVersion: 1, createdAt: '', runs });
+
+const v5 = snapshot('MORPHOLOGICAL_v5', [
+  { id: 'good', disposition: 'accept', label: 'Good', severity: 'Minor', confidence: 99 },
+  { id: 'gas', disposition: 'reject', label: 'Gas_Porosity', severity: 'Critical', confidence: 99 },
+  { id: 'empty', disposition: 'error' }
+]);
+
+describe('diffSnapshots', () => {
+  it('ignores confidence movements that keep the verdict', () => {
+    const v6 = snapshot('MORPHOLOGICAL_v6', v5.runs.map(r => ({ ...r, confidence: r.confidence && r.confidence - 10 })));
+    expect(diffSnapshots(v5, v6)).toEqual([]);
+  });
+
+  it('reports label, severity and disposition changes', () => {
+    const v6 = snapshot('MORPHOLOGICAL_v6', [
+      { id: 'good', disposition: 'review', label: 'Good', severity: 'Minor' },
+      { id: 'gas', disposition: 'reject', label: 'Gas_Porosity', severity: 'Moderate' },
+      { id: 'empty', disposition: 'error' }
+    ]);
+    expect(diffSnapshots(v5, v6).map(c => c.id)).toEqual(['good', 'gas']);
+  });
+
+  it('reports cases added to or dropped from the corpus', () => {
+    const v6 = snapshot('MORPHOLOGICAL_v6', [...v5.runs.slice(1), { id: 'offset', disposition: 'reject', label: 'Feature_Offset', severity: 'Critical' }]);
+    const changes = diffSnapshots(v5, v6);
+    expect(changes.find(c => c.id === 'good')?.after).toBeUndefined();
+    expect(changes.find(c => c.id === 'offset')?.before).toBeUndefined();
+  });
+});
+
+describe('formatChangeReport', () => {
+  it('lists each changed case with both verdicts', () => {
+    const v6 = snapshot('MORPHOLOGICAL_v6', [{ ...v5.runs[0] }, { id: 'gas', disposition: 'reject', label: 'Cold_Shut', severity: 'Moderate' }, v5.runs[2]]);
+    const report = formatChangeReport(v5, v6, diffSnapshots(v5, v6));
+    expect(report.split('\n')).toEqual([
+      'MORPHOLOGICAL_v5 → MORPHOLOGICAL_v6: 1 of 3 cases changed',
+      '  gas  reject Gas_Porosity/Critical  →  reject Cold_Shut/Moderate'
+    ]);
+  });
+});
+
+describe('validateCorpus', () => {
+  it('rejects duplicate ids and cases without an expectation', () => {
+    const { corpus, errors } = validateCorpus({
+      version: 1,
+      engine: 'MORPHOLOGICAL_v5',
+      cases: [
+        { id: 'a', file: 'a.txt', description: '', expected: { disposition: 'accept' } },
+        { id: 'a', file: 'b.txt', description: '' }
+      ]
+    });
+    expect(corpus).toBeNull();
+    expect(errors).toEqual([`cases[1]: duplicate id 'a'`, 'a: expected.disposition is required']);
+  });
+});
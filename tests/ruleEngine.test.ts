@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULE_SET, findRuleSetVersion, nextVersion, ruleSetRef, type RuleSet } from '../services/ruleEngine';
+import { createInspectionContext, inspectText } from '../services/pipeline';
+import { SCENARIOS } from '../services/scenarios';
+
+// An edit of the built-in set saved on the station before a release bumped the built-in to the same number
+const stationEdit: RuleSet = { ...DEFAULT_RULE_SET, family: 'Station edit' };
+
+describe('findRuleSetVersion', () => {
+  it('resolves a station-saved version to the stored set, not the built-in of the same number', () => {
+    const ref = ruleSetRef(stationEdit);
+    expect(ref).toBe(`${DEFAULT_RULE_SET.id}@${DEFAULT_RULE_SET.version}`);
+    expect(findRuleSetVersion([stationEdit], ref)).toBe(stationEdit);
+  });
+
+  it('keeps the built-in set apart from station versions', () => {
+    const outcome = inspectText(SCENARIOS.good, createInspectionContext(), { source: 'good.txt' });
+    expect(outcome.result!.Rule_Set).toBe(`${DEFAULT_RULE_SET.id}@builtin-${DEFAULT_RULE_SET.version}`);
+    expect(findRuleSetVersion([stationEdit], outcome.result!.Rule_Set)).toBe(DEFAULT_RULE_SET);
+    expect(nextVersion([stationEdit], DEFAULT_RULE_SET.id)).toBe(DEFAULT_RULE_SET.version + 1);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMetrics, LocalInferenceEngine } from '../services/engine';
+import { importReport } from '../services/importers';
+import { DEFAULT_TEMPLATE, generateReport, generateSet, type SyntheticOptions } from '../services/synthetic';
+
+const report = (options: Partial<SyntheticOptions>) =>
+  generateReport(DEFAULT_TEMPLATE, { label: 'Good', severity: 'Moderate', seed: 1, ...options });
+
+const metricsOf = (options: Partial<SyntheticOptions>) => calculateMetrics(report(options).features);
+
+const seeds = Array.from({ length: 20 }, (_, i) => i + 1);
+
+describe('generateReport', () => {
+  it('gives the same report for the same seed and a different one for another', () => {
+    expect(report({ label: 'Gas_Porosity', seed: 42 }).text).toBe(report({ label: 'Gas_Porosity', seed: 42 }).text);
+    expect(report({ label: 'Gas_Porosity', seed: 43 }).text).not.toBe(report({ label: 'Gas_Porosity', seed: 42 }).text);
+  });
+
+  it('round-trips through the legacy importer', () => {
+    const r = report({ label: 'Cold_Shut', severity: 'Critical', seed: 7 });
+    const parsed = importReport(r.text, { fileName: r.fileName });
+    expect(parsed.format).toBe('legacy-table');
+    expect(parsed.header.partId).toBe(DEFAULT_TEMPLATE.partId);
+    expect(parsed.diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+    expect(parsed.features.map(f => [f.featureId, f.axis, f.deviation, f.outTol, f.sectionType]))
+      .toEqual(r.features.map(f => [f.featureId, f.axis, f.deviation, f.outTol, f.sectionType]));
+  });
+
+  it('contracts thick sections only for shrinkage', () => {
+    seeds.forEach(seed => {
+      const m = metricsOf({ label: 'Shrinkage_Porosity', seed });
+      expect(m.thick_mean_dev).toBeLessThan(-0.05);
+      expect(Math.abs(m.thin_mean_dev)).toBeLessThan(0.01);
+    });
+  });
+
+  it('shifts every positional feature the same way for an offset', () => {
+    seeds.forEach(seed => {
+      const deviations = report({ label: 'Feature_Offset', seed }).features.filter(f => f.sectionType !== 'angular').map(f => f.deviation);
+      expect(new Set(deviations.map(Math.sign)).size).toBe(1);
+    });
+  });
+
+  it('scatters gas porosity in both directions', () => {
+    const mixed = seeds.filter(seed => new Set(report({ label: 'Gas_Porosity', seed }).features.filter(f => f.sectionType === 'thin').map(f => Math.sign(f.deviation))).size === 2);
+    expect(mixed.length).toBeGreaterThan(seeds.length / 2);
+  });
+
+  it('grows with severity', () => {
+    (['Shrinkage_Porosity', 'Gas_Porosity', 'Cold_Shut', 'Feature_Offset', 'Other_Defect'] as const).forEach(label => {
+      const [minor, moderate, critical] = (['Minor', 'Moderate', 'Critical'] as const).map(severity => metricsOf({ label, severity, seed: 3 }).abs_mean_dev);
+      expect(minor).toBeLessThan(moderate);
+      expect(moderate).toBeLessThan(critical);
+    });
+  });
+});
+
+describe('generateSet', () => {
+  it('generates each label and severity with consecutive seeds, good parts once per count', () => {
+    const set = generateSet(DEFAULT_TEMPLATE, { labels: ['Good', 'Cold_Shut'], severities: ['Minor', 'Critical'], count: 2, seed: 10, mix: ['Gas_Porosity'] });
+    expect(set.map(r => [r.label, r.severity, r.seed, r.mix])).toEqual([
+      ['Good', 'Minor', 10, []],
+      ['Good', 'Minor', 11, []],
+      ['Cold_Shut', 'Minor', 12, ['Gas_Porosity']],
+      ['Cold_Shut', 'Minor', 13, ['Gas_Porosity']],
+      ['Cold_Shut', 'Critical', 14, ['Gas_Porosity']],
+      ['Cold_Shut', 'Critical', 15, ['Gas_Porosity']]
+    ]);
+    expect(new Set(set.map(r => r.fileName)).size).toBe(set.length);
+  });
+});
+
+// Every morphology is recovered as its own label from Moderate up, at least `min` of the 20 seeds; the Minor
+// rows are scored in the README. Damage that lands on a heavy section reads as shrinkage, hence the lower floor
+describe('engine on synthetic reports', () => {
+  it.each([
+    ['Good', 'Minor', 18],
+    ['Shrinkage_Porosity', 'Moderate', 18],
+    ['Shrinkage_Porosity', 'Critical', 18],
+    ['Gas_Porosity', 'Moderate', 18],
+    ['Gas_Porosity', 'Critical', 18],
+    ['Cold_Shut', 'Moderate', 18],
+    ['Cold_Shut', 'Critical', 18],
+    ['Feature_Offset', 'Minor', 18],
+    ['Feature_Offset', 'Moderate', 18],
+    ['Feature_Offset', 'Critical', 18],
+    ['Other_Defect', 'Moderate', 16],
+    ['Other_Defect', 'Critical', 16]
+  ] as const)('recovers %s (%s) in at least %i of 20', (label, severity, min) => {
+    const hits = seeds.filter(seed => {
+      const r = report({ label, severity, seed });
+      return LocalInferenceEngine.classify(r.header.partId, r.features, calculateMetrics(r.features)).Label === label;
+    });
+    expect(hits.length).toBeGreaterThanOrEqual(min);
+  });
+});
@@ -0,0 +1,420 @@
+// --- Domain-Specific Types ---
+
+export interface CMMFeature {
+  featureId: string;
+  axis: string;
+  nominal: number;
+  actual: number;
+  deviation: number;
+  loTol: number;
+  upTol: number;
+  outTol: number;
+  sectionType: 'thick' | 'thin' | 'structural' | 'angular';
+  // From the part's feature map, when one covers this feature
+  wallThickness?: number;
+  criticality?: Criticality;
+  dieZone?: string;
+}
+
+export interface EngineeredMetrics {
+  thickness_ratio: number;
+  std_dev: number;
+  oot_count: number;
+  oot_ratio: number;
+  mean_deviation: number;
+  directionality: number; 
+  thick_mean_dev: number;
+  thin_mean_dev: number;
+  angular_mean_abs_dev: number;
+  abs_mean_dev: number;
+  max_angular_dev: number;
+  thick_count: number;
+  thin_count: number;
+  // Feature-map metrics; 0 when the part has no map (and on records saved before maps existed)
+  ctq_oot_count: number;
+  thickness_dev_corr: number;
+  zone_oot_concentration: number;
+  // Rigid best fit of the point and circle features (services/alignment.ts); 0 when the report has too few
+  // of them to fit. Feedback saved before alignment existed has them computed from its stored features
+  fit_points: number;
+  datum_shift: number;
+  // Shift over the mean tolerance half-width of the fitted features
+  datum_shift_ratio: number;
+  datum_rotation: number;
+  fit_explained: number;
+  // Scatter and OOT count of the deviations left after alignment (as measured when there is no fit)
+  residual_std_dev: number;
+  residual_oot_count: number;
+  // GD&T characteristics from the part's feature map (services/gdt.ts); 0 when the map has none.
+  // Utilization is the measured zone over the allowed one (tolerance plus MMC bonus), worst case
+  gdt_count: number;
+  gdt_fail_count: number;
+  position_utilization: number;
+  form_utilization: number;
+  // Gage R&R standard deviation of the report's features (0 without a study for the part). When present,
+  // std_dev and residual_std_dev have the gage variance taken out, so scatter is the part's and not the CMM's
+  gage_noise: number;
+}
+
+export interface MLResponse {
+  Part_ID: string;
+  Label: 'Shrinkage_Porosity' | 'Gas_Porosity' | 'Cold_Shut' | 'Feature_Offset' | 'Other_Defect' | 'Good';
+  Confidence: number;
+  Severity: 'Minor' | 'Moderate' | 'Critical';
+  Root_Cause: string;
+  Recommended_Action: string;
+  Rule_Set?: string;
+  Decision_Source?: 'rules' | 'model' | 'ensemble';
+  Votes?: { rules: LabelVote, model?: LabelVote };
+  // Normalized probability per label (sums to 1) and the gap between the top two
+  Probabilities?: Record<MLResponse['Label'], number>;
+  Margin?: number;
+  // Top two labels are too close to call: the verdict must be confirmed by an inspector
+  Needs_Review?: boolean;
+  // Co-occurring defects, each localized to the features that carry it
+  Findings?: Finding[];
+  // Audit trail of the rule evaluation behind the verdict
+  Trace?: DecisionTrace;
+  // Delta against the golden baseline of the part's cavity, when one is registered
+  Baseline?: BaselineComparison;
+  // Recorded shot parameters outside the rule set's process window that bear on the label
+  Process_Excursions?: ProcessExcursion[];
+  // GD&T characteristics of the part's feature map, evaluated on this report
+  Gdt?: GdtResult[];
+}
+
+export interface Finding {
+  Label: MLResponse['Label'];
+  Confidence: number;
+  Severity: MLResponse['Severity'];
+  Features: Pick<CMMFeature, 'featureId' | 'axis'>[];
+}
+
+export interface LabelVote {
+  label: MLResponse['Label'];
+  confidence: number;
+}
+
+// --- Feature Map Types ---
+
+// CTQ: critical to quality; KC: key characteristic
+export type Criticality = 'CTQ' | 'KC';
+
+export interface FeatureMapEntry {
+  // Exact feature id, or a pattern with * wildcards (e.g. CIRCLE9_*)
+  featureId: string;
+  // Omitted: applies to every axis of the feature
+  axis?: string;
+  // Omitted: derived from wallThickness against the map's wall bands
+  sectionType?: CMMFeature['sectionType'];
+  // Nominal wall thickness at the feature, in mm
+  wallThickness?: number;
+  criticality?: Criticality;
+  dieZone?: string;
+}
+
+export interface FeatureMap {
+  partId: string;
+  description?: string;
+  // Walls at or below `thin` mm are thin sections, at or above `thick` mm are heavy sections
+  wallBands?: { thin: number, thick: number };
+  entries: FeatureMapEntry[];
+  // GD&T callouts from the drawing, checked on every report of the part
+  characteristics?: GdtCharacteristic[];
+  updatedAt?: number;
+}
+
+// --- GD&T Types ---
+
+export type GdtType = 'position' | 'profile' | 'flatness' | 'parallelism';
+
+export interface GdtCharacteristic {
+  // Label as on the drawing or control plan, e.g. "POS-CIRCLE9"
+  id: string;
+  type: GdtType;
+  // Base feature id (report rows without their axis suffix, e.g. CIRCLE9_THICK), or a pattern with * wildcards.
+  // Position is checked per matched feature; the other types treat every matched feature as one point set
+  features: string;
+  // Zone width in mm; a diameter for position
+  tolerance: number;
+  // Position only: bonus tolerance from the measured size, read from the feature's D (diameter) row
+  mmc?: boolean;
+  // Position only: internal for holes (default), external for pins and bosses
+  size?: 'internal' | 'external';
+  // Flatness and parallelism: axis normal to the plane (default Z)
+  direction?: 'X' | 'Y' | 'Z';
+  // Datum reference frame as on the drawing, for display; the report is already measured in it
+  datum?: string;
+}
+
+export interface GdtResult {
+  id: string;
+  type: GdtType;
+  // Base ids that were evaluated
+  features: string[];
+  // Measured zone width in mm; 0 when not measured
+  value: number;
+  tolerance: number;
+  // MMC bonus added to the tolerance
+  bonus: number;
+  // not_measured: the report has no rows the characteristic can be evaluated from
+  status: 'pass' | 'fail' | 'not_measured';
+}
+
+// --- Golden Baseline Types ---
+
+// One approved report's deviations, keyed by "featureId|axis"
+export interface GoldenSample {
+  source: string;
+  addedAt: number;
+  deviations: Record<string, number>;
+}
+
+export interface BaselineFeature {
+  featureId: string;
+  axis: string;
+  mean: number;
+  std: number;
+  n: number;
+}
+
+export interface GoldenBaseline {
+  // partId|cavity
+  id: string;
+  partId: string;
+  // '' when the baseline covers every cavity of the part
+  cavity: string;
+  // Drift warning band as a fraction of each feature's tolerance width
+  bandFraction: number;
+  samples: GoldenSample[];
+  features: BaselineFeature[];
+  updatedAt?: number;
+}
+
+export interface BaselineDelta {
+  featureId: string;
+  axis: string;
+  // Deviation minus the golden mean deviation
+  delta: number;
+  band: number;
+  exceeds: boolean;
+}
+
+export interface BaselineComparison {
+  baselineId: string;
+  cavity: string;
+  samples: number;
+  // Mean |delta| / band over the matched features; 1 means deltas sit at the band edge on average
+  driftScore: number;
+  // 1 when every delta points the same way (uniform shift), 0 when they cancel out
+  coherence: number;
+  exceeded: number;
+  matched: number;
+  // within_band: matches the golden parts; drift: uniform shift (tool wear, die temperature, fixturing);
+  // localized: a few features moved on their own, which points at the casting itself
+  pattern: 'within_band' | 'drift' | 'localized';
+  deltas: BaselineDelta[];
+}
+
+// --- Measurement System Types ---
+
+// Gage noise of one part number's CMM program, from a Gage R&R study (services/gageRR.ts)
+export interface MeasurementNoise {
+  partId: string;
+  // Combined repeatability and reproducibility standard deviation per "featureId|axis", in mm
+  features: Record<string, number>;
+  // Root mean square over the studied features, for features the study did not cover
+  pooled: number;
+  // What the study was: parts × appraisers × trials and the appraiser field
+  study: { parts: number, appraisers: number, trials: number, appraiserField: string, reports: number };
+  createdAt: number;
+}
+
+// --- Import Types ---
+
+// Die-casting machine settings recorded for the shot that produced the part
+export interface ProcessParameters {
+  metalTemp?: number;               // °C
+  dieTemp?: number;                 // °C
+  intensificationPressure?: number; // bar
+  shotVelocity?: number;            // m/s
+  vacuum?: number;                  // mbar
+}
+
+export interface ProcessWindow {
+  min?: number;
+  max?: number;
+}
+
+export interface ProcessExcursion {
+  parameter: keyof ProcessParameters;
+  value: number;
+  window: ProcessWindow;
+}
+
+// One row of the casting cell controller's shot-monitoring log
+export interface ShotRecord {
+  // `${DIE ID}|${shot}`, so counters of different dies do not collide
+  key: string;
+  shot: string;
+  dieId?: string;
+  timestamp: number;
+  process: ProcessParameters;
+  source: string;
+}
+
+export interface ReportHeader {
+  partId: string;
+  serial?: string;
+  dieId?: string;
+  // Die cavity the part was cast in; golden baselines are kept per cavity
+  cavity?: string;
+  // Casting machine shot counter
+  shot?: string;
+  operator?: string;
+  machine?: string;
+  // As written in the report; parse with Date.parse where a timestamp is needed
+  date?: string;
+  process?: ProcessParameters;
+}
+
+export interface ImportDiagnostic {
+  // 1-based line in the report; 0 for formats without line structure (XML)
+  line: number;
+  raw: string;
+  // error: the row was rejected; warning: the row was kept but needs a look
+  severity: 'error' | 'warning';
+  reason: string;
+  // Kept rows only: index into ParsedReport.features
+  featureIndex?: number;
+}
+
+export interface FeatureSource {
+  line: number;
+  raw: string;
+}
+
+export interface ParsedReport {
+  // Importer id that produced this report
+  format: string;
+  header: ReportHeader;
+  features: CMMFeature[];
+  // Where each feature was read from, parallel to features
+  sources: FeatureSource[];
+  diagnostics: ImportDiagnostic[];
+}
+
+// --- Decision Trace Types ---
+
+export interface ConditionTrace {
+  metric: keyof EngineeredMetrics;
+  abs: boolean;
+  op: string;
+  // Either a constant threshold or the metric it is compared against
+  threshold: number | string;
+  observed: number;
+  compared: number;
+  met: boolean;
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  description: string;
+  depth: number;
+  // 'skipped' when a parent rule did not fire, so the rule was never evaluated
+  status: 'fired' | 'not_met' | 'skipped';
+  expression: string;
+  conditions: ConditionTrace[];
+  effects: { label: MLResponse['Label'], mode: 'add' | 'set', points: number, before: number, after: number }[];
+}
+
+export interface DecisionTrace {
+  ruleSet: string;
+  baseScores: Record<MLResponse['Label'], number>;
+  rules: RuleTrace[];
+  scores: Record<MLResponse['Label'], number>;
+  severity: { level: MLResponse['Severity'], gate: string | null };
+}
+
+// --- Persistence Types ---
+
+export interface InspectionRecord {
+  id?: number;
+  partId: string;
+  timestamp: number;
+  source: string;
+  // Report header metadata; absent on records saved before multi-format import
+  header?: ReportHeader;
+  result: MLResponse;
+  metrics: EngineeredMetrics;
+  features: CMMFeature[];
+}
+
+export interface FeedbackRecord {
+  id?: number;
+  partId: string;
+  timestamp: number;
+  features: CMMFeature[];
+  metrics: EngineeredMetrics;
+  predicted: MLResponse['Label'];
+  corrected: MLResponse['Label'];
+  evidence: 'Sectioning' | 'X-Ray' | 'CT Scan' | 'Visual' | 'Other';
+  notes: string;
+  ruleSet?: string;
+}
+
+// --- Nonconformance Types ---
+
+// open → containment → mrb_review → dispositioned → closed
+export type NcrStatus = 'open' | 'containment' | 'mrb_review' | 'dispositioned' | 'closed';
+
+export type MrbDisposition = 'scrap' | 'rework' | 'use_as_is' | 'return_to_supplier';
+
+export interface NcrComment {
+  at: number;
+  by: string;
+  text: string;
+}
+
+export interface NcrAttachment {
+  name: string;
+  mimeType: string;
+  // report: the measured CMM report; engine: the inspection certificate JSON; file: added by hand
+  kind: 'report' | 'engine' | 'file';
+  // Reports and engine output as text; files added by hand as data URLs
+  content: string;
+  encoding: 'text' | 'dataUrl';
+  addedAt: number;
+  addedBy: string;
+}
+
+// Audit log entry; one per change, never edited or removed
+export interface NcrEvent {
+  at: number;
+  by: string;
+  action: 'created' | 'status' | 'owner' | 'comment' | 'attachment';
+  from?: string;
+  to?: string;
+  note?: string;
+}
+
+export interface Nonconformance {
+  id: string;
+  partId: string;
+  source: string;
+  header: ReportHeader;
+  // The engine's verdict when the NCR was raised
+  label: MLResponse['Label'];
+  severity: MLResponse['Severity'];
+  confidence: number;
+  description: string;
+  status: NcrStatus;
+  owner?: string;
+  disposition?: MrbDisposition;
+  createdAt: number;
+  updatedAt: number;
+  closedAt?: number;
+  comments: NcrComment[];
+  attachments: NcrAttachment[];
+  events: NcrEvent[];
+}
@@ -0,0 +1,32 @@
+// --- Browser Download ---
+
+export const downloadText = (fileName: string, content: string, mimeType = "text/csv") => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Opens a standalone page and the print dialog, where the browser offers Save as PDF;
+// downloads the page instead when pop-ups are blocked
+export const printHtml = (fileName: string, html: string) => {
+  const w = window.open("", "_blank");
+  if (!w) {
+    downloadText(fileName, html, "text/html");
+    return;
+  }
+  w.document.write(html);
+  w.document.close();
+  w.focus();
+  w.print();
+};
+
+// Files kept as data URLs (attachments added by hand) download as they were uploaded
+export const downloadDataUrl = (fileName: string, dataUrl: string) => {
+  const a = document.createElement("a");
+  a.href = dataUrl;
+  a.download = fileName;
+  a.click();
+};
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Node build of the UI-free engine: the inspect-os CLI plus an importable library entry
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        'inspect-os': 'cli/inspect-os.ts',
+        lib: 'lib.ts'
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: chunk => chunk.name === 'inspect-os' ? '#!/usr/bin/env node' : ''
+      }
+    }
+  }
+});